@@ -12,6 +12,7 @@
 import React from 'react';
 
 import PianoScreen from '@/src/screens/PianoScreen';
+import { getRecordingEventCount } from '@/src/utils/recordingTracks';
 
 export default function HomeScreen() {
   return (
@@ -19,8 +20,8 @@ export default function HomeScreen() {
       onSettingsChange={(settings) => {
         console.log('設定已更新:', settings);
       }}
-      onRecordingComplete={(recordingId) => {
-        console.log('錄音完成:', recordingId);
+      onRecordingComplete={(recording) => {
+        console.log('錄音完成:', recording.id, `${getRecordingEventCount(recording)} 個事件`);
       }}
       onError={(error) => {
         console.error('應用程式錯誤:', error);
@@ -0,0 +1,123 @@
+/**
+ * 簡譜鋼琴應用程式 - 節拍指示元件
+ *
+ * 本文件實作了節拍器的視覺拍點：每一拍一個圓點，目前的拍子放大並亮起，
+ * 強拍以強調色顯示，靜音的拍子以空心圓表示。
+ * 目前拍子以 reanimated 的共享值傳入，更新時不需重新渲染元件樹。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet, useColorScheme } from 'react-native';
+import Animated, { SharedValue, useAnimatedStyle, withTiming } from 'react-native-reanimated';
+
+import type { BeatAccent } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+
+// ========== 元件 Props 介面 ==========
+
+export interface BeatIndicatorProps {
+  /** 每一拍的重音等級 */
+  accents: BeatAccent[];
+
+  /** 目前的拍子索引，節拍器停止時為 -1 */
+  currentBeat: SharedValue<number>;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+interface BeatDotProps {
+  index: number;
+  accent: BeatAccent;
+  currentBeat: SharedValue<number>;
+  idleColor: string;
+}
+
+// ========== 拍點元件 ==========
+
+/**
+ * 單一拍點
+ */
+const BeatDot: React.FC<BeatDotProps> = memo(({ index, accent, currentBeat, idleColor }) => {
+  const activeColor = accent === 'strong' ? BASE_COLORS.accent : BASE_COLORS.primary;
+
+  const dotStyle = useAnimatedStyle(() => {
+    const isActive = currentBeat.value === index;
+    return {
+      transform: [{ scale: withTiming(isActive ? 1.4 : 1, { duration: 60 }) }],
+      backgroundColor: accent === 'mute' ? 'transparent' : isActive ? activeColor : idleColor,
+      borderColor: isActive ? activeColor : idleColor,
+    };
+  });
+
+  return <Animated.View style={[styles.dot, dotStyle]} />;
+});
+
+BeatDot.displayName = 'BeatDot';
+
+// ========== 節拍指示元件 ==========
+
+/**
+ * 節拍指示元件
+ */
+const BeatIndicator: React.FC<BeatIndicatorProps> = memo(({
+  accents,
+  currentBeat,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, style]} accessibilityElementsHidden importantForAccessibility="no-hide-descendants">
+      {accents.map((accent, index) => (
+        <BeatDot
+          key={index}
+          index={index}
+          accent={accent}
+          currentBeat={currentBeat}
+          idleColor={themeColors.border.primary}
+        />
+      ))}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    borderWidth: 1,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+BeatIndicator.displayName = 'BeatIndicator';
+
+// ========== 導出元件 ==========
+
+export default BeatIndicator;
@@ -0,0 +1,259 @@
+/**
+ * 簡譜鋼琴應用程式 - 調性選擇元件
+ *
+ * 本文件實作了顯示目前調號 (1=X) 的按鈕，點擊後開啟選擇面板，
+ * 可從 12 個主音與大調/小調中選擇，琴鍵的簡譜標記會依此重新計算。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { MusicalKey, KeyMode } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import {
+  KEY_TONICS,
+  KEY_MODE_LABELS,
+  getKeyDisplayName,
+  spellNoteName,
+  toJianpuKeySignature,
+  isSameKey,
+} from '../../utils/keySignature';
+
+// ========== 元件 Props 介面 ==========
+
+export interface KeySelectorProps {
+  /** 目前調性 */
+  value: MusicalKey;
+
+  /** 調性變更回調 */
+  onChange?: (key: MusicalKey) => void;
+
+  /** 是否停用 */
+  disabled?: boolean;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 調性選擇元件 ==========
+
+/**
+ * 調性選擇元件
+ */
+const KeySelector: React.FC<KeySelectorProps> = memo(({
+  value,
+  onChange,
+  disabled = false,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+  const [mode, setMode] = useState<KeyMode>(value.mode);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 按鈕上顯示的調號
+   */
+  const buttonLabel = useMemo(() => `1=${toJianpuKeySignature(value).label}`, [value]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 開啟選擇面板
+   */
+  const handleOpen = useCallback(() => {
+    setMode(value.mode);
+    setIsPickerVisible(true);
+  }, [value.mode]);
+
+  /**
+   * 選擇主音
+   */
+  const handleSelect = useCallback((key: MusicalKey) => {
+    setIsPickerVisible(false);
+    if (!isSameKey(key, value)) {
+      onChange?.(key);
+    }
+  }, [value, onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.button, { borderColor: themeColors.border.primary }, style]}
+        onPress={handleOpen}
+        disabled={disabled}
+        accessibilityLabel={`調性 ${getKeyDisplayName(value)}`}
+        accessibilityRole="button"
+        accessibilityHint="選擇簡譜標記所依據的調性"
+      >
+        <Text style={[styles.buttonText, { color: themeColors.text.primary }]}>{buttonLabel}</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isPickerVisible}
+        transparent
+        animationType="fade"
+        supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+        onRequestClose={() => setIsPickerVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsPickerVisible(false)}>
+          <Pressable style={[styles.panel, { backgroundColor: themeColors.surface.primary }]}>
+            {/* 大調/小調切換 */}
+            <View style={styles.modeRow}>
+              {(Object.keys(KEY_MODE_LABELS) as KeyMode[]).map(option => {
+                const selected = option === mode;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.modeButton,
+                      { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary },
+                    ]}
+                    onPress={() => setMode(option)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={{ color: selected ? BASE_COLORS.primary : themeColors.text.primary }}>
+                      {KEY_MODE_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* 主音選擇 */}
+            <View style={styles.tonicGrid}>
+              {KEY_TONICS.map(tonic => {
+                const key: MusicalKey = { tonic, mode };
+                const selected = isSameKey(key, value);
+                return (
+                  <TouchableOpacity
+                    key={tonic}
+                    style={[
+                      styles.tonicButton,
+                      {
+                        backgroundColor: selected ? BASE_COLORS.primary : themeColors.surface.secondary,
+                      },
+                    ]}
+                    onPress={() => handleSelect(key)}
+                    accessibilityLabel={getKeyDisplayName(key)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.tonicText, { color: selected ? '#FFFFFF' : themeColors.text.primary }]}>
+                      {spellNoteName(tonic, key)}
+                    </Text>
+                    <Text style={[styles.doText, { color: selected ? '#FFFFFF' : themeColors.text.secondary }]}>
+                      {`1=${toJianpuKeySignature(key).label}`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  button: {
+    minWidth: 56,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  panel: {
+    width: 420,
+    maxWidth: '90%',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+
+  modeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+
+  modeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  tonicGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+
+  tonicButton: {
+    width: 56,
+    paddingVertical: 6,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+
+  tonicText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  doText: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+KeySelector.displayName = 'KeySelector';
+
+// ========== 導出元件 ==========
+
+export default KeySelector;
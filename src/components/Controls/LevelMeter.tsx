@@ -0,0 +1,148 @@
+/**
+ * 簡譜鋼琴應用程式 - 音量表元件
+ *
+ * 本文件實作了頂部工具列上的小型音量表：上方長條為主輸出峰值，
+ * 接近 0dBFS 時轉為警告色；下方長條由右向左顯示壓縮/限幅器的增益衰減量。
+ * 數值以 reanimated 的共享值傳入，更新時不需重新渲染元件樹。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet, useColorScheme } from 'react-native';
+import Animated, {
+  SharedValue,
+  interpolate,
+  interpolateColor,
+  useAnimatedStyle,
+  Extrapolation,
+} from 'react-native-reanimated';
+
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+
+// ========== 元件 Props 介面 ==========
+
+export interface LevelMeterProps {
+  /** 主輸出峰值 (dBFS) */
+  level: SharedValue<number>;
+
+  /** 增益衰減量 (dB) */
+  gainReduction: SharedValue<number>;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 音量表的顯示範圍
+ */
+const METER_RANGE = {
+  /** 峰值長條的最低位準 (dBFS) */
+  MIN_LEVEL: -48,
+  /** 開始轉為警告色的位準 (dBFS) */
+  WARNING_LEVEL: -6,
+  /** 增益衰減長條的滿格 (dB) */
+  MAX_REDUCTION: 12,
+} as const;
+
+// ========== 音量表元件 ==========
+
+/**
+ * 音量表元件
+ */
+const LevelMeter: React.FC<LevelMeterProps> = memo(({
+  level,
+  gainReduction,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 動畫樣式 ==========
+
+  /**
+   * 峰值長條
+   */
+  const levelStyle = useAnimatedStyle(() => ({
+    width: `${interpolate(level.value, [METER_RANGE.MIN_LEVEL, 0], [0, 100], Extrapolation.CLAMP)}%`,
+    backgroundColor: interpolateColor(
+      level.value,
+      [METER_RANGE.WARNING_LEVEL, 0],
+      [BASE_COLORS.success, BASE_COLORS.error]
+    ),
+  }));
+
+  /**
+   * 增益衰減長條
+   */
+  const reductionStyle = useAnimatedStyle(() => ({
+    width: `${interpolate(gainReduction.value, [0, METER_RANGE.MAX_REDUCTION], [0, 100], Extrapolation.CLAMP)}%`,
+  }));
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View
+      style={[styles.container, { borderColor: themeColors.border.primary }, style]}
+      accessibilityLabel="輸出音量與壓縮量"
+      accessibilityRole="progressbar"
+    >
+      <View style={styles.track}>
+        <Animated.View style={[styles.levelBar, levelStyle]} />
+      </View>
+      <View style={[styles.track, styles.reductionTrack]}>
+        <Animated.View style={[styles.reductionBar, reductionStyle]} />
+      </View>
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    width: 48,
+    padding: 2,
+    gap: 2,
+    borderRadius: 4,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+
+  track: {
+    height: 5,
+    overflow: 'hidden',
+  },
+
+  reductionTrack: {
+    alignItems: 'flex-end',
+  },
+
+  levelBar: {
+    height: '100%',
+  },
+
+  reductionBar: {
+    height: '100%',
+    backgroundColor: BASE_COLORS.warning,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+LevelMeter.displayName = 'LevelMeter';
+
+// ========== 導出元件 ==========
+
+export default LevelMeter;
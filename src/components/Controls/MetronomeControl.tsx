@@ -0,0 +1,372 @@
+/**
+ * 簡譜鋼琴應用程式 - 節拍器控制元件
+ *
+ * 本文件實作了頂部工具列上的節拍器按鈕：顯示目前速度與拍點指示，
+ * 點擊後開啟面板，可開關節拍器、調整速度或點擊測速，並選擇拍號、
+ * 重音型態 (點擊拍子依序切換強/次強/弱/靜音)、每拍細分、音量與錄音前的預備小節數。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Modal,
+  Text,
+  Switch,
+  Pressable,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+
+import type { BeatAccent, CountInBars, MetronomeSettings, MetronomeSubdivision, TimeSignature } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import {
+  METRONOME_CONSTANTS,
+  TIME_SIGNATURE_PRESETS,
+  SUBDIVISION_LABELS,
+  cycleAccent,
+  formatTimeSignature,
+  getDefaultAccents,
+} from '../../utils/metronome';
+import StepperRow from '../UI/StepperRow';
+import BeatIndicator from './BeatIndicator';
+
+// ========== 元件 Props 介面 ==========
+
+export interface MetronomeControlProps {
+  /** 目前節拍器設定 */
+  value: MetronomeSettings;
+
+  /** 目前的拍子索引，節拍器停止時為 -1 */
+  currentBeat: SharedValue<number>;
+
+  /** 設定變更回調 */
+  onChange?: (metronome: MetronomeSettings) => void;
+
+  /** 點擊測速回調 */
+  onTapTempo?: () => void;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 重音等級的顯示名稱
+ */
+const ACCENT_LABELS: Record<BeatAccent, string> = {
+  strong: '強',
+  medium: '次',
+  weak: '弱',
+  mute: '靜',
+};
+
+/**
+ * 細分選項
+ */
+const SUBDIVISION_OPTIONS: MetronomeSubdivision[] = [1, 2, 3, 4];
+
+/**
+ * 預備拍選項
+ */
+const COUNT_IN_OPTIONS: { bars: CountInBars; label: string }[] = [
+  { bars: 0, label: '無預備拍' },
+  { bars: 1, label: '預備 1 小節' },
+  { bars: 2, label: '預備 2 小節' },
+];
+
+/**
+ * 音量調整間距
+ */
+const VOLUME_STEP = 0.1;
+
+// ========== 節拍器控制元件 ==========
+
+/**
+ * 節拍器控制元件
+ */
+const MetronomeControl: React.FC<MetronomeControlProps> = memo(({
+  value,
+  currentBeat,
+  onChange,
+  onTapTempo,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [isPanelVisible, setIsPanelVisible] = useState(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  // ========== 事件處理 ==========
+
+  const updateMetronome = useCallback((changes: Partial<MetronomeSettings>) => {
+    onChange?.({ ...value, ...changes });
+  }, [value, onChange]);
+
+  /**
+   * 切換拍號，重音型態改用該拍號的預設值
+   */
+  const handleTimeSignature = useCallback((timeSignature: TimeSignature) => {
+    updateMetronome({ timeSignature: { ...timeSignature }, accents: getDefaultAccents(timeSignature) });
+  }, [updateMetronome]);
+
+  /**
+   * 切換單一拍子的重音等級
+   */
+  const handleAccent = useCallback((index: number) => {
+    updateMetronome({
+      accents: value.accents.map((accent, beat) => (beat === index ? cycleAccent(accent) : accent)),
+    });
+  }, [value.accents, updateMetronome]);
+
+  // ========== 渲染輔助 ==========
+
+  /**
+   * 選項按鈕
+   */
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary }]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={{ color: selected ? BASE_COLORS.primary : textColor }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[
+          styles.button,
+          { borderColor: value.enabled ? BASE_COLORS.primary : themeColors.border.primary },
+          style,
+        ]}
+        onPress={() => setIsPanelVisible(true)}
+        accessibilityLabel={`節拍器 ${value.enabled ? '開啟' : '關閉'}，${value.bpm} BPM，${formatTimeSignature(value.timeSignature)}`}
+        accessibilityRole="button"
+        accessibilityHint="調整節拍器"
+      >
+        <Text style={[styles.buttonText, { color: value.enabled ? BASE_COLORS.primary : textColor }]}>
+          ♩{value.bpm}
+        </Text>
+        {value.enabled ? <BeatIndicator accents={value.accents} currentBeat={currentBeat} /> : null}
+      </TouchableOpacity>
+
+      <Modal
+        visible={isPanelVisible}
+        transparent
+        animationType="fade"
+        supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+        onRequestClose={() => setIsPanelVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsPanelVisible(false)}>
+          <Pressable style={[styles.panel, { backgroundColor: themeColors.surface.primary }]}>
+            {/* 開關與點擊測速 */}
+            <View style={styles.headerRow}>
+              <Text style={[styles.title, { color: textColor }]}>節拍器</Text>
+              <Switch
+                value={value.enabled}
+                onValueChange={enabled => updateMetronome({ enabled })}
+                trackColor={{ true: BASE_COLORS.primary }}
+                accessibilityLabel="啟用節拍器"
+              />
+              <TouchableOpacity
+                style={[styles.optionButton, styles.tapButton, { borderColor: themeColors.border.primary }]}
+                onPress={onTapTempo}
+                accessibilityLabel="點擊測速"
+                accessibilityRole="button"
+              >
+                <Ionicons name="hand-left-outline" size={16} color={textColor} />
+                <Text style={{ color: textColor }}>測速</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* 速度 */}
+            <StepperRow
+              label="速度"
+              value={value.bpm}
+              step={1}
+              min={METRONOME_CONSTANTS.MIN_BPM}
+              max={METRONOME_CONSTANTS.MAX_BPM}
+              color={textColor}
+              formatValue={bpm => `${bpm} BPM`}
+              onChange={bpm => updateMetronome({ bpm })}
+            />
+
+            {/* 拍號 */}
+            <View style={styles.optionRow}>
+              {TIME_SIGNATURE_PRESETS.map(timeSignature => {
+                const label = formatTimeSignature(timeSignature);
+                return renderOption(
+                  `ts-${label}`,
+                  label,
+                  label === formatTimeSignature(value.timeSignature),
+                  () => handleTimeSignature(timeSignature)
+                );
+              })}
+            </View>
+
+            {/* 重音型態 */}
+            <View style={styles.optionRow}>
+              {value.accents.map((accent, index) => (
+                <TouchableOpacity
+                  key={`accent-${index}`}
+                  style={[
+                    styles.accentButton,
+                    {
+                      borderColor: accent === 'mute' ? themeColors.border.primary : BASE_COLORS.primary,
+                      backgroundColor: accent === 'strong' ? BASE_COLORS.primary : 'transparent',
+                    },
+                  ]}
+                  onPress={() => handleAccent(index)}
+                  accessibilityLabel={`第 ${index + 1} 拍：${ACCENT_LABELS[accent]}`}
+                  accessibilityRole="button"
+                >
+                  <Text style={{ color: accent === 'strong' ? BASE_COLORS.white : textColor }}>
+                    {ACCENT_LABELS[accent]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* 細分 */}
+            <View style={styles.optionRow}>
+              {SUBDIVISION_OPTIONS.map(subdivision =>
+                renderOption(`sub-${subdivision}`, SUBDIVISION_LABELS[subdivision], subdivision === value.subdivision, () =>
+                  updateMetronome({ subdivision })
+                )
+              )}
+            </View>
+
+            {/* 音量、預備拍與錄音 */}
+            <StepperRow
+              label="音量"
+              value={value.volume}
+              step={VOLUME_STEP}
+              min={0}
+              max={1}
+              color={textColor}
+              formatValue={volume => `${Math.round(volume * 100)}%`}
+              onChange={volume => updateMetronome({ volume })}
+            />
+            <View style={styles.optionRow}>
+              {COUNT_IN_OPTIONS.map(({ bars, label }) =>
+                renderOption(`count-in-${bars}`, label, bars === value.countInBars, () =>
+                  updateMetronome({ countInBars: bars })
+                )
+              )}
+            </View>
+            <View style={styles.optionRow}>
+              {renderOption('record-tempo', '錄音時記錄速度與拍號', value.recordTempo, () =>
+                updateMetronome({ recordTempo: !value.recordTempo })
+              )}
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  button: {
+    minWidth: 48,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  panel: {
+    maxWidth: 480,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  tapButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+
+  accentButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+MetronomeControl.displayName = 'MetronomeControl';
+
+// ========== 導出元件 ==========
+
+export default MetronomeControl;
@@ -0,0 +1,449 @@
+/**
+ * 簡譜鋼琴應用程式 - 播放控制列元件
+ *
+ * 本文件實作了錄音播放的控制列，包括播放/暫停、停止、
+ * 播放速度切換、循環播放開關、可點擊跳轉的進度條，
+ * 以及以目前播放位置設定補錄範圍 (入點/出點) 並開始補錄的按鈕。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  useColorScheme,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+
+import type { PlaybackControl, PunchRange } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { normalizePunchRange } from '../../utils/punchRecording';
+import Timer from './Timer';
+
+// ========== 元件 Props 介面 ==========
+
+export interface PlaybackControlsProps {
+  /** 播放控制狀態 */
+  control: PlaybackControl;
+
+  /** 錄音總時長（毫秒） */
+  duration: number;
+
+  /** 錄音名稱 */
+  title?: string;
+
+  /** 播放/繼續回調 */
+  onPlay?: () => void;
+
+  /** 暫停回調 */
+  onPause?: () => void;
+
+  /** 停止回調 */
+  onStop?: () => void;
+
+  /** 跳轉回調 */
+  onSeek?: (progress: number) => void;
+
+  /** 播放速度變更回調 */
+  onSpeedChange?: (speed: number) => void;
+
+  /** 循環播放切換回調 */
+  onLoopChange?: (loop: boolean) => void;
+
+  /** 顯示簡譜回調 */
+  onShowScore?: () => void;
+
+  /** 開啟音符編輯器回調 */
+  onEditNotes?: () => void;
+
+  /** 補錄範圍（毫秒），未設定時為 null */
+  punchRange?: PunchRange | null;
+
+  /** 補錄範圍變更回調，清除時傳入 null */
+  onPunchRangeChange?: (range: PunchRange | null) => void;
+
+  /** 開始補錄回調，未提供時不顯示補錄按鈕 */
+  onPunchRecord?: () => void;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 可切換的播放速度選項
+ */
+const SPEED_OPTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2] as const;
+
+// ========== 播放控制列元件 ==========
+
+/**
+ * 播放控制列元件
+ * 提供錄音播放的所有操作入口
+ */
+const PlaybackControls: React.FC<PlaybackControlsProps> = memo(({
+  control,
+  duration,
+  title,
+  onPlay,
+  onPause,
+  onStop,
+  onSeek,
+  onSpeedChange,
+  onLoopChange,
+  onShowScore,
+  onEditNotes,
+  punchRange = null,
+  onPunchRangeChange,
+  onPunchRecord,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 是否正在播放
+   */
+  const isPlaying = control.state === 'playing';
+
+  /**
+   * 目前播放位置（毫秒）
+   */
+  const position = control.progress * duration;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 處理播放/暫停切換
+   */
+  const handlePlayPause = useCallback(() => {
+    if (isPlaying) {
+      onPause?.();
+    } else {
+      onPlay?.();
+    }
+  }, [isPlaying, onPlay, onPause]);
+
+  /**
+   * 切換到下一個播放速度
+   */
+  const handleSpeedPress = useCallback(() => {
+    const currentIndex = SPEED_OPTIONS.findIndex(speed => speed === control.speed);
+    const nextSpeed = SPEED_OPTIONS[(currentIndex + 1) % SPEED_OPTIONS.length];
+    onSpeedChange?.(nextSpeed);
+  }, [control.speed, onSpeedChange]);
+
+  /**
+   * 處理進度條佈局
+   */
+  const handleTrackLayout = useCallback((event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  /**
+   * 處理進度條點擊跳轉
+   */
+  const handleTrackPress = useCallback((event: GestureResponderEvent) => {
+    if (trackWidth <= 0) return;
+    onSeek?.(event.nativeEvent.locationX / trackWidth);
+  }, [trackWidth, onSeek]);
+
+  /**
+   * 以目前位置設定補錄入點，尚無出點時延伸到錄音結尾
+   */
+  const handlePunchIn = useCallback(() => {
+    const range = normalizePunchRange({ start: position, end: punchRange?.end ?? duration }, duration);
+    if (range) {
+      onPunchRangeChange?.(range);
+    }
+  }, [position, punchRange, duration, onPunchRangeChange]);
+
+  /**
+   * 以目前位置設定補錄出點，尚無入點時從錄音開頭起算
+   */
+  const handlePunchOut = useCallback(() => {
+    const range = normalizePunchRange({ start: punchRange?.start ?? 0, end: position }, duration);
+    if (range) {
+      onPunchRangeChange?.(range);
+    }
+  }, [position, punchRange, duration, onPunchRangeChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.surface.primary }, style]}>
+      {/* 播放/暫停 */}
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={handlePlayPause}
+        accessibilityLabel={isPlaying ? '暫停播放' : '播放錄音'}
+        accessibilityRole="button"
+      >
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={22} color={BASE_COLORS.success} />
+      </TouchableOpacity>
+
+      {/* 停止 */}
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={onStop}
+        accessibilityLabel="停止播放"
+        accessibilityRole="button"
+      >
+        <Ionicons name="stop" size={20} color={themeColors.text.primary} />
+      </TouchableOpacity>
+
+      {/* 計時器 */}
+      <Timer
+        elapsedTime={position}
+        playbackState={control.state}
+        format="mm:ss"
+        fontSize={14}
+        style={styles.timer}
+      />
+
+      {/* 進度條 */}
+      <View style={styles.trackArea}>
+        {title ? (
+          <Text style={[styles.titleText, { color: themeColors.text.secondary }]} numberOfLines={1}>
+            {title}
+          </Text>
+        ) : null}
+        <Pressable
+          style={styles.trackTouchArea}
+          onLayout={handleTrackLayout}
+          onPress={handleTrackPress}
+          accessibilityLabel="播放進度"
+          accessibilityRole="adjustable"
+        >
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.trackFill,
+                { width: `${Math.round(control.progress * 100)}%`, backgroundColor: BASE_COLORS.success },
+              ]}
+            />
+            {punchRange && duration > 0 ? (
+              <View
+                style={[
+                  styles.punchRange,
+                  {
+                    left: `${(punchRange.start / duration) * 100}%`,
+                    width: `${((punchRange.end - punchRange.start) / duration) * 100}%`,
+                  },
+                ]}
+              />
+            ) : null}
+          </View>
+        </Pressable>
+      </View>
+
+      {/* 播放速度 */}
+      <TouchableOpacity
+        style={[styles.speedButton, { borderColor: themeColors.border.primary }]}
+        onPress={handleSpeedPress}
+        accessibilityLabel={`播放速度 ${control.speed} 倍`}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.speedText, { color: themeColors.text.primary }]}>
+          {`${control.speed}x`}
+        </Text>
+      </TouchableOpacity>
+
+      {/* 循環播放 */}
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => onLoopChange?.(!control.loop)}
+        accessibilityLabel="循環播放"
+        accessibilityRole="switch"
+        accessibilityState={{ checked: control.loop }}
+      >
+        <Ionicons
+          name="repeat"
+          size={22}
+          color={control.loop ? BASE_COLORS.primary : themeColors.text.disabled}
+        />
+      </TouchableOpacity>
+
+      {/* 補錄 */}
+      {onPunchRecord ? (
+        <View style={styles.punchGroup}>
+          <TouchableOpacity
+            style={[styles.punchButton, { borderColor: themeColors.border.primary }]}
+            onPress={handlePunchIn}
+            accessibilityLabel="以目前位置設定補錄入點"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.speedText, { color: themeColors.text.primary }]}>入</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.punchButton, { borderColor: themeColors.border.primary }]}
+            onPress={handlePunchOut}
+            accessibilityLabel="以目前位置設定補錄出點"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.speedText, { color: themeColors.text.primary }]}>出</Text>
+          </TouchableOpacity>
+          {punchRange ? (
+            <>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => onPunchRangeChange?.(null)}
+                accessibilityLabel="清除補錄範圍"
+                accessibilityRole="button"
+              >
+                <Ionicons name="close-circle-outline" size={20} color={themeColors.text.secondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={onPunchRecord}
+                accessibilityLabel="補錄選取範圍"
+                accessibilityRole="button"
+              >
+                <Ionicons name="radio-button-on" size={22} color={BASE_COLORS.error} />
+              </TouchableOpacity>
+            </>
+          ) : null}
+        </View>
+      ) : null}
+
+      {/* 顯示簡譜 */}
+      {onShowScore ? (
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onShowScore}
+          accessibilityLabel="顯示簡譜"
+          accessibilityRole="button"
+        >
+          <Ionicons name="document-text-outline" size={22} color={themeColors.text.primary} />
+        </TouchableOpacity>
+      ) : null}
+
+      {/* 編輯音符 */}
+      {onEditNotes ? (
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onEditNotes}
+          accessibilityLabel="編輯音符"
+          accessibilityRole="button"
+        >
+          <Ionicons name="create-outline" size={22} color={themeColors.text.primary} />
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 8,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  timer: {
+    minWidth: 72,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+
+  trackArea: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+
+  titleText: {
+    fontSize: 11,
+    marginBottom: 2,
+  },
+
+  trackTouchArea: {
+    paddingVertical: 8,
+  },
+
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(128, 128, 128, 0.3)',
+    overflow: 'hidden',
+  },
+
+  trackFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+
+  punchRange: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(255, 59, 48, 0.5)',
+  },
+
+  punchGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+
+  punchButton: {
+    width: 32,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  speedButton: {
+    minWidth: 48,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+
+  speedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PlaybackControls.displayName = 'PlaybackControls';
+
+// ========== 導出元件 ==========
+
+export default PlaybackControls;
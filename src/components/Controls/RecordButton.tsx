@@ -11,6 +11,7 @@
 
 import React, { memo, useMemo } from 'react';
 import {
+  Text,
   TouchableOpacity,
   StyleSheet,
   useColorScheme,
@@ -36,6 +37,9 @@ export interface RecordButtonProps {
   
   /** 按鈕大小 */
   size?: number;
+
+  /** 預備拍剩餘的拍數，預備拍期間顯示於按鈕中央 */
+  countInBeats?: number;
   
   /** 是否啟用觸覺回饋 */
   hapticFeedback?: boolean;
@@ -91,6 +95,7 @@ const ANIMATION_CONFIG = {
 const RecordButton: React.FC<RecordButtonProps> = memo(({
   recordingState = 'idle',
   size = 60,
+  countInBeats = 0,
   hapticFeedback = true,
   disabled = false,
   onStartRecording,
@@ -127,6 +132,13 @@ const RecordButton: React.FC<RecordButtonProps> = memo(({
           shadow: BASE_COLORS.error,
           inner: '#FF6B6B',
         };
+      case 'countIn':
+        return {
+          background: BASE_COLORS.accent,     // 預備拍時使用橘色外框
+          border: BASE_COLORS.error,
+          shadow: BASE_COLORS.accent,
+          inner: '#FFB347',
+        };
       case 'paused':
         return {
           background: BASE_COLORS.warning,    // 暫停時使用橘色
@@ -157,6 +169,7 @@ const RecordButton: React.FC<RecordButtonProps> = memo(({
   const iconShape = useMemo(() => {
     switch (recordingState) {
       case 'recording':
+      case 'countIn':
         return 'square'; // 停止圖示
       case 'paused':
         return 'circle'; // 錄音圖示
@@ -279,7 +292,8 @@ const RecordButton: React.FC<RecordButtonProps> = memo(({
         onStartRecording?.();
         break;
       case 'recording':
-        onStopRecording?.();
+      case 'countIn':
+        onStopRecording?.(); // 預備拍期間點擊即取消
         break;
       case 'paused':
         onResumeRecording?.();
@@ -328,6 +342,12 @@ const RecordButton: React.FC<RecordButtonProps> = memo(({
    * 渲染按鈕內部圖示
    */
   const renderIcon = () => {
+    if (recordingState === 'countIn' && countInBeats > 0) {
+      return (
+        <Text style={[styles.countInText, { fontSize: size * 0.4 }]}>{countInBeats}</Text>
+      );
+    }
+
     return (
       <Animated.View style={[iconInnerStyle, animatedIconStyle]} />
     );
@@ -387,6 +407,12 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
   },
   
+  countInText: {
+    color: BASE_COLORS.white,
+    fontWeight: '700',
+    fontFamily: 'monospace',
+  },
+  
   iconInner: {
     elevation: 2,
     shadowOffset: {
@@ -0,0 +1,183 @@
+/**
+ * 簡譜鋼琴應用程式 - 音色選擇元件
+ *
+ * 本文件實作了顯示目前音色的按鈕，點擊後開啟選擇面板，
+ * 可在鋼琴、電鋼琴、風琴與合成器之間切換。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Modal,
+  Text,
+  Pressable,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { SoundType } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { SOUND_TYPES, SOUND_TYPE_LABELS } from '../../services/instruments';
+
+// ========== 元件 Props 介面 ==========
+
+export interface SoundTypeSelectorProps {
+  /** 目前音色 */
+  value: SoundType;
+
+  /** 音色變更回調 */
+  onChange?: (soundType: SoundType) => void;
+
+  /** 是否停用 */
+  disabled?: boolean;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 音色選擇元件 ==========
+
+/**
+ * 音色選擇元件
+ */
+const SoundTypeSelector: React.FC<SoundTypeSelectorProps> = memo(({
+  value,
+  onChange,
+  disabled = false,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 選擇音色
+   */
+  const handleSelect = useCallback((soundType: SoundType) => {
+    setIsPickerVisible(false);
+    if (soundType !== value) {
+      onChange?.(soundType);
+    }
+  }, [value, onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.button, { borderColor: themeColors.border.primary }, style]}
+        onPress={() => setIsPickerVisible(true)}
+        disabled={disabled}
+        accessibilityLabel={`音色 ${SOUND_TYPE_LABELS[value]}`}
+        accessibilityRole="button"
+        accessibilityHint="選擇琴鍵的音色"
+      >
+        <Ionicons name="musical-note" size={14} color={themeColors.text.secondary} />
+        <Text style={[styles.buttonText, { color: themeColors.text.primary }]}>
+          {SOUND_TYPE_LABELS[value]}
+        </Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isPickerVisible}
+        transparent
+        animationType="fade"
+        supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+        onRequestClose={() => setIsPickerVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsPickerVisible(false)}>
+          <Pressable style={[styles.panel, { backgroundColor: themeColors.surface.primary }]}>
+            {SOUND_TYPES.map(soundType => {
+              const selected = soundType === value;
+              return (
+                <TouchableOpacity
+                  key={soundType}
+                  style={[
+                    styles.option,
+                    {
+                      backgroundColor: selected ? BASE_COLORS.primary : themeColors.surface.secondary,
+                    },
+                  ]}
+                  onPress={() => handleSelect(soundType)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={[styles.optionText, { color: selected ? '#FFFFFF' : themeColors.text.primary }]}>
+                    {SOUND_TYPE_LABELS[soundType]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  panel: {
+    width: 240,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+
+  option: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+SoundTypeSelector.displayName = 'SoundTypeSelector';
+
+// ========== 導出元件 ==========
+
+export default SoundTypeSelector;
@@ -0,0 +1,144 @@
+/**
+ * 簡譜鋼琴應用程式 - 延音踏板元件
+ *
+ * 本文件實作了螢幕上的延音踏板：按住時踩下、放開時放開；
+ * 輕點一下則鎖定為踩下，再輕點一次解除，方便單手演奏。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useRef } from 'react';
+import {
+  Pressable,
+  Text,
+  StyleSheet,
+  useColorScheme,
+} from 'react-native';
+
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+
+// ========== 元件 Props 介面 ==========
+
+export interface SustainPedalProps {
+  /** 踏板是否踩下 */
+  active: boolean;
+
+  /** 踏板狀態變更回調 */
+  onChange?: (active: boolean) => void;
+
+  /** 是否停用 */
+  disabled?: boolean;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 判定為輕點 (鎖定/解除) 的最長按壓時間 (毫秒)
+ */
+const TAP_THRESHOLD_MS = 250;
+
+// ========== 延音踏板元件 ==========
+
+/**
+ * 延音踏板元件
+ */
+const SustainPedal: React.FC<SustainPedalProps> = memo(({
+  active,
+  onChange,
+  disabled = false,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const pressStartRef = useRef(0);
+  const wasActiveRef = useRef(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 按下時立即踩下踏板
+   */
+  const handlePressIn = useCallback(() => {
+    pressStartRef.current = Date.now();
+    wasActiveRef.current = active;
+    if (!active) {
+      onChange?.(true);
+    }
+  }, [active, onChange]);
+
+  /**
+   * 放開時依按壓時間決定：長按放開踏板，輕點則切換鎖定
+   */
+  const handlePressOut = useCallback(() => {
+    const isTap = Date.now() - pressStartRef.current < TAP_THRESHOLD_MS;
+    if (!isTap || wasActiveRef.current) {
+      onChange?.(false);
+    }
+  }, [onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Pressable
+      style={[
+        styles.pedal,
+        {
+          borderColor: active ? BASE_COLORS.primary : themeColors.border.primary,
+          backgroundColor: active ? BASE_COLORS.primary : 'transparent',
+        },
+        style,
+      ]}
+      onPressIn={handlePressIn}
+      onPressOut={handlePressOut}
+      disabled={disabled}
+      accessibilityLabel="延音踏板"
+      accessibilityRole="switch"
+      accessibilityState={{ checked: active, disabled }}
+      accessibilityHint="按住踩下踏板，輕點可鎖定或解除"
+    >
+      <Text style={[styles.label, { color: active ? '#FFFFFF' : themeColors.text.primary }]}>
+        Ped.
+      </Text>
+    </Pressable>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  pedal: {
+    minWidth: 48,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontStyle: 'italic',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+SustainPedal.displayName = 'SustainPedal';
+
+// ========== 導出元件 ==========
+
+export default SustainPedal;
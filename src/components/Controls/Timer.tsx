@@ -61,6 +61,16 @@ export interface TimerProps {
   textStyle?: any;
 }
 
+// ========== 常數定義 ==========
+
+/**
+ * 閃爍動畫的半週期 (毫秒)
+ */
+const BLINK_DURATION = {
+  recording: 500,
+  paused: 900,
+} as const;
+
 // ========== 工具函數 ==========
 
 /**
@@ -151,6 +161,14 @@ const Timer: React.FC<TimerProps> = memo(({
       };
     }
     
+    if (recordingState === 'paused') {
+      return {
+        text: BASE_COLORS.warning,
+        background: 'rgba(255, 149, 0, 0.1)',
+        progress: BASE_COLORS.warning,
+      };
+    }
+    
     if (isPlaying) {
       return {
         text: BASE_COLORS.success,
@@ -183,12 +201,13 @@ const Timer: React.FC<TimerProps> = memo(({
   // ========== 動畫效果 ==========
   
   /**
-   * 閃爍動畫效果（錄音時）
+   * 閃爍動畫效果（錄音時；暫停時以較慢的節奏閃爍，停在暫停的時間）
    */
   useEffect(() => {
-    if (showBlinking && recordingState === 'recording') {
+    if (showBlinking && (recordingState === 'recording' || recordingState === 'paused')) {
+      blinkAnimation.value = 0;
       blinkAnimation.value = withRepeat(
-        withTiming(1, { duration: 500 }),
+        withTiming(1, { duration: recordingState === 'paused' ? BLINK_DURATION.paused : BLINK_DURATION.recording }),
         -1,
         true
       );
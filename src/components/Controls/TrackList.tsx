@@ -0,0 +1,328 @@
+/**
+ * 簡譜鋼琴應用程式 - 音軌列表元件
+ *
+ * 本文件實作了多音軌錄音的音軌列表，每個音軌可切換音色、調整音量、
+ * 靜音與獨奏，也可刪除音軌；選取的音軌是補錄的對象。
+ * 列表最後的按鈕會一邊播放既有音軌一邊錄製新的音軌 (疊錄)。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { RecordingTrack } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { TRACK_CONSTANTS, isTrackAudible } from '../../utils/recordingTracks';
+import SoundTypeSelector from './SoundTypeSelector';
+
+// ========== 元件 Props 介面 ==========
+
+/**
+ * 可在音軌列表中修改的音軌設定
+ */
+export type TrackSettingsChange = Partial<Pick<RecordingTrack, 'soundType' | 'volume' | 'muted' | 'solo'>>;
+
+export interface TrackListProps {
+  /** 音軌列表 */
+  tracks: RecordingTrack[];
+
+  /** 選取的音軌ID */
+  selectedTrackId?: string | null;
+
+  /** 選取音軌回調 */
+  onSelectTrack?: (trackId: string) => void;
+
+  /** 音軌設定變更回調 */
+  onTrackChange?: (trackId: string, changes: TrackSettingsChange) => void;
+
+  /** 刪除音軌回調 */
+  onDeleteTrack?: (trackId: string) => void;
+
+  /** 疊錄新音軌回調，未提供時不顯示疊錄按鈕 */
+  onOverdub?: () => void;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 音量每次調整的間距
+ */
+const VOLUME_STEP = 0.1;
+
+// ========== 音軌列表元件 ==========
+
+/**
+ * 音軌列表元件
+ */
+const TrackList: React.FC<TrackListProps> = memo(({
+  tracks,
+  selectedTrackId = null,
+  onSelectTrack,
+  onTrackChange,
+  onDeleteTrack,
+  onOverdub,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 是否還能新增音軌
+   */
+  const canAddTrack = tracks.length < TRACK_CONSTANTS.MAX_TRACKS;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 依間距調整音量，並修正浮點誤差
+   */
+  const handleVolumeStep = (track: RecordingTrack, direction: number) => {
+    const next = Math.round((track.volume + direction * VOLUME_STEP) * 10) / 10;
+    onTrackChange?.(track.id, { volume: Math.max(0, Math.min(1, next)) });
+  };
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染單一音軌
+   */
+  const renderTrack = (track: RecordingTrack) => {
+    const selected = track.id === selectedTrackId;
+    const audible = isTrackAudible(track, tracks);
+
+    return (
+      <View
+        key={track.id}
+        style={[
+          styles.track,
+          {
+            backgroundColor: themeColors.surface.secondary,
+            borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary,
+            opacity: audible ? 1 : 0.6,
+          },
+        ]}
+      >
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={styles.nameButton}
+            onPress={() => onSelectTrack?.(track.id)}
+            accessibilityLabel={`選取${track.name}`}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.nameText, { color: themeColors.text.primary }]} numberOfLines={1}>
+              {track.name}
+            </Text>
+          </TouchableOpacity>
+          {onDeleteTrack && tracks.length > 1 ? (
+            <TouchableOpacity
+              style={styles.smallButton}
+              onPress={() => onDeleteTrack(track.id)}
+              accessibilityLabel={`刪除${track.name}`}
+              accessibilityRole="button"
+            >
+              <Ionicons name="trash-outline" size={16} color={themeColors.text.secondary} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+
+        <View style={styles.row}>
+          <SoundTypeSelector
+            value={track.soundType}
+            onChange={(soundType) => onTrackChange?.(track.id, { soundType })}
+          />
+          <TouchableOpacity
+            style={[
+              styles.toggleButton,
+              { backgroundColor: track.muted ? BASE_COLORS.warning : themeColors.surface.tertiary },
+            ]}
+            onPress={() => onTrackChange?.(track.id, { muted: !track.muted })}
+            accessibilityLabel={`${track.name}靜音`}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: track.muted }}
+          >
+            <Text style={[styles.toggleText, { color: track.muted ? '#FFFFFF' : themeColors.text.primary }]}>M</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.toggleButton,
+              { backgroundColor: track.solo ? BASE_COLORS.primary : themeColors.surface.tertiary },
+            ]}
+            onPress={() => onTrackChange?.(track.id, { solo: !track.solo })}
+            accessibilityLabel={`${track.name}獨奏`}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: track.solo }}
+          >
+            <Text style={[styles.toggleText, { color: track.solo ? '#FFFFFF' : themeColors.text.primary }]}>S</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.row}>
+          <Ionicons name="volume-medium-outline" size={16} color={themeColors.text.secondary} />
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={() => handleVolumeStep(track, -1)}
+            disabled={track.volume <= 0}
+            accessibilityLabel={`降低${track.name}音量`}
+            accessibilityRole="button"
+          >
+            <Ionicons name="remove" size={16} color={themeColors.text.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.volumeText, { color: themeColors.text.primary }]}>
+            {`${Math.round(track.volume * 100)}%`}
+          </Text>
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={() => handleVolumeStep(track, 1)}
+            disabled={track.volume >= 1}
+            accessibilityLabel={`提高${track.name}音量`}
+            accessibilityRole="button"
+          >
+            <Ionicons name="add" size={16} color={themeColors.text.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <ScrollView
+      horizontal
+      style={[{ backgroundColor: themeColors.surface.primary }, style]}
+      contentContainerStyle={styles.container}
+      showsHorizontalScrollIndicator={false}
+    >
+      {tracks.map(renderTrack)}
+
+      {/* 疊錄新音軌 */}
+      {onOverdub ? (
+        <TouchableOpacity
+          style={[styles.overdubButton, { borderColor: themeColors.border.primary }]}
+          onPress={onOverdub}
+          disabled={!canAddTrack}
+          accessibilityLabel="疊錄新音軌"
+          accessibilityHint="播放目前的音軌並同時錄製新的音軌"
+          accessibilityRole="button"
+        >
+          <Ionicons
+            name="add-circle-outline"
+            size={22}
+            color={canAddTrack ? BASE_COLORS.error : themeColors.text.disabled}
+          />
+          <Text style={[styles.overdubText, { color: themeColors.text.secondary }]}>疊錄</Text>
+        </TouchableOpacity>
+      ) : null}
+    </ScrollView>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 8,
+  },
+
+  track: {
+    width: 200,
+    padding: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    gap: 6,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+
+  nameButton: {
+    flex: 1,
+  },
+
+  nameText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  smallButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  toggleButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+
+  volumeText: {
+    minWidth: 40,
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+
+  overdubButton: {
+    width: 72,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+
+  overdubText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+TrackList.displayName = 'TrackList';
+
+// ========== 導出元件 ==========
+
+export default TrackList;
@@ -0,0 +1,200 @@
+/**
+ * 簡譜鋼琴應用程式 - 移調選擇元件
+ *
+ * 本文件實作了顯示目前移調的按鈕，點擊後開啟面板調整移調半音數
+ * (±12) 與八度位移 (±2)。琴鍵位置不變，實際發聲的音高與簡譜標記隨之位移。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Modal,
+  Text,
+  Pressable,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { TransposeSettings } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import {
+  TRANSPOSE_CONSTANTS,
+  DEFAULT_TRANSPOSE,
+  formatTranspose,
+  formatSigned,
+  getTransposeOffset,
+  isSameTranspose,
+} from '../../utils/transpose';
+import StepperRow from '../UI/StepperRow';
+
+// ========== 元件 Props 介面 ==========
+
+export interface TransposeSelectorProps {
+  /** 目前移調設定 */
+  value: TransposeSettings;
+
+  /** 移調變更回調 */
+  onChange?: (transpose: TransposeSettings) => void;
+
+  /** 是否停用 */
+  disabled?: boolean;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 移調選擇元件 ==========
+
+/**
+ * 移調選擇元件
+ */
+const TransposeSelector: React.FC<TransposeSelectorProps> = memo(({
+  value,
+  onChange,
+  disabled = false,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  /**
+   * 是否有位移 (按鈕以強調色提示)
+   */
+  const isShifted = getTransposeOffset(value) !== 0;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 更新其中一個欄位
+   */
+  const handleChange = useCallback((changes: Partial<TransposeSettings>) => {
+    onChange?.({ ...value, ...changes });
+  }, [value, onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[
+          styles.button,
+          { borderColor: isShifted ? BASE_COLORS.primary : themeColors.border.primary },
+          style,
+        ]}
+        onPress={() => setIsPickerVisible(true)}
+        disabled={disabled}
+        accessibilityLabel={`移調 ${formatTranspose(value)}`}
+        accessibilityRole="button"
+        accessibilityHint="調整移調與八度位移"
+      >
+        <Text style={[styles.buttonText, { color: isShifted ? BASE_COLORS.primary : textColor }]}>
+          {isShifted ? formatTranspose(value) : '移調'}
+        </Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isPickerVisible}
+        transparent
+        animationType="fade"
+        supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+        onRequestClose={() => setIsPickerVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsPickerVisible(false)}>
+          <Pressable style={[styles.panel, { backgroundColor: themeColors.surface.primary }]}>
+            <StepperRow
+              label="移調"
+              value={value.semitones}
+              step={1}
+              min={TRANSPOSE_CONSTANTS.MIN_SEMITONES}
+              max={TRANSPOSE_CONSTANTS.MAX_SEMITONES}
+              color={textColor}
+              formatValue={formatSigned}
+              onChange={semitones => handleChange({ semitones })}
+            />
+            <StepperRow
+              label="八度"
+              value={value.octaves}
+              step={1}
+              min={TRANSPOSE_CONSTANTS.MIN_OCTAVES}
+              max={TRANSPOSE_CONSTANTS.MAX_OCTAVES}
+              color={textColor}
+              formatValue={formatSigned}
+              onChange={octaves => handleChange({ octaves })}
+            />
+            <TouchableOpacity
+              style={[styles.resetButton, { borderColor: themeColors.border.primary }]}
+              onPress={() => onChange?.(DEFAULT_TRANSPOSE)}
+              disabled={isSameTranspose(value, DEFAULT_TRANSPOSE)}
+              accessibilityRole="button"
+            >
+              <Text style={{ color: textColor }}>還原</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  button: {
+    minWidth: 48,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  panel: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    alignItems: 'center',
+  },
+
+  resetButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+TransposeSelector.displayName = 'TransposeSelector';
+
+// ========== 導出元件 ==========
+
+export default TransposeSelector;
@@ -0,0 +1,393 @@
+/**
+ * 簡譜鋼琴應用程式 - 鋼琴捲簾網格元件
+ *
+ * 本文件實作了鋼琴捲簾的編輯區域：縱軸為 C3–C6 的琴鍵，橫軸為時間，
+ * 音符以長條顯示，長度對應按住的時間、深淺對應力度。
+ * 只有編輯中音軌的音符可以選取與拖曳，其他音軌的音符以灰色顯示作為參考。
+ * 拖曳時依錄音的拍子對齊到十六分音符，沒有速度資訊時對齊到固定的時間間隔。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  useColorScheme,
+} from 'react-native';
+
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isBlackKey, SUPPORTED_NOTE_RANGE } from '../../utils/pianoLayout';
+import { parseNoteId } from '../../utils/noteFrequencies';
+import {
+  PIANO_ROLL_CONSTANTS,
+  PianoRollNote,
+  getPianoRollEndTime,
+  moveNotes,
+  resizeNotes,
+} from '../../utils/pianoRoll';
+import PianoRollNoteBar, { NoteDragMode } from './PianoRollNoteBar';
+
+// ========== 元件 Props 介面 ==========
+
+export interface PianoRollGridProps {
+  /** 所有音軌的音符 */
+  notes: PianoRollNote[];
+
+  /** 編輯中的音軌ID */
+  activeTrackId: string | null;
+
+  /** 選取的音符ID */
+  selectedIds: ReadonlySet<string>;
+
+  /** 是否唯讀 (預覽)，唯讀時音符不能選取與拖曳 */
+  readOnly?: boolean;
+
+  /** 每秒的寬度 (像素)，用於縮放 */
+  pixelsPerSecond: number;
+
+  /** 錄音長度 (毫秒) */
+  duration: number;
+
+  /** 錄音的節拍器速度 (BPM)，用於繪製拍線與對齊 */
+  tempo?: number;
+
+  /** 每小節拍數 */
+  beatsPerBar?: number;
+
+  /** 輕點音符回調 */
+  onNotePress?: (id: string) => void;
+
+  /** 輕點空白處回調 */
+  onBackgroundPress?: () => void;
+
+  /** 完成拖曳的回調，傳入套用拖曳後的所有音符 */
+  onNotesChange?: (notes: PianoRollNote[]) => void;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 網格尺寸設定
+ */
+const GRID_LAYOUT = {
+  /** 每個音高的列高 (像素) */
+  ROW_HEIGHT: 16,
+  /** 琴鍵標籤欄寬度 (像素) */
+  KEY_LABEL_WIDTH: 44,
+  /** 最後一個音符後保留的空白 (毫秒) */
+  TRAILING_MS: 2000,
+  /** 沒有速度資訊時的對齊間隔與格線間隔 (毫秒) */
+  FREE_SNAP_MS: 10,
+  FREE_LINE_MS: 1000,
+} as const;
+
+/**
+ * 由高到低排列的音高列
+ */
+const ROWS = [...SUPPORTED_NOTE_RANGE].reverse();
+
+/**
+ * 音高對應的列索引
+ */
+const ROW_INDEX = new Map(ROWS.map((noteId, index) => [noteId, index]));
+
+// ========== 鋼琴捲簾網格元件 ==========
+
+/**
+ * 鋼琴捲簾網格元件
+ */
+const PianoRollGrid: React.FC<PianoRollGridProps> = memo(({
+  notes,
+  activeTrackId,
+  selectedIds,
+  readOnly = false,
+  pixelsPerSecond,
+  duration,
+  tempo,
+  beatsPerBar = 4,
+  onNotePress,
+  onBackgroundPress,
+  onNotesChange,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [drag, setDrag] = useState<{
+    ids: ReadonlySet<string>;
+    mode: NoteDragMode;
+    dx: number;
+    dy: number;
+  } | null>(null);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 每毫秒的寬度 (像素)
+   */
+  const pixelsPerMs = pixelsPerSecond / 1000;
+
+  /**
+   * 拍長 (毫秒)，沒有速度資訊時為 null
+   */
+  const beatMs = tempo ? 60000 / tempo : null;
+
+  /**
+   * 拖曳對齊間隔 (毫秒)：有速度時為十六分音符
+   */
+  const snapMs = beatMs ? beatMs / 4 : GRID_LAYOUT.FREE_SNAP_MS;
+
+  /**
+   * 網格尺寸
+   */
+  const gridWidth = (Math.max(duration, getPianoRollEndTime(notes)) + GRID_LAYOUT.TRAILING_MS) * pixelsPerMs;
+  const gridHeight = ROWS.length * GRID_LAYOUT.ROW_HEIGHT;
+
+  /**
+   * 將拖曳的像素位移換算為時間與音高位移
+   */
+  const toDelta = useCallback((dx: number, dy: number) => ({
+    deltaMs: Math.round(dx / pixelsPerMs / snapMs) * snapMs,
+    deltaSemitones: -Math.round(dy / GRID_LAYOUT.ROW_HEIGHT),
+  }), [pixelsPerMs, snapMs]);
+
+  /**
+   * 套用拖曳中的位移
+   */
+  const applyDrag = useCallback((
+    source: PianoRollNote[],
+    state: NonNullable<typeof drag>,
+    dx: number,
+    dy: number
+  ) => {
+    const { deltaMs, deltaSemitones } = toDelta(dx, dy);
+    return state.mode === 'move'
+      ? moveNotes(source, state.ids, deltaMs, deltaSemitones)
+      : resizeNotes(source, state.ids, deltaMs);
+  }, [toDelta]);
+
+  /**
+   * 顯示的音符 (拖曳中為預覽)
+   */
+  const displayNotes = useMemo(
+    () => (drag ? applyDrag(notes, drag, drag.dx, drag.dy) : notes),
+    [notes, drag, applyDrag]
+  );
+
+  /**
+   * 縱向格線的時間點與是否為小節線
+   */
+  const gridLines = useMemo(() => {
+    const interval = beatMs ?? GRID_LAYOUT.FREE_LINE_MS;
+    const totalMs = gridWidth / pixelsPerMs;
+    const lines: { time: number; strong: boolean }[] = [];
+    for (let index = 0; index * interval <= totalMs; index++) {
+      lines.push({ time: index * interval, strong: beatMs ? index % beatsPerBar === 0 : true });
+    }
+    return lines;
+  }, [beatMs, beatsPerBar, gridWidth, pixelsPerMs]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 開始拖曳：拖曳未選取的音符時只拖曳該音符
+   */
+  const handleDragStart = useCallback((id: string, mode: NoteDragMode) => {
+    const ids = selectedIds.has(id) ? selectedIds : new Set([id]);
+    if (!selectedIds.has(id)) {
+      onNotePress?.(id);
+    }
+    setDrag({ ids, mode, dx: 0, dy: 0 });
+  }, [selectedIds, onNotePress]);
+
+  /**
+   * 拖曳中更新預覽
+   */
+  const handleDragMove = useCallback((dx: number, dy: number) => {
+    setDrag(prev => (prev ? { ...prev, dx, dy } : prev));
+  }, []);
+
+  /**
+   * 放開時套用拖曳
+   */
+  const handleDragEnd = useCallback((dx: number, dy: number) => {
+    if (drag) {
+      const updated = applyDrag(notes, drag, dx, dy);
+      if (updated !== notes) {
+        onNotesChange?.(updated);
+      }
+    }
+    setDrag(null);
+  }, [drag, notes, applyDrag, onNotesChange]);
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染琴鍵標籤欄
+   */
+  const renderKeyLabels = () => (
+    <View style={[styles.keyLabels, { borderRightColor: themeColors.border.primary }]}>
+      {ROWS.map(noteId => {
+        const black = isBlackKey(parseNoteId(noteId).noteName);
+        return (
+          <View
+            key={noteId}
+            style={[
+              styles.keyLabel,
+              { backgroundColor: black ? themeColors.surface.tertiary : themeColors.surface.primary },
+            ]}
+          >
+            <Text style={[styles.keyLabelText, { color: themeColors.text.secondary }]}>
+              {noteId}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  /**
+   * 渲染音符
+   */
+  const renderNote = (note: PianoRollNote) => {
+    const row = ROW_INDEX.get(note.noteId);
+    if (row === undefined) {
+      return null;
+    }
+
+    const active = note.trackId === activeTrackId;
+    const editable = active && !readOnly;
+    const selected = editable && selectedIds.has(note.id);
+    const color = !active
+      ? BASE_COLORS.gray
+      : selected ? BASE_COLORS.accent : BASE_COLORS.primary;
+    const velocityRatio = note.velocity / PIANO_ROLL_CONSTANTS.MAX_VELOCITY;
+
+    return (
+      <PianoRollNoteBar
+        key={note.id}
+        id={note.id}
+        x={note.start * pixelsPerMs}
+        y={row * GRID_LAYOUT.ROW_HEIGHT + 1}
+        width={(note.end - note.start) * pixelsPerMs}
+        height={GRID_LAYOUT.ROW_HEIGHT - 2}
+        color={color}
+        opacity={active ? 0.35 + 0.65 * velocityRatio : 0.35}
+        selected={selected}
+        editable={editable}
+        onPress={onNotePress}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragEnd={handleDragEnd}
+      />
+    );
+  };
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <ScrollView style={style} scrollEnabled={!drag}>
+      <View style={styles.content}>
+        {renderKeyLabels()}
+
+        <ScrollView horizontal scrollEnabled={!drag}>
+          <Pressable
+            style={{ width: gridWidth, height: gridHeight }}
+            onPress={onBackgroundPress}
+            accessibilityLabel="鋼琴捲簾"
+          >
+            {/* 黑鍵列底色 */}
+            {ROWS.map((noteId, index) => (isBlackKey(parseNoteId(noteId).noteName) ? (
+              <View
+                key={noteId}
+                style={[
+                  styles.row,
+                  {
+                    top: index * GRID_LAYOUT.ROW_HEIGHT,
+                    width: gridWidth,
+                    backgroundColor: themeColors.surface.secondary,
+                  },
+                ]}
+              />
+            ) : null))}
+
+            {/* 拍線與小節線 */}
+            {gridLines.map(line => (
+              <View
+                key={line.time}
+                style={[
+                  styles.gridLine,
+                  {
+                    left: line.time * pixelsPerMs,
+                    backgroundColor: line.strong ? themeColors.border.secondary : themeColors.border.subtle,
+                  },
+                ]}
+              />
+            ))}
+
+            {displayNotes.map(renderNote)}
+          </Pressable>
+        </ScrollView>
+      </View>
+    </ScrollView>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  content: {
+    flexDirection: 'row',
+  },
+
+  keyLabels: {
+    width: GRID_LAYOUT.KEY_LABEL_WIDTH,
+    borderRightWidth: StyleSheet.hairlineWidth,
+  },
+
+  keyLabel: {
+    height: GRID_LAYOUT.ROW_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+
+  keyLabelText: {
+    fontSize: 9,
+    fontFamily: 'monospace',
+  },
+
+  row: {
+    position: 'absolute',
+    left: 0,
+    height: GRID_LAYOUT.ROW_HEIGHT,
+  },
+
+  gridLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PianoRollGrid.displayName = 'PianoRollGrid';
+
+// ========== 導出元件 ==========
+
+export default PianoRollGrid;
@@ -0,0 +1,516 @@
+/**
+ * 簡譜鋼琴應用程式 - 鋼琴捲簾編輯視窗
+ *
+ * 本文件實作了錄音音符的全螢幕編輯視窗：選擇要編輯的音軌後，
+ * 可在鋼琴捲簾上選取、移動、調整長度、刪除音符與調整力度，並可縮放時間軸。
+ * 量化、變更速度等變換先在捲簾上預覽，套用後與手動編輯一樣記錄在編輯歷史中，
+ * 可以復原與重做；按下儲存才寫回錄音。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { RecordingData } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import {
+  EditHistory,
+  createEditHistory,
+  pushEditHistory,
+  undoEditHistory,
+  redoEditHistory,
+} from '../../utils/editHistory';
+import {
+  PianoRollNote,
+  createPianoRollNotes,
+  applyPianoRollNotes,
+  deleteNotes,
+  changeNotesVelocity,
+} from '../../utils/pianoRoll';
+import {
+  RecordingTransform,
+  DEFAULT_TRANSFORMS,
+  applyRecordingTransform,
+  getRecordingTempo,
+} from '../../utils/recordingTransforms';
+import PianoRollGrid from './PianoRollGrid';
+import TransformPanel from './TransformPanel';
+
+// ========== 元件 Props 介面 ==========
+
+export interface PianoRollModalProps {
+  /** 是否顯示 */
+  visible: boolean;
+
+  /** 要編輯的錄音 */
+  recording: RecordingData | null;
+
+  /** 開啟時編輯的音軌ID，未提供時為第一個音軌 */
+  initialTrackId?: string | null;
+
+  /** 儲存回調，傳入寫回音符後的錄音 */
+  onSave?: (recording: RecordingData) => void;
+
+  /** 關閉回調 */
+  onClose?: () => void;
+}
+
+/**
+ * 編輯中的內容：錄音 (速度、踏板等音符以外的資料) 與捲簾上的音符
+ */
+interface PianoRollDocument {
+  recording: RecordingData;
+  notes: PianoRollNote[];
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 時間軸縮放等級 (每秒像素)
+ */
+const ZOOM_LEVELS = [25, 50, 100, 200, 400] as const;
+
+/**
+ * 預設縮放等級索引
+ */
+const DEFAULT_ZOOM_INDEX = 2;
+
+/**
+ * 力度每次調整的間距
+ */
+const VELOCITY_STEP = 8;
+
+// ========== 鋼琴捲簾編輯視窗元件 ==========
+
+/**
+ * 鋼琴捲簾編輯視窗元件
+ */
+const PianoRollModal: React.FC<PianoRollModalProps> = memo(({
+  visible,
+  recording,
+  initialTrackId = null,
+  onSave,
+  onClose,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [history, setHistory] = useState<EditHistory<PianoRollDocument | null>>(() => createEditHistory(null));
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [isMultiSelect, setIsMultiSelect] = useState(false);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [transform, setTransform] = useState<RecordingTransform | null>(null);
+
+  /**
+   * 開啟視窗時由錄音建立音符並清除編輯歷史
+   */
+  useEffect(() => {
+    if (!visible || !recording) return;
+
+    setHistory(createEditHistory({ recording, notes: createPianoRollNotes(recording) }));
+    setActiveTrackId(
+      recording.tracks.some(track => track.id === initialTrackId)
+        ? initialTrackId
+        : recording.tracks[0]?.id ?? null
+    );
+    setSelectedIds(new Set());
+    setIsMultiSelect(false);
+    setTransform(null);
+  }, [visible, recording, initialTrackId]);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 目前編輯的內容
+   */
+  const editing = history.present;
+  const notes = useMemo(() => editing?.notes ?? [], [editing]);
+
+  /**
+   * 寫回目前音符的錄音
+   */
+  const editedRecording = useMemo(
+    () => (editing ? applyPianoRollNotes(editing.recording, editing.notes) : null),
+    [editing]
+  );
+
+  /**
+   * 目前的速度，作為變更速度的初始值
+   */
+  const currentTempo = useMemo(
+    () => (editedRecording ? getRecordingTempo(editedRecording) : 0),
+    [editedRecording]
+  );
+
+  /**
+   * 套用變換後的預覽內容
+   */
+  const preview = useMemo<PianoRollDocument | null>(() => {
+    if (!transform || !editedRecording) return null;
+    const transformed = applyRecordingTransform(editedRecording, transform, activeTrackId);
+    return { recording: transformed, notes: createPianoRollNotes(transformed) };
+  }, [transform, editedRecording, activeTrackId]);
+
+  /**
+   * 捲簾顯示的內容
+   */
+  const displayed = preview ?? editing;
+
+  /**
+   * 選取的音符
+   */
+  const selectedNotes = useMemo(
+    () => notes.filter(note => selectedIds.has(note.id)),
+    [notes, selectedIds]
+  );
+
+  /**
+   * 選取音符的平均力度
+   */
+  const selectedVelocity = selectedNotes.length > 0
+    ? Math.round(selectedNotes.reduce((sum, note) => sum + note.velocity, 0) / selectedNotes.length)
+    : null;
+
+  /**
+   * 是否有未儲存的修改
+   */
+  const isDirty = history.past.length > 0;
+
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 記錄一次音符編輯
+   */
+  const commit = useCallback((next: PianoRollNote[]) => {
+    setHistory(prev => (
+      prev.present && next !== prev.present.notes
+        ? pushEditHistory(prev, { ...prev.present, notes: next })
+        : prev
+    ));
+  }, []);
+
+  /**
+   * 輕點音符：多選模式下切換選取，否則只選取該音符
+   */
+  const handleNotePress = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      if (!isMultiSelect) {
+        return new Set([id]);
+      }
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, [isMultiSelect]);
+
+  /**
+   * 切換編輯的音軌
+   */
+  const handleSelectTrack = (trackId: string) => {
+    setActiveTrackId(trackId);
+    setSelectedIds(new Set());
+  };
+
+  /**
+   * 選取編輯中音軌的所有音符
+   */
+  const handleSelectAll = () => {
+    setSelectedIds(new Set(notes.filter(note => note.trackId === activeTrackId).map(note => note.id)));
+  };
+
+  /**
+   * 刪除選取的音符
+   */
+  const handleDelete = () => {
+    commit(deleteNotes(notes, selectedIds));
+    setSelectedIds(new Set());
+  };
+
+  /**
+   * 開啟或關閉變換面板，預覽期間不能選取音符
+   */
+  const handleToggleTransform = () => {
+    setTransform(prev => (prev ? null : DEFAULT_TRANSFORMS.quantize));
+    setSelectedIds(new Set());
+  };
+
+  /**
+   * 套用預覽中的變換，音符重新建立後清除選取
+   */
+  const handleApplyTransform = () => {
+    if (preview) {
+      setHistory(prev => pushEditHistory(prev, preview));
+    }
+    setTransform(null);
+    setSelectedIds(new Set());
+  };
+
+  /**
+   * 儲存並寫回錄音
+   */
+  const handleSave = () => {
+    if (editedRecording) {
+      onSave?.(editedRecording);
+    }
+  };
+
+  /**
+   * 關閉視窗，有未儲存的修改時先確認
+   */
+  const handleClose = () => {
+    if (!isDirty) {
+      onClose?.();
+      return;
+    }
+
+    Alert.alert(
+      '放棄修改',
+      '尚未儲存的修改將會遺失，確定要關閉嗎？',
+      [
+        { text: '取消', style: 'cancel' },
+        { text: '放棄', style: 'destructive', onPress: onClose },
+      ]
+    );
+  };
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染工具列圖示按鈕
+   */
+  const renderIconButton = (
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    onPress: () => void,
+    enabled: boolean = true,
+    color: string = themeColors.text.primary
+  ) => (
+    <TouchableOpacity
+      style={styles.iconButton}
+      onPress={onPress}
+      disabled={!enabled}
+      accessibilityLabel={label}
+      accessibilityRole="button"
+      accessibilityState={{ disabled: !enabled }}
+    >
+      <Ionicons name={icon} size={22} color={enabled ? color : themeColors.text.disabled} />
+    </TouchableOpacity>
+  );
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+      onRequestClose={handleClose}
+    >
+      <View style={[styles.container, { backgroundColor: themeColors.background.primary }]}>
+        {/* 工具列 */}
+        <View style={[styles.header, { borderBottomColor: themeColors.border.primary }]}>
+          {renderIconButton('close', '關閉編輯器', handleClose)}
+
+          {/* 音軌選擇 */}
+          <ScrollView horizontal style={styles.tracks} contentContainerStyle={styles.trackOptions}>
+            {recording?.tracks.map(track => {
+              const selected = track.id === activeTrackId;
+              return (
+                <TouchableOpacity
+                  key={track.id}
+                  style={[
+                    styles.trackButton,
+                    { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary },
+                  ]}
+                  onPress={() => handleSelectTrack(track.id)}
+                  accessibilityLabel={`編輯${track.name}`}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={{ color: selected ? BASE_COLORS.primary : themeColors.text.primary }}>
+                    {track.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {renderIconButton('arrow-undo', '復原', () => setHistory(undoEditHistory), canUndo)}
+          {renderIconButton('arrow-redo', '重做', () => setHistory(redoEditHistory), canRedo)}
+
+          <View style={[styles.divider, { backgroundColor: themeColors.border.primary }]} />
+
+          {renderIconButton(
+            isMultiSelect ? 'checkbox' : 'checkbox-outline',
+            isMultiSelect ? '關閉多選' : '多選',
+            () => setIsMultiSelect(prev => !prev),
+            true,
+            isMultiSelect ? BASE_COLORS.primary : themeColors.text.primary
+          )}
+          {renderIconButton('albums-outline', '全選', handleSelectAll)}
+          {renderIconButton('trash-outline', '刪除選取的音符', handleDelete, selectedNotes.length > 0, BASE_COLORS.error)}
+
+          {/* 力度 */}
+          {renderIconButton(
+            'remove',
+            '降低力度',
+            () => commit(changeNotesVelocity(notes, selectedIds, -VELOCITY_STEP)),
+            selectedNotes.length > 0
+          )}
+          <Text style={[styles.velocityText, { color: themeColors.text.secondary }]}>
+            {selectedVelocity === null ? '力度 —' : `力度 ${selectedVelocity}`}
+          </Text>
+          {renderIconButton(
+            'add',
+            '提高力度',
+            () => commit(changeNotesVelocity(notes, selectedIds, VELOCITY_STEP)),
+            selectedNotes.length > 0
+          )}
+
+          <View style={[styles.divider, { backgroundColor: themeColors.border.primary }]} />
+
+          {/* 縮放 */}
+          {renderIconButton('remove-circle-outline', '縮小時間軸', () => setZoomIndex(prev => prev - 1), zoomIndex > 0)}
+          {renderIconButton(
+            'add-circle-outline',
+            '放大時間軸',
+            () => setZoomIndex(prev => prev + 1),
+            zoomIndex < ZOOM_LEVELS.length - 1
+          )}
+
+          {renderIconButton(
+            'color-wand-outline',
+            transform ? '關閉變換' : '變換',
+            handleToggleTransform,
+            !!editing,
+            transform ? BASE_COLORS.primary : themeColors.text.primary
+          )}
+
+          {renderIconButton('checkmark', '儲存', handleSave, isDirty && !transform, BASE_COLORS.primary)}
+        </View>
+
+        {/* 變換面板 */}
+        {transform && editing ? (
+          <TransformPanel
+            value={transform}
+            tempo={currentTempo}
+            onChange={setTransform}
+            onApply={handleApplyTransform}
+            onCancel={() => setTransform(null)}
+          />
+        ) : null}
+
+        {/* 鋼琴捲簾 */}
+        {displayed ? (
+          <PianoRollGrid
+            style={styles.grid}
+            notes={displayed.notes}
+            activeTrackId={activeTrackId}
+            selectedIds={selectedIds}
+            readOnly={!!preview}
+            pixelsPerSecond={ZOOM_LEVELS[zoomIndex]}
+            duration={displayed.recording.duration}
+            tempo={displayed.recording.tempo}
+            beatsPerBar={displayed.recording.timeSignature?.numerator}
+            onNotePress={handleNotePress}
+            onBackgroundPress={() => setSelectedIds(new Set())}
+            onNotesChange={commit}
+          />
+        ) : null}
+      </View>
+    </Modal>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  tracks: {
+    flex: 1,
+  },
+
+  trackOptions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+
+  trackButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  divider: {
+    width: StyleSheet.hairlineWidth,
+    height: 24,
+    marginHorizontal: 4,
+  },
+
+  velocityText: {
+    minWidth: 56,
+    fontSize: 13,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+
+  grid: {
+    flex: 1,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PianoRollModal.displayName = 'PianoRollModal';
+
+// ========== 導出元件 ==========
+
+export default PianoRollModal;
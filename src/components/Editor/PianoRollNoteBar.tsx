@@ -0,0 +1,190 @@
+/**
+ * 簡譜鋼琴應用程式 - 鋼琴捲簾音符條元件
+ *
+ * 本文件實作了鋼琴捲簾上的單一音符條：輕點選取，拖曳本體移動音符，
+ * 拖曳右緣調整長度。拖曳過程只回報位移量，實際的修改由捲簾在放開時套用。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useMemo, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  PanResponder,
+} from 'react-native';
+
+// ========== 元件 Props 介面 ==========
+
+/**
+ * 拖曳模式：移動音符或調整長度
+ */
+export type NoteDragMode = 'move' | 'resize';
+
+export interface PianoRollNoteBarProps {
+  /** 音符ID */
+  id: string;
+
+  /** 左緣位置 (像素) */
+  x: number;
+
+  /** 上緣位置 (像素) */
+  y: number;
+
+  /** 寬度 (像素) */
+  width: number;
+
+  /** 高度 (像素) */
+  height: number;
+
+  /** 顏色 */
+  color: string;
+
+  /** 不透明度，反映力度 */
+  opacity: number;
+
+  /** 是否選取 */
+  selected: boolean;
+
+  /** 是否可編輯，不可編輯時不接收觸控 */
+  editable: boolean;
+
+  /** 輕點回調 */
+  onPress?: (id: string) => void;
+
+  /** 開始拖曳回調 */
+  onDragStart?: (id: string, mode: NoteDragMode) => void;
+
+  /** 拖曳中回調 (位移為像素) */
+  onDragMove?: (dx: number, dy: number) => void;
+
+  /** 結束拖曳回調 (位移為像素) */
+  onDragEnd?: (dx: number, dy: number) => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 右緣調整長度的觸控寬度 (像素)
+ */
+const RESIZE_HANDLE_WIDTH = 12;
+
+/**
+ * 視為輕點的最大移動距離 (像素)
+ */
+const TAP_SLOP = 4;
+
+// ========== 鋼琴捲簾音符條元件 ==========
+
+/**
+ * 鋼琴捲簾音符條元件
+ */
+const PianoRollNoteBar: React.FC<PianoRollNoteBarProps> = memo((props) => {
+  const { x, y, width, height, color, opacity, selected, editable } = props;
+
+  // ========== Hooks ==========
+
+  // 手勢處理器只建立一次，透過 ref 取得最新的 props
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const isDraggingRef = useRef(false);
+  const touchXRef = useRef(0);
+
+  // ========== 事件處理 ==========
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+
+    onPanResponderGrant: (event) => {
+      isDraggingRef.current = false;
+      touchXRef.current = event.nativeEvent.locationX;
+    },
+
+    onPanResponderMove: (_event, gesture) => {
+      const current = propsRef.current;
+      if (!isDraggingRef.current) {
+        if (Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP) {
+          return;
+        }
+        // 依按下位置決定拖曳模式：右緣調整長度，其餘移動
+        const mode: NoteDragMode =
+          touchXRef.current >= current.width - RESIZE_HANDLE_WIDTH ? 'resize' : 'move';
+        isDraggingRef.current = true;
+        current.onDragStart?.(current.id, mode);
+      }
+      current.onDragMove?.(gesture.dx, gesture.dy);
+    },
+
+    onPanResponderRelease: (_event, gesture) => {
+      const current = propsRef.current;
+      if (isDraggingRef.current) {
+        current.onDragEnd?.(gesture.dx, gesture.dy);
+      } else {
+        current.onPress?.(current.id);
+      }
+      isDraggingRef.current = false;
+    },
+
+    onPanResponderTerminate: () => {
+      if (isDraggingRef.current) {
+        propsRef.current.onDragEnd?.(0, 0);
+      }
+      isDraggingRef.current = false;
+    },
+  }), []);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View
+      {...(editable ? panResponder.panHandlers : {})}
+      pointerEvents={editable ? 'auto' : 'none'}
+      style={[
+        styles.bar,
+        {
+          left: x,
+          top: y,
+          width: Math.max(width, 2),
+          height,
+          backgroundColor: color,
+          opacity,
+          borderColor: selected ? '#FFFFFF' : 'transparent',
+        },
+      ]}
+    >
+      {editable && selected ? <View style={styles.resizeHandle} /> : null}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    borderRadius: 3,
+    borderWidth: 1.5,
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+  },
+
+  resizeHandle: {
+    width: 3,
+    height: '60%',
+    marginRight: 2,
+    borderRadius: 1.5,
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PianoRollNoteBar.displayName = 'PianoRollNoteBar';
+
+// ========== 導出元件 ==========
+
+export default PianoRollNoteBar;
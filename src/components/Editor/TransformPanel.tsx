@@ -0,0 +1,349 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音變換面板
+ *
+ * 本文件實作了鋼琴捲簾編輯器中的變換面板：選擇變換類型並調整參數，
+ * 編輯器即時在捲簾上預覽結果，按下套用才記錄到編輯歷史。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { formatSigned } from '../../utils/transpose';
+import type { QuantizeGrid } from '../../utils/transcription';
+import {
+  DEFAULT_TRANSFORMS,
+  TRANSFORM_CONSTANTS,
+  RecordingTransform,
+  RecordingTransformType,
+} from '../../utils/recordingTransforms';
+import StepperRow from '../UI/StepperRow';
+
+// ========== 元件 Props 介面 ==========
+
+export interface TransformPanelProps {
+  /** 目前的變換與參數 */
+  value: RecordingTransform;
+
+  /** 錄音目前的速度 (BPM)，作為變更速度的初始值 */
+  tempo: number;
+
+  /** 變換或參數變更回調 */
+  onChange: (transform: RecordingTransform) => void;
+
+  /** 套用回調 */
+  onApply?: () => void;
+
+  /** 取消回調 */
+  onCancel?: () => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 變換類型選項
+ */
+const TRANSFORM_OPTIONS: { value: RecordingTransformType; label: string }[] = [
+  { value: 'quantize', label: '量化' },
+  { value: 'humanize', label: '人性化' },
+  { value: 'tempo', label: '速度' },
+  { value: 'transpose', label: '移調' },
+  { value: 'compressVelocity', label: '力度壓縮' },
+  { value: 'removeShortNotes', label: '移除短音' },
+];
+
+/**
+ * 量化網格選項
+ */
+const GRID_OPTIONS: { value: QuantizeGrid; label: string }[] = [
+  { value: 'quarter', label: '四分' },
+  { value: 'eighth', label: '八分' },
+  { value: 'sixteenth', label: '十六分' },
+];
+
+// ========== 錄音變換面板元件 ==========
+
+/**
+ * 錄音變換面板元件
+ */
+const TransformPanel: React.FC<TransformPanelProps> = memo(({
+  value,
+  tempo,
+  onChange,
+  onApply,
+  onCancel,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 切換變換類型，變更速度以目前的速度為起點
+   */
+  const handleSelectType = (type: RecordingTransformType) => {
+    if (type === value.type) return;
+    onChange(type === 'tempo' ? { type, tempo: Math.round(tempo) } : DEFAULT_TRANSFORMS[type]);
+  };
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染選項按鈕
+   */
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary }]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={{ color: selected ? BASE_COLORS.primary : textColor }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  /**
+   * 渲染目前變換的參數
+   */
+  const renderParameters = () => {
+    switch (value.type) {
+      case 'quantize':
+        return (
+          <>
+            {GRID_OPTIONS.map(option => renderOption(
+              option.value,
+              option.label,
+              option.value === value.grid,
+              () => onChange({ ...value, grid: option.value })
+            ))}
+            <StepperRow
+              label="強度"
+              value={value.strength}
+              step={0.1}
+              min={0}
+              max={1}
+              color={textColor}
+              formatValue={(strength) => `${Math.round(strength * 100)}%`}
+              onChange={(strength) => onChange({ ...value, strength })}
+            />
+            <StepperRow
+              label="搖擺"
+              value={value.swing}
+              step={0.05}
+              min={TRANSFORM_CONSTANTS.MIN_SWING}
+              max={TRANSFORM_CONSTANTS.MAX_SWING}
+              color={textColor}
+              formatValue={(swing) => `${Math.round(swing * 100)}%`}
+              onChange={(swing) => onChange({ ...value, swing })}
+            />
+          </>
+        );
+      case 'humanize':
+        return (
+          <>
+            <StepperRow
+              label="時間"
+              value={value.timingMs}
+              step={5}
+              min={0}
+              max={100}
+              color={textColor}
+              formatValue={(timingMs) => `±${timingMs}ms`}
+              onChange={(timingMs) => onChange({ ...value, timingMs })}
+            />
+            <StepperRow
+              label="力度"
+              value={value.velocity}
+              step={2}
+              min={0}
+              max={40}
+              color={textColor}
+              formatValue={(velocity) => `±${velocity}`}
+              onChange={(velocity) => onChange({ ...value, velocity })}
+            />
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange({ ...value, seed: value.seed + 1 })}
+              accessibilityLabel="重新產生隨機偏移"
+              accessibilityRole="button"
+            >
+              <Ionicons name="shuffle" size={20} color={textColor} />
+            </TouchableOpacity>
+          </>
+        );
+      case 'tempo':
+        return (
+          <StepperRow
+            label="速度"
+            value={value.tempo}
+            step={1}
+            min={TRANSFORM_CONSTANTS.MIN_TEMPO}
+            max={TRANSFORM_CONSTANTS.MAX_TEMPO}
+            color={textColor}
+            formatValue={(bpm) => `♩=${bpm}`}
+            onChange={(bpm) => onChange({ ...value, tempo: bpm })}
+          />
+        );
+      case 'transpose':
+        return (
+          <StepperRow
+            label="半音"
+            value={value.semitones}
+            step={1}
+            min={-12}
+            max={12}
+            color={textColor}
+            formatValue={formatSigned}
+            onChange={(semitones) => onChange({ ...value, semitones })}
+          />
+        );
+      case 'compressVelocity':
+        return (
+          <>
+            <StepperRow
+              label="門檻"
+              value={value.threshold}
+              step={8}
+              min={16}
+              max={120}
+              color={textColor}
+              onChange={(threshold) => onChange({ ...value, threshold })}
+            />
+            <StepperRow
+              label="比例"
+              value={value.ratio}
+              step={0.5}
+              min={1}
+              max={8}
+              color={textColor}
+              formatValue={(ratio) => `${ratio}:1`}
+              onChange={(ratio) => onChange({ ...value, ratio })}
+            />
+          </>
+        );
+      case 'removeShortNotes':
+        return (
+          <StepperRow
+            label="最短"
+            value={value.minLengthMs}
+            step={10}
+            min={10}
+            max={500}
+            color={textColor}
+            formatValue={(minLengthMs) => `${minLengthMs}ms`}
+            onChange={(minLengthMs) => onChange({ ...value, minLengthMs })}
+          />
+        );
+    }
+  };
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, { borderBottomColor: themeColors.border.primary }]}>
+      <ScrollView horizontal contentContainerStyle={styles.row} showsHorizontalScrollIndicator={false}>
+        {TRANSFORM_OPTIONS.map(option => renderOption(
+          option.value,
+          option.label,
+          option.value === value.type,
+          () => handleSelectType(option.value)
+        ))}
+      </ScrollView>
+
+      <View style={styles.row}>
+        <ScrollView
+          horizontal
+          style={styles.parameters}
+          contentContainerStyle={styles.row}
+          showsHorizontalScrollIndicator={false}
+        >
+          {renderParameters()}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onCancel}
+          accessibilityLabel="取消變換"
+          accessibilityRole="button"
+        >
+          <Ionicons name="close-circle-outline" size={24} color={themeColors.text.secondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onApply}
+          accessibilityLabel="套用變換"
+          accessibilityRole="button"
+        >
+          <Ionicons name="checkmark-circle" size={24} color={BASE_COLORS.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  parameters: {
+    flex: 1,
+  },
+
+  optionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+TransformPanel.displayName = 'TransformPanel';
+
+// ========== 導出元件 ==========
+
+export default TransformPanel;
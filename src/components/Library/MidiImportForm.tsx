@@ -0,0 +1,234 @@
+/**
+ * 簡譜鋼琴應用程式 - MIDI 匯入表單元件
+ *
+ * 本文件實作了匯入 .mid 檔案的表單：從裝置的檔案選擇器選取檔案，
+ * 或輸入檔案位置 (網址或本機路徑)。匯入的錄音存入錄音庫，
+ * 並顯示匯入報告，列出哪些音符被移調或限制在音域邊界。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+
+import type { MidiImportReport } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isAppError } from '../../utils/appError';
+import {
+  importMidiFromDocumentPicker,
+  importMidiFromUri,
+  MidiImportResult,
+} from '../../services/MidiImportService';
+
+// ========== 元件 Props 介面 ==========
+
+export interface MidiImportFormProps {
+  /** 匯入完成回調，錄音已存入錄音庫 */
+  onImported: (result: MidiImportResult) => void;
+}
+
+// ========== 工具函數 ==========
+
+/**
+ * 匯入報告摘要，只列出有發生的調整，並逐一列出被修改的音符
+ */
+const describeReport = (report: MidiImportReport): string => {
+  const parts = [`${report.noteCount} 個音符`];
+  if (report.transposedCount > 0) parts.push(`${report.transposedCount} 個以八度移入音域`);
+  if (report.clampedCount > 0) parts.push(`${report.clampedCount} 個限制在音域邊界`);
+  if (report.mergedCount > 0) parts.push(`${report.mergedCount} 個重疊音符已合併`);
+  if (report.skippedPercussionCount > 0) parts.push(`略過 ${report.skippedPercussionCount} 個打擊樂音符`);
+
+  const lines = [`已匯入：${parts.join('，')}`];
+  if (report.alterations.length > 0) {
+    const details = report.alterations.map(
+      ({ original, result, count }) => `${original} → ${result} (${count} 次)`
+    );
+    lines.push(`調整的音符：${details.join('、')}`);
+  }
+  return lines.join('\n');
+};
+
+// ========== MIDI 匯入表單元件 ==========
+
+/**
+ * MIDI 匯入表單元件
+ */
+const MidiImportForm: React.FC<MidiImportFormProps> = memo(({ onImported }) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [uri, setUri] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const canImport = uri.trim().length > 0 && !isImporting;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 執行匯入並回報結果，取消選取檔案時不顯示訊息
+   *
+   * @returns 是否已匯入
+   */
+  const runImport = useCallback(async (load: () => Promise<MidiImportResult | null>) => {
+    setIsImporting(true);
+    setMessage(null);
+    try {
+      const result = await load();
+      if (!result) return false;
+      setMessage({ text: describeReport(result.report), isError: false });
+      onImported(result);
+      return true;
+    } catch (error) {
+      setMessage({
+        text: isAppError(error) ? error.message : `匯入 MIDI 檔案失敗: ${error}`,
+        isError: true,
+      });
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [onImported]);
+
+  /**
+   * 從檔案選擇器選取並匯入
+   */
+  const handlePick = useCallback(() => {
+    runImport(() => importMidiFromDocumentPicker());
+  }, [runImport]);
+
+  /**
+   * 匯入輸入的檔案位置
+   */
+  const handleImport = useCallback(async () => {
+    if (await runImport(() => importMidiFromUri(uri.trim()))) {
+      setUri('');
+    }
+  }, [uri, runImport]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.button, styles.pickButton, { borderColor: BASE_COLORS.primary, opacity: isImporting ? 0.5 : 1 }]}
+        onPress={handlePick}
+        disabled={isImporting}
+        accessibilityLabel="選擇 MIDI 檔案"
+        accessibilityRole="button"
+        accessibilityState={{ disabled: isImporting, busy: isImporting }}
+      >
+        {isImporting
+          ? <ActivityIndicator size="small" color={BASE_COLORS.primary} />
+          : <Ionicons name="folder-open-outline" size={20} color={BASE_COLORS.primary} />}
+        <Text style={{ color: BASE_COLORS.primary }}>選擇 MIDI 檔案</Text>
+      </TouchableOpacity>
+
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border.primary }]}
+          value={uri}
+          onChangeText={setUri}
+          placeholder="MIDI 檔案網址或路徑 (.mid)"
+          placeholderTextColor={themeColors.text.secondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          onSubmitEditing={canImport ? handleImport : undefined}
+          editable={!isImporting}
+          accessibilityLabel="MIDI 檔案位置"
+        />
+        <TouchableOpacity
+          style={[styles.button, { borderColor: BASE_COLORS.primary, opacity: canImport ? 1 : 0.5 }]}
+          onPress={handleImport}
+          disabled={!canImport}
+          accessibilityLabel="匯入 MIDI"
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !canImport }}
+        >
+          <Ionicons name="download-outline" size={20} color={BASE_COLORS.primary} />
+          <Text style={{ color: BASE_COLORS.primary }}>匯入</Text>
+        </TouchableOpacity>
+      </View>
+
+      {message ? (
+        <Text
+          style={[
+            styles.message,
+            { color: message.isError ? BASE_COLORS.error : themeColors.text.secondary },
+          ]}
+        >
+          {message.text}
+        </Text>
+      ) : null}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  input: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 14,
+  },
+
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  pickButton: {
+    alignSelf: 'flex-start',
+  },
+
+  message: {
+    fontSize: 13,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+MidiImportForm.displayName = 'MidiImportForm';
+
+// ========== 導出元件 ==========
+
+export default MidiImportForm;
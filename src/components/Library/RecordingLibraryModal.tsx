@@ -0,0 +1,193 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音庫視窗
+ *
+ * 本文件實作了錄音庫的全螢幕視窗：列出已儲存的錄音並載入到鍵盤上播放，
+ * 也可以匯入外部的 MIDI 檔案，匯入後出現在列表中。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { RecordingData, RecordingSummary } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isAppError } from '../../utils/appError';
+import RecordingRepository from '../../services/RecordingRepository';
+import MidiImportForm from './MidiImportForm';
+import RecordingList from './RecordingList';
+
+// ========== 元件 Props 介面 ==========
+
+export interface RecordingLibraryModalProps {
+  /** 是否顯示 */
+  visible: boolean;
+
+  /** 目前載入的錄音ID */
+  currentRecordingId?: string | null;
+
+  /** 選擇錄音回調，傳入完整的錄音資料 */
+  onSelect: (recording: RecordingData) => void;
+
+  /** 關閉回調 */
+  onClose?: () => void;
+}
+
+// ========== 錄音庫視窗元件 ==========
+
+/**
+ * 錄音庫視窗元件
+ */
+const RecordingLibraryModal: React.FC<RecordingLibraryModalProps> = memo(({
+  visible,
+  currentRecordingId,
+  onSelect,
+  onClose,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 讀取選擇的錄音
+   */
+  const handleSelect = useCallback(async (summary: RecordingSummary) => {
+    try {
+      const recording = await RecordingRepository.getRecording(summary.id);
+      if (!recording) {
+        setError(`找不到錄音: ${summary.name}`);
+        setRefreshKey(prev => prev + 1);
+        return;
+      }
+      setError(null);
+      onSelect(recording);
+    } catch (err) {
+      console.error('讀取錄音失敗:', err);
+      setError(isAppError(err) ? err.message : `讀取錄音失敗: ${err}`);
+    }
+  }, [onSelect]);
+
+  /**
+   * 匯入完成後重新讀取列表
+   */
+  const handleImported = useCallback(() => {
+    setRefreshKey(prev => prev + 1);
+  }, []);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: themeColors.background.primary }]}>
+        {/* 標題列 */}
+        <View style={[styles.header, { borderBottomColor: themeColors.border.primary }]}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={onClose}
+            accessibilityLabel="關閉錄音庫"
+            accessibilityRole="button"
+          >
+            <Ionicons name="close" size={24} color={themeColors.text.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.titleText, { color: themeColors.text.primary }]}>錄音庫</Text>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* 匯入 MIDI */}
+          <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>匯入 MIDI</Text>
+          <MidiImportForm onImported={handleImported} />
+
+          {/* 已儲存的錄音 */}
+          <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>錄音</Text>
+          {error ? (
+            <Text style={[styles.errorText, { color: BASE_COLORS.error }]}>{error}</Text>
+          ) : null}
+          <RecordingList
+            refreshKey={refreshKey}
+            selectedId={currentRecordingId}
+            onSelect={handleSelect}
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  titleText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  content: {
+    padding: 12,
+    gap: 8,
+  },
+
+  sectionTitle: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+
+  errorText: {
+    fontSize: 13,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+RecordingLibraryModal.displayName = 'RecordingLibraryModal';
+
+// ========== 導出元件 ==========
+
+export default RecordingLibraryModal;
@@ -0,0 +1,193 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音列表元件
+ *
+ * 本文件實作了錄音庫的列表：列出已儲存的錄音 (包含匯入的 MIDI)，
+ * 依最後修改時間由新到舊排列，點選後由呼叫端載入該錄音。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+
+import type { RecordingSummary } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isAppError } from '../../utils/appError';
+import RecordingRepository from '../../services/RecordingRepository';
+
+// ========== 元件 Props 介面 ==========
+
+export interface RecordingListProps {
+  /** 變更時重新讀取列表 (例如匯入新錄音後) */
+  refreshKey?: number;
+
+  /** 目前載入的錄音ID，以醒目顏色標示 */
+  selectedId?: string | null;
+
+  /** 點選錄音回調 */
+  onSelect: (summary: RecordingSummary) => void;
+}
+
+// ========== 工具函數 ==========
+
+/**
+ * 將毫秒格式化為 m:ss
+ */
+const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// ========== 錄音列表元件 ==========
+
+/**
+ * 錄音列表元件
+ */
+const RecordingList: React.FC<RecordingListProps> = memo(({
+  refreshKey = 0,
+  selectedId,
+  onSelect,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [summaries, setSummaries] = useState<RecordingSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  // ========== 副作用 ==========
+
+  /**
+   * 讀取錄音列表，元件卸載或重新讀取時忽略舊的結果
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    RecordingRepository.listRecordings()
+      .then(list => {
+        if (cancelled) return;
+        setSummaries([...list].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('讀取錄音列表失敗:', err);
+        setError(isAppError(err) ? err.message : `讀取錄音列表失敗: ${err}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染單筆錄音
+   */
+  const renderItem = (summary: RecordingSummary) => {
+    const selected = summary.id === selectedId;
+    return (
+      <TouchableOpacity
+        key={summary.id}
+        style={[styles.item, { borderBottomColor: themeColors.border.subtle }]}
+        onPress={() => onSelect(summary)}
+        accessibilityLabel={`載入 ${summary.name}`}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+      >
+        <Ionicons
+          name={selected ? 'musical-notes' : 'musical-notes-outline'}
+          size={20}
+          color={selected ? BASE_COLORS.primary : themeColors.text.secondary}
+        />
+        <Text
+          style={[styles.name, { color: selected ? BASE_COLORS.primary : themeColors.text.primary }]}
+          numberOfLines={1}
+        >
+          {summary.name}
+        </Text>
+        <Text style={[styles.detail, { color: themeColors.text.secondary }]}>
+          {`${summary.trackCount} 軌  ${formatDuration(summary.duration)}`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // ========== 主要渲染 ==========
+
+  if (error) {
+    return <Text style={[styles.message, { color: BASE_COLORS.error }]}>{error}</Text>;
+  }
+
+  if (!summaries) {
+    return <ActivityIndicator style={styles.loading} color={BASE_COLORS.primary} />;
+  }
+
+  if (summaries.length === 0) {
+    return (
+      <Text style={[styles.message, { color: themeColors.text.secondary }]}>
+        錄音庫是空的
+      </Text>
+    );
+  }
+
+  return <View>{summaries.map(renderItem)}</View>;
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  name: {
+    flex: 1,
+    fontSize: 15,
+  },
+
+  detail: {
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+
+  message: {
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+
+  loading: {
+    paddingVertical: 12,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+RecordingList.displayName = 'RecordingList';
+
+// ========== 導出元件 ==========
+
+export default RecordingList;
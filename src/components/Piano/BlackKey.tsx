@@ -295,7 +295,7 @@ const BlackKey: React.FC<BlackKeyProps> = memo(({
         {/* 簡譜標記 */}
         {showSolfege && (
           <Text style={solfegeTextStyle} numberOfLines={1}>
-            {keyConfig.solfege}
+            {keyConfig.solfegeLabel}
           </Text>
         )}
         
@@ -275,7 +275,7 @@ const PianoKey: React.FC<PianoKeyProps> = memo(({
     const labels = [];
     
     if (showSolfege) {
-      labels.push(keyConfig.solfege);
+      labels.push(keyConfig.solfegeLabel);
     }
     
     if (showNoteName) {
@@ -302,13 +302,13 @@ const PianoKey: React.FC<PianoKeyProps> = memo(({
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         activeOpacity={1} // 由自定義動畫控制透明度
-        accessibilityLabel={`琴鍵 ${keyConfig.solfege} ${keyConfig.noteId}`}
+        accessibilityLabel={`琴鍵 ${keyConfig.solfegeLabel} ${keyConfig.noteId}`}
         accessibilityRole="button"
-        accessibilityHint={`播放 ${keyConfig.solfege} 音符`}
+        accessibilityHint={`播放 ${keyConfig.solfegeLabel} 音符`}
       >
         <Animated.View style={[styles.keyBackground, animatedBackgroundStyle]}>
           <Text style={styles.keyLabel}>
-            {showSolfege && keyConfig.solfege}
+            {showSolfege && keyConfig.solfegeLabel}
           </Text>
           {showNoteName && (
             <Text style={[styles.noteNameLabel, { color: textColor }]}>
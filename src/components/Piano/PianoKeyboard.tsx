@@ -35,11 +35,15 @@ import type {
   NoteId, 
   PianoKeyConfig, 
   KeyPressState,
-  KeyboardInteractionEvent 
+  KeyboardInteractionEvent,
+  MusicalKey,
+  VelocityCalibration
 } from '../../types';
 
 import { generateKeyboardLayout } from '../../utils/pianoLayout';
 import { getThemeColors } from '../../utils/colorScheme';
+import { DEFAULT_MUSICAL_KEY } from '../../utils/keySignature';
+import { calculateTouchVelocity, getTouchForce, DEFAULT_VELOCITY_CALIBRATION } from '../../utils/velocity';
 import AudioService from '../../services/AudioService';
 
 import WhiteKey from './WhiteKey';
@@ -54,6 +58,9 @@ export interface PianoKeyboardProps {
   /** 是否顯示音符名稱 */
   showNoteName?: boolean;
   
+  /** 簡譜標記所依據的調性 */
+  musicalKey?: MusicalKey;
+  
   /** 是否啟用音域顏色編碼 */
   useColorCoding?: boolean;
   
@@ -63,6 +70,9 @@ export interface PianoKeyboardProps {
   /** 主音量 (0-1) */
   masterVolume?: number;
   
+  /** 觸控力度校正 */
+  velocityCalibration?: VelocityCalibration;
+  
   /** 鍵盤互動事件回調 */
   onKeyboardInteraction?: (event: KeyboardInteractionEvent) => void;
   
@@ -88,9 +98,11 @@ export interface PianoKeyboardProps {
 const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
   showSolfege = true,
   showNoteName = false,
+  musicalKey = DEFAULT_MUSICAL_KEY,
   useColorCoding = true,
   hapticFeedback = true,
   masterVolume = 0.7,
+  velocityCalibration = DEFAULT_VELOCITY_CALIBRATION,
   onKeyboardInteraction,
   onNoteStart,
   onNoteEnd,
@@ -103,7 +115,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
   const audioService = useRef(AudioService).current;
   
   // 狀態管理
-  const [keyboardLayout, setKeyboardLayout] = useState(generateKeyboardLayout());
+  const [keyboardLayout, setKeyboardLayout] = useState(() => generateKeyboardLayout(undefined, undefined, musicalKey));
   const [pressedKeys, setPressedKeys] = useState<Set<NoteId>>(new Set());
   const [keyboardDimensions, setKeyboardDimensions] = useState({ width: 0, height: 0 });
   const [isAudioReady, setIsAudioReady] = useState(false);
@@ -173,6 +185,13 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
     }
   }, [masterVolume, isAudioReady]);
 
+  /**
+   * 調性變更時重新計算簡譜標記
+   */
+  useEffect(() => {
+    setKeyboardLayout(generateKeyboardLayout(undefined, undefined, musicalKey));
+  }, [musicalKey]);
+
   // ========== 佈局計算 ==========
   
   /**
@@ -183,9 +202,9 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
     setKeyboardDimensions({ width, height });
     
     // 重新計算鍵盤佈局
-    const newLayout = generateKeyboardLayout();
+    const newLayout = generateKeyboardLayout(undefined, undefined, musicalKey);
     setKeyboardLayout(newLayout);
-  }, []);
+  }, [musicalKey]);
 
   // ========== 互動事件處理 ==========
   
@@ -203,7 +222,13 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
     
     // 開始播放音符
     try {
-      const velocity = 100; // 可以根據觸控壓力調整
+      // 依觸控位置 (與支援時的壓力) 計算力度
+      const keyConfig = keyboardLayout.keys.find(key => key.noteId === noteId);
+      const velocity = calculateTouchVelocity({
+        locationY: event.nativeEvent.locationY,
+        keyHeight: keyConfig?.keyType === 'black' ? keyboardLayout.blackKeyHeight : keyboardLayout.whiteKeyHeight,
+        force: getTouchForce(event.nativeEvent),
+      }, velocityCalibration);
       await audioService.startNote(noteId, velocity);
       
       // 發送鍵盤互動事件
@@ -221,7 +246,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = memo(({
       console.error(`播放音符失敗: ${noteId}`, error);
       onAudioError?.(`播放音符失敗: ${error}`);
     }
-  }, [isAudioReady, audioService, onKeyboardInteraction, onAudioError]);
+  }, [isAudioReady, audioService, keyboardLayout, velocityCalibration, onKeyboardInteraction, onAudioError]);
 
   /**
    * 處理琴鍵釋放事件
@@ -9,7 +9,7 @@
  * @since 2025-08-31
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -18,16 +18,27 @@ import {
   useColorScheme,
   Dimensions,
   LayoutChangeEvent,
+  GestureResponderEvent,
 } from 'react-native';
 
-import type { NoteId, PianoKeyConfig } from '../../types';
+import type { NoteId, PianoKeyConfig, MusicalKey, KeyPressState, VelocityCalibration } from '../../types';
 import { generateKeyboardLayout } from '../../utils/pianoLayout';
+import { DEFAULT_MUSICAL_KEY } from '../../utils/keySignature';
+import { calculateTouchVelocity, getTouchForce, DEFAULT_VELOCITY_CALIBRATION } from '../../utils/velocity';
 import { getThemeColors, PITCH_RANGE_COLORS } from '../../utils/colorScheme';
 import AudioService from '../../services/AudioService';
 
 // ========== 簡化鍵盤元件 Props ==========
 
 export interface SimplePianoKeyboardProps {
+  /** 外部驅動的高亮琴鍵（例如錄音播放中的音符） */
+  highlightedKeys?: Set<NoteId>;
+  /** 簡譜標記所依據的調性 */
+  musicalKey?: MusicalKey;
+  /** 觸控力度校正 */
+  velocityCalibration?: VelocityCalibration;
+  /** 琴鍵到實際發聲音符的位移 (半音)，包含移調與八度位移 */
+  transposition?: number;
   onNoteStart?: (noteId: NoteId) => void;
   onNoteEnd?: (noteId: NoteId) => void;
   onError?: (error: string) => void;
@@ -36,6 +47,10 @@ export interface SimplePianoKeyboardProps {
 // ========== 簡化鍵盤元件 ==========
 
 const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
+  highlightedKeys,
+  musicalKey = DEFAULT_MUSICAL_KEY,
+  velocityCalibration = DEFAULT_VELOCITY_CALIBRATION,
+  transposition = 0,
   onNoteStart,
   onNoteEnd,
   onError,
@@ -43,10 +58,15 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
   // ========== 狀態管理 ==========
   
   const colorScheme = useColorScheme();
-  const [keyboardLayout, setKeyboardLayout] = useState(generateKeyboardLayout());
-  const [pressedKeys, setPressedKeys] = useState<Set<NoteId>>(new Set());
+  const [keyboardLayout, setKeyboardLayout] = useState(() =>
+    generateKeyboardLayout(undefined, undefined, musicalKey, transposition)
+  );
+  const [pressedKeys, setPressedKeys] = useState<Map<NoteId, KeyPressState>>(new Map());
   const [isAudioReady, setIsAudioReady] = useState(false);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  
+  // 按住中的琴鍵實際發聲的音符，放鍵時以此停止 (按住期間移調改變也能正確停止)
+  const soundingNotes = useRef<Map<NoteId, NoteId>>(new Map());
 
   // ========== 音頻初始化 ==========
   
@@ -76,40 +96,64 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
     
     if (width > 0 && height > 0) {
       setContainerSize({ width, height });
-      const newLayout = generateKeyboardLayout(width, height);
+      const newLayout = generateKeyboardLayout(width, height, musicalKey, transposition);
       setKeyboardLayout(newLayout);
     }
-  }, []);
+  }, [musicalKey, transposition]);
+
+  // 調性或移調變更時重新計算簡譜標記
+  useEffect(() => {
+    if (containerSize.width > 0 && containerSize.height > 0) {
+      setKeyboardLayout(generateKeyboardLayout(containerSize.width, containerSize.height, musicalKey, transposition));
+    } else {
+      setKeyboardLayout(generateKeyboardLayout(undefined, undefined, musicalKey, transposition));
+    }
+  }, [musicalKey, transposition]);
 
   // ========== 琴鍵互動 ==========
   
-  const handleKeyPress = useCallback(async (noteId: NoteId) => {
+  const handleKeyPress = useCallback(async (keyConfig: PianoKeyConfig, event: GestureResponderEvent) => {
     if (!isAudioReady) return;
     
-    setPressedKeys(prev => new Set(prev).add(noteId));
+    // 依觸控位置 (與支援時的壓力) 計算力度
+    const { noteId, keyType, soundingNoteId } = keyConfig;
+    const velocity = calculateTouchVelocity({
+      locationY: event.nativeEvent.locationY,
+      keyHeight: keyType === 'white' ? keyboardLayout.whiteKeyHeight : keyboardLayout.blackKeyHeight,
+      force: getTouchForce(event.nativeEvent),
+    }, velocityCalibration);
+    
+    setPressedKeys(prev => new Map(prev).set(noteId, {
+      isPressed: true,
+      pressTimestamp: Date.now(),
+      pressure: velocity / 127,
+    }));
     
     try {
       const audioService = AudioService;
-      await audioService.startNote(noteId);
+      soundingNotes.current.set(noteId, soundingNoteId);
+      await audioService.startNote(soundingNoteId, velocity);
       onNoteStart?.(noteId);
     } catch (error) {
       console.error(`播放音符失敗: ${noteId}`, error);
       onError?.(`播放音符失敗: ${error}`);
     }
-  }, [isAudioReady, onNoteStart, onError]);
+  }, [isAudioReady, keyboardLayout, velocityCalibration, onNoteStart, onError]);
 
   const handleKeyRelease = useCallback(async (noteId: NoteId) => {
     if (!isAudioReady) return;
     
     setPressedKeys(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(noteId);
-      return newSet;
+      const newMap = new Map(prev);
+      newMap.delete(noteId);
+      return newMap;
     });
     
     try {
       const audioService = AudioService;
-      await audioService.stopNote(noteId);
+      const soundingNoteId = soundingNotes.current.get(noteId) ?? noteId;
+      soundingNotes.current.delete(noteId);
+      await audioService.stopNote(soundingNoteId);
       onNoteEnd?.(noteId);
     } catch (error) {
       console.error(`停止音符失敗: ${noteId}`, error);
@@ -120,7 +164,7 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
   
   const themeColors = getThemeColors(colorScheme);
 
-  const getKeyStyle = (keyConfig: PianoKeyConfig, isPressed: boolean) => {
+  const getKeyStyle = (keyConfig: PianoKeyConfig, isPressed: boolean, pressure: number) => {
     const { keyType, pitchRange } = keyConfig;
     
     if (keyType === 'white') {
@@ -132,6 +176,8 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
           height: keyboardLayout.whiteKeyHeight,
           backgroundColor: isPressed ? pitchColors.secondary : pitchColors.primary,
           borderColor: pitchColors.accent,
+          // 邊框隨力度加粗
+          borderWidth: isPressed ? 2 + Math.round(pressure * 2) : 2,
         }
       ];
     } else {
@@ -149,14 +195,15 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
   // ========== 渲染琴鍵 ==========
   
   const renderPianoKey = (keyConfig: PianoKeyConfig) => {
-    const isPressed = pressedKeys.has(keyConfig.noteId);
-    const keyStyle = getKeyStyle(keyConfig, isPressed);
+    const pressState = pressedKeys.get(keyConfig.noteId);
+    const isPressed = !!pressState || !!highlightedKeys?.has(keyConfig.noteId);
+    const keyStyle = getKeyStyle(keyConfig, isPressed, pressState?.pressure ?? 0);
     
     return (
       <TouchableOpacity
         key={keyConfig.noteId}
         style={keyStyle}
-        onPressIn={() => handleKeyPress(keyConfig.noteId)}
+        onPressIn={(event) => handleKeyPress(keyConfig, event)}
         onPressOut={() => handleKeyRelease(keyConfig.noteId)}
         activeOpacity={0.7}
       >
@@ -165,7 +212,7 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
             styles.keyLabel,
             { color: keyConfig.keyType === 'white' ? '#FFFFFF' : '#FFFFFF' }
           ]}>
-            {keyConfig.solfege}
+            {keyConfig.solfegeLabel}
           </Text>
           <Text style={[
             styles.noteLabel,
@@ -180,48 +227,19 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
 
   // ========== 渲染鍵盤 ==========
   
-  const renderWhiteKeys = () => {
-    const whiteKeys = keyboardLayout.keys.filter(key => key.keyType === 'white');
-    return (
-      <View style={styles.whiteKeysContainer}>
-        {whiteKeys.map(renderPianoKey)}
-      </View>
-    );
-  };
-
-  const renderBlackKeys = () => {
-    const blackKeys = keyboardLayout.keys.filter(key => key.keyType === 'black');
-    
-    return (
-      <View style={styles.blackKeysContainer}>
-        {blackKeys.map((keyConfig) => {
-          // 簡化的黑鍵位置計算
-          const whiteKeysBefore = keyboardLayout.keys
-            .slice(0, keyConfig.index)
-            .filter(key => key.keyType === 'white').length;
-          
-          const leftPosition = (whiteKeysBefore * (keyboardLayout.whiteKeyWidth + 2)) 
-            - (keyboardLayout.blackKeyWidth / 2);
-          
-          return (
-            <View
-              key={keyConfig.noteId}
-              style={[
-                styles.blackKeyWrapper,
-                {
-                  left: Math.max(0, leftPosition),
-                  width: keyboardLayout.blackKeyWidth,
-                  height: keyboardLayout.blackKeyHeight,
-                }
-              ]}
-            >
-              {renderPianoKey(keyConfig)}
-            </View>
-          );
-        })}
-      </View>
-    );
-  };
+  // 琴鍵依鍵盤佈局的水平位置排列，與下落音符等對齊琴鍵的畫面一致
+  const renderKeys = (keyType: PianoKeyConfig['keyType']) => (
+    keyboardLayout.keys
+      .filter(key => key.keyType === keyType)
+      .map((keyConfig) => (
+        <View
+          key={keyConfig.noteId}
+          style={[styles.keyWrapper, { left: keyConfig.x, width: keyConfig.width }]}
+        >
+          {renderPianoKey(keyConfig)}
+        </View>
+      ))
+  );
 
   // ========== 主要渲染 ==========
 
@@ -229,11 +247,13 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
     <View style={[styles.container, { backgroundColor: themeColors.background.primary }]} onLayout={handleLayout}>
       {containerSize.width > 0 && containerSize.height > 0 ? (
         <>
-          {/* 白鍵層 */}
-          {renderWhiteKeys()}
-          
-          {/* 黑鍵層 */}
-          {renderBlackKeys()}
+          <View style={{ width: keyboardLayout.totalWidth, height: keyboardLayout.whiteKeyHeight }}>
+            {/* 白鍵層 */}
+            {renderKeys('white')}
+            
+            {/* 黑鍵層 */}
+            {renderKeys('black')}
+          </View>
           
           {/* 狀態指示 */}
           {!isAudioReady && (
@@ -260,30 +280,14 @@ const SimplePianoKeyboard: React.FC<SimplePianoKeyboardProps> = ({
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+    width: '100%',
     position: 'relative',
     justifyContent: 'center',
     alignItems: 'center',
     padding: 10,
   },
   
-  whiteKeysContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
-    justifyContent: 'space-between',
-    width: '100%',
-    paddingHorizontal: 5,
-    gap: 1,
-  },
-  
-  blackKeysContainer: {
-    position: 'absolute',
-    top: 10,
-    left: 10,
-    right: 10,
-    height: '65%',
-  },
-  
-  blackKeyWrapper: {
+  keyWrapper: {
     position: 'absolute',
     top: 0,
   },
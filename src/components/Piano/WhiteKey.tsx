@@ -310,7 +310,7 @@ const WhiteKey: React.FC<WhiteKeyProps> = memo(({
         {/* 簡譜標記 */}
         {showSolfege && (
           <Text style={solfegeTextStyle} numberOfLines={1}>
-            {keyConfig.solfege}
+            {keyConfig.solfegeLabel}
           </Text>
         )}
         
@@ -0,0 +1,192 @@
+/**
+ * 簡譜鋼琴應用程式 - 下落音符元件
+ *
+ * 本文件實作了練習模式的下落音符區域：音符從上方落向對應的琴鍵，
+ * 水平位置與寬度取自鍵盤佈局，與同寬的 SimplePianoKeyboard 對齊；
+ * 顏色依音區區分，黑鍵音符使用較深的顏色。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  LayoutChangeEvent,
+  useColorScheme,
+} from 'react-native';
+
+import type { NoteId, PianoKeyConfig, PracticeNote, PracticeSong } from '../../types';
+import { getThemeColors, PITCH_RANGE_COLORS } from '../../utils/colorScheme';
+import { generateKeyboardLayout } from '../../utils/pianoLayout';
+import { getFallingNoteRect, getVisibleNotes } from '../../utils/fallingNotes';
+
+// ========== 元件 Props 介面 ==========
+
+export interface FallingNotesViewProps {
+  /** 練習曲目 */
+  song: PracticeSong;
+
+  /** 目前的練習時間 (毫秒) */
+  time: number;
+
+  /** 提前顯示時間 (毫秒)，即音符從頂端落到底端所需的時間 */
+  lookAheadMs: number;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 音符外觀設定
+ */
+const NOTE_STYLE = {
+  /** 相鄰同音音符之間保留的間隙 (像素)，從音符上緣扣除，下緣仍準時碰到琴鍵 */
+  GAP: 2,
+  /** 音符最小高度 (像素) */
+  MIN_HEIGHT: 4,
+} as const;
+
+// ========== 下落音符元件 ==========
+
+/**
+ * 下落音符元件
+ */
+const FallingNotesView: React.FC<FallingNotesViewProps> = memo(({
+  song,
+  time,
+  lookAheadMs,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 鍵盤佈局 (與鍵盤使用相同的寬度計算，只取水平位置)
+   */
+  const layout = useMemo(() => generateKeyboardLayout(size.width || undefined), [size.width]);
+
+  /**
+   * 音高對應的琴鍵
+   */
+  const keysByNote = useMemo(
+    () => new Map<NoteId, PianoKeyConfig>(layout.keys.map(key => [key.noteId, key])),
+    [layout]
+  );
+
+  /**
+   * 畫面上可見的音符
+   */
+  const visibleNotes = useMemo(
+    () => getVisibleNotes(song, time, lookAheadMs),
+    [song, time, lookAheadMs]
+  );
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 記錄下落區域的尺寸
+   */
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+  }, []);
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 渲染八度分隔線 (每個 C 鍵的左緣)
+   */
+  const renderOctaveLines = () => layout.keys
+    .filter(key => key.noteName === 'C')
+    .map(key => (
+      <View
+        key={key.noteId}
+        style={[styles.octaveLine, { left: key.x, backgroundColor: themeColors.border.subtle }]}
+      />
+    ));
+
+  /**
+   * 渲染音符
+   */
+  const renderNote = (note: PracticeNote) => {
+    const key = keysByNote.get(note.noteId);
+    if (!key) {
+      return null;
+    }
+
+    const rect = getFallingNoteRect(note, time, lookAheadMs, size.height);
+    const colors = PITCH_RANGE_COLORS[key.pitchRange];
+
+    return (
+      <View
+        key={`${note.noteId}:${note.start}`}
+        style={[
+          styles.note,
+          {
+            left: key.x,
+            width: key.width,
+            top: rect.top + NOTE_STYLE.GAP,
+            height: Math.max(NOTE_STYLE.MIN_HEIGHT, rect.height - NOTE_STYLE.GAP),
+            backgroundColor: key.keyType === 'black' ? colors.accent : colors.primary,
+          },
+        ]}
+      />
+    );
+  };
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, style]} onLayout={handleLayout}>
+      {size.width > 0 && size.height > 0 && (
+        <View style={{ width: layout.totalWidth, height: size.height }}>
+          {renderOctaveLines()}
+          {visibleNotes.map(renderNote)}
+        </View>
+      )}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+
+  octaveLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+  },
+
+  note: {
+    position: 'absolute',
+    borderRadius: 4,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+FallingNotesView.displayName = 'FallingNotesView';
+
+// ========== 導出元件 ==========
+
+export default FallingNotesView;
@@ -0,0 +1,277 @@
+/**
+ * 簡譜鋼琴應用程式 - 練習模式元件
+ *
+ * 本文件實作了下落音符練習模式：依練習速度推進練習時間並顯示下落音符，
+ * 提供播放/暫停、重新開始、速度與提前顯示時間的調整。
+ * 練習時間從負的提前顯示時間開始，讓第一個音符從畫面頂端落下；
+ * 目前應按住的琴鍵透過回調交給鍵盤高亮。
+ * 每次選擇曲目都重新建立此元件；移調造成的曲目變更則保留目前的練習位置。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { NoteId, PracticeSettings, PracticeSong } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import {
+  DEFAULT_PRACTICE_SETTINGS,
+  PRACTICE_CONSTANTS,
+  getNotesAtTime,
+} from '../../utils/fallingNotes';
+import StepperRow from '../UI/StepperRow';
+import FallingNotesView from './FallingNotesView';
+
+// ========== 元件 Props 介面 ==========
+
+export interface PracticeModeProps {
+  /** 練習曲目 (音高為要按的琴鍵) */
+  song: PracticeSong;
+
+  /** 目前應按住的琴鍵變更回調 */
+  onActiveNotesChange?: (notes: Set<NoteId>) => void;
+
+  /** 結束練習回調 */
+  onClose?: () => void;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 練習模式元件 ==========
+
+/**
+ * 練習模式元件
+ */
+const PracticeMode: React.FC<PracticeModeProps> = memo(({
+  song,
+  onActiveNotesChange,
+  onClose,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [settings, setSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS);
+  const [time, setTime] = useState(-DEFAULT_PRACTICE_SETTINGS.lookAheadMs);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // 最近一次回報的琴鍵，避免每一幀都通知
+  const reportedNotesKey = useRef('');
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  /**
+   * 目前應按住的琴鍵
+   */
+  const activeNotes = useMemo(() => getNotesAtTime(song, time), [song, time]);
+  const activeNotesKey = Array.from(activeNotes).sort().join(',');
+
+  /**
+   * 練習進度 (0-1)
+   */
+  const progress = song.duration > 0 ? Math.max(0, Math.min(1, time / song.duration)) : 0;
+
+  // ========== 副作用 ==========
+
+  /**
+   * 播放中每一幀依速度推進練習時間
+   */
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let lastFrameAt = Date.now();
+    const tick = () => {
+      const now = Date.now();
+      const elapsed = (now - lastFrameAt) * settings.speed;
+      lastFrameAt = now;
+      setTime(prev => prev + elapsed);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, settings.speed]);
+
+  /**
+   * 曲目結束時停止
+   */
+  useEffect(() => {
+    if (isPlaying && time >= song.duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, time, song.duration]);
+
+  /**
+   * 應按住的琴鍵改變時通知
+   */
+  useEffect(() => {
+    if (activeNotesKey === reportedNotesKey.current) return;
+    reportedNotesKey.current = activeNotesKey;
+    onActiveNotesChange?.(activeNotes);
+  }, [activeNotesKey, activeNotes, onActiveNotesChange]);
+
+  /**
+   * 結束練習時清除高亮
+   */
+  useEffect(() => () => onActiveNotesChange?.(new Set()), [onActiveNotesChange]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 播放/暫停，曲目結束後從頭開始
+   */
+  const handlePlayPause = useCallback(() => {
+    if (!isPlaying && time >= song.duration) {
+      setTime(-settings.lookAheadMs);
+    }
+    setIsPlaying(prev => !prev);
+  }, [isPlaying, time, song.duration, settings.lookAheadMs]);
+
+  /**
+   * 回到開頭並暫停
+   */
+  const handleRestart = useCallback(() => {
+    setIsPlaying(false);
+    setTime(-settings.lookAheadMs);
+  }, [settings.lookAheadMs]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={[styles.toolbar, { borderBottomColor: themeColors.border.primary }]}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={handlePlayPause}
+          accessibilityLabel={isPlaying ? '暫停練習' : '開始練習'}
+          accessibilityRole="button"
+        >
+          <Ionicons name={isPlaying ? 'pause' : 'play'} size={22} color={BASE_COLORS.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={handleRestart}
+          accessibilityLabel="重新開始"
+          accessibilityRole="button"
+        >
+          <Ionicons name="play-skip-back" size={20} color={textColor} />
+        </TouchableOpacity>
+
+        <Text style={[styles.title, { color: textColor }]} numberOfLines={1}>
+          {song.title}
+        </Text>
+
+        <StepperRow
+          label="速度"
+          value={settings.speed}
+          step={PRACTICE_CONSTANTS.SPEED_STEP}
+          min={PRACTICE_CONSTANTS.MIN_SPEED}
+          max={PRACTICE_CONSTANTS.MAX_SPEED}
+          color={textColor}
+          formatValue={(speed) => `${speed}x`}
+          onChange={(speed) => setSettings(prev => ({ ...prev, speed }))}
+        />
+        <StepperRow
+          label="提前"
+          value={settings.lookAheadMs}
+          step={PRACTICE_CONSTANTS.LOOK_AHEAD_STEP_MS}
+          min={PRACTICE_CONSTANTS.MIN_LOOK_AHEAD_MS}
+          max={PRACTICE_CONSTANTS.MAX_LOOK_AHEAD_MS}
+          color={textColor}
+          formatValue={(lookAheadMs) => `${lookAheadMs / 1000}s`}
+          onChange={(lookAheadMs) => setSettings(prev => ({ ...prev, lookAheadMs }))}
+        />
+
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onClose}
+          accessibilityLabel="結束練習"
+          accessibilityRole="button"
+        >
+          <Ionicons name="close" size={22} color={textColor} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.progressTrack, { backgroundColor: themeColors.border.subtle }]}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+
+      <FallingNotesView
+        style={styles.notes}
+        song={song}
+        time={time}
+        lookAheadMs={settings.lookAheadMs}
+      />
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  progressTrack: {
+    height: 2,
+  },
+
+  progressFill: {
+    height: '100%',
+    backgroundColor: BASE_COLORS.primary,
+  },
+
+  notes: {
+    flex: 1,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PracticeMode.displayName = 'PracticeMode';
+
+// ========== 導出元件 ==========
+
+export default PracticeMode;
@@ -0,0 +1,313 @@
+/**
+ * 簡譜鋼琴應用程式 - 練習曲目選擇視窗
+ *
+ * 本文件實作了選擇下落音符練習曲目的全螢幕視窗：
+ * 可使用目前載入的錄音、錄音庫中的錄音 (包含匯入的 MIDI) 或新匯入的 MIDI 檔案，
+ * 也可以輸入簡譜文字；簡譜格式錯誤時顯示錯誤位置，不關閉視窗。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { PracticeSong, RecordingData, RecordingSummary } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isAppError } from '../../utils/appError';
+import { JianpuParseError, parseJianpu } from '../../utils/jianpu';
+import { createSongFromRecording, createSongFromScore } from '../../utils/fallingNotes';
+import RecordingRepository from '../../services/RecordingRepository';
+import MidiImportForm from '../Library/MidiImportForm';
+import RecordingList from '../Library/RecordingList';
+
+// ========== 元件 Props 介面 ==========
+
+export interface PracticeSongModalProps {
+  /** 是否顯示 */
+  visible: boolean;
+
+  /** 目前載入的錄音，沒有時從錄音庫或簡譜選擇 */
+  recording: RecordingData | null;
+
+  /** 選擇曲目回調 */
+  onSelect: (song: PracticeSong) => void;
+
+  /** 關閉回調 */
+  onClose?: () => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 簡譜輸入的範例
+ */
+const JIANPU_PLACEHOLDER = 'title: 小星星\n1=C 4/4\n1 1 5 5 | 6 6 5 - | 4 4 3 3 | 2 2 1 - |]';
+
+// ========== 練習曲目選擇視窗元件 ==========
+
+/**
+ * 練習曲目選擇視窗元件
+ */
+const PracticeSongModal: React.FC<PracticeSongModalProps> = memo(({
+  visible,
+  recording,
+  onSelect,
+  onClose,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [jianpuText, setJianpuText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 使用目前的錄音
+   */
+  const handleSelectRecording = useCallback(() => {
+    if (!recording) return;
+    onSelect(createSongFromRecording(recording));
+  }, [recording, onSelect]);
+
+  /**
+   * 讀取錄音庫中選擇的錄音並使用
+   */
+  const handleSelectLibraryRecording = useCallback(async (summary: RecordingSummary) => {
+    try {
+      const selected = await RecordingRepository.getRecording(summary.id);
+      if (!selected) {
+        setLibraryError(`找不到錄音: ${summary.name}`);
+        setLibraryRefreshKey(prev => prev + 1);
+        return;
+      }
+      setLibraryError(null);
+      onSelect(createSongFromRecording(selected));
+    } catch (err) {
+      console.error('讀取錄音失敗:', err);
+      setLibraryError(isAppError(err) ? err.message : `讀取錄音失敗: ${err}`);
+    }
+  }, [onSelect]);
+
+  /**
+   * 匯入 MIDI 後重新讀取錄音庫
+   */
+  const handleMidiImported = useCallback(() => {
+    setLibraryRefreshKey(prev => prev + 1);
+  }, []);
+
+  /**
+   * 解析簡譜並使用，格式錯誤時顯示錯誤位置
+   */
+  const handleSelectJianpu = useCallback(() => {
+    try {
+      const song = createSongFromScore(parseJianpu(jianpuText));
+      if (song.notes.length === 0) {
+        setError('簡譜中沒有鍵盤音域內的音符');
+        return;
+      }
+      setError(null);
+      onSelect(song);
+    } catch (err) {
+      if (err instanceof JianpuParseError) {
+        setError(err.message);
+        return;
+      }
+      throw err;
+    }
+  }, [jianpuText, onSelect]);
+
+  /**
+   * 編輯簡譜時清除錯誤
+   */
+  const handleChangeText = useCallback((text: string) => {
+    setJianpuText(text);
+    setError(null);
+  }, []);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: themeColors.background.primary }]}>
+        {/* 標題列 */}
+        <View style={[styles.header, { borderBottomColor: themeColors.border.primary }]}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={onClose}
+            accessibilityLabel="關閉練習曲目"
+            accessibilityRole="button"
+          >
+            <Ionicons name="close" size={24} color={textColor} />
+          </TouchableOpacity>
+          <Text style={[styles.titleText, { color: textColor }]}>下落音符練習</Text>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* 目前的錄音 */}
+          <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>目前的錄音</Text>
+          <TouchableOpacity
+            style={[styles.sourceButton, { borderColor: themeColors.border.primary }]}
+            onPress={handleSelectRecording}
+            disabled={!recording}
+            accessibilityLabel="練習目前的錄音"
+            accessibilityRole="button"
+            accessibilityState={{ disabled: !recording }}
+          >
+            <Ionicons
+              name="musical-notes-outline"
+              size={20}
+              color={recording ? BASE_COLORS.primary : themeColors.text.secondary}
+            />
+            <Text
+              style={{ color: recording ? textColor : themeColors.text.secondary }}
+              numberOfLines={1}
+            >
+              {recording ? recording.name : '尚未載入錄音'}
+            </Text>
+          </TouchableOpacity>
+
+          {/* 錄音庫與 MIDI 匯入 */}
+          <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>錄音庫 / MIDI</Text>
+          <MidiImportForm onImported={handleMidiImported} />
+          {libraryError ? (
+            <Text style={[styles.errorText, { color: BASE_COLORS.error }]}>{libraryError}</Text>
+          ) : null}
+          <RecordingList
+            refreshKey={libraryRefreshKey}
+            selectedId={recording?.id}
+            onSelect={handleSelectLibraryRecording}
+          />
+
+          {/* 簡譜 */}
+          <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>簡譜</Text>
+          <TextInput
+            style={[styles.jianpuInput, { color: textColor, borderColor: themeColors.border.primary }]}
+            value={jianpuText}
+            onChangeText={handleChangeText}
+            placeholder={JIANPU_PLACEHOLDER}
+            placeholderTextColor={themeColors.text.secondary}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+            accessibilityLabel="簡譜文字"
+          />
+          {error ? (
+            <Text style={[styles.errorText, { color: BASE_COLORS.error }]}>{error}</Text>
+          ) : null}
+          <TouchableOpacity
+            style={[styles.sourceButton, { borderColor: BASE_COLORS.primary }]}
+            onPress={handleSelectJianpu}
+            disabled={jianpuText.trim().length === 0}
+            accessibilityLabel="練習簡譜"
+            accessibilityRole="button"
+          >
+            <Ionicons name="play" size={20} color={BASE_COLORS.primary} />
+            <Text style={{ color: BASE_COLORS.primary }}>練習簡譜</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  titleText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  content: {
+    padding: 12,
+    gap: 8,
+  },
+
+  sectionTitle: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+
+  sourceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  jianpuInput: {
+    minHeight: 120,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+    fontFamily: 'monospace',
+  },
+
+  errorText: {
+    fontSize: 13,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+PracticeSongModal.displayName = 'PracticeSongModal';
+
+// ========== 導出元件 ==========
+
+export default PracticeSongModal;
@@ -0,0 +1,564 @@
+/**
+ * 簡譜鋼琴應用程式 - 簡譜樂譜顯示元件
+ *
+ * 本文件實作了以 react-native-svg 繪製的簡譜樂譜，包括數字音符、
+ * 高低音點、減時線、附點、延音線、小節線、連結線與歌詞，
+ * 並依可用寬度自動換行，適合 PianoScreen 的橫向佈局。
+ * 音符顏色沿用琴鍵的音域顏色，讓樂譜與鍵盤對照一致。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, useColorScheme, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, G, Line, Path, Text as SvgText } from 'react-native-svg';
+
+import type { JianpuScore, JianpuElement, JianpuNote, JianpuBarline, MusicalKey } from '../../types';
+import { getThemeColors, PITCH_RANGE_COLORS } from '../../utils/colorScheme';
+import { getPitchRange } from '../../utils/pianoLayout';
+import { jianpuNoteToNoteId } from '../../utils/jianpu';
+import { getKeyDisplayName } from '../../utils/keySignature';
+
+// ========== 元件 Props 介面 ==========
+
+export interface JianpuScoreViewProps {
+  /** 要顯示的樂譜 */
+  score: JianpuScore;
+
+  /** 數字字型大小 */
+  fontSize?: number;
+
+  /** 是否顯示曲名與調號 */
+  showHeader?: boolean;
+
+  /** 樂譜的調性，提供時於調號旁標示大小調 */
+  musicalKey?: MusicalKey;
+
+  /** 是否依音域為音符著色 */
+  colorByPitchRange?: boolean;
+
+  /** 自定義樣式 */
+  style?: any;
+}
+
+// ========== 版面類型 ==========
+
+/**
+ * 單一音符或休止符的版面位置
+ */
+interface ElementLayout {
+  element: JianpuElement;
+  /** 數字中心的 x 座標 */
+  x: number;
+  /** 各延音線中心的 x 座標 */
+  dashXs: number[];
+  /** 在小節中的起始拍位置 */
+  startBeat: number;
+  /** 所在譜行 */
+  systemIndex: number;
+  /** 音符顏色 */
+  color: string;
+}
+
+/**
+ * 小節線的版面位置
+ */
+interface BarlineLayout {
+  type: Exclude<JianpuBarline, 'none'>;
+  x: number;
+  systemIndex: number;
+}
+
+/**
+ * 減時線的版面位置
+ */
+interface UnderlineLayout {
+  x1: number;
+  x2: number;
+  level: number;
+  systemIndex: number;
+}
+
+/**
+ * 整份樂譜的版面
+ */
+interface ScoreLayout {
+  elements: ElementLayout[];
+  barlines: BarlineLayout[];
+  underlines: UnderlineLayout[];
+  systemCount: number;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 版面比例常數（皆為字型大小的倍數）
+ */
+const LAYOUT_RATIOS = {
+  /** 每個數字或延音線所佔寬度 */
+  SLOT_WIDTH: 1.1,
+  /** 附點額外佔用的寬度 */
+  DOT_WIDTH: 0.35,
+  /** 小節線兩側的留白 */
+  BARLINE_PADDING: 0.5,
+  /** 譜行高度（不含歌詞） */
+  SYSTEM_HEIGHT: 2.4,
+  /** 歌詞行高度 */
+  LYRICS_HEIGHT: 1,
+  /** 數字中心距離譜行頂端 */
+  DIGIT_CENTER: 1.2,
+  /** 減時線間距 */
+  UNDERLINE_GAP: 0.18,
+  /** 八度點間距 */
+  OCTAVE_DOT_GAP: 0.22,
+  /** 八度點半徑 */
+  DOT_RADIUS: 0.07,
+} as const;
+
+/**
+ * 左右留白 (像素)
+ */
+const HORIZONTAL_PADDING = 12;
+
+/**
+ * 標頭高度（字型大小的倍數）
+ */
+const HEADER_HEIGHT = 1.6;
+
+// ========== 版面計算 ==========
+
+/**
+ * 取得音符顏色
+ */
+function getNoteColor(note: JianpuNote, score: JianpuScore): string {
+  return PITCH_RANGE_COLORS[getPitchRange(jianpuNoteToNoteId(note, score.key))].accent;
+}
+
+/**
+ * 計算元素在小節中的自然寬度
+ */
+function getElementWidth(element: JianpuElement, fontSize: number): number {
+  const dashes = element.kind === 'note' ? element.dashes : 0;
+  return fontSize * (LAYOUT_RATIOS.SLOT_WIDTH * (1 + dashes) + (element.dotted ? LAYOUT_RATIOS.DOT_WIDTH : 0));
+}
+
+/**
+ * 依可用寬度計算樂譜版面
+ * 以小節為單位換行，除最後一行外，每行會平均拉伸至填滿寬度
+ */
+function layoutScore(
+  score: JianpuScore,
+  width: number,
+  fontSize: number,
+  colorByPitchRange: boolean,
+  textColor: string
+): ScoreLayout {
+  const padding = fontSize * LAYOUT_RATIOS.BARLINE_PADDING;
+  const slotWidth = fontSize * LAYOUT_RATIOS.SLOT_WIDTH;
+  const available = Math.max(width - HORIZONTAL_PADDING * 2, slotWidth);
+
+  // 計算各小節寬度並分行
+  const measureWidths = score.measures.map(measure =>
+    measure.elements.reduce((sum, element) => sum + getElementWidth(element, fontSize), 0) + padding * 2
+  );
+
+  const systems: number[][] = [];
+  let currentWidth = 0;
+  measureWidths.forEach((measureWidth, index) => {
+    const current = systems[systems.length - 1];
+    if (current && currentWidth + measureWidth <= available) {
+      current.push(index);
+      currentWidth += measureWidth;
+    } else {
+      systems.push([index]);
+      currentWidth = measureWidth;
+    }
+  });
+
+  const layout: ScoreLayout = { elements: [], barlines: [], underlines: [], systemCount: systems.length };
+
+  systems.forEach((measureIndexes, systemIndex) => {
+    const naturalWidth = measureIndexes.reduce((sum, index) => sum + measureWidths[index], 0);
+    const isLastSystem = systemIndex === systems.length - 1;
+    const scale = !isLastSystem && naturalWidth > 0 ? available / naturalWidth : 1;
+    let cursor = HORIZONTAL_PADDING;
+
+    for (const measureIndex of measureIndexes) {
+      const measure = score.measures[measureIndex];
+      let x = cursor + padding * scale;
+      let beat = 0;
+      const measureElements: ElementLayout[] = [];
+
+      for (const element of measure.elements) {
+        const digitX = x + (slotWidth / 2) * scale;
+        const dotOffset = element.dotted ? fontSize * LAYOUT_RATIOS.DOT_WIDTH : 0;
+        const dashes = element.kind === 'note' ? element.dashes : 0;
+        const dashXs = Array.from(
+          { length: dashes },
+          (_, i) => x + (slotWidth * (i + 1.5) + dotOffset) * scale
+        );
+
+        const entry: ElementLayout = {
+          element,
+          x: digitX,
+          dashXs,
+          startBeat: beat,
+          systemIndex,
+          color: element.kind === 'note' && colorByPitchRange
+            ? getNoteColor(element, score)
+            : textColor,
+        };
+        measureElements.push(entry);
+        layout.elements.push(entry);
+
+        x += getElementWidth(element, fontSize) * scale;
+        beat += element.beats;
+      }
+
+      // 減時線：同一拍內連續帶減時線的音符共用一條
+      for (const level of [1, 2]) {
+        let group: ElementLayout[] = [];
+        const flush = () => {
+          if (group.length === 0) return;
+          const first = group[0];
+          const last = group[group.length - 1];
+          const lastDot = last.element.dotted ? fontSize * LAYOUT_RATIOS.DOT_WIDTH : 0;
+          layout.underlines.push({
+            x1: first.x - slotWidth * 0.35,
+            x2: last.x + slotWidth * 0.35 + lastDot,
+            level,
+            systemIndex,
+          });
+          group = [];
+        };
+
+        for (const entry of measureElements) {
+          const sameBeat = group.length > 0 &&
+            Math.floor(group[0].startBeat + 1e-6) === Math.floor(entry.startBeat + 1e-6);
+          if (entry.element.underlines < level || (group.length > 0 && !sameBeat)) {
+            flush();
+          }
+          if (entry.element.underlines >= level) {
+            group.push(entry);
+          }
+        }
+        flush();
+      }
+
+      cursor += measureWidths[measureIndex] * scale;
+      if (measure.barline !== 'none') {
+        layout.barlines.push({ type: measure.barline, x: cursor, systemIndex });
+      }
+    }
+  });
+
+  return layout;
+}
+
+// ========== 簡譜樂譜顯示元件 ==========
+
+/**
+ * 簡譜樂譜顯示元件
+ * 寬度由父容器決定，高度依換行後的譜行數自動計算
+ */
+const JianpuScoreView: React.FC<JianpuScoreViewProps> = memo(({
+  score,
+  fontSize = 22,
+  showHeader = true,
+  musicalKey,
+  colorByPitchRange = true,
+  style,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [width, setWidth] = useState(0);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 樂譜是否包含歌詞
+   */
+  const hasLyrics = useMemo(
+    () => score.measures.some(measure =>
+      measure.elements.some(element => element.kind === 'note' && element.lyric)
+    ),
+    [score]
+  );
+
+  /**
+   * 樂譜版面
+   */
+  const layout = useMemo(
+    () => width > 0
+      ? layoutScore(score, width, fontSize, colorByPitchRange, themeColors.text.primary)
+      : null,
+    [score, width, fontSize, colorByPitchRange, themeColors.text.primary]
+  );
+
+  const headerHeight = showHeader ? fontSize * HEADER_HEIGHT : 0;
+  const systemHeight = fontSize * (LAYOUT_RATIOS.SYSTEM_HEIGHT + (hasLyrics ? LAYOUT_RATIOS.LYRICS_HEIGHT : 0));
+  const svgHeight = layout ? headerHeight + layout.systemCount * systemHeight : 0;
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 處理容器佈局
+   */
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  // ========== 渲染函數 ==========
+
+  /**
+   * 計算譜行中數字的中心 y 座標
+   */
+  const getDigitCenterY = (systemIndex: number) =>
+    headerHeight + systemIndex * systemHeight + fontSize * LAYOUT_RATIOS.DIGIT_CENTER;
+
+  /**
+   * 渲染單一音符或休止符
+   */
+  const renderElement = (entry: ElementLayout, index: number) => {
+    const { element, x, color } = entry;
+    const centerY = getDigitCenterY(entry.systemIndex);
+    const dotRadius = fontSize * LAYOUT_RATIOS.DOT_RADIUS;
+    const note = element.kind === 'note' ? element : null;
+    const lowestUnderline = centerY + fontSize * (0.55 + LAYOUT_RATIOS.UNDERLINE_GAP * element.underlines);
+
+    return (
+      <G key={`element-${index}`}>
+        {/* 數字 */}
+        <SvgText
+          x={x}
+          y={centerY + fontSize * 0.35}
+          fontSize={fontSize}
+          fontWeight="600"
+          fill={color}
+          textAnchor="middle"
+        >
+          {note ? note.degree : '0'}
+        </SvgText>
+
+        {/* 臨時記號 */}
+        {note?.accidental ? (
+          <SvgText
+            x={x - fontSize * 0.45}
+            y={centerY - fontSize * 0.1}
+            fontSize={fontSize * 0.55}
+            fill={color}
+            textAnchor="middle"
+          >
+            {note.accidental === 'sharp' ? '♯' : '♭'}
+          </SvgText>
+        ) : null}
+
+        {/* 高音點 */}
+        {note && note.octave > 0 && Array.from({ length: note.octave }, (_, i) => (
+          <Circle
+            key={`high-${i}`}
+            cx={x}
+            cy={centerY - fontSize * (0.6 + LAYOUT_RATIOS.OCTAVE_DOT_GAP * i)}
+            r={dotRadius}
+            fill={color}
+          />
+        ))}
+
+        {/* 低音點（位於減時線之下） */}
+        {note && note.octave < 0 && Array.from({ length: -note.octave }, (_, i) => (
+          <Circle
+            key={`low-${i}`}
+            cx={x}
+            cy={lowestUnderline + fontSize * (0.12 + LAYOUT_RATIOS.OCTAVE_DOT_GAP * i)}
+            r={dotRadius}
+            fill={color}
+          />
+        ))}
+
+        {/* 附點 */}
+        {element.dotted ? (
+          <Circle
+            cx={x + fontSize * (LAYOUT_RATIOS.SLOT_WIDTH / 2 + 0.05)}
+            cy={centerY}
+            r={dotRadius}
+            fill={color}
+          />
+        ) : null}
+
+        {/* 延音線 */}
+        {entry.dashXs.map((dashX, i) => (
+          <Line
+            key={`dash-${i}`}
+            x1={dashX - fontSize * 0.3}
+            x2={dashX + fontSize * 0.3}
+            y1={centerY}
+            y2={centerY}
+            stroke={themeColors.text.primary}
+            strokeWidth={Math.max(1.5, fontSize * 0.08)}
+          />
+        ))}
+
+        {/* 歌詞 */}
+        {note?.lyric ? (
+          <SvgText
+            x={x}
+            y={centerY + fontSize * 1.9}
+            fontSize={fontSize * 0.7}
+            fill={themeColors.text.secondary}
+            textAnchor="middle"
+          >
+            {note.lyric}
+          </SvgText>
+        ) : null}
+      </G>
+    );
+  };
+
+  /**
+   * 渲染小節線
+   */
+  const renderBarline = (barline: BarlineLayout, index: number) => {
+    const centerY = getDigitCenterY(barline.systemIndex);
+    const y1 = centerY - fontSize * 0.6;
+    const y2 = centerY + fontSize * 0.6;
+    const stroke = themeColors.text.primary;
+
+    return (
+      <G key={`barline-${index}`}>
+        {barline.type !== 'single' ? (
+          <Line x1={barline.x - 4} x2={barline.x - 4} y1={y1} y2={y2} stroke={stroke} strokeWidth={1} />
+        ) : null}
+        <Line
+          x1={barline.x}
+          x2={barline.x}
+          y1={y1}
+          y2={y2}
+          stroke={stroke}
+          strokeWidth={barline.type === 'final' ? 3 : 1}
+        />
+      </G>
+    );
+  };
+
+  /**
+   * 渲染連結線
+   * 跨行的連結線會分成兩段，分別畫到行尾與從行首開始
+   */
+  const renderTies = (elements: ElementLayout[]) => {
+    const ties: React.ReactNode[] = [];
+    const lineEnd = width - HORIZONTAL_PADDING;
+
+    const arc = (x1: number, x2: number, systemIndex: number, key: string) => {
+      const y = getDigitCenterY(systemIndex) - fontSize * 0.75;
+      const midX = (x1 + x2) / 2;
+      return (
+        <Path
+          key={key}
+          d={`M ${x1} ${y} Q ${midX} ${y - fontSize * 0.4} ${x2} ${y}`}
+          stroke={themeColors.text.primary}
+          strokeWidth={1.2}
+          fill="none"
+        />
+      );
+    };
+
+    elements.forEach((entry, index) => {
+      if (entry.element.kind !== 'note' || !entry.element.tie) return;
+      const next = elements[index + 1];
+      if (!next || next.element.kind !== 'note') return;
+
+      if (next.systemIndex === entry.systemIndex) {
+        ties.push(arc(entry.x, next.x, entry.systemIndex, `tie-${index}`));
+      } else {
+        ties.push(arc(entry.x, lineEnd, entry.systemIndex, `tie-${index}-start`));
+        ties.push(arc(HORIZONTAL_PADDING, next.x, next.systemIndex, `tie-${index}-end`));
+      }
+    });
+
+    return ties;
+  };
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={[styles.container, style]} onLayout={handleLayout}>
+      {layout ? (
+        <Svg width={width} height={svgHeight}>
+          {/* 標頭：曲名與調號拍號 */}
+          {showHeader ? (
+            <G>
+              <SvgText
+                x={HORIZONTAL_PADDING}
+                y={fontSize * 1.1}
+                fontSize={fontSize * 0.7}
+                fill={themeColors.text.secondary}
+              >
+                {`1=${score.key.label}` +
+                  (musicalKey ? ` (${getKeyDisplayName(musicalKey)})` : '') +
+                  `  ${score.timeSignature.numerator}/${score.timeSignature.denominator}` +
+                  (score.tempo ? `  ♩=${score.tempo}` : '')}
+              </SvgText>
+              {score.title ? (
+                <SvgText
+                  x={width / 2}
+                  y={fontSize * 1.1}
+                  fontSize={fontSize * 0.85}
+                  fontWeight="600"
+                  fill={themeColors.text.primary}
+                  textAnchor="middle"
+                >
+                  {score.title}
+                </SvgText>
+              ) : null}
+            </G>
+          ) : null}
+
+          {/* 減時線 */}
+          {layout.underlines.map((underline, index) => {
+            const y = getDigitCenterY(underline.systemIndex) +
+              fontSize * (0.55 + LAYOUT_RATIOS.UNDERLINE_GAP * (underline.level - 1));
+            return (
+              <Line
+                key={`underline-${index}`}
+                x1={underline.x1}
+                x2={underline.x2}
+                y1={y}
+                y2={y}
+                stroke={themeColors.text.primary}
+                strokeWidth={1.2}
+              />
+            );
+          })}
+
+          {layout.elements.map(renderElement)}
+          {layout.barlines.map(renderBarline)}
+          {renderTies(layout.elements)}
+        </Svg>
+      ) : null}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+JianpuScoreView.displayName = 'JianpuScoreView';
+
+// ========== 導出元件 ==========
+
+export default JianpuScoreView;
@@ -0,0 +1,259 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音轉簡譜視窗
+ *
+ * 本文件實作了顯示錄音自動轉譜結果的全螢幕視窗，
+ * 可切換量化網格與調性來源 (自動推斷或目前設定的調性)，
+ * 並在繪製的簡譜與文字格式之間切換。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { RecordingData, MusicalKey } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { transcribeRecording, QuantizeGrid } from '../../utils/transcription';
+import { getKeyDisplayName } from '../../utils/keySignature';
+import JianpuScoreView from './JianpuScoreView';
+
+// ========== 元件 Props 介面 ==========
+
+export interface TranscriptionModalProps {
+  /** 是否顯示 */
+  visible: boolean;
+
+  /** 要轉譜的錄音 */
+  recording: RecordingData | null;
+
+  /** 目前設定的調性，提供時可改用此調性轉譜 */
+  musicalKey?: MusicalKey;
+
+  /** 關閉回調 */
+  onClose?: () => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 量化網格選項
+ */
+const GRID_OPTIONS: { value: QuantizeGrid; label: string }[] = [
+  { value: 'quarter', label: '四分' },
+  { value: 'eighth', label: '八分' },
+  { value: 'sixteenth', label: '十六分' },
+];
+
+// ========== 錄音轉簡譜視窗元件 ==========
+
+/**
+ * 錄音轉簡譜視窗元件
+ */
+const TranscriptionModal: React.FC<TranscriptionModalProps> = memo(({
+  visible,
+  recording,
+  musicalKey,
+  onClose,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [grid, setGrid] = useState<QuantizeGrid>('eighth');
+  const [showText, setShowText] = useState(false);
+  const [useSettingKey, setUseSettingKey] = useState(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  /**
+   * 轉譜結果
+   */
+  const transcription = useMemo(
+    () => (visible && recording
+      ? transcribeRecording(recording, { grid, key: useSettingKey ? musicalKey : undefined })
+      : null),
+    [visible, recording, grid, useSettingKey, musicalKey]
+  );
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: themeColors.background.primary }]}>
+        {/* 標題列 */}
+        <View style={[styles.header, { borderBottomColor: themeColors.border.primary }]}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={onClose}
+            accessibilityLabel="關閉簡譜"
+            accessibilityRole="button"
+          >
+            <Ionicons name="close" size={24} color={themeColors.text.primary} />
+          </TouchableOpacity>
+
+          <Text style={[styles.infoText, { color: themeColors.text.secondary }]}>
+            {transcription
+              ? `${getKeyDisplayName(transcription.musicalKey)}  ♩=${transcription.tempo}`
+              : ''}
+          </Text>
+
+          {musicalKey ? (
+            <TouchableOpacity
+              style={[
+                styles.gridButton,
+                { borderColor: useSettingKey ? BASE_COLORS.primary : themeColors.border.primary },
+              ]}
+              onPress={() => setUseSettingKey(prev => !prev)}
+              accessibilityLabel="調性來源"
+              accessibilityRole="switch"
+              accessibilityState={{ checked: useSettingKey }}
+            >
+              <Text style={{ color: useSettingKey ? BASE_COLORS.primary : themeColors.text.primary }}>
+                {useSettingKey ? '依設定調性' : '自動偵測調性'}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+
+          <View style={styles.gridOptions}>
+            {GRID_OPTIONS.map(option => {
+              const selected = option.value === grid;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.gridButton,
+                    { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary },
+                  ]}
+                  onPress={() => setGrid(option.value)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={{ color: selected ? BASE_COLORS.primary : themeColors.text.primary }}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => setShowText(prev => !prev)}
+            accessibilityLabel={showText ? '顯示樂譜' : '顯示文字格式'}
+            accessibilityRole="button"
+          >
+            <Ionicons
+              name={showText ? 'musical-notes' : 'code-slash'}
+              size={22}
+              color={themeColors.text.primary}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {/* 樂譜內容 */}
+        <ScrollView contentContainerStyle={styles.content}>
+          {transcription && transcription.score.measures.length > 0 ? (
+            showText ? (
+              <Text selectable style={[styles.scoreText, { color: themeColors.text.primary }]}>
+                {transcription.text}
+              </Text>
+            ) : (
+              <JianpuScoreView score={transcription.score} musicalKey={transcription.musicalKey} />
+            )
+          ) : (
+            <Text style={[styles.emptyText, { color: themeColors.text.secondary }]}>
+              錄音中沒有可轉譜的音符
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+
+  gridOptions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+
+  gridButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  content: {
+    padding: 12,
+  },
+
+  scoreText: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    lineHeight: 24,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+TranscriptionModal.displayName = 'TranscriptionModal';
+
+// ========== 導出元件 ==========
+
+export default TranscriptionModal;
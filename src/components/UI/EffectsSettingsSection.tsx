@@ -0,0 +1,406 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果設定區塊
+ *
+ * 本文件實作了設定視窗中的效果鏈區塊：殘響、延遲與合唱各有
+ * 啟用開關、濕聲比例與各自的參數，並可套用、儲存與刪除效果預設。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Switch,
+  Alert,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type {
+  EffectsSettings,
+  EffectsPreset,
+  ReverbSettings,
+  DelaySettings,
+  ChorusSettings,
+} from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { isAppError } from '../../utils/appError';
+import {
+  REVERB_TYPE_LABELS,
+  DELAY_DIVISIONS,
+  DELAY_CONSTANTS,
+  CHORUS_CONSTANTS,
+  normalizeEffectsSettings,
+} from '../../services/effects';
+import EffectsPresetRepository from '../../services/EffectsPresetRepository';
+import StepperRow from './StepperRow';
+
+// ========== 元件 Props 介面 ==========
+
+export interface EffectsSettingsSectionProps {
+  /** 目前效果設定 */
+  effects: EffectsSettings;
+
+  /** 效果設定變更回調 */
+  onChange?: (effects: EffectsSettings) => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 濕聲比例與回授量調整的間距
+ */
+const MIX_STEP = 0.05;
+
+/**
+ * 延遲時間調整的間距 (秒)
+ */
+const DELAY_TIME_STEP = 0.025;
+
+/**
+ * 以百分比顯示比例
+ */
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// ========== 效果設定區塊元件 ==========
+
+/**
+ * 效果設定區塊元件
+ */
+const EffectsSettingsSection: React.FC<EffectsSettingsSectionProps> = memo(({
+  effects,
+  onChange,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [presets, setPresets] = useState<EffectsPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [isNaming, setIsNaming] = useState(false);
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  /**
+   * 與目前設定相同的預設
+   */
+  const activePresetId = useMemo(() => {
+    const current = JSON.stringify(normalizeEffectsSettings(effects));
+    return presets.find(preset => JSON.stringify(preset.settings) === current)?.id ?? null;
+  }, [effects, presets]);
+
+  // ========== 副作用 ==========
+
+  /**
+   * 載入效果預設列表
+   */
+  const loadPresets = useCallback(async () => {
+    try {
+      setPresets(await EffectsPresetRepository.listPresets());
+    } catch (error) {
+      console.error('載入效果預設失敗:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  // ========== 事件處理 ==========
+
+  const updateReverb = useCallback((changes: Partial<ReverbSettings>) => {
+    onChange?.({ ...effects, reverb: { ...effects.reverb, ...changes } });
+  }, [effects, onChange]);
+
+  const updateDelay = useCallback((changes: Partial<DelaySettings>) => {
+    onChange?.({ ...effects, delay: { ...effects.delay, ...changes } });
+  }, [effects, onChange]);
+
+  const updateChorus = useCallback((changes: Partial<ChorusSettings>) => {
+    onChange?.({ ...effects, chorus: { ...effects.chorus, ...changes } });
+  }, [effects, onChange]);
+
+  /**
+   * 以目前設定儲存預設
+   */
+  const handleSavePreset = useCallback(async () => {
+    try {
+      await EffectsPresetRepository.savePreset(presetName, effects);
+      setPresetName('');
+      setIsNaming(false);
+      await loadPresets();
+    } catch (error) {
+      Alert.alert('儲存效果預設失敗', isAppError(error) ? error.message : String(error));
+    }
+  }, [presetName, effects, loadPresets]);
+
+  /**
+   * 確認後刪除使用者預設
+   */
+  const handleDeletePreset = useCallback((preset: EffectsPreset) => {
+    if (preset.builtIn) return;
+    Alert.alert('刪除效果預設', `確定要刪除「${preset.name}」嗎？`, [
+      { text: '取消', style: 'cancel' },
+      {
+        text: '刪除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await EffectsPresetRepository.deletePreset(preset.id);
+            await loadPresets();
+          } catch (error) {
+            Alert.alert('刪除效果預設失敗', isAppError(error) ? error.message : String(error));
+          }
+        },
+      },
+    ]);
+  }, [loadPresets]);
+
+  // ========== 渲染輔助 ==========
+
+  /**
+   * 選項按鈕
+   */
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary }]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={{ color: selected ? BASE_COLORS.primary : textColor }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  /**
+   * 效果標題列 (名稱與啟用開關)
+   */
+  const renderEffectHeader = (label: string, bypassed: boolean, onToggle: (enabled: boolean) => void) => (
+    <View style={styles.effectHeader}>
+      <Text style={[styles.effectTitle, { color: textColor }]}>{label}</Text>
+      <Switch
+        value={!bypassed}
+        onValueChange={onToggle}
+        trackColor={{ true: BASE_COLORS.primary }}
+        accessibilityLabel={`啟用${label}`}
+      />
+    </View>
+  );
+
+  /**
+   * 濕聲比例調整列
+   */
+  const renderMixStepper = (mix: number, onMixChange: (value: number) => void) => (
+    <StepperRow
+      label="濕聲"
+      value={mix}
+      step={MIX_STEP}
+      min={0}
+      max={1}
+      color={textColor}
+      formatValue={formatPercent}
+      onChange={onMixChange}
+    />
+  );
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>效果</Text>
+
+      {/* 效果預設 */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.optionRow}>
+        {presets.map(preset => (
+          <TouchableOpacity
+            key={preset.id}
+            style={[
+              styles.optionButton,
+              { borderColor: preset.id === activePresetId ? BASE_COLORS.primary : themeColors.border.primary },
+            ]}
+            onPress={() => onChange?.(preset.settings)}
+            onLongPress={() => handleDeletePreset(preset)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: preset.id === activePresetId }}
+            accessibilityHint={preset.builtIn ? undefined : '長按可刪除此預設'}
+          >
+            <Text style={{ color: preset.id === activePresetId ? BASE_COLORS.primary : textColor }}>
+              {preset.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.optionButton, styles.saveButton, { borderColor: themeColors.border.primary }]}
+          onPress={() => setIsNaming(prev => !prev)}
+          accessibilityLabel="儲存為效果預設"
+          accessibilityRole="button"
+        >
+          <Ionicons name="save-outline" size={16} color={textColor} />
+        </TouchableOpacity>
+      </ScrollView>
+
+      {isNaming ? (
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[styles.nameInput, { color: textColor, borderColor: themeColors.border.primary }]}
+            value={presetName}
+            onChangeText={setPresetName}
+            placeholder="預設名稱"
+            placeholderTextColor={themeColors.text.secondary}
+            onSubmitEditing={handleSavePreset}
+            autoFocus
+          />
+          {renderOption('save', '儲存', false, handleSavePreset)}
+        </View>
+      ) : null}
+
+      {/* 殘響 */}
+      {renderEffectHeader('殘響', effects.reverb.bypassed, enabled => updateReverb({ bypassed: !enabled }))}
+      <View style={styles.optionRow}>
+        {(Object.keys(REVERB_TYPE_LABELS) as ReverbSettings['type'][]).map(type =>
+          renderOption(type, REVERB_TYPE_LABELS[type], type === effects.reverb.type, () => updateReverb({ type }))
+        )}
+      </View>
+      {renderMixStepper(effects.reverb.mix, mix => updateReverb({ mix }))}
+
+      {/* 延遲 */}
+      {renderEffectHeader('延遲', effects.delay.bypassed, enabled => updateDelay({ bypassed: !enabled }))}
+      <View style={styles.optionRow}>
+        {renderOption('sync', '同步速度', effects.delay.syncToTempo, () =>
+          updateDelay({ syncToTempo: !effects.delay.syncToTempo })
+        )}
+        {effects.delay.syncToTempo
+          ? DELAY_DIVISIONS.map(division =>
+            renderOption(division, division, division === effects.delay.division, () => updateDelay({ division }))
+          )
+          : null}
+      </View>
+      {effects.delay.syncToTempo ? null : (
+        <StepperRow
+          label="時間"
+          value={effects.delay.time}
+          step={DELAY_TIME_STEP}
+          min={DELAY_CONSTANTS.MIN_TIME}
+          max={DELAY_CONSTANTS.MAX_TIME}
+          color={textColor}
+          formatValue={value => `${Math.round(value * 1000)}ms`}
+          onChange={time => updateDelay({ time })}
+        />
+      )}
+      <StepperRow
+        label="回授"
+        value={effects.delay.feedback}
+        step={MIX_STEP}
+        min={0}
+        max={DELAY_CONSTANTS.MAX_FEEDBACK}
+        color={textColor}
+        formatValue={formatPercent}
+        onChange={feedback => updateDelay({ feedback })}
+      />
+      {renderMixStepper(effects.delay.mix, mix => updateDelay({ mix }))}
+
+      {/* 合唱 */}
+      {renderEffectHeader('合唱', effects.chorus.bypassed, enabled => updateChorus({ bypassed: !enabled }))}
+      <StepperRow
+        label="速率"
+        value={effects.chorus.rate}
+        step={0.1}
+        min={CHORUS_CONSTANTS.MIN_RATE}
+        max={CHORUS_CONSTANTS.MAX_RATE}
+        color={textColor}
+        formatValue={value => `${value.toFixed(1)}Hz`}
+        onChange={rate => updateChorus({ rate })}
+      />
+      <StepperRow
+        label="深度"
+        value={effects.chorus.depth}
+        step={2}
+        min={0}
+        max={CHORUS_CONSTANTS.MAX_DEPTH}
+        color={textColor}
+        formatValue={value => `${value}¢`}
+        onChange={depth => updateChorus({ depth })}
+      />
+      {renderMixStepper(effects.chorus.mix, mix => updateChorus({ mix }))}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  saveButton: {
+    justifyContent: 'center',
+  },
+
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  nameInput: {
+    flex: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 14,
+  },
+
+  effectHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+
+  effectTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+EffectsSettingsSection.displayName = 'EffectsSettingsSection';
+
+// ========== 導出元件 ==========
+
+export default EffectsSettingsSection;
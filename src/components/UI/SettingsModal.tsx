@@ -0,0 +1,415 @@
+/**
+ * 簡譜鋼琴應用程式 - 設定視窗
+ *
+ * 本文件實作了由頂部工具列設定按鈕開啟的設定面板，
+ * 包含觸控力度的校正曲線與力度範圍 (即時預覽曲線形狀)、
+ * 主輸出壓縮/限幅器、調音與調律，以及殘響、延遲、合唱效果鏈與效果預設。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  Switch,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+import Svg, { Polyline, Rect } from 'react-native-svg';
+
+import type { AppSettings, CompressorSettings, VelocityCalibration, VelocityCurve } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { VELOCITY_CONSTANTS, VELOCITY_CURVE_LABELS, applyVelocityCurve } from '../../utils/velocity';
+import { DYNAMICS_CONSTANTS } from '../../services/effects';
+import StepperRow from './StepperRow';
+import EffectsSettingsSection from './EffectsSettingsSection';
+import TuningSettingsSection from './TuningSettingsSection';
+
+// ========== 元件 Props 介面 ==========
+
+export interface SettingsModalProps {
+  /** 是否顯示 */
+  visible: boolean;
+
+  /** 目前設定 */
+  settings: AppSettings;
+
+  /** 設定變更回調，只包含變更的欄位 */
+  onChange?: (changes: Partial<AppSettings>) => void;
+
+  /** 關閉回調 */
+  onClose?: () => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 力度數值調整的間距
+ */
+const VELOCITY_STEP = 5;
+
+/**
+ * 曲線預覽的尺寸與取樣點數
+ */
+const PREVIEW_SIZE = { width: 160, height: 96 };
+const PREVIEW_SAMPLES = 24;
+
+// ========== 設定視窗元件 ==========
+
+/**
+ * 設定視窗元件
+ */
+const SettingsModal: React.FC<SettingsModalProps> = memo(({
+  visible,
+  settings,
+  onChange,
+  onClose,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const calibration = settings.velocityCalibration;
+  const compressor = settings.compressor;
+
+  /**
+   * 曲線預覽的折線座標
+   */
+  const previewPoints = useMemo(() => {
+    const points: string[] = [];
+    for (let i = 0; i <= PREVIEW_SAMPLES; i++) {
+      const intensity = i / PREVIEW_SAMPLES;
+      const velocity = applyVelocityCurve(intensity, calibration);
+      const x = intensity * PREVIEW_SIZE.width;
+      const y = PREVIEW_SIZE.height * (1 - velocity / 127);
+      points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+    return points.join(' ');
+  }, [calibration]);
+
+  // ========== 事件處理 ==========
+
+  /**
+   * 更新力度校正
+   */
+  const updateCalibration = useCallback((changes: Partial<VelocityCalibration>) => {
+    onChange?.({ velocityCalibration: { ...calibration, ...changes } });
+  }, [calibration, onChange]);
+
+  /**
+   * 更新壓縮/限幅器
+   */
+  const updateCompressor = useCallback((changes: Partial<CompressorSettings>) => {
+    onChange?.({ compressor: { ...settings.compressor, ...changes } });
+  }, [settings.compressor, onChange]);
+
+  /**
+   * 更新效果鏈
+   */
+  const updateEffects = useCallback((effects: AppSettings['effects']) => {
+    onChange?.({ effects });
+  }, [onChange]);
+
+  /**
+   * 更新調音
+   */
+  const updateTuning = useCallback((tuning: AppSettings['tuning']) => {
+    onChange?.({ tuning });
+  }, [onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      supportedOrientations={['landscape', 'landscape-left', 'landscape-right']}
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={[styles.panel, { backgroundColor: themeColors.surface.primary }]}>
+          {/* 標題列 */}
+          <View style={[styles.header, { borderBottomColor: themeColors.border.primary }]}>
+            <Text style={[styles.title, { color: themeColors.text.primary }]}>設定</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onClose}
+              accessibilityLabel="關閉設定"
+              accessibilityRole="button"
+            >
+              <Ionicons name="close" size={22} color={themeColors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* 觸控力度 */}
+            <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>觸控力度</Text>
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>
+              手指越靠近琴鍵前緣 (下方) 聲音越大；裝置支援壓力感應時也會一併參考
+            </Text>
+
+            <View style={styles.optionRow}>
+              {(Object.keys(VELOCITY_CURVE_LABELS) as VelocityCurve[]).map(curve => {
+                const selected = curve === calibration.curve;
+                return (
+                  <TouchableOpacity
+                    key={curve}
+                    style={[
+                      styles.optionButton,
+                      { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary },
+                    ]}
+                    onPress={() => updateCalibration({ curve })}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={{ color: selected ? BASE_COLORS.primary : themeColors.text.primary }}>
+                      {VELOCITY_CURVE_LABELS[curve]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.calibrationRow}>
+              <View style={styles.steppers}>
+                {calibration.curve === 'fixed' ? (
+                  <StepperRow
+                    label="力度"
+                    value={calibration.fixedVelocity}
+                    step={VELOCITY_STEP}
+                    min={VELOCITY_CONSTANTS.MIN_VELOCITY}
+                    max={VELOCITY_CONSTANTS.MAX_VELOCITY}
+                    color={themeColors.text.primary}
+                    onChange={fixedVelocity => updateCalibration({ fixedVelocity })}
+                  />
+                ) : (
+                  <>
+                    <StepperRow
+                      label="最輕"
+                      value={calibration.minVelocity}
+                      step={VELOCITY_STEP}
+                      min={VELOCITY_CONSTANTS.MIN_VELOCITY}
+                      max={VELOCITY_CONSTANTS.MAX_VELOCITY}
+                      color={themeColors.text.primary}
+                      onChange={minVelocity => updateCalibration({
+                        minVelocity: Math.min(minVelocity, calibration.maxVelocity),
+                      })}
+                    />
+                    <StepperRow
+                      label="最重"
+                      value={calibration.maxVelocity}
+                      step={VELOCITY_STEP}
+                      min={VELOCITY_CONSTANTS.MIN_VELOCITY}
+                      max={VELOCITY_CONSTANTS.MAX_VELOCITY}
+                      color={themeColors.text.primary}
+                      onChange={maxVelocity => updateCalibration({
+                        maxVelocity: Math.max(maxVelocity, calibration.minVelocity),
+                      })}
+                    />
+                  </>
+                )}
+              </View>
+
+              {/* 曲線預覽：橫軸為觸控強度，縱軸為力度 */}
+              <Svg width={PREVIEW_SIZE.width} height={PREVIEW_SIZE.height}>
+                <Rect
+                  x={0}
+                  y={0}
+                  width={PREVIEW_SIZE.width}
+                  height={PREVIEW_SIZE.height}
+                  fill="none"
+                  stroke={themeColors.border.primary}
+                />
+                <Polyline points={previewPoints} fill="none" stroke={BASE_COLORS.primary} strokeWidth={2} />
+              </Svg>
+            </View>
+
+            {/* 壓縮/限幅器 */}
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>輸出壓縮/限幅</Text>
+              <Switch
+                value={!compressor.bypassed}
+                onValueChange={enabled => updateCompressor({ bypassed: !enabled })}
+                trackColor={{ true: BASE_COLORS.primary }}
+                accessibilityLabel="啟用輸出壓縮/限幅"
+              />
+            </View>
+            <View style={styles.stepperGrid}>
+              <StepperRow
+                label="臨界"
+                value={compressor.threshold}
+                step={1}
+                min={DYNAMICS_CONSTANTS.THRESHOLD_RANGE[0]}
+                max={DYNAMICS_CONSTANTS.THRESHOLD_RANGE[1]}
+                color={themeColors.text.primary}
+                formatValue={value => `${value}dB`}
+                onChange={threshold => updateCompressor({ threshold })}
+              />
+              <StepperRow
+                label="比例"
+                value={compressor.ratio}
+                step={1}
+                min={DYNAMICS_CONSTANTS.RATIO_RANGE[0]}
+                max={DYNAMICS_CONSTANTS.RATIO_RANGE[1]}
+                color={themeColors.text.primary}
+                formatValue={value => `${value}:1`}
+                onChange={ratio => updateCompressor({ ratio })}
+              />
+              <StepperRow
+                label="起音"
+                value={compressor.attack}
+                step={0.001}
+                min={DYNAMICS_CONSTANTS.ATTACK_RANGE[0]}
+                max={DYNAMICS_CONSTANTS.ATTACK_RANGE[1]}
+                color={themeColors.text.primary}
+                formatValue={value => `${Math.round(value * 1000)}ms`}
+                onChange={attack => updateCompressor({ attack })}
+              />
+              <StepperRow
+                label="釋放"
+                value={compressor.release}
+                step={0.05}
+                min={DYNAMICS_CONSTANTS.RELEASE_RANGE[0]}
+                max={DYNAMICS_CONSTANTS.RELEASE_RANGE[1]}
+                color={themeColors.text.primary}
+                formatValue={value => `${Math.round(value * 1000)}ms`}
+                onChange={release => updateCompressor({ release })}
+              />
+              <StepperRow
+                label="補償"
+                value={compressor.makeupGain}
+                step={1}
+                min={DYNAMICS_CONSTANTS.MAKEUP_RANGE[0]}
+                max={DYNAMICS_CONSTANTS.MAKEUP_RANGE[1]}
+                color={themeColors.text.primary}
+                formatValue={value => `+${value}dB`}
+                onChange={makeupGain => updateCompressor({ makeupGain })}
+              />
+            </View>
+
+            {/* 調音 */}
+            <TuningSettingsSection tuning={settings.tuning} onChange={updateTuning} />
+
+            {/* 效果 */}
+            <EffectsSettingsSection effects={settings.effects} onChange={updateEffects} />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  panel: {
+    width: 520,
+    maxWidth: '92%',
+    maxHeight: '90%',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  content: {
+    padding: 16,
+    gap: 10,
+  },
+
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  stepperGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 24,
+    rowGap: 6,
+  },
+
+  hint: {
+    fontSize: 12,
+  },
+
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  calibrationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+  },
+
+  steppers: {
+    flex: 1,
+    gap: 6,
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+SettingsModal.displayName = 'SettingsModal';
+
+// ========== 導出元件 ==========
+
+export default SettingsModal;
@@ -0,0 +1,129 @@
+/**
+ * 簡譜鋼琴應用程式 - 數值調整列
+ *
+ * 本文件實作了設定面板共用的「標籤 − 數值 +」調整列，
+ * 依指定的間距增減並限制在範圍內。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+// ========== 元件 Props 介面 ==========
+
+export interface StepperRowProps {
+  /** 標籤 */
+  label: string;
+
+  /** 目前數值 */
+  value: number;
+
+  /** 每次增減的間距 */
+  step: number;
+
+  /** 最小值 */
+  min: number;
+
+  /** 最大值 */
+  max: number;
+
+  /** 文字與圖示顏色 */
+  color: string;
+
+  /** 數值顯示格式，預設直接顯示 */
+  formatValue?: (value: number) => string;
+
+  /** 數值變更回調 */
+  onChange: (value: number) => void;
+}
+
+// ========== 數值調整列元件 ==========
+
+/**
+ * 數值調整列元件
+ */
+const StepperRow: React.FC<StepperRowProps> = memo(({
+  label,
+  value,
+  step,
+  min,
+  max,
+  color,
+  formatValue,
+  onChange,
+}) => {
+  // ========== 事件處理 ==========
+
+  /**
+   * 依間距調整數值，並修正浮點誤差
+   */
+  const handleStep = useCallback((direction: number) => {
+    const next = Math.round((value + direction * step) / step) * step;
+    onChange(Math.max(min, Math.min(max, parseFloat(next.toFixed(6)))));
+  }, [value, step, min, max, onChange]);
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color }]}>{label}</Text>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => handleStep(-1)}
+        disabled={value <= min}
+        accessibilityLabel={`降低${label}`}
+        accessibilityRole="button"
+      >
+        <Ionicons name="remove-circle-outline" size={22} color={color} />
+      </TouchableOpacity>
+      <Text style={[styles.value, { color }]}>{formatValue ? formatValue(value) : value}</Text>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => handleStep(1)}
+        disabled={value >= max}
+        accessibilityLabel={`提高${label}`}
+        accessibilityRole="button"
+      >
+        <Ionicons name="add-circle-outline" size={22} color={color} />
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  label: {
+    width: 40,
+    fontSize: 14,
+  },
+
+  button: {
+    padding: 2,
+  },
+
+  value: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    fontFamily: 'monospace',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+StepperRow.displayName = 'StepperRow';
+
+// ========== 導出元件 ==========
+
+export default StepperRow;
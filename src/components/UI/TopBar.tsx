@@ -12,13 +12,19 @@
 import { Ionicons } from "@expo/vector-icons";
 import React, { memo, useMemo } from "react";
 import { StatusBar, StyleSheet, Text, TouchableOpacity, useColorScheme, View } from "react-native";
-import Animated, { useAnimatedStyle, useSharedValue, withSpring } from "react-native-reanimated";
+import Animated, { SharedValue, useAnimatedStyle, useSharedValue, withSpring } from "react-native-reanimated";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
-import type { RecordingState } from "../../types";
-import { getThemeColors } from "../../utils/colorScheme";
+import type { MetronomeSettings, MusicalKey, RecordingState, SoundType, TransposeSettings } from "../../types";
+import { getThemeColors, BASE_COLORS } from "../../utils/colorScheme";
+import KeySelector from "../Controls/KeySelector";
+import LevelMeter from "../Controls/LevelMeter";
+import MetronomeControl from "../Controls/MetronomeControl";
 import RecordButton from "../Controls/RecordButton";
+import SoundTypeSelector from "../Controls/SoundTypeSelector";
+import SustainPedal from "../Controls/SustainPedal";
 import Timer from "../Controls/Timer";
+import TransposeSelector from "../Controls/TransposeSelector";
 
 // ========== 元件 Props 介面 ==========
 
@@ -32,21 +38,78 @@ export interface TopBarProps {
   /** 錄音經過時間 */
   recordingTime?: number;
 
+  /** 預備拍剩餘的拍數 */
+  countInBeats?: number;
+
   /** 是否顯示錄音控制 */
   showRecordingControls?: boolean;
 
+  /** 簡譜標記所依據的調性，提供時顯示調性選擇 */
+  musicalKey?: MusicalKey;
+
+  /** 調性變更回調 */
+  onMusicalKeyChange?: (key: MusicalKey) => void;
+
+  /** 移調設定，提供時顯示移調選擇 */
+  transpose?: TransposeSettings;
+
+  /** 移調變更回調 */
+  onTransposeChange?: (transpose: TransposeSettings) => void;
+
+  /** 節拍器設定，與目前拍子一併提供時顯示節拍器 */
+  metronome?: MetronomeSettings;
+
+  /** 節拍器目前的拍子索引，停止時為 -1 */
+  metronomeBeat?: SharedValue<number>;
+
+  /** 節拍器設定變更回調 */
+  onMetronomeChange?: (metronome: MetronomeSettings) => void;
+
+  /** 節拍器點擊測速回調 */
+  onTapTempo?: () => void;
+
+  /** 目前音色，提供時顯示音色選擇 */
+  soundType?: SoundType;
+
+  /** 音色變更回調 */
+  onSoundTypeChange?: (soundType: SoundType) => void;
+
+  /** 延音踏板是否踩下，提供時顯示踏板 */
+  sustainActive?: boolean;
+
+  /** 延音踏板狀態變更回調 */
+  onSustainChange?: (active: boolean) => void;
+
+  /** 主輸出峰值 (dBFS)，與增益衰減量一併提供時顯示音量表 */
+  meterLevel?: SharedValue<number>;
+
+  /** 壓縮/限幅器的增益衰減量 (dB) */
+  meterGainReduction?: SharedValue<number>;
+
   /** 設定按鈕點擊回調 */
   onSettingsPress?: () => void;
 
   /** 選單按鈕點擊回調 */
   onMenuPress?: () => void;
 
+  /** 是否正在進行下落音符練習 */
+  practiceActive?: boolean;
+
+  /** 練習按鈕點擊回調，提供時顯示練習按鈕 */
+  onPracticePress?: () => void;
+
   /** 錄音開始回調 */
   onStartRecording?: () => void;
 
   /** 錄音停止回調 */
   onStopRecording?: () => void;
 
+  /** 錄音暫停回調，提供時於錄音中顯示暫停按鈕 */
+  onPauseRecording?: () => void;
+
+  /** 錄音繼續回調 */
+  onResumeRecording?: () => void;
+
   /** 自定義樣式 */
   style?: any;
 }
@@ -58,7 +121,7 @@ export interface TopBarProps {
  * 提供應用程式的主要導覽和控制功能
  */
 const TopBar: React.FC<TopBarProps> = memo(
-  ({ title = "Piano", recordingState = "idle", recordingTime = 0, showRecordingControls = true, onSettingsPress, onMenuPress, onStartRecording, onStopRecording, style }) => {
+  ({ title = "Piano", recordingState = "idle", recordingTime = 0, countInBeats = 0, showRecordingControls = true, musicalKey, onMusicalKeyChange, transpose, onTransposeChange, metronome, metronomeBeat, onMetronomeChange, onTapTempo, soundType, onSoundTypeChange, sustainActive, onSustainChange, meterLevel, meterGainReduction, onSettingsPress, onMenuPress, practiceActive = false, onPracticePress, onStartRecording, onStopRecording, onPauseRecording, onResumeRecording, style }) => {
     // ========== Hooks ==========
 
     const colorScheme = useColorScheme();
@@ -89,6 +152,11 @@ const TopBar: React.FC<TopBarProps> = memo(
       return showRecordingControls && (recordingState === "recording" || recordingState === "paused");
     }, [showRecordingControls, recordingState]);
 
+    /**
+     * 錄音中 (含暫停) 與預備拍期間鎖定調性與移調
+     */
+    const isRecordingLocked = recordingState === "recording" || recordingState === "paused" || recordingState === "countIn";
+
     // ========== 動畫樣式 ==========
 
     /**
@@ -205,6 +273,18 @@ const TopBar: React.FC<TopBarProps> = memo(
             <Ionicons name="settings-outline" size={24} color={iconColor} />
           </TouchableOpacity>
         </Animated.View>
+
+        {/* 調性選擇 */}
+        {musicalKey && <KeySelector value={musicalKey} onChange={onMusicalKeyChange} disabled={isRecordingLocked} />}
+
+        {/* 移調 (錄音中鎖定，錄音只記錄開始時的移調) */}
+        {transpose && <TransposeSelector value={transpose} onChange={onTransposeChange} disabled={isRecordingLocked} />}
+
+        {/* 節拍器 */}
+        {metronome && metronomeBeat && <MetronomeControl value={metronome} currentBeat={metronomeBeat} onChange={onMetronomeChange} onTapTempo={onTapTempo} />}
+
+        {/* 音色選擇 */}
+        {soundType && <SoundTypeSelector value={soundType} onChange={onSoundTypeChange} />}
       </View>
     );
 
@@ -234,9 +314,41 @@ const TopBar: React.FC<TopBarProps> = memo(
      */
     const renderRightControls = () => (
       <View style={styles.rightControls}>
+        {/* 音量表 */}
+        {meterLevel && meterGainReduction && <LevelMeter level={meterLevel} gainReduction={meterGainReduction} />}
+
+        {/* 延音踏板 */}
+        {sustainActive !== undefined && <SustainPedal active={sustainActive} onChange={onSustainChange} />}
+
+        {/* 暫停/停止 (錄音中暫停；暫停時錄音按鈕負責繼續，此按鈕結束錄音) */}
+        {showRecordingControls && onPauseRecording && (recordingState === "recording" || recordingState === "paused") && (
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={recordingState === "paused" ? onStopRecording : onPauseRecording}
+            accessibilityLabel={recordingState === "paused" ? "結束錄音" : "暫停錄音"}
+            accessibilityRole="button"
+          >
+            <Ionicons name={recordingState === "paused" ? "stop" : "pause"} size={22} color={iconColor} />
+          </TouchableOpacity>
+        )}
+
         {/* 錄音按鈕 */}
         {showRecordingControls && (
-          <RecordButton recordingState={recordingState} size={36} onStartRecording={onStartRecording} onStopRecording={onStopRecording} style={styles.recordButton} />
+          <RecordButton recordingState={recordingState} size={36} countInBeats={countInBeats} onStartRecording={onStartRecording} onStopRecording={onStopRecording} onPauseRecording={onPauseRecording} onResumeRecording={onResumeRecording} style={styles.recordButton} />
+        )}
+
+        {/* 下落音符練習 (錄音中停用) */}
+        {onPracticePress && (
+          <TouchableOpacity
+            style={[styles.iconButton, { opacity: isRecordingLocked ? 0.5 : 1 }]}
+            onPress={onPracticePress}
+            disabled={isRecordingLocked}
+            accessibilityLabel={practiceActive ? "結束練習" : "下落音符練習"}
+            accessibilityRole="button"
+            accessibilityState={{ selected: practiceActive, disabled: isRecordingLocked }}
+          >
+            <Ionicons name={practiceActive ? "school" : "school-outline"} size={24} color={practiceActive ? BASE_COLORS.primary : iconColor} />
+          </TouchableOpacity>
         )}
 
         {/* 選單按鈕 */}
@@ -308,6 +420,7 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
     flex: 1,
+    gap: 8,
   },
 
   titleArea: {
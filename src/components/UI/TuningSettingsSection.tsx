@@ -0,0 +1,303 @@
+/**
+ * 簡譜鋼琴應用程式 - 調音設定區塊
+ *
+ * 本文件實作了設定視窗中的調音區塊：A4 基準頻率、調律系統與主音，
+ * 以及貼上 Scala 音階檔 (.scl) 與鍵盤對應檔 (.kbm) 內容以匯入自訂調律。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Alert,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+
+import type { NoteName, Temperament, TuningSettings } from '../../types';
+import { getThemeColors, BASE_COLORS } from '../../utils/colorScheme';
+import { NOTE_TO_SEMITONE_OFFSET } from '../../utils/noteFrequencies';
+import {
+  TUNING_CONSTANTS,
+  TEMPERAMENT_LABELS,
+  parseScalaScale,
+  parseKeyboardMapping,
+} from '../../utils/tuning';
+import StepperRow from './StepperRow';
+
+// ========== 元件 Props 介面 ==========
+
+export interface TuningSettingsSectionProps {
+  /** 目前調音設定 */
+  tuning: TuningSettings;
+
+  /** 調音設定變更回調 */
+  onChange?: (tuning: TuningSettings) => void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 常用的 A4 基準頻率
+ */
+const REFERENCE_PRESETS = [
+  { frequency: 415, label: '415 巴洛克' },
+  { frequency: 440, label: '440 標準' },
+  { frequency: 442, label: '442 樂團' },
+] as const;
+
+/**
+ * 主音選項
+ */
+const TONIC_OPTIONS = Object.keys(NOTE_TO_SEMITONE_OFFSET) as NoteName[];
+
+// ========== 調音設定區塊元件 ==========
+
+/**
+ * 調音設定區塊元件
+ */
+const TuningSettingsSection: React.FC<TuningSettingsSectionProps> = memo(({
+  tuning,
+  onChange,
+}) => {
+  // ========== Hooks ==========
+
+  const colorScheme = useColorScheme();
+  const [isImporting, setIsImporting] = useState(false);
+  const [sclText, setSclText] = useState('');
+  const [kbmText, setKbmText] = useState('');
+
+  // ========== 計算屬性 ==========
+
+  /**
+   * 主題顏色
+   */
+  const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
+
+  const textColor = themeColors.text.primary;
+
+  /**
+   * 使用 .kbm 時參考頻率由檔案決定，A4 設定不生效
+   */
+  const usesKeyboardMapping = tuning.temperament === 'scala' && Boolean(tuning.scala?.kbm);
+
+  // ========== 事件處理 ==========
+
+  const updateTuning = useCallback((changes: Partial<TuningSettings>) => {
+    onChange?.({ ...tuning, ...changes });
+  }, [tuning, onChange]);
+
+  /**
+   * 切換調律系統，尚未匯入 Scala 檔案時改為開啟匯入欄位
+   */
+  const handleTemperament = useCallback((temperament: Temperament) => {
+    if (temperament === 'scala' && !tuning.scala) {
+      setIsImporting(true);
+      return;
+    }
+    updateTuning({ temperament });
+  }, [tuning.scala, updateTuning]);
+
+  /**
+   * 解析貼上的 Scala 檔案內容並套用
+   */
+  const handleImportScala = useCallback(() => {
+    try {
+      const scale = parseScalaScale(sclText);
+      const kbm = kbmText.trim() ? kbmText : null;
+      if (kbm) {
+        parseKeyboardMapping(kbm);
+      }
+
+      updateTuning({
+        temperament: 'scala',
+        scala: { name: scale.description || '自訂音階', scl: sclText, kbm },
+      });
+      setIsImporting(false);
+    } catch (error) {
+      Alert.alert('匯入 Scala 檔案失敗', error instanceof Error ? error.message : String(error));
+    }
+  }, [sclText, kbmText, updateTuning]);
+
+  // ========== 渲染輔助 ==========
+
+  /**
+   * 選項按鈕
+   */
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, { borderColor: selected ? BASE_COLORS.primary : themeColors.border.primary }]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={{ color: selected ? BASE_COLORS.primary : textColor }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  /**
+   * 多行文字輸入欄
+   */
+  const renderFileInput = (value: string, onChangeText: (text: string) => void, placeholder: string) => (
+    <TextInput
+      style={[styles.fileInput, { color: textColor, borderColor: themeColors.border.primary }]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={themeColors.text.secondary}
+      autoCapitalize="none"
+      autoCorrect={false}
+      multiline
+    />
+  );
+
+  // ========== 主要渲染 ==========
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.sectionTitle, { color: themeColors.text.secondary }]}>調音</Text>
+
+      {/* A4 基準頻率 */}
+      <StepperRow
+        label="A4"
+        value={tuning.referenceFrequency}
+        step={1}
+        min={TUNING_CONSTANTS.MIN_REFERENCE}
+        max={TUNING_CONSTANTS.MAX_REFERENCE}
+        color={textColor}
+        formatValue={value => `${value}Hz`}
+        onChange={referenceFrequency => updateTuning({ referenceFrequency })}
+      />
+      <View style={styles.optionRow}>
+        {REFERENCE_PRESETS.map(({ frequency, label }) =>
+          renderOption(`a4-${frequency}`, label, frequency === tuning.referenceFrequency, () =>
+            updateTuning({ referenceFrequency: frequency })
+          )
+        )}
+      </View>
+      {usesKeyboardMapping ? (
+        <Text style={[styles.hint, { color: themeColors.text.secondary }]}>
+          目前的 .kbm 檔案自行指定參考頻率，A4 設定不生效
+        </Text>
+      ) : null}
+
+      {/* 調律系統 */}
+      <View style={styles.optionRow}>
+        {(Object.keys(TEMPERAMENT_LABELS) as Temperament[]).map(temperament =>
+          renderOption(temperament, TEMPERAMENT_LABELS[temperament], temperament === tuning.temperament, () =>
+            handleTemperament(temperament)
+          )
+        )}
+      </View>
+
+      {/* 主音 */}
+      {tuning.temperament === 'equal' || usesKeyboardMapping ? null : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.optionRow}>
+          {TONIC_OPTIONS.map(tonic =>
+            renderOption(`tonic-${tonic}`, tonic, tonic === tuning.tonic, () => updateTuning({ tonic }))
+          )}
+        </ScrollView>
+      )}
+
+      {/* Scala 匯入 */}
+      <View style={styles.scalaRow}>
+        <Text style={[styles.hint, { color: themeColors.text.secondary }]} numberOfLines={1}>
+          {tuning.scala ? `Scala：${tuning.scala.name}` : '尚未匯入 Scala 檔案'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.optionButton, styles.iconButton, { borderColor: themeColors.border.primary }]}
+          onPress={() => setIsImporting(prev => !prev)}
+          accessibilityLabel="匯入 Scala 檔案"
+          accessibilityRole="button"
+        >
+          <Ionicons name="document-text-outline" size={16} color={textColor} />
+        </TouchableOpacity>
+      </View>
+
+      {isImporting ? (
+        <View style={styles.importPanel}>
+          {renderFileInput(sclText, setSclText, '貼上 .scl 音階檔內容')}
+          {renderFileInput(kbmText, setKbmText, '貼上 .kbm 鍵盤對應檔內容 (可省略)')}
+          <View style={styles.optionRow}>
+            {renderOption('import', '套用', false, handleImportScala)}
+            {renderOption('cancel', '取消', false, () => setIsImporting(false))}
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+});
+
+// ========== 樣式定義 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  optionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+
+  iconButton: {
+    justifyContent: 'center',
+  },
+
+  hint: {
+    flex: 1,
+    fontSize: 12,
+  },
+
+  scalaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  importPanel: {
+    gap: 8,
+  },
+
+  fileInput: {
+    minHeight: 72,
+    maxHeight: 160,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+});
+
+// ========== 顯示名稱 ==========
+
+TuningSettingsSection.displayName = 'TuningSettingsSection';
+
+// ========== 導出元件 ==========
+
+export default TuningSettingsSection;
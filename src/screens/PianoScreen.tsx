@@ -38,15 +38,44 @@ import Animated, {
 import type { 
   NoteId, 
   RecordingState,
-  KeyboardInteractionEvent,
-  AppSettings 
+  RecordingData,
+  PlaybackControl,
+  AppSettings,
+  MusicalKey,
+  SoundType,
+  TransposeSettings,
+  MetronomeSettings,
+  PunchRange,
+  PracticeSong
 } from '../types';
 
 import { getThemeColors } from '../utils/colorScheme';
-import AudioService from '../services/AudioService';
+import { isAppError } from '../utils/appError';
+import { DEFAULT_MUSICAL_KEY } from '../utils/keySignature';
+import { DEFAULT_VELOCITY_CALIBRATION } from '../utils/velocity';
+import { DEFAULT_TUNING_SETTINGS } from '../utils/tuning';
+import { DEFAULT_TRANSPOSE, getTransposeOffset, transposeNoteId } from '../utils/transpose';
+import { DEFAULT_METRONOME_SETTINGS, toQuarterNoteBpm } from '../utils/metronome';
+import { getPunchPrerollStart, punchRecording } from '../utils/punchRecording';
+import { addTrack, createDefaultTrackName, removeTrack, updateTrack } from '../utils/recordingTracks';
+import { transposeSong } from '../utils/fallingNotes';
+import AudioService, { AudioServiceEventListener } from '../services/AudioService';
+import RecordingService from '../services/RecordingService';
+import RecordingRepository from '../services/RecordingRepository';
+import PlaybackService, { PlaybackServiceEventListener } from '../services/PlaybackService';
+import MetronomeService, { MetronomeServiceEventListener } from '../services/MetronomeService';
+import { DEFAULT_EFFECTS_SETTINGS, DEFAULT_COMPRESSOR_SETTINGS, DYNAMICS_CONSTANTS } from '../services/effects';
 
 import SimplePianoKeyboard from '../components/Piano/SimplePianoKeyboard';
 import TopBar from '../components/UI/TopBar';
+import PlaybackControls from '../components/Controls/PlaybackControls';
+import TrackList, { TrackSettingsChange } from '../components/Controls/TrackList';
+import TranscriptionModal from '../components/Score/TranscriptionModal';
+import PianoRollModal from '../components/Editor/PianoRollModal';
+import RecordingLibraryModal from '../components/Library/RecordingLibraryModal';
+import PracticeMode from '../components/Practice/PracticeMode';
+import PracticeSongModal from '../components/Practice/PracticeSongModal';
+import SettingsModal from '../components/UI/SettingsModal';
 
 // ========== 介面 Props 定義 ==========
 
@@ -58,7 +87,7 @@ export interface PianoScreenProps {
   onSettingsChange?: (settings: AppSettings) => void;
   
   /** 錄音完成回調 */
-  onRecordingComplete?: (recordingId: string) => void;
+  onRecordingComplete?: (recording: RecordingData) => void;
   
   /** 錯誤處理回調 */
   onError?: (error: string) => void;
@@ -74,6 +103,13 @@ const DEFAULT_SETTINGS: AppSettings = {
   showSolfege: true,
   showNoteNames: false,
   colorCoding: true,
+  musicalKey: DEFAULT_MUSICAL_KEY,
+  velocityCalibration: DEFAULT_VELOCITY_CALIBRATION,
+  effects: DEFAULT_EFFECTS_SETTINGS,
+  compressor: DEFAULT_COMPRESSOR_SETTINGS,
+  tuning: DEFAULT_TUNING_SETTINGS,
+  transpose: DEFAULT_TRANSPOSE,
+  metronome: DEFAULT_METRONOME_SETTINGS,
 };
 
 // ========== 鋼琴主畫面元件 ==========
@@ -92,6 +128,9 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
   
   const colorScheme = useColorScheme();
   const audioService = useRef(AudioService).current;
+  const recordingService = useRef(RecordingService).current;
+  const playbackService = useRef(PlaybackService).current;
+  const metronomeService = useRef(MetronomeService).current;
   
   // 狀態管理
   const [appSettings, setAppSettings] = useState<AppSettings>({
@@ -103,14 +142,46 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
   const [recordingTime, setRecordingTime] = useState(0);
   const [isKeyboardReady, setIsKeyboardReady] = useState(false);
   const [playingNotes, setPlayingNotes] = useState<Set<NoteId>>(new Set());
+  const [loadedRecording, setLoadedRecording] = useState<RecordingData | null>(null);
+  const [playbackControl, setPlaybackControl] = useState<PlaybackControl>(playbackService.getControl());
+  const [playbackKeys, setPlaybackKeys] = useState<Set<NoteId>>(new Set());
+  const [isScoreVisible, setIsScoreVisible] = useState(false);
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const [isSettingsVisible, setIsSettingsVisible] = useState(false);
+  const [isLibraryVisible, setIsLibraryVisible] = useState(false);
+  const [isSustainActive, setIsSustainActive] = useState(audioService.isSustainOn('live'));
+  const [countInBeats, setCountInBeats] = useState(0);
+  const [isMetronomeSuspended, setIsMetronomeSuspended] = useState(false);
+  const [punchRange, setPunchRange] = useState<PunchRange | null>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const [practiceSong, setPracticeSong] = useState<PracticeSong | null>(null);
+  const [practiceKeys, setPracticeKeys] = useState<Set<NoteId>>(new Set());
+  const [isPracticeSongVisible, setIsPracticeSongVisible] = useState(false);
   
   // 動畫值
   const screenOpacity = useSharedValue(0);
   const keyboardScale = useSharedValue(0.9);
   
+  // 音量表數值 (直接更新共享值，不觸發重新渲染)
+  const meterLevel = useSharedValue<number>(DYNAMICS_CONSTANTS.MIN_LEVEL);
+  const meterGainReduction = useSharedValue(0);
+
+  // 節拍器目前的拍子 (停止時為 -1)
+  const metronomeBeat = useSharedValue(-1);
+  
   // Refs
   const recordingTimer = useRef<number | null>(null);
-  const recordingStartTime = useRef<number>(0);
+
+  // 進行中的補錄或疊錄：原始錄音、補錄的音軌與範圍 (疊錄新音軌時為 null)、
+  // 新錄事件起點對應的原始位置，以及開始前的播放設定
+  const takeSession = useRef<{
+    original: RecordingData;
+    trackId: string | null;
+    range: PunchRange | null;
+    takeOffset: number;
+    speed: number;
+    loop: boolean;
+  } | null>(null);
   
   // ========== 初始化和清理 ==========
   
@@ -151,29 +222,178 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
         clearInterval(recordingTimer.current);
       }
       
-      // 停止所有音符
+      // 放開延音踏板並停止所有音符
+      audioService.setSustain(false);
       audioService.stopAllNotes();
+      
+      // 結束未完成的錄音
+      recordingService.stopRecording();
+      
+      // 停止錄音播放與節拍器
+      playbackService.stop();
+      metronomeService.stop();
     };
   }, []);
 
   /**
-   * 監聽應用狀態變化
+   * 套用音色設定，切換時不需重新初始化音頻
    */
   useEffect(() => {
-    const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      if (nextAppState === 'background' || nextAppState === 'inactive') {
-        // 應用進入後台時停止所有音符和錄音
-        audioService.stopAllNotes();
-        if (recordingState === 'recording') {
-          handleStopRecording();
-        }
+    audioService.setSoundType(appSettings.soundType);
+  }, [audioService, appSettings.soundType]);
+
+  /**
+   * 套用效果鏈設定
+   */
+  useEffect(() => {
+    audioService.setEffects(appSettings.effects);
+  }, [audioService, appSettings.effects]);
+
+  /**
+   * 套用主輸出壓縮/限幅器設定
+   */
+  useEffect(() => {
+    audioService.setCompressor(appSettings.compressor);
+  }, [audioService, appSettings.compressor]);
+
+  /**
+   * 套用調律設定
+   */
+  useEffect(() => {
+    audioService.setTuning(appSettings.tuning);
+  }, [audioService, appSettings.tuning]);
+
+  /**
+   * 套用節拍器設定，延遲效果的同步速度以四分音符換算
+   */
+  useEffect(() => {
+    metronomeService.setSettings(appSettings.metronome);
+    audioService.setTempo(toQuarterNoteBpm(appSettings.metronome.bpm, appSettings.metronome.timeSignature));
+  }, [audioService, metronomeService, appSettings.metronome]);
+
+  /**
+   * 依設定開關節拍器，應用在後台時暫停；無法啟動時 (例如音頻尚未初始化) 還原開關
+   */
+  useEffect(() => {
+    if (!appSettings.metronome.enabled || isMetronomeSuspended) {
+      metronomeService.stop();
+      return;
+    }
+    if (!metronomeService.isRunning() && !metronomeService.start()) {
+      setAppSettings(prev => ({ ...prev, metronome: { ...prev.metronome, enabled: false } }));
+    }
+  }, [metronomeService, appSettings.metronome.enabled, isMetronomeSuspended]);
+
+  /**
+   * 將節拍器的拍點送往工具列的拍點指示
+   */
+  useEffect(() => {
+    const handleTick: MetronomeServiceEventListener<'tick'> = ({ beat, subdivision }) => {
+      if (subdivision === 0) {
+        metronomeBeat.value = beat;
       }
     };
+
+    const handleStateChange: MetronomeServiceEventListener<'stateChange'> = ({ isRunning }) => {
+      if (!isRunning) {
+        metronomeBeat.value = -1;
+      }
+    };
+
+    const handleCountIn: MetronomeServiceEventListener<'countIn'> = ({ beatsRemaining }) => {
+      setCountInBeats(beatsRemaining);
+    };
+
+    const handleMetronomeError: MetronomeServiceEventListener<'error'> = ({ message }) => {
+      onError?.(message);
+    };
+
+    metronomeService.addEventListener('tick', handleTick);
+    metronomeService.addEventListener('stateChange', handleStateChange);
+    metronomeService.addEventListener('countIn', handleCountIn);
+    metronomeService.addEventListener('error', handleMetronomeError);
+    return () => {
+      metronomeService.removeEventListener('tick', handleTick);
+      metronomeService.removeEventListener('stateChange', handleStateChange);
+      metronomeService.removeEventListener('countIn', handleCountIn);
+      metronomeService.removeEventListener('error', handleMetronomeError);
+    };
+  }, [metronomeService, metronomeBeat, onError]);
+
+  /**
+   * 將壓縮器的音量表讀數送往工具列的音量表
+   */
+  useEffect(() => {
+    const handleDynamicsMeter: AudioServiceEventListener<'dynamicsMeter'> = ({ outputLevel, gainReduction }) => {
+      meterLevel.value = outputLevel;
+      meterGainReduction.value = gainReduction;
+    };
+
+    audioService.addEventListener('dynamicsMeter', handleDynamicsMeter);
+    return () => {
+      audioService.removeEventListener('dynamicsMeter', handleDynamicsMeter);
+    };
+  }, [audioService, meterLevel, meterGainReduction]);
+
+  /**
+   * 同步鍵盤演奏的延音踏板狀態
+   * 錄音播放的踏板 (CC64) 由播放服務獨立管理，不反映在畫面上的踏板
+   */
+  useEffect(() => {
+    const handleSustainChange: AudioServiceEventListener<'sustainChange'> = ({ active, source }) => {
+      if (source === 'live') {
+        setIsSustainActive(active);
+      }
+    };
+
+    audioService.addEventListener('sustainChange', handleSustainChange);
+    return () => {
+      audioService.removeEventListener('sustainChange', handleSustainChange);
+    };
+  }, [audioService]);
+
+  /**
+   * 監聽播放服務事件，同步播放狀態與琴鍵高亮
+   */
+  useEffect(() => {
+    const handleStateChange: PlaybackServiceEventListener<'stateChange'> = (control) => {
+      setPlaybackControl(control);
+    };
     
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    const handleProgress: PlaybackServiceEventListener<'progress'> = ({ progress }) => {
+      setPlaybackControl(prev => ({ ...prev, progress }));
+    };
     
-    return () => subscription?.remove();
-  }, [recordingState]);
+    const handlePlaybackNoteOn: PlaybackServiceEventListener<'noteOn'> = ({ noteId }) => {
+      setPlaybackKeys(prev => new Set(prev).add(noteId));
+    };
+    
+    const handlePlaybackNoteOff: PlaybackServiceEventListener<'noteOff'> = ({ noteId }) => {
+      setPlaybackKeys(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(noteId);
+        return newSet;
+      });
+    };
+    
+    const handlePlaybackError: PlaybackServiceEventListener<'error'> = ({ message }) => {
+      onError?.(message);
+    };
+    
+    playbackService.addEventListener('stateChange', handleStateChange);
+    playbackService.addEventListener('progress', handleProgress);
+    playbackService.addEventListener('noteOn', handlePlaybackNoteOn);
+    playbackService.addEventListener('noteOff', handlePlaybackNoteOff);
+    playbackService.addEventListener('error', handlePlaybackError);
+    
+    return () => {
+      playbackService.removeEventListener('stateChange', handleStateChange);
+      playbackService.removeEventListener('progress', handleProgress);
+      playbackService.removeEventListener('noteOn', handlePlaybackNoteOn);
+      playbackService.removeEventListener('noteOff', handlePlaybackNoteOff);
+      playbackService.removeEventListener('error', handlePlaybackError);
+    };
+  }, [playbackService, onError]);
 
   /**
    * 監聽 Android 返回鍵
@@ -182,7 +402,7 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
     const backHandler = BackHandler.addEventListener(
       'hardwareBackPress',
       () => {
-        if (recordingState === 'recording') {
+        if (recordingState === 'recording' || recordingState === 'paused') {
           Alert.alert(
             '正在錄音',
             '是否要停止錄音並退出？',
@@ -210,17 +430,15 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
   // ========== 錄音功能 ==========
   
   /**
-   * 開始錄音計時器
+   * 開始錄音計時器，從目前已錄製的時長繼續計時
    */
   const startRecordingTimer = useCallback(() => {
-    recordingStartTime.current = Date.now();
-    setRecordingTime(0);
+    setRecordingTime(recordingService.getElapsedTime());
     
     recordingTimer.current = setInterval(() => {
-      const elapsed = Date.now() - recordingStartTime.current;
-      setRecordingTime(elapsed);
+      setRecordingTime(recordingService.getElapsedTime());
     }, 100); // 每100ms更新一次
-  }, []);
+  }, [recordingService]);
 
   /**
    * 停止錄音計時器
@@ -237,45 +455,399 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
    */
   const handleStartRecording = useCallback(async () => {
     try {
+      // 開始新錄音前停止播放 (疊錄請使用音軌列表的疊錄按鈕)
+      playbackService.stop();
+      
+      // 有預備拍時先打完預備小節，錄音從下一小節的第一拍開始；
+      // 否則節拍器開啟時從第一拍重新開始，讓錄音起點落在小節線上
+      const { metronome } = appSettings;
+      if (metronome.countInBars > 0) {
+        setRecordingState('countIn');
+        const completed = await metronomeService.startCountIn(metronome.countInBars, metronome.enabled);
+        setCountInBeats(0);
+        if (!completed) {
+          setRecordingState('idle');
+          return;
+        }
+      } else if (metronome.enabled) {
+        metronomeService.start(audioService.getCurrentTime());
+      }
+      const beatGrid = metronome.enabled && metronome.recordTempo
+        ? { tempo: metronome.bpm, timeSignature: metronome.timeSignature }
+        : undefined;
+
+      if (!recordingService.startRecording(undefined, appSettings.transpose, beatGrid)) {
+        throw new Error('錄音服務無法開始錄音');
+      }
+      
       setRecordingState('recording');
       startRecordingTimer();
       
-      // TODO: 實際錄音邏輯
-      console.log('開始錄音...');
-      
     } catch (error) {
       console.error('開始錄音失敗:', error);
       onError?.(`開始錄音失敗: ${error}`);
       setRecordingState('idle');
       stopRecordingTimer();
     }
-  }, [startRecordingTimer, stopRecordingTimer, onError]);
+  }, [recordingService, playbackService, metronomeService, audioService, appSettings.transpose, appSettings.metronome, startRecordingTimer, stopRecordingTimer, onError]);
 
   /**
    * 處理停止錄音
    */
   const handleStopRecording = useCallback(async () => {
+    // 預備拍期間停止即取消錄音，由 handleStartRecording 回到待機狀態
+    if (metronomeService.isCountingIn()) {
+      metronomeService.cancelCountIn();
+      return;
+    }
+
     try {
-      const finalTime = recordingTime;
+      const recording = recordingService.stopRecording();
       
       setRecordingState('idle');
       stopRecordingTimer();
+
+      // 補錄/疊錄：停止播放，將新錄的事件接入原始錄音的音軌或成為新的音軌
+      const session = takeSession.current;
+      if (session) {
+        takeSession.current = null;
+        playbackService.stop();
+        playbackService.setSpeed(session.speed);
+        playbackService.setLoop(session.loop);
+
+        const take = recording?.tracks[0];
+        let merged = session.original;
+        if (take && session.range && session.trackId) {
+          merged = punchRecording(session.original, session.trackId, take.events, session.range, session.takeOffset);
+        } else if (take && take.events.length > 0) {
+          merged = addTrack(session.original, {
+            ...take,
+            // 播放開始發聲前就彈下的事件對齊到開頭
+            events: take.events.map(event => ({ ...event, timestamp: Math.max(0, event.timestamp + session.takeOffset) })),
+          });
+          setSelectedTrackId(take.id);
+        }
+        if (merged !== session.original) {
+          await RecordingRepository.saveRecording(merged);
+        }
+        playbackService.load(merged);
+        setLoadedRecording(merged);
+        return;
+      }
       
-      // TODO: 儲存錄音邏輯
-      console.log(`錄音結束，時長: ${finalTime}ms`);
-      
-      if (finalTime > 1000) { // 至少錄音1秒
-        const recordingId = `recording_${Date.now()}`;
-        onRecordingComplete?.(recordingId);
+      if (recording && recording.duration > 1000) { // 至少錄音1秒
+        await RecordingRepository.saveRecording(recording);
+        
+        // 載入剛完成的錄音以便立即回放
+        playbackService.load(recording);
+        setLoadedRecording(recording);
+        
+        onRecordingComplete?.(recording);
       }
       
     } catch (error) {
       console.error('停止錄音失敗:', error);
-      onError?.(`停止錄音失敗: ${error}`);
+      onError?.(isAppError(error) ? error.message : `停止錄音失敗: ${error}`);
     } finally {
       setRecordingTime(0);
     }
-  }, [recordingTime, stopRecordingTimer, onRecordingComplete, onError]);
+  }, [recordingService, playbackService, metronomeService, stopRecordingTimer, onRecordingComplete, onError]);
+
+  /**
+   * 處理暫停錄音
+   * 補錄與疊錄跟隨播放進行，無法暫停，改為直接結束
+   */
+  const handlePauseRecording = useCallback(() => {
+    if (takeSession.current) {
+      handleStopRecording();
+      return;
+    }
+
+    if (recordingService.pauseRecording()) {
+      stopRecordingTimer();
+      setRecordingTime(recordingService.getElapsedTime());
+      setRecordingState('paused');
+    }
+  }, [recordingService, stopRecordingTimer, handleStopRecording]);
+
+  /**
+   * 處理繼續錄音
+   */
+  const handleResumeRecording = useCallback(() => {
+    if (recordingService.resumeRecording()) {
+      setRecordingState('recording');
+      startRecordingTimer();
+    }
+  }, [recordingService, startRecordingTimer]);
+
+  /**
+   * 監聽應用狀態變化
+   */
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'background' || nextAppState === 'inactive') {
+        // 應用進入後台時暫停播放、錄音與節拍器，並停止所有音符；預備拍直接取消
+        // 節拍器只暫停，不變更使用者的開關設定，回到前景時自動恢復
+        playbackService.pause();
+        setIsMetronomeSuspended(true);
+        audioService.setSustain(false);
+        audioService.stopAllNotes();
+        if (recordingState === 'recording') {
+          handlePauseRecording();
+        } else if (recordingState === 'countIn') {
+          handleStopRecording();
+        }
+      } else if (nextAppState === 'active') {
+        setIsMetronomeSuspended(false);
+      }
+    };
+    
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    
+    return () => subscription?.remove();
+  }, [recordingState, playbackService, audioService, handlePauseRecording, handleStopRecording]);
+
+  /**
+   * 計算新錄事件時間戳 0 對應的錄音位置
+   * 在開始播放並開始錄音後立即呼叫；播放從錨點才開始發聲，
+   * 因此以錨點換算目前聽到的位置，不截斷為 0，讓新錄的內容對齊實際聽到的播放
+   */
+  const getTakeOffset = useCallback((): number => {
+    const anchor = playbackService.getAnchor();
+    return anchor.position + (audioService.getCurrentTime() - anchor.contextTime) * 1000;
+  }, [playbackService, audioService]);
+
+  /**
+   * 處理補錄
+   * 載入選取音軌挖空補錄範圍的錄音作為引導，從範圍前一段開始播放並同時錄音，
+   * 播放到出點時自動停止；範圍外新錄的事件在合併時捨棄
+   */
+  const handlePunchRecord = useCallback(() => {
+    const original = loadedRecording;
+    const trackId = selectedTrackId ?? original?.tracks[0]?.id;
+    if (!original || !punchRange || !trackId) return;
+
+    try {
+      const { speed, loop } = playbackService.getControl();
+      const guide = punchRecording(original, trackId, [], punchRange);
+
+      playbackService.load(guide);
+      playbackService.setSpeed(1);
+      playbackService.setLoop(false);
+      playbackService.seek(getPunchPrerollStart(original, punchRange) / playbackService.getDuration());
+      if (!playbackService.play()) {
+        throw new Error('無法播放補錄引導');
+      }
+
+      if (!recordingService.startRecording(original.name, appSettings.transpose)) {
+        playbackService.stop();
+        throw new Error('錄音服務無法開始錄音');
+      }
+
+      takeSession.current = {
+        original,
+        trackId,
+        range: punchRange,
+        takeOffset: getTakeOffset(),
+        speed,
+        loop,
+      };
+      setRecordingState('recording');
+      startRecordingTimer();
+
+    } catch (error) {
+      console.error('開始補錄失敗:', error);
+      onError?.(`開始補錄失敗: ${error}`);
+      playbackService.load(original);
+    }
+  }, [loadedRecording, selectedTrackId, punchRange, playbackService, recordingService, appSettings.transpose, startRecordingTimer, getTakeOffset, onError]);
+
+  /**
+   * 處理疊錄
+   * 從頭播放目前錄音的所有音軌並同時錄音，停止時新錄的內容成為新的音軌
+   */
+  const handleOverdub = useCallback(() => {
+    const original = loadedRecording;
+    if (!original) return;
+
+    try {
+      const { speed, loop } = playbackService.getControl();
+
+      playbackService.stop();
+      playbackService.setSpeed(1);
+      playbackService.setLoop(false);
+      if (!playbackService.play()) {
+        throw new Error('無法播放既有音軌');
+      }
+
+      const trackName = createDefaultTrackName(original.tracks.length);
+      if (!recordingService.startRecording(original.name, appSettings.transpose, undefined, trackName)) {
+        playbackService.stop();
+        throw new Error('錄音服務無法開始錄音');
+      }
+
+      takeSession.current = {
+        original,
+        trackId: null,
+        range: null,
+        takeOffset: getTakeOffset(),
+        speed,
+        loop,
+      };
+      setRecordingState('recording');
+      startRecordingTimer();
+
+    } catch (error) {
+      console.error('開始疊錄失敗:', error);
+      onError?.(`開始疊錄失敗: ${error}`);
+      playbackService.stop();
+    }
+  }, [loadedRecording, playbackService, recordingService, appSettings.transpose, startRecordingTimer, getTakeOffset, onError]);
+
+  /**
+   * 補錄播放到出點時自動停止錄音
+   */
+  useEffect(() => {
+    if (recordingState !== 'recording' || !takeSession.current?.range) return;
+
+    const handlePunchProgress: PlaybackServiceEventListener<'progress'> = ({ position }) => {
+      const range = takeSession.current?.range;
+      if (range && position >= range.end) {
+        handleStopRecording();
+      }
+    };
+
+    playbackService.addEventListener('progress', handlePunchProgress);
+    return () => {
+      playbackService.removeEventListener('progress', handlePunchProgress);
+    };
+  }, [recordingState, playbackService, handleStopRecording]);
+
+  /**
+   * 切換錄音時清除補錄範圍並選取第一個音軌
+   * 同一錄音的音軌變更 (例如疊錄) 不影響選取
+   */
+  useEffect(() => {
+    setPunchRange(null);
+    setSelectedTrackId(loadedRecording?.tracks[0]?.id ?? null);
+  }, [loadedRecording?.id]);
+
+  // ========== 音軌管理 ==========
+
+  /**
+   * 套用音軌設定的變更並儲存，不中斷播放
+   */
+  const handleTrackChange = useCallback(async (trackId: string, changes: TrackSettingsChange) => {
+    if (!loadedRecording) return;
+
+    const updated = updateTrack(loadedRecording, trackId, changes);
+    playbackService.updateTracks(updated.tracks);
+    setLoadedRecording(updated);
+
+    try {
+      await RecordingRepository.saveRecording(updated);
+    } catch (error) {
+      console.error('儲存音軌設定失敗:', error);
+      onError?.(isAppError(error) ? error.message : `儲存音軌設定失敗: ${error}`);
+    }
+  }, [loadedRecording, playbackService, onError]);
+
+  /**
+   * 確認後刪除音軌
+   */
+  const handleDeleteTrack = useCallback((trackId: string) => {
+    const recording = loadedRecording;
+    const track = recording?.tracks.find(item => item.id === trackId);
+    if (!recording || !track) return;
+
+    Alert.alert(
+      '刪除音軌',
+      `確定要刪除「${track.name}」嗎？`,
+      [
+        { text: '取消', style: 'cancel' },
+        {
+          text: '刪除',
+          style: 'destructive',
+          onPress: async () => {
+            const updated = removeTrack(recording, trackId);
+            if (updated === recording) return;
+
+            playbackService.load(updated);
+            setLoadedRecording(updated);
+            if (selectedTrackId === trackId) {
+              setSelectedTrackId(updated.tracks[0].id);
+            }
+
+            try {
+              await RecordingRepository.saveRecording(updated);
+            } catch (error) {
+              console.error('刪除音軌失敗:', error);
+              onError?.(isAppError(error) ? error.message : `刪除音軌失敗: ${error}`);
+            }
+          },
+        },
+      ]
+    );
+  }, [loadedRecording, selectedTrackId, playbackService, onError]);
+
+  // ========== 音符編輯 ==========
+
+  /**
+   * 開啟音符編輯器，編輯期間停止播放
+   */
+  const handleEditNotes = useCallback(() => {
+    playbackService.stop();
+    setIsEditorVisible(true);
+  }, [playbackService]);
+
+  /**
+   * 儲存編輯後的錄音並重新載入播放
+   */
+  const handleEditorSave = useCallback(async (updated: RecordingData) => {
+    playbackService.load(updated);
+    setLoadedRecording(updated);
+    setIsEditorVisible(false);
+
+    try {
+      await RecordingRepository.saveRecording(updated);
+    } catch (error) {
+      console.error('儲存音符編輯失敗:', error);
+      onError?.(isAppError(error) ? error.message : `儲存音符編輯失敗: ${error}`);
+    }
+  }, [playbackService, onError]);
+
+  // ========== 錄音庫 ==========
+
+  /**
+   * 載入錄音庫中選擇的錄音 (包含匯入的 MIDI) 以便播放
+   */
+  const handleLibrarySelect = useCallback((recording: RecordingData) => {
+    playbackService.load(recording);
+    setLoadedRecording(recording);
+    setIsLibraryVisible(false);
+  }, [playbackService]);
+
+  // ========== 下落音符練習 ==========
+
+  /**
+   * 練習按鈕：練習中則結束練習，否則停止播放並選擇曲目
+   */
+  const handlePracticePress = useCallback(() => {
+    if (practiceSong) {
+      setPracticeSong(null);
+      return;
+    }
+    playbackService.stop();
+    setIsPracticeSongVisible(true);
+  }, [practiceSong, playbackService]);
+
+  /**
+   * 開始練習選擇的曲目
+   */
+  const handlePracticeSongSelect = useCallback((song: PracticeSong) => {
+    setPracticeSong(song);
+    setIsPracticeSongVisible(false);
+  }, []);
 
   // ========== 鋼琴互動處理 ==========
   
@@ -299,14 +871,6 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
     console.log(`音符結束: ${noteId}`);
   }, []);
 
-  /**
-   * 處理鍵盤互動
-   */
-  const handleKeyboardInteraction = useCallback((event: KeyboardInteractionEvent) => {
-    // TODO: 記錄MIDI事件（用於錄音）
-    console.log('鍵盤互動:', event);
-  }, []);
-
   /**
    * 處理音頻錯誤
    */
@@ -321,17 +885,92 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
    * 處理設定按鈕點擊
    */
   const handleSettingsPress = useCallback(() => {
-    // TODO: 開啟設定頁面
-    console.log('開啟設定');
+    setIsSettingsVisible(true);
   }, []);
 
+  /**
+   * 處理設定視窗中的變更
+   */
+  const handleSettingsUpdate = useCallback((changes: Partial<AppSettings>) => {
+    setAppSettings(prev => {
+      const newSettings = { ...prev, ...changes };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [onSettingsChange]);
+
+  /**
+   * 處理調性變更
+   */
+  const handleMusicalKeyChange = useCallback((musicalKey: MusicalKey) => {
+    setAppSettings(prev => {
+      const newSettings = { ...prev, musicalKey };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [onSettingsChange]);
+
+  /**
+   * 處理移調變更
+   */
+  const handleTransposeChange = useCallback((transpose: TransposeSettings) => {
+    setAppSettings(prev => {
+      const newSettings = { ...prev, transpose };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [onSettingsChange]);
+
+  /**
+   * 處理節拍器設定變更
+   */
+  const handleMetronomeChange = useCallback((metronome: MetronomeSettings) => {
+    setAppSettings(prev => {
+      const newSettings = { ...prev, metronome };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [onSettingsChange]);
+
+  /**
+   * 處理點擊測速
+   */
+  const handleTapTempo = useCallback(() => {
+    const bpm = metronomeService.tapTempo();
+    if (bpm === null) return;
+
+    setAppSettings(prev => {
+      const newSettings = { ...prev, metronome: { ...prev.metronome, bpm } };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [metronomeService, onSettingsChange]);
+
+  /**
+   * 處理音色變更
+   */
+  const handleSoundTypeChange = useCallback((soundType: SoundType) => {
+    setAppSettings(prev => {
+      const newSettings = { ...prev, soundType };
+      onSettingsChange?.(newSettings);
+      return newSettings;
+    });
+  }, [onSettingsChange]);
+
+  /**
+   * 處理延音踏板
+   */
+  const handleSustainChange = useCallback((active: boolean) => {
+    audioService.setSustain(active);
+  }, [audioService]);
+
   /**
    * 處理選單按鈕點擊
    */
   const handleMenuPress = useCallback(() => {
-    // TODO: 開啟側邊選單
-    console.log('開啟選單');
-  }, []);
+    if (recordingState !== 'idle') return;
+    setIsLibraryVisible(true);
+  }, [recordingState]);
 
   // ========== 樣式計算 ==========
   
@@ -340,6 +979,27 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
    */
   const themeColors = useMemo(() => getThemeColors(colorScheme), [colorScheme]);
 
+  /**
+   * 播放中需高亮的琴鍵
+   * 播放的音符為實際發聲的音高，依錄音時的移調對應回當時按下的琴鍵
+   */
+  const highlightedKeys = useMemo(() => {
+    const offset = getTransposeOffset(loadedRecording?.transpose);
+    const keys = offset === 0
+      ? playbackKeys
+      : new Set(Array.from(playbackKeys, noteId => transposeNoteId(noteId, -offset)));
+    if (practiceKeys.size === 0) return keys;
+    return new Set([...keys, ...practiceKeys]);
+  }, [playbackKeys, practiceKeys, loadedRecording]);
+
+  /**
+   * 練習曲目對應到目前移調設定下要按的琴鍵
+   */
+  const practiceKeySong = useMemo(
+    () => (practiceSong ? transposeSong(practiceSong, -getTransposeOffset(appSettings.transpose)) : null),
+    [practiceSong, appSettings.transpose]
+  );
+
   /**
    * 畫面動畫樣式
    */
@@ -375,18 +1035,124 @@ const PianoScreen: React.FC<PianoScreenProps> = ({
         title="Piano"
         recordingState={recordingState}
         recordingTime={recordingTime}
+        countInBeats={countInBeats}
         showRecordingControls={true}
+        musicalKey={appSettings.musicalKey}
+        onMusicalKeyChange={handleMusicalKeyChange}
+        transpose={appSettings.transpose}
+        onTransposeChange={handleTransposeChange}
+        metronome={appSettings.metronome}
+        metronomeBeat={metronomeBeat}
+        onMetronomeChange={handleMetronomeChange}
+        onTapTempo={handleTapTempo}
+        soundType={appSettings.soundType}
+        onSoundTypeChange={handleSoundTypeChange}
+        sustainActive={isSustainActive}
+        onSustainChange={handleSustainChange}
+        meterLevel={meterLevel}
+        meterGainReduction={meterGainReduction}
         onSettingsPress={handleSettingsPress}
         onMenuPress={handleMenuPress}
+        practiceActive={practiceSong !== null}
+        onPracticePress={handlePracticePress}
         onStartRecording={handleStartRecording}
         onStopRecording={handleStopRecording}
+        onPauseRecording={handlePauseRecording}
+        onResumeRecording={handleResumeRecording}
+      />
+      
+      {/* 播放控制列 */}
+      {loadedRecording && recordingState === 'idle' && (
+        <PlaybackControls
+          control={playbackControl}
+          duration={playbackService.getDuration()}
+          title={loadedRecording.name}
+          onPlay={() => playbackService.play()}
+          onPause={() => playbackService.pause()}
+          onStop={() => playbackService.stop()}
+          onSeek={(progress) => playbackService.seek(progress)}
+          onSpeedChange={(speed) => playbackService.setSpeed(speed)}
+          onLoopChange={(loop) => playbackService.setLoop(loop)}
+          onShowScore={() => setIsScoreVisible(true)}
+          onEditNotes={handleEditNotes}
+          punchRange={punchRange}
+          onPunchRangeChange={setPunchRange}
+          onPunchRecord={handlePunchRecord}
+        />
+      )}
+
+      {/* 音軌列表 */}
+      {loadedRecording && recordingState === 'idle' && (
+        <TrackList
+          tracks={loadedRecording.tracks}
+          selectedTrackId={selectedTrackId}
+          onSelectTrack={setSelectedTrackId}
+          onTrackChange={handleTrackChange}
+          onDeleteTrack={handleDeleteTrack}
+          onOverdub={handleOverdub}
+        />
+      )}
+      
+      {/* 錄音轉簡譜 */}
+      <TranscriptionModal
+        visible={isScoreVisible}
+        recording={loadedRecording}
+        musicalKey={appSettings.musicalKey}
+        onClose={() => setIsScoreVisible(false)}
+      />
+
+      {/* 音符編輯 */}
+      <PianoRollModal
+        visible={isEditorVisible}
+        recording={loadedRecording}
+        initialTrackId={selectedTrackId}
+        onSave={handleEditorSave}
+        onClose={() => setIsEditorVisible(false)}
+      />
+
+      {/* 錄音庫 */}
+      <RecordingLibraryModal
+        visible={isLibraryVisible}
+        currentRecordingId={loadedRecording?.id}
+        onSelect={handleLibrarySelect}
+        onClose={() => setIsLibraryVisible(false)}
+      />
+
+      {/* 練習曲目選擇 */}
+      <PracticeSongModal
+        visible={isPracticeSongVisible}
+        recording={loadedRecording}
+        onSelect={handlePracticeSongSelect}
+        onClose={() => setIsPracticeSongVisible(false)}
+      />
+      
+      {/* 設定 */}
+      <SettingsModal
+        visible={isSettingsVisible}
+        settings={appSettings}
+        onChange={handleSettingsUpdate}
+        onClose={() => setIsSettingsVisible(false)}
       />
       
       {/* 鋼琴鍵盤區域 */}
       <View style={styles.keyboardArea}>
         <Animated.View style={[styles.keyboardContainer, animatedKeyboardStyle]}>
+          {/* 下落音符練習 (與鍵盤同寬，音符對齊琴鍵) */}
+          {practiceKeySong && (
+            <PracticeMode
+              style={styles.practiceArea}
+              song={practiceKeySong}
+              onActiveNotesChange={setPracticeKeys}
+              onClose={() => setPracticeSong(null)}
+            />
+          )}
+
           {isKeyboardReady && (
             <SimplePianoKeyboard
+              highlightedKeys={highlightedKeys}
+              musicalKey={appSettings.musicalKey}
+              velocityCalibration={appSettings.velocityCalibration}
+              transposition={getTransposeOffset(appSettings.transpose)}
               onNoteStart={handleNoteStart}
               onNoteEnd={handleNoteEnd}
               onError={handleAudioError}
@@ -420,6 +1186,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+
+  practiceArea: {
+    flex: 1,
+  },
 });
 
 // ========== 導出元件 ==========
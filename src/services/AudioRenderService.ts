@@ -0,0 +1,454 @@
+/**
+ * 簡譜鋼琴應用程式 - 離線音檔渲染服務
+ *
+ * 本文件負責將錄音資料渲染為 WAV 音檔，讓使用者能把演奏以一般音檔分享。
+ * 渲染在 OfflineAudioContext 中進行，建立與 AudioService 相同的訊號鏈
+ * (樂器聲部 → 效果匯流排 → 主音量 → 低通濾波 → 壓縮/限幅器)，
+ * 並沿用相同的聲部分配、延音踏板與音量計算；多音軌錄音只渲染發聲的音軌，
+ * 每個音軌以自己的音色與音量混音。渲染以固定長度的區段推進：
+ * 每個區段結束時暫停渲染，排程下一段的事件、更新壓縮器並回報進度，
+ * 因此可在區段之間取消。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  OfflineAudioContext,
+  AudioBuffer,
+  GainNode,
+  BiquadFilterNode,
+} from 'react-native-audio-api';
+
+import type {
+  NoteId,
+  MidiEvent,
+  RecordingData,
+  RecordingTrack,
+  SoundType,
+  EffectsSettings,
+  AudioServiceConfig,
+} from '../types';
+import { ErrorType } from '../types';
+
+import { createAppError, isAppError } from '../utils/appError';
+import { compareMidiEvents, isSustainEvent, isSustainDown } from '../utils/midiFile';
+import { toQuarterNoteBpm } from '../utils/metronome';
+import { getAudibleTracks, getTracksEndTime } from '../utils/recordingTracks';
+import { PIANO_FREQUENCIES, isSupportedNote, getNoteFrequency } from '../utils/noteFrequencies';
+import { encodeWavFile, getWavFileName, WAV_FILE_CONSTANTS } from '../utils/wavFile';
+import AudioService from './AudioService';
+import { EffectsBus, DynamicsCompressor } from './effects';
+import {
+  Instrument,
+  AllocatedVoice,
+  VoiceAllocator,
+  getInstrument,
+  getVoiceLevels,
+} from './instruments';
+
+// ========== 常數定義 ==========
+
+/**
+ * 離線渲染相關常數
+ */
+export const AUDIO_RENDER_CONSTANTS = {
+  /** 輸出聲道數 */
+  CHANNELS: 2,
+  /** 每個渲染區段的長度 (秒)，也是事件排程與壓縮器更新的週期 */
+  BLOCK_SECONDS: 0.1,
+  /** 錄音結束後保留的釋音與殘響長度 (秒) */
+  TAIL_SECONDS: 3,
+} as const;
+
+// ========== 類型定義 ==========
+
+/**
+ * 離線渲染選項
+ */
+export interface AudioRenderOptions {
+  /** 所有音軌改用的音色，預設使用各音軌的音色 */
+  soundType?: SoundType;
+  /** 效果鏈設定，預設為 AudioService 目前的設定 */
+  effects?: EffectsSettings;
+  /** 進度回調 (0-1) */
+  onProgress?: (progress: number) => void;
+  /** 取消渲染的訊號 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 離線渲染結果
+ */
+export interface AudioRenderResult {
+  /** .wav 檔案的二進位內容 */
+  data: Uint8Array;
+  /** 建議的檔案名稱 */
+  fileName: string;
+  /** 音檔長度 (毫秒)，包含結尾的釋音 */
+  duration: number;
+}
+
+/**
+ * 渲染訊號鏈使用的設定
+ */
+interface RenderSettings {
+  soundType?: SoundType;
+  effects: EffectsSettings;
+  tempo: number;
+  config: AudioServiceConfig;
+}
+
+/**
+ * 渲染用的事件，標記所屬的音軌
+ */
+type RenderEvent = MidiEvent & { trackId: string };
+
+// ========== 離線訊號鏈 ==========
+
+/**
+ * 離線渲染的訊號鏈
+ * 與 AudioService 相同的節點結構與音符處理，但以錄音的時間軸排程
+ */
+class OfflineRenderGraph {
+  private readonly masterGain: GainNode;
+  private readonly filter: BiquadFilterNode;
+  private readonly compressor: DynamicsCompressor;
+  private readonly effectsBus: EffectsBus;
+  private readonly tracks: Map<string, { instrument: Instrument; volume: number }> = new Map();
+
+  // 聲部以「音軌ID:音符ID」為鍵，不同音軌的同一音符可同時發聲
+  private readonly voiceAllocator: VoiceAllocator;
+  private readonly playingVoices: Map<string, AllocatedVoice> = new Map();
+  private readonly sustainedVoices: Map<string, AllocatedVoice> = new Map();
+  private isSustainActive: boolean = false;
+
+  constructor(
+    private readonly context: OfflineAudioContext,
+    private readonly settings: RenderSettings,
+    tracks: RecordingTrack[]
+  ) {
+    const { config } = settings;
+
+    this.masterGain = context.createGain();
+    this.masterGain.gain.value = config.masterVolume;
+
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = config.filterFrequency;
+    this.filter.Q.value = 0.8;
+
+    this.compressor = new DynamicsCompressor(context, context.destination, config.compressor);
+
+    // 連接：主音量 → 濾波器 → 壓縮/限幅器 → 輸出
+    this.masterGain.connect(this.filter);
+    this.filter.connect(this.compressor.input);
+
+    this.effectsBus = new EffectsBus(context, this.masterGain, settings.effects);
+    this.effectsBus.setTempo(settings.tempo);
+
+    tracks.forEach(track => {
+      this.tracks.set(track.id, {
+        instrument: getInstrument(settings.soundType ?? track.soundType),
+        volume: track.volume,
+      });
+    });
+    this.voiceAllocator = new VoiceAllocator(config.polyphony, config.voiceStealing);
+  }
+
+  /**
+   * 準備各音軌音色所需的資源
+   */
+  public async prepare(): Promise<void> {
+    await Promise.all(this.getInstruments().map(instrument => instrument.prepare(this.context)));
+  }
+
+  /**
+   * 排程一個錄音事件
+   *
+   * @param event 標記音軌的 MIDI 事件
+   * @param when 渲染時間 (秒)
+   */
+  public scheduleEvent(event: RenderEvent, when: number): void {
+    if (event.type === 'controlChange') {
+      if (isSustainEvent(event)) {
+        this.setSustain(isSustainDown(event), when);
+      }
+      return;
+    }
+
+    const key = `${event.trackId}:${event.noteId}`;
+    if (event.type === 'noteOn' && event.velocity > 0) {
+      this.startNote(key, event.trackId, event.noteId, event.velocity, when);
+    } else {
+      this.stopNote(key, when);
+    }
+  }
+
+  /**
+   * 放開踏板並讓所有仍在發聲的音符釋音
+   *
+   * @param when 渲染時間 (秒)
+   */
+  public releaseAll(when: number): void {
+    Array.from(this.playingVoices.keys()).forEach(key => this.stopNote(key, when));
+    this.setSustain(false, when);
+  }
+
+  /**
+   * 依目前渲染輸出更新壓縮器
+   */
+  public updateDynamics(): void {
+    this.compressor.detect();
+  }
+
+  /**
+   * 斷開節點並釋放為此上下文準備的音色資源
+   */
+  public dispose(): void {
+    this.effectsBus.dispose();
+    this.compressor.dispose();
+    this.masterGain.disconnect();
+    this.filter.disconnect();
+    this.getInstruments().forEach(instrument => instrument.dispose?.(this.context));
+    this.voiceAllocator.clear();
+  }
+
+  /**
+   * 所有音軌使用的音色 (不重複)
+   */
+  private getInstruments(): Instrument[] {
+    return Array.from(new Set(Array.from(this.tracks.values(), track => track.instrument)));
+  }
+
+  /**
+   * 開始音符 (對應 AudioService.startNote)
+   */
+  private startNote(key: string, trackId: string, noteId: NoteId, velocity: number, when: number): void {
+    const track = this.tracks.get(trackId);
+    if (!track) return;
+
+    // 鍵盤音域內的音符使用預先計算的頻率，音域外的音符即時計算
+    const frequency = isSupportedNote(noteId) ? PIANO_FREQUENCIES[noteId] : getNoteFrequency(noteId);
+
+    // 重按仍在發聲或延音中的音符時，先讓原本的聲部釋音
+    this.stopNote(key, when);
+    const sustainedVoice = this.sustainedVoices.get(key);
+    if (sustainedVoice) {
+      this.sustainedVoices.delete(key);
+      this.voiceAllocator.release(sustainedVoice, when);
+    }
+
+    this.voiceAllocator.makeRoom(when);
+
+    const levels = getVoiceLevels(velocity, this.playingVoices.size);
+    const gain = levels.gain * track.volume;
+    const voiceOptions = {
+      frequency,
+      velocity: levels.velocity,
+      gain,
+      envelope: this.settings.config.envelope,
+    };
+    const voice = this.effectsBus.createVoice(destination =>
+      track.instrument.createVoice(this.context, destination, voiceOptions)
+    );
+    voice.start(when);
+
+    this.playingVoices.set(key, this.voiceAllocator.add(noteId, voice, gain, when));
+    this.compressor.anticipate(
+      this.voiceAllocator.getEstimatedLevel(when) * this.settings.config.masterVolume,
+      when
+    );
+  }
+
+  /**
+   * 停止音符 (對應 AudioService.stopNote)，延音踏板踩下時保留聲部
+   */
+  private stopNote(key: string, when: number): void {
+    const entry = this.playingVoices.get(key);
+    if (!entry) return;
+
+    this.playingVoices.delete(key);
+    if (this.isSustainActive) {
+      this.sustainedVoices.set(key, entry);
+    } else {
+      this.voiceAllocator.release(entry, when);
+    }
+  }
+
+  /**
+   * 設定延音踏板 (對應 AudioService.setSustain)
+   */
+  private setSustain(active: boolean, when: number): void {
+    if (active === this.isSustainActive) return;
+
+    this.isSustainActive = active;
+    if (!active) {
+      this.sustainedVoices.forEach(entry => this.voiceAllocator.release(entry, when));
+      this.sustainedVoices.clear();
+    }
+  }
+}
+
+// ========== 渲染函數 ==========
+
+/**
+ * 建立取消渲染時拋出的錯誤
+ */
+function createCancelledError() {
+  return createAppError(ErrorType.RENDER_CANCELLED, '已取消音檔渲染');
+}
+
+/**
+ * 逐區段渲染
+ * 第一段的事件在開始渲染前排程，之後每個區段的起點暫停渲染，
+ * 排程該區段的事件後再繼續；取消時不再繼續渲染並立即拒絕
+ */
+function renderBlocks(
+  context: OfflineAudioContext,
+  graph: OfflineRenderGraph,
+  events: RenderEvent[],
+  contentSeconds: number,
+  totalSeconds: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioBuffer> {
+  const { BLOCK_SECONDS } = AUDIO_RENDER_CONSTANTS;
+
+  return new Promise<AudioBuffer>((resolve, reject) => {
+    let nextEventIndex = 0;
+    let isReleased = false;
+
+    const scheduleUntil = (end: number) => {
+      while (nextEventIndex < events.length && events[nextEventIndex].timestamp / 1000 < end) {
+        const event = events[nextEventIndex];
+        graph.scheduleEvent(event, event.timestamp / 1000);
+        nextEventIndex++;
+      }
+      // 錄音結束時仍按住的音符在結尾釋音
+      if (!isReleased && end > contentSeconds) {
+        graph.releaseAll(contentSeconds);
+        isReleased = true;
+      }
+    };
+
+    const handleAbort = () => reject(createCancelledError());
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    scheduleUntil(BLOCK_SECONDS);
+
+    const blockCount = Math.ceil(totalSeconds / BLOCK_SECONDS);
+    for (let block = 1; block < blockCount; block++) {
+      const blockStart = block * BLOCK_SECONDS;
+      context.suspend(blockStart)
+        .then(() => {
+          if (signal?.aborted) return;
+          graph.updateDynamics();
+          scheduleUntil(blockStart + BLOCK_SECONDS);
+          onProgress?.(blockStart / totalSeconds);
+          return context.resume();
+        })
+        .catch(reject);
+    }
+
+    context.startRendering()
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', handleAbort));
+  });
+}
+
+/**
+ * 將錄音渲染為 WAV 音檔 (16-bit / 44.1kHz 立體聲)
+ *
+ * @param recording 錄音資料
+ * @param options 渲染選項
+ * @returns Promise<AudioRenderResult> 音檔內容與檔案名稱
+ * @throws AppError 取消時為 RENDER_CANCELLED，其他失敗為 RENDER_FAILED
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const { data, fileName } = await renderRecordingToWav(recording, {
+ *   onProgress: progress => setProgress(progress),
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export async function renderRecordingToWav(
+  recording: RecordingData,
+  options: AudioRenderOptions = {}
+): Promise<AudioRenderResult> {
+  const { onProgress, signal } = options;
+
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+
+  // 只渲染發聲的音軌 (依靜音/獨奏設定)
+  const tracks = getAudibleTracks(recording);
+  const events: RenderEvent[] = tracks
+    .flatMap(track => track.events.map(event => ({ ...event, trackId: track.id })))
+    .sort(compareMidiEvents);
+  const contentSeconds = Math.max(recording.duration, getTracksEndTime(tracks)) / 1000;
+  if (events.length === 0 || contentSeconds <= 0) {
+    throw createAppError(ErrorType.RENDER_FAILED, '錄音沒有可渲染的內容');
+  }
+
+  // 延遲效果依錄音的節拍器速度同步，沒有時沿用目前的速度
+  const tempo = recording.tempo
+    ? toQuarterNoteBpm(recording.tempo, recording.timeSignature ?? { numerator: 4, denominator: 4 })
+    : AudioService.getTempo();
+  const settings: RenderSettings = {
+    soundType: options.soundType,
+    effects: options.effects ?? AudioService.getEffects(),
+    tempo,
+    config: AudioService.getConfig(),
+  };
+
+  const sampleRate = WAV_FILE_CONSTANTS.SAMPLE_RATE;
+  const totalSeconds = contentSeconds + AUDIO_RENDER_CONSTANTS.TAIL_SECONDS;
+  let graph: OfflineRenderGraph | null = null;
+
+  try {
+    const context = new OfflineAudioContext({
+      numberOfChannels: AUDIO_RENDER_CONSTANTS.CHANNELS,
+      length: Math.ceil(totalSeconds * sampleRate),
+      sampleRate,
+    });
+    graph = new OfflineRenderGraph(context, settings, tracks);
+    await graph.prepare();
+
+    if (signal?.aborted) {
+      throw createCancelledError();
+    }
+
+    onProgress?.(0);
+    const buffer = await renderBlocks(context, graph, events, contentSeconds, totalSeconds, onProgress, signal);
+
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    const data = encodeWavFile(channels, buffer.sampleRate);
+    onProgress?.(1);
+
+    console.log(`音檔渲染完成: ${recording.name}，${totalSeconds.toFixed(1)} 秒，${data.length} 位元組`);
+
+    return {
+      data,
+      fileName: getWavFileName(recording),
+      duration: Math.round(totalSeconds * 1000),
+    };
+
+  } catch (error) {
+    if (isAppError(error)) {
+      throw error;
+    }
+    console.error('渲染音檔失敗:', error);
+    throw createAppError(
+      ErrorType.RENDER_FAILED,
+      `渲染音檔失敗: ${error instanceof Error ? error.message : error}`,
+      error
+    );
+  } finally {
+    graph?.dispose();
+  }
+}
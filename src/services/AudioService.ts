@@ -20,10 +20,41 @@ import type {
   NoteId, 
   PlayingNote, 
   AudioServiceConfig, 
-  ErrorType
+  ErrorType,
+  NoteSource,
+  SoundType,
+  VoiceStealingMode,
+  EffectsSettings,
+  CompressorSettings,
+  DynamicsMeterReading,
+  TuningSettings
 } from '../types';
 
-import { PIANO_FREQUENCIES, isSupportedNote } from '../utils/noteFrequencies';
+import {
+  PIANO_FREQUENCIES,
+  isSupportedNote,
+  getNoteFrequency,
+  setActiveTuning,
+  getActiveTuning
+} from '../utils/noteFrequencies';
+import {
+  Instrument,
+  AllocatedVoice,
+  VoiceAllocator,
+  VOICE_ALLOCATOR_CONSTANTS,
+  VOICE_CONSTANTS,
+  getInstrument,
+  getVoiceLevels,
+  SOUND_TYPES
+} from './instruments';
+import {
+  EffectsBus,
+  DynamicsCompressor,
+  DEFAULT_EFFECTS_SETTINGS,
+  DEFAULT_COMPRESSOR_SETTINGS,
+  DELAY_CONSTANTS,
+  normalizeEffectsSettings
+} from './effects';
 
 // ========== 類型定義 ==========
 
@@ -31,10 +62,34 @@ import { PIANO_FREQUENCIES, isSupportedNote } from '../utils/noteFrequencies';
  * 音頻服務事件類型
  */
 export interface AudioServiceEvents {
-  noteStart: { noteId: NoteId; timestamp: number };
-  noteEnd: { noteId: NoteId; timestamp: number };
+  noteStart: { noteId: NoteId; timestamp: number; velocity: number; source: NoteSource };
+  noteEnd: { noteId: NoteId; timestamp: number; source: NoteSource };
   error: { type: ErrorType; message: string };
   contextStateChange: { state: string };
+  sustainChange: { active: boolean; timestamp: number; source: NoteSource };
+  voiceSteal: {
+    noteId: NoteId;
+    stolenNoteId: NoteId;
+    wasReleasing: boolean;
+    mode: VoiceStealingMode;
+    totalSteals: number;
+  };
+  dynamicsMeter: DynamicsMeterReading & { timestamp: number };
+}
+
+/**
+ * 音符播放選項
+ * 多音軌播放時，每個音軌以自己的頻道、音色與音量發聲
+ */
+export interface NoteOptions {
+  /** 音符來源，預設為鍵盤演奏 (live) */
+  source?: NoteSource;
+  /** 聲部頻道，不同頻道的同一音符可同時發聲，預設為鍵盤頻道 */
+  channel?: string;
+  /** 音色，預設為目前的音色 */
+  soundType?: SoundType;
+  /** 音量倍數 (0-1)，預設為 1 */
+  volume?: number;
 }
 
 /**
@@ -43,6 +98,16 @@ export interface AudioServiceEvents {
 export type AudioServiceEventListener<T extends keyof AudioServiceEvents> = 
   (event: AudioServiceEvents[T]) => void;
 
+// ========== 工具函數 ==========
+
+/**
+ * 取得播放中音符的索引鍵
+ * 鍵盤頻道直接以音符ID為鍵，其他頻道加上頻道前綴
+ */
+function getVoiceKey(noteId: NoteId, channel?: string): string {
+  return channel ? `${channel}:${noteId}` : noteId;
+}
+
 // ========== 音頻服務類別 ==========
 
 /**
@@ -56,10 +121,28 @@ export class AudioService {
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
   private filterNode: BiquadFilterNode | null = null;
-  private compressorNode: GainNode | null = null; // 軟限幅器
+  private compressor: DynamicsCompressor | null = null;
+  
+  // 效果匯流排：聲部 → 效果 → 主音量
+  private effectsBus: EffectsBus | null = null;
+  private effectsSettings: EffectsSettings = DEFAULT_EFFECTS_SETTINGS;
+  private tempo: number = DELAY_CONSTANTS.DEFAULT_TEMPO;
+  
+  // 目前音色
+  private instrument: Instrument = getInstrument('piano');
+  // 已為目前 AudioContext 準備好資源的音色
+  private preparedSoundTypes: Set<SoundType> = new Set();
   
   // 播放狀態管理
-  private playingNotes: Map<NoteId, PlayingNote> = new Map();
+  private playingNotes: Map<string, PlayingNote> = new Map();
+  // 尚在等待 (重按清理或音色準備) 而未註冊聲部的音符；開始前收到停止時標記取消
+  private pendingStarts: Map<string, { cancelled: boolean }> = new Map();
+  private voiceAllocator: VoiceAllocator = new VoiceAllocator();
+  
+  // 延音踏板：踩下時放開的琴鍵聲部暫存於此，放開踏板時才釋音
+  // 鍵盤演奏與錄音播放各自擁有踏板，互不影響
+  private sustainSources: Set<NoteSource> = new Set();
+  private sustainedVoices: Map<string, { voice: AllocatedVoice; source: NoteSource }> = new Map();
   private isInitialized: boolean = false;
   
   // 配置參數 - 平衡音量和穩定性
@@ -72,6 +155,9 @@ export class AudioService {
       release: 0.3,   // 300ms 釋放時間
     },
     filterFrequency: 4000, // 4kHz 濾波，保留更多高頻
+    polyphony: VOICE_ALLOCATOR_CONSTANTS.DEFAULT_POLYPHONY,
+    voiceStealing: 'oldest',
+    compressor: DEFAULT_COMPRESSOR_SETTINGS,
   };
   
   // 事件監聽器
@@ -119,6 +205,8 @@ export class AudioService {
       if (config) {
         this.config = { ...this.config, ...config };
       }
+      this.voiceAllocator.setPolyphony(this.config.polyphony);
+      this.voiceAllocator.setMode(this.config.voiceStealing);
 
       // 建立音頻上下文
       this.audioContext = new AudioContext();
@@ -127,20 +215,33 @@ export class AudioService {
       this.masterGainNode = this.audioContext.createGain();
       this.masterGainNode.gain.value = this.config.masterVolume;
       
-      // 建立替代的動態處理 - 使用額外增益節點進行軟限幅
-      this.compressorNode = this.audioContext.createGain();
-      this.compressorNode.gain.value = 0.8; // 輕微降低增益以防止峰值
-      
       // 建立低通濾波器（去除高頻噪音）
       this.filterNode = this.audioContext.createBiquadFilter();
       this.filterNode.type = 'lowpass';
       this.filterNode.frequency.value = this.config.filterFrequency;
       this.filterNode.Q.value = 0.8; // 降低 Q 值，避免共振峰
       
-      // 簡化連接：主音量 → 軟限幅器 → 濾波器 → 輸出
-      this.masterGainNode.connect(this.compressorNode);
-      this.compressorNode.connect(this.filterNode);
-      this.filterNode.connect(this.audioContext.destination);
+      // 建立壓縮/限幅器，放在最後一級以確保輸出不削波
+      this.compressor = new DynamicsCompressor(
+        this.audioContext,
+        this.audioContext.destination,
+        this.config.compressor,
+        reading => this.emit('dynamicsMeter', { ...reading, timestamp: Date.now() })
+      );
+      
+      // 連接：主音量 → 濾波器 → 壓縮/限幅器 → 輸出
+      this.masterGainNode.connect(this.filterNode);
+      this.filterNode.connect(this.compressor.input);
+      this.compressor.start();
+
+      // 效果匯流排輸出到主音量
+      this.effectsBus = new EffectsBus(this.audioContext, this.masterGainNode, this.effectsSettings);
+      this.effectsBus.setTempo(this.tempo);
+
+      // 準備目前音色所需的資源
+      this.preparedSoundTypes.clear();
+      await this.instrument.prepare(this.audioContext);
+      this.preparedSoundTypes.add(this.instrument.soundType);
 
       this.isInitialized = true;
       
@@ -167,7 +268,8 @@ export class AudioService {
    */
   private initializeEventListeners(): void {
     const eventTypes: (keyof AudioServiceEvents)[] = [
-      'noteStart', 'noteEnd', 'error', 'contextStateChange'
+      'noteStart', 'noteEnd', 'error', 'contextStateChange', 'sustainChange', 'voiceSteal',
+      'dynamicsMeter'
     ];
     
     eventTypes.forEach(eventType => {
@@ -183,86 +285,122 @@ export class AudioService {
    * 
    * @param noteId 音符ID
    * @param velocity 力度 (0-127)
+   * @param when 開始時間（AudioContext 時鐘，秒），預設立即播放
+   * @param options 音符來源、頻道、音色與音量
    * @returns Promise<boolean> 是否開始播放成功
    */
-  public async startNote(noteId: NoteId, velocity: number = 100): Promise<boolean> {
+  public async startNote(
+    noteId: NoteId,
+    velocity: number = 100,
+    when?: number,
+    options: NoteOptions = {}
+  ): Promise<boolean> {
+    const { source = 'live', channel, volume = 1 } = options;
+    const voiceKey = getVoiceKey(noteId, channel);
+    const pendingStart = { cancelled: false };
+
     try {
       if (!this.isInitialized || !this.audioContext) {
         throw new Error('AudioService 未初始化');
       }
 
-      if (!isSupportedNote(noteId)) {
-        throw new Error(`不支援的音符: ${noteId}`);
-      }
+      // 鍵盤音域內的音符使用預先計算的頻率，移調或八度位移到音域外的音符即時計算
+      const frequency = isSupportedNote(noteId) ? PIANO_FREQUENCIES[noteId] : getNoteFrequency(noteId);
 
-      // 適中的同時播放限制，平衡音量和穩定性
-      const maxConcurrentNotes = 6; // 提高到 6 個
-      if (this.playingNotes.size >= maxConcurrentNotes) {
-        console.warn(`達到最大同時播放音符數量 (${maxConcurrentNotes})，忽略新音符: ${noteId}`);
-        return false;
-      }
-      
       // 檢查 AudioContext 狀態
       if (!this.audioContext || this.audioContext.state === 'closed') {
         console.error('AudioContext 不可用或已關閉');
         return false;
       }
 
-      // 如果該音符已在播放，強制停止並等待清理
-      if (this.playingNotes.has(noteId)) {
-        await this.stopNote(noteId);
-        // 添加小延遲確保清理完成
-        await new Promise(resolve => setTimeout(resolve, 10));
+      // 排程時間不可早於目前時間
+      const currentTime = Math.max(when ?? 0, this.audioContext.currentTime);
+
+      // 如果該音符已在播放，強制停止並等待清理 (先同步停止，避免取消下面登記的這次開始)
+      const restrike = this.playingNotes.has(voiceKey) ? this.stopNote(noteId, currentTime, channel) : null;
+
+      // 登記等待中的開始，之後同一聲部的開始會取代此次開始
+      this.pendingStarts.set(voiceKey, pendingStart);
+
+      if (restrike) {
+        await restrike;
+        if (when === undefined) {
+          // 添加小延遲確保清理完成
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
       }
 
-      const frequency = PIANO_FREQUENCIES[noteId];
-      const normalizedVelocity = Math.max(0.1, Math.min(1.0, velocity / 127));
-      
-      // 減少音量動態調整的影響
-      const volumeReduction = Math.max(0.6, 1.0 - (this.playingNotes.size * 0.05)); // 更温和的調整
-      
-      // 使用單一振盪器避免音量疊加和複雜度
-      const oscillator = this.audioContext.createOscillator();
-      const gainNode = this.audioContext.createGain();
-      const currentTime = this.audioContext.currentTime;
-      
-      // 設定振盪器
-      oscillator.frequency.value = frequency;
-      oscillator.type = 'triangle'; // 使用三角波，比正弦波豐富但比方波柔和
-      
-      // 實作 ADSR 包絡
-      const { attack, decay, sustain } = this.config.envelope;
-      const baseGain = normalizedVelocity * 0.15 * volumeReduction; // 適度提高基礎音量
-      const peakGain = baseGain;
-      const sustainGain = peakGain * sustain;
-      
-      // 設定 ADSR 包絡曲線 - 避免從 0 開始以防止數學錯誤
-      gainNode.gain.setValueAtTime(0.001, currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(peakGain, currentTime + attack);
-      gainNode.gain.exponentialRampToValueAtTime(sustainGain, currentTime + attack + decay);
+      // 重按延音中的音符時，先讓原本的聲部釋音
+      const sustainedVoice = this.sustainedVoices.get(voiceKey);
+      if (sustainedVoice) {
+        this.sustainedVoices.delete(voiceKey);
+        this.voiceAllocator.release(sustainedVoice.voice, currentTime);
+      }
+
+      // 指定其他音色時 (例如播放其他音軌)，尚未準備的音色需先等待資源準備完成
+      const instrument = options.soundType ? getInstrument(options.soundType) : this.instrument;
+      if (!this.preparedSoundTypes.has(instrument.soundType) && !(await this.prepareSoundType(instrument.soundType))) {
+        return false;
+      }
+
+      // 等待期間已收到停止或被新的開始取代時放棄，否則聲部註冊後不會再有人停止
+      if (pendingStart.cancelled || this.pendingStarts.get(voiceKey) !== pendingStart) {
+        return false;
+      }
+
+      // 超過復音數時搶用聲部，而非忽略新音符
+      this.voiceAllocator.makeRoom(currentTime).forEach(({ stolen, wasReleasing }) => {
+        this.emit('voiceSteal', {
+          noteId,
+          stolenNoteId: stolen.noteId,
+          wasReleasing,
+          mode: this.voiceAllocator.getMode(),
+          totalSteals: this.voiceAllocator.getStealCount(),
+        });
+        console.log(`搶用聲部: ${stolen.noteId} → ${noteId}${wasReleasing ? ' (釋音中)' : ''}`);
+      });
+
+      const levels = getVoiceLevels(velocity, this.playingNotes.size);
+      const normalizedVelocity = levels.velocity;
+      const gain = levels.gain * Math.max(0, Math.min(1, volume));
       
-      // 連接音頻節點
-      oscillator.connect(gainNode);
-      gainNode.connect(this.masterGainNode!);
+      // 由音色建立聲部，包絡由各音色自行處理；效果器會以相同參數建立濕聲
+      const context = this.audioContext;
+      const voiceOptions = {
+        frequency,
+        velocity: normalizedVelocity,
+        gain,
+        envelope: this.config.envelope,
+      };
+      const voice = this.effectsBus
+        ? this.effectsBus.createVoice(destination => instrument.createVoice(context, destination, voiceOptions))
+        : instrument.createVoice(context, this.masterGainNode!, voiceOptions);
       
       // 開始播放
-      oscillator.start(currentTime);
+      voice.start(currentTime);
       
       // 記錄播放狀態
       const playingNote: PlayingNote = {
         noteId,
-        source: oscillator,
-        gainNode,
+        voice: this.voiceAllocator.add(noteId, voice, gain, currentTime),
         startTime: currentTime,
-        state: 'playing'
+        state: 'playing',
+        source,
+        ...(channel ? { channel } : {}),
       };
       
-      this.playingNotes.set(noteId, playingNote);
+      // 依所有聲部的峰值總和預先壓低增益，避免和弦起音削波
+      this.compressor?.anticipate(
+        this.voiceAllocator.getEstimatedLevel(currentTime) * this.config.masterVolume,
+        currentTime
+      );
+      
+      this.playingNotes.set(voiceKey, playingNote);
       
       // 發送事件通知
-      this.emit('noteStart', { noteId, timestamp: Date.now() });
+      this.emit('noteStart', { noteId, timestamp: Date.now(), velocity, source });
       
-      console.log(`開始播放音符: ${noteId} (${frequency}Hz), 音量比例: ${volumeReduction.toFixed(2)}`);
+      console.log(`開始播放音符: ${noteId} (${frequency}Hz), 音量: ${gain.toFixed(3)}`);
       return true;
       
     } catch (error) {
@@ -272,6 +410,10 @@ export class AudioService {
         message: `播放音符失敗: ${error}` 
       });
       return false;
+    } finally {
+      if (this.pendingStarts.get(voiceKey) === pendingStart) {
+        this.pendingStarts.delete(voiceKey);
+      }
     }
   }
 
@@ -279,14 +421,25 @@ export class AudioService {
    * 停止播放音符
    * 
    * @param noteId 音符ID
+   * @param when 停止時間（AudioContext 時鐘，秒），預設立即停止
+   * @param channel 開始播放時指定的聲部頻道
    * @returns Promise<boolean> 是否停止播放成功
    */
-  public async stopNote(noteId: NoteId): Promise<boolean> {
+  public async stopNote(noteId: NoteId, when?: number, channel?: string): Promise<boolean> {
+    const voiceKey = getVoiceKey(noteId, channel);
+
     try {
-      const playingNote = this.playingNotes.get(noteId);
+      // 開始尚未完成 (例如等待音色準備) 時取消該次開始，不留下無人停止的聲部
+      const pendingStart = this.pendingStarts.get(voiceKey);
+      if (pendingStart) {
+        pendingStart.cancelled = true;
+        this.pendingStarts.delete(voiceKey);
+      }
+
+      const playingNote = this.playingNotes.get(voiceKey);
       
       if (!playingNote || !this.audioContext) {
-        return false; // 音符未在播放
+        return !!pendingStart; // 音符未在播放
       }
 
       // 如果已經在停止狀態，避免重複處理
@@ -294,25 +447,33 @@ export class AudioService {
         return true;
       }
 
-      const currentTime = this.audioContext.currentTime;
+      const currentTime = Math.max(when ?? 0, this.audioContext.currentTime);
       
       // 標記為停止狀態
       playingNote.state = 'stopping';
       
-      // 簡化的釋音處理，直接停止
+      // 進入音色的釋音階段，聲部會在釋音結束後自行停止
+      // 已被搶用的聲部不會重複處理，但仍發送 noteEnd 讓錄音記錄實際的放鍵時間
+      // 同一來源的延音踏板踩下時保留聲部，noteEnd 仍在放鍵時發送
       try {
-        // 直接停止振盪器，不使用複雜的淡出
-        playingNote.source.stop(currentTime);
+        if (this.sustainSources.has(playingNote.source)) {
+          this.sustainedVoices.set(voiceKey, {
+            voice: playingNote.voice,
+            source: playingNote.source,
+          });
+        } else {
+          this.voiceAllocator.release(playingNote.voice, currentTime);
+        }
       } catch (stopError) {
         // 如果節點已經停止，忽略錯誤
-        console.warn(`振盪器停止失敗: ${noteId}`, stopError);
+        console.warn(`聲部釋音失敗: ${noteId}`, stopError);
       }
       
       // 立即清理播放狀態
-      this.playingNotes.delete(noteId);
+      this.playingNotes.delete(voiceKey);
       
       // 直接發送事件，不使用 setTimeout
-      this.emit('noteEnd', { noteId, timestamp: Date.now() });
+      this.emit('noteEnd', { noteId, timestamp: Date.now(), source: playingNote.source });
       
       console.log(`停止播放音符: ${noteId}`);
       return true;
@@ -320,7 +481,7 @@ export class AudioService {
     } catch (error) {
       console.error(`停止音符播放失敗: ${noteId}`, error);
       // 強制清理狀態
-      this.playingNotes.delete(noteId);
+      this.playingNotes.delete(voiceKey);
       this.emit('error', { 
         type: 'AUDIO_PLAYBACK_FAILED' as ErrorType, 
         message: `停止音符播放失敗: ${error}` 
@@ -335,11 +496,117 @@ export class AudioService {
    * @returns Promise<void>
    */
   public async stopAllNotes(): Promise<void> {
-    const promises = Array.from(this.playingNotes.keys()).map(noteId => 
-      this.stopNote(noteId)
+    this.pendingStarts.forEach(pendingStart => {
+      pendingStart.cancelled = true;
+    });
+    this.pendingStarts.clear();
+
+    const promises = Array.from(this.playingNotes.values()).map(playingNote => 
+      this.stopNote(playingNote.noteId, undefined, playingNote.channel)
     );
     
     await Promise.all(promises);
+    this.releaseSustainedVoices();
+  }
+
+  // ========== 延音踏板 ==========
+
+  /**
+   * 設定延音踏板狀態
+   * 每個來源有各自的踏板，只影響同一來源的音符 (例如疊錄時播放音軌的踏板不會放開演奏中的延音)；
+   * 放開踏板時，該來源在踏板期間已放鍵的音符一起進入釋音
+   * 
+   * @param active 是否踩下
+   * @param when 生效時間（AudioContext 時鐘，秒），預設立即生效
+   * @param source 踏板來源，預設為鍵盤演奏
+   */
+  public setSustain(active: boolean, when?: number, source: NoteSource = 'live'): void {
+    if (active === this.sustainSources.has(source)) {
+      return;
+    }
+
+    if (active) {
+      this.sustainSources.add(source);
+    } else {
+      this.sustainSources.delete(source);
+      this.releaseSustainedVoices(when, source);
+    }
+
+    this.emit('sustainChange', { active, timestamp: Date.now(), source });
+    console.log(`延音踏板: ${active ? '踩下' : '放開'}`);
+  }
+
+  /**
+   * 檢查延音踏板是否踩下
+   * 
+   * @param source 只檢查此來源的踏板，未指定時任一來源踩下即視為踩下
+   * @returns 是否踩下
+   */
+  public isSustainOn(source?: NoteSource): boolean {
+    return source ? this.sustainSources.has(source) : this.sustainSources.size > 0;
+  }
+
+  /**
+   * 讓延音中的聲部進入釋音
+   *
+   * @param when 釋音時間（AudioContext 時鐘，秒），預設立即釋音
+   * @param source 只釋放此來源的聲部，未指定時釋放所有來源
+   */
+  private releaseSustainedVoices(when?: number, source?: NoteSource): void {
+    const currentTime = this.audioContext ? Math.max(when ?? 0, this.audioContext.currentTime) : 0;
+    this.sustainedVoices.forEach((entry, voiceKey) => {
+      if (source && entry.source !== source) {
+        return;
+      }
+      this.sustainedVoices.delete(voiceKey);
+      if (!this.audioContext) {
+        return;
+      }
+      try {
+        this.voiceAllocator.release(entry.voice, currentTime);
+      } catch (error) {
+        console.warn(`延音聲部釋音失敗: ${voiceKey}`, error);
+      }
+    });
+  }
+
+  // ========== 節拍器音 ==========
+
+  /**
+   * 排程一個節拍器點擊音
+   * 點擊音不經過主音量與效果鏈，直接送入壓縮/限幅器，也不發出音符事件，
+   * 因此不會被錄進錄音或佔用聲部
+   *
+   * @param frequency 點擊音頻率 (Hz)
+   * @param level 音量 (0-1)
+   * @param when 發聲時間（AudioContext 時鐘，秒）
+   * @returns 是否成功排程
+   */
+  public scheduleClick(frequency: number, level: number, when: number): boolean {
+    if (!this.audioContext || !this.compressor || level <= 0) {
+      return false;
+    }
+
+    try {
+      const startTime = Math.max(when, this.audioContext.currentTime);
+      const oscillator = this.audioContext.createOscillator();
+      const gain = this.audioContext.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(level, startTime + 0.001);
+      gain.gain.exponentialRampToValueAtTime(VOICE_CONSTANTS.MIN_GAIN, startTime + 0.05);
+
+      oscillator.connect(gain);
+      gain.connect(this.compressor.input);
+      oscillator.start(startTime);
+      oscillator.stop(startTime + 0.06);
+      return true;
+    } catch (error) {
+      console.warn('節拍器點擊音排程失敗:', error);
+      return false;
+    }
   }
 
   // ========== 音頻配置管理 ==========
@@ -401,8 +668,193 @@ export class AudioService {
     }
   }
 
+  /**
+   * 切換音色
+   * 先準備新音色的資源再切換，不需重新建立 AudioContext；
+   * 已在發聲的音符會以原本的音色完成釋音
+   * 
+   * @param soundType 音色類型
+   * @returns Promise<boolean> 是否切換成功
+   */
+  public async setSoundType(soundType: SoundType): Promise<boolean> {
+    try {
+      const instrument = getInstrument(soundType);
+      if (this.audioContext) {
+        await instrument.prepare(this.audioContext);
+        this.preparedSoundTypes.add(soundType);
+      }
+      this.instrument = instrument;
+      console.log(`切換音色: ${soundType}`);
+      return true;
+    } catch (error) {
+      console.error(`切換音色失敗: ${soundType}`, error);
+      this.emit('error', { 
+        type: 'AUDIO_INIT_FAILED' as ErrorType, 
+        message: `切換音色失敗: ${error}` 
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 預先準備音色的資源，但不切換目前的音色
+   * 例如載入多音軌錄音時準備各音軌的音色，播放時不需等待
+   * 
+   * @param soundType 音色類型
+   * @returns Promise<boolean> 是否準備成功
+   */
+  public async prepareSoundType(soundType: SoundType): Promise<boolean> {
+    if (!this.audioContext) {
+      return false;
+    }
+
+    try {
+      await getInstrument(soundType).prepare(this.audioContext);
+      this.preparedSoundTypes.add(soundType);
+      return true;
+    } catch (error) {
+      console.error(`準備音色失敗: ${soundType}`, error);
+      this.emit('error', { 
+        type: 'AUDIO_INIT_FAILED' as ErrorType, 
+        message: `準備音色失敗: ${error}` 
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 獲取目前音色
+   * 
+   * @returns 目前音色類型
+   */
+  public getSoundType(): SoundType {
+    return this.instrument.soundType;
+  }
+
+  /**
+   * 設定復音數
+   * 
+   * @param polyphony 最大同時發聲數 (含釋音中的聲部)
+   */
+  public setPolyphony(polyphony: number): void {
+    this.voiceAllocator.setPolyphony(polyphony);
+    this.config.polyphony = this.voiceAllocator.getPolyphony();
+  }
+
+  /**
+   * 設定聲部搶用策略
+   * 
+   * @param mode 搶用最舊或最小聲的聲部
+   */
+  public setVoiceStealingMode(mode: VoiceStealingMode): void {
+    this.voiceAllocator.setMode(mode);
+    this.config.voiceStealing = mode;
+  }
+
+  /**
+   * 設定效果鏈
+   * 已在發聲的濕聲會跟著調整濕聲比例，其他參數只影響之後的音符
+   * 
+   * @param settings 殘響、延遲與合唱設定
+   */
+  public setEffects(settings: EffectsSettings): void {
+    this.effectsSettings = normalizeEffectsSettings(settings);
+    this.effectsBus?.setSettings(this.effectsSettings);
+  }
+
+  /**
+   * 獲取目前效果鏈設定
+   * 
+   * @returns 效果鏈設定
+   */
+  public getEffects(): EffectsSettings {
+    return normalizeEffectsSettings(this.effectsSettings);
+  }
+
+  /**
+   * 設定速度，供延遲效果同步節拍
+   * 
+   * @param bpm 每分鐘拍數
+   */
+  public setTempo(bpm: number): void {
+    if (!Number.isFinite(bpm) || bpm <= 0) return;
+    this.tempo = bpm;
+    this.effectsBus?.setTempo(bpm);
+  }
+
+  /**
+   * 設定主輸出壓縮/限幅器
+   * 
+   * @param settings 臨界值、壓縮比、起音/釋放時間與補償增益
+   */
+  public setCompressor(settings: Partial<CompressorSettings>): void {
+    if (this.compressor) {
+      this.compressor.setSettings(settings);
+      this.config.compressor = this.compressor.getSettings();
+    } else {
+      this.config.compressor = { ...this.config.compressor, ...settings };
+    }
+  }
+
+  /**
+   * 獲取延遲效果同步使用的速度
+   * 
+   * @returns 每分鐘拍數 (四分音符)
+   */
+  public getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * 獲取主輸出壓縮/限幅器設定
+   * 
+   * @returns 壓縮器設定
+   */
+  public getCompressor(): CompressorSettings {
+    return { ...this.config.compressor };
+  }
+
+  /**
+   * 設定調律
+   * 之後開始的音符使用新的頻率，已在發聲的音符維持原音高
+   * 
+   * @param settings A4 基準頻率、調律系統與主音
+   * @returns boolean 是否套用成功，Scala 檔案無效時維持原本的調律
+   */
+  public setTuning(settings: TuningSettings): boolean {
+    try {
+      setActiveTuning(settings);
+      return true;
+    } catch (error) {
+      console.error('套用調律失敗:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 獲取目前調音設定
+   * 
+   * @returns 調音設定
+   */
+  public getTuning(): TuningSettings {
+    return getActiveTuning();
+  }
+
   // ========== 狀態查詢方法 ==========
 
+  /**
+   * 獲取目前的音頻配置 (主音量、包絡、濾波、復音與壓縮器)
+   * 
+   * @returns 音頻配置快照
+   */
+  public getConfig(): AudioServiceConfig {
+    return {
+      ...this.config,
+      envelope: { ...this.config.envelope },
+      compressor: { ...this.config.compressor },
+    };
+  }
+
   /**
    * 檢查音頻服務是否已初始化
    * 
@@ -418,7 +870,7 @@ export class AudioService {
    * @returns 正在播放的音符ID數組
    */
   public getPlayingNotes(): NoteId[] {
-    return Array.from(this.playingNotes.keys());
+    return Array.from(new Set(Array.from(this.playingNotes.values(), playingNote => playingNote.noteId)));
   }
 
   /**
@@ -432,6 +884,47 @@ export class AudioService {
     return playingNote?.state === 'playing';
   }
 
+  /**
+   * 獲取聲部使用統計
+   * 
+   * @returns 按住中、釋音中的聲部數量、復音數與累計搶用次數
+   */
+  public getVoiceStats(): { held: number; releasing: number; polyphony: number; steals: number } {
+    this.voiceAllocator.purge(this.getCurrentTime());
+    return {
+      held: this.voiceAllocator.getHeldCount(),
+      releasing: this.voiceAllocator.getReleasingCount(),
+      polyphony: this.voiceAllocator.getPolyphony(),
+      steals: this.voiceAllocator.getStealCount(),
+    };
+  }
+
+  /**
+   * 獲取主輸出壓縮器的音量表讀數
+   * 
+   * @returns 輸入/輸出位準與增益衰減量，未初始化時為 null
+   */
+  public getDynamicsReading(): DynamicsMeterReading | null {
+    return this.compressor?.getReading() ?? null;
+  }
+
+  /**
+   * 重設累計搶用次數
+   */
+  public resetVoiceStats(): void {
+    this.voiceAllocator.resetStealCount();
+  }
+
+  /**
+   * 獲取音頻上下文的目前時間
+   * 用於在 AudioContext 時鐘上精確排程音符
+   * 
+   * @returns 目前時間（秒），未初始化時為 0
+   */
+  public getCurrentTime(): number {
+    return this.audioContext?.currentTime ?? 0;
+  }
+
   /**
    * 獲取音頻上下文狀態
    * 
@@ -521,26 +1014,26 @@ export class AudioService {
         console.log('執行定期清理...');
         
         // 檢查並清理過期的播放狀態
-        const staleNotes: NoteId[] = [];
-        this.playingNotes.forEach((playingNote, noteId) => {
+        const staleNotes: string[] = [];
+        this.playingNotes.forEach((playingNote, voiceKey) => {
           // 如果音符播放超過 10 秒，視為異常
           if (now - playingNote.startTime * 1000 > 10000) {
-            staleNotes.push(noteId);
+            staleNotes.push(voiceKey);
           }
         });
         
         // 清理過期音符
-        staleNotes.forEach(noteId => {
-          console.warn(`清理過期音符: ${noteId}`);
+        staleNotes.forEach(voiceKey => {
+          console.warn(`清理過期音符: ${voiceKey}`);
           try {
-            const playingNote = this.playingNotes.get(noteId);
+            const playingNote = this.playingNotes.get(voiceKey);
             if (playingNote) {
-              playingNote.source.stop();
+              this.voiceAllocator.stop(playingNote.voice, this.audioContext?.currentTime ?? 0);
             }
           } catch (error) {
-            console.warn(`清理過期音符失敗: ${noteId}`, error);
+            console.warn(`清理過期音符失敗: ${voiceKey}`, error);
           }
-          this.playingNotes.delete(noteId);
+          this.playingNotes.delete(voiceKey);
         });
         
         this.lastCleanupTime = now;
@@ -565,6 +1058,10 @@ export class AudioService {
       
       // 關閉音頻上下文
       if (this.audioContext) {
+        const context = this.audioContext;
+        SOUND_TYPES.forEach(soundType => getInstrument(soundType).dispose?.(context));
+        this.effectsBus?.dispose();
+        this.compressor?.dispose();
         await this.audioContext.close();
       }
       
@@ -572,8 +1069,14 @@ export class AudioService {
       this.audioContext = null;
       this.masterGainNode = null;
       this.filterNode = null;
-      this.compressorNode = null;
+      this.compressor = null;
+      this.effectsBus = null;
       this.playingNotes.clear();
+      this.pendingStarts.clear();
+      this.voiceAllocator.clear();
+      this.sustainedVoices.clear();
+      this.preparedSoundTypes.clear();
+      this.sustainSources.clear();
       this.isInitialized = false;
       
       // 清理定期清理 timer
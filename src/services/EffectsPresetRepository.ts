@@ -0,0 +1,228 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果預設儲存庫
+ *
+ * 本文件實作了以 AsyncStorage 為後端的效果預設組合儲存庫。
+ * 內建預設固定存在且不可修改或刪除；使用者的預設以名稱區分，
+ * 以相同名稱儲存時覆寫原本的設定。所有儲存錯誤皆以 AppError
+ * (ErrorType.STORAGE_FAILED) 的形式拋出。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { EffectsPreset, EffectsSettings } from '../types';
+import { ErrorType } from '../types';
+
+import { createAppError, toAppError } from '../utils/appError';
+import { BUILT_IN_EFFECTS_PRESETS, normalizeEffectsSettings } from './effects';
+
+// ========== 常數定義 ==========
+
+/**
+ * AsyncStorage 鍵值設定
+ */
+const STORAGE_KEYS = {
+  /** 使用者的效果預設列表 */
+  presets: '@simple_piano/effects_presets',
+} as const;
+
+// ========== 儲存格式定義 ==========
+
+/**
+ * 儲存於 AsyncStorage 的效果預設格式
+ */
+interface StoredEffectsPreset {
+  id: string;
+  name: string;
+  settings: EffectsSettings;
+}
+
+// ========== 工具函數 ==========
+
+/**
+ * 產生效果預設唯一標識
+ */
+function generatePresetId(): string {
+  const randomSuffix = Math.random().toString(36).slice(2, 8);
+  return `effects_${Date.now()}_${randomSuffix}`;
+}
+
+/**
+ * 將儲存格式轉換為效果預設，並補齊缺少的設定欄位
+ */
+function deserializePreset(stored: StoredEffectsPreset): EffectsPreset {
+  return {
+    id: stored.id,
+    name: stored.name,
+    settings: normalizeEffectsSettings(stored.settings),
+    builtIn: false,
+  };
+}
+
+// ========== 效果預設儲存庫類別 ==========
+
+/**
+ * 效果預設儲存庫單例類別
+ */
+export class EffectsPresetRepository {
+  private static instance: EffectsPresetRepository | null = null;
+
+  // 寫入佇列，確保列表的讀取-修改-寫入不會互相覆蓋
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  // ========== 單例模式實作 ==========
+
+  /**
+   * 獲取效果預設儲存庫實例
+   */
+  public static getInstance(): EffectsPresetRepository {
+    if (!EffectsPresetRepository.instance) {
+      EffectsPresetRepository.instance = new EffectsPresetRepository();
+    }
+    return EffectsPresetRepository.instance;
+  }
+
+  /**
+   * 私有建構函數，防止直接實例化
+   */
+  private constructor() {}
+
+  // ========== 公開 API ==========
+
+  /**
+   * 列出所有效果預設，內建預設在前
+   *
+   * @returns Promise<EffectsPreset[]> 效果預設列表
+   */
+  public async listPresets(): Promise<EffectsPreset[]> {
+    return this.withStorageErrors('讀取效果預設列表失敗', async () => {
+      const stored = await this.readPresets();
+      return [...BUILT_IN_EFFECTS_PRESETS, ...stored.map(deserializePreset)];
+    });
+  }
+
+  /**
+   * 讀取效果預設
+   *
+   * @param id 預設ID
+   * @returns Promise<EffectsPreset | null> 效果預設，不存在時為 null
+   */
+  public async getPreset(id: string): Promise<EffectsPreset | null> {
+    const builtIn = BUILT_IN_EFFECTS_PRESETS.find(preset => preset.id === id);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    return this.withStorageErrors(`讀取效果預設失敗: ${id}`, async () => {
+      const stored = (await this.readPresets()).find(preset => preset.id === id);
+      return stored ? deserializePreset(stored) : null;
+    });
+  }
+
+  /**
+   * 儲存效果預設
+   * 與既有的使用者預設同名時覆寫其設定
+   *
+   * @param name 預設名稱
+   * @param settings 效果設定
+   * @returns Promise<EffectsPreset> 儲存後的效果預設
+   */
+  public async savePreset(name: string, settings: EffectsSettings): Promise<EffectsPreset> {
+    return this.withStorageErrors(`儲存效果預設失敗: ${name}`, async () => {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw createAppError(ErrorType.STORAGE_FAILED, '效果預設名稱不可為空白');
+      }
+      if (BUILT_IN_EFFECTS_PRESETS.some(preset => preset.name === trimmedName)) {
+        throw createAppError(ErrorType.STORAGE_FAILED, `不可覆寫內建的效果預設: ${trimmedName}`);
+      }
+
+      return this.enqueueWrite(async () => {
+        const presets = await this.readPresets();
+        const existing = presets.find(preset => preset.name === trimmedName);
+        const saved: StoredEffectsPreset = {
+          id: existing?.id ?? generatePresetId(),
+          name: trimmedName,
+          settings: normalizeEffectsSettings(settings),
+        };
+
+        const nextPresets = existing
+          ? presets.map(preset => (preset.id === saved.id ? saved : preset))
+          : [...presets, saved];
+        await AsyncStorage.setItem(STORAGE_KEYS.presets, JSON.stringify(nextPresets));
+
+        return deserializePreset(saved);
+      });
+    });
+  }
+
+  /**
+   * 刪除效果預設
+   *
+   * @param id 預設ID
+   * @returns Promise<boolean> 是否確實刪除了預設
+   */
+  public async deletePreset(id: string): Promise<boolean> {
+    return this.withStorageErrors(`刪除效果預設失敗: ${id}`, async () => {
+      if (BUILT_IN_EFFECTS_PRESETS.some(preset => preset.id === id)) {
+        throw createAppError(ErrorType.STORAGE_FAILED, '內建的效果預設不可刪除');
+      }
+
+      return this.enqueueWrite(async () => {
+        const presets = await this.readPresets();
+        const nextPresets = presets.filter(preset => preset.id !== id);
+        await AsyncStorage.setItem(STORAGE_KEYS.presets, JSON.stringify(nextPresets));
+        return nextPresets.length !== presets.length;
+      });
+    });
+  }
+
+  // ========== 內部讀寫方法 ==========
+
+  /**
+   * 讀取使用者的效果預設，略過格式不正確的項目
+   */
+  private async readPresets(): Promise<StoredEffectsPreset[]> {
+    const value = await AsyncStorage.getItem(STORAGE_KEYS.presets);
+    if (!value) {
+      return [];
+    }
+
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter(preset => typeof preset?.id === 'string' && typeof preset?.name === 'string')
+      : [];
+  }
+
+  /**
+   * 將寫入操作排入佇列依序執行
+   */
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    // 佇列本身不因單一操作失敗而中斷
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 執行儲存操作，並將任何錯誤轉換為 STORAGE_FAILED 類型的 AppError
+   */
+  private async withStorageErrors<T>(message: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error(message, error);
+      throw toAppError(error, ErrorType.STORAGE_FAILED, `${message}: ${error}`);
+    }
+  }
+}
+
+// ========== 導出儲存庫實例 ==========
+
+/**
+ * 導出效果預設儲存庫單例實例
+ */
+export default EffectsPresetRepository.getInstance();
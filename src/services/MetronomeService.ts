@@ -0,0 +1,493 @@
+/**
+ * 簡譜鋼琴應用程式 - 節拍器服務
+ *
+ * 本文件實作了節拍器，與播放服務相同以 AudioContext 時鐘為基準，
+ * 透過「前瞻排程」(look-ahead scheduling) 預先把點擊音排程到精確的時間點，
+ * 計時器只負責補充排程，不決定發聲時間。支援拍號、重音型態、
+ * 每拍細分、點擊測速與錄音前的預備拍，並在每個拍點實際發聲時發出事件供畫面顯示。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  BeatAccent,
+  MetronomeSettings,
+  MetronomeTick,
+} from '../types';
+import { ErrorType } from '../types';
+
+import {
+  METRONOME_CONSTANTS,
+  DEFAULT_METRONOME_SETTINGS,
+  normalizeMetronomeSettings,
+  calculateTapTempo,
+} from '../utils/metronome';
+import AudioService from './AudioService';
+
+// ========== 常數定義 ==========
+
+/**
+ * 節拍器排程設定
+ */
+export const METRONOME_SCHEDULER_CONSTANTS = {
+  /** 排程器執行間隔 (毫秒) */
+  SCHEDULER_INTERVAL_MS: 25,
+  /** 前瞻排程時間窗 (秒) */
+  LOOKAHEAD_SECONDS: 0.1,
+  /** 開始時預留的時間 (秒)，避免第一拍落在已經過去的時間點 */
+  START_DELAY_SECONDS: 0.05,
+} as const;
+
+/**
+ * 各重音等級的點擊音頻率 (Hz) 與相對音量
+ */
+const CLICK_VOICES: Record<Exclude<BeatAccent, 'mute'> | 'subdivision', { frequency: number; level: number }> = {
+  strong: { frequency: 1760, level: 1 },
+  medium: { frequency: 1320, level: 0.8 },
+  weak: { frequency: 880, level: 0.6 },
+  subdivision: { frequency: 660, level: 0.35 },
+};
+
+// ========== 類型定義 ==========
+
+/**
+ * 節拍器服務事件類型
+ */
+export interface MetronomeServiceEvents {
+  stateChange: { isRunning: boolean };
+  settingsChange: MetronomeSettings;
+  tick: MetronomeTick;
+  countIn: { beatsRemaining: number };
+  error: { type: ErrorType; message: string };
+}
+
+/**
+ * 節拍器服務事件監聽器類型
+ */
+export type MetronomeServiceEventListener<T extends keyof MetronomeServiceEvents> =
+  (event: MetronomeServiceEvents[T]) => void;
+
+// ========== 節拍器服務類別 ==========
+
+/**
+ * 節拍器服務單例類別
+ */
+export class MetronomeService {
+  private static instance: MetronomeService | null = null;
+
+  private settings: MetronomeSettings = normalizeMetronomeSettings(DEFAULT_METRONOME_SETTINGS);
+  private running: boolean = false;
+
+  // 下一個尚未排程的拍點
+  private nextTickTime: number = 0;
+  private nextBeat: number = 0;
+  private nextSubdivision: number = 0;
+
+  // 排程器與畫面同步計時器
+  private schedulerTimer: ReturnType<typeof setInterval> | null = null;
+  private visualTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  // 進行中的預備拍：結束時間 (AudioContext 秒)、結束後是否繼續打拍與完成回調
+  private countIn: {
+    endTime: number;
+    keepRunning: boolean;
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (completed: boolean) => void;
+  } | null = null;
+
+  // 點擊測速的點擊時間 (毫秒)
+  private tapTimes: number[] = [];
+
+  // 事件監聽器
+  private eventListeners: Map<keyof MetronomeServiceEvents, Set<Function>> = new Map();
+
+  // ========== 單例模式實作 ==========
+
+  /**
+   * 獲取節拍器服務實例
+   */
+  public static getInstance(): MetronomeService {
+    if (!MetronomeService.instance) {
+      MetronomeService.instance = new MetronomeService();
+    }
+    return MetronomeService.instance;
+  }
+
+  /**
+   * 私有建構函數，防止直接實例化
+   */
+  private constructor() {
+    this.initializeEventListeners();
+  }
+
+  /**
+   * 初始化事件監聽器映射
+   */
+  private initializeEventListeners(): void {
+    const eventTypes: (keyof MetronomeServiceEvents)[] = [
+      'stateChange', 'settingsChange', 'tick', 'countIn', 'error'
+    ];
+
+    eventTypes.forEach(eventType => {
+      this.eventListeners.set(eventType, new Set());
+    });
+  }
+
+  // ========== 節拍器控制方法 ==========
+
+  /**
+   * 開始節拍器，從小節的第一拍開始
+   *
+   * @param when 第一拍的 AudioContext 時間 (秒)，預設為稍後立即開始
+   * @returns 是否成功開始
+   */
+  public start(when?: number): boolean {
+    try {
+      if (!AudioService.isReady()) {
+        throw new Error('AudioService 未初始化');
+      }
+
+      this.haltScheduling();
+
+      const earliest = AudioService.getCurrentTime() + METRONOME_SCHEDULER_CONSTANTS.START_DELAY_SECONDS;
+      this.nextTickTime = Math.max(when ?? earliest, AudioService.getCurrentTime());
+      this.nextBeat = 0;
+      this.nextSubdivision = 0;
+
+      this.setRunning(true);
+      this.scheduleAhead();
+      this.schedulerTimer = setInterval(() => {
+        this.scheduleAhead();
+      }, METRONOME_SCHEDULER_CONSTANTS.SCHEDULER_INTERVAL_MS);
+
+      return true;
+
+    } catch (error) {
+      console.error('啟動節拍器失敗:', error);
+      this.emit('error', {
+        type: ErrorType.AUDIO_PLAYBACK_FAILED,
+        message: `啟動節拍器失敗: ${error}`
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 停止節拍器
+   * 已排程到音頻時鐘上的點擊音仍會在前瞻時間窗內發聲
+   */
+  public stop(): void {
+    this.haltScheduling();
+    this.setRunning(false);
+  }
+
+  /**
+   * 從小節第一拍開始打指定小節數的預備拍
+   * 預備拍結束的時間點即為下一小節的第一拍，Promise 在該時間點完成
+   *
+   * @param bars 預備小節數
+   * @param keepRunning 預備拍結束後是否繼續打拍
+   * @returns Promise<boolean> 預備拍完成時為 true，被取消或無法開始時為 false
+   */
+  public startCountIn(bars: number, keepRunning: boolean): Promise<boolean> {
+    if (!this.start()) {
+      return Promise.resolve(false);
+    }
+
+    const endTime = this.nextTickTime + bars * this.settings.timeSignature.numerator * this.getBeatDuration();
+    const delay = (endTime - AudioService.getCurrentTime()) * 1000;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.countIn = null;
+        if (!keepRunning) {
+          this.stop();
+        }
+        resolve(true);
+      }, Math.max(0, delay));
+
+      this.countIn = { endTime, keepRunning, timer, resolve };
+    });
+  }
+
+  /**
+   * 取消進行中的預備拍
+   * 預備拍原本就要持續打拍時節拍器維持執行，否則一併停止
+   */
+  public cancelCountIn(): void {
+    if (!this.countIn) {
+      return;
+    }
+
+    const { keepRunning } = this.countIn;
+    this.finishCountIn(false);
+    if (!keepRunning) {
+      this.stop();
+    }
+  }
+
+  /**
+   * 檢查是否正在打預備拍
+   */
+  public isCountingIn(): boolean {
+    return this.countIn !== null;
+  }
+
+  /**
+   * 檢查節拍器是否正在執行
+   */
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  // ========== 設定方法 ==========
+
+  /**
+   * 套用節拍器設定
+   * 執行中變更速度時從下一個拍點起生效；拍號變更後若目前拍子超出新的拍數則回到第一拍
+   *
+   * @param settings 部分或完整的節拍器設定
+   */
+  public setSettings(settings: Partial<MetronomeSettings>): void {
+    const previous = this.settings;
+    this.settings = normalizeMetronomeSettings({ ...previous, ...settings });
+
+    if (this.nextBeat >= this.settings.timeSignature.numerator) {
+      this.nextBeat = 0;
+    }
+    if (this.nextSubdivision >= this.settings.subdivision) {
+      this.nextSubdivision = 0;
+      this.nextBeat = (this.nextBeat + 1) % this.settings.timeSignature.numerator;
+    }
+
+    if (JSON.stringify(previous) !== JSON.stringify(this.settings)) {
+      this.emit('settingsChange', this.getSettings());
+    }
+  }
+
+  /**
+   * 獲取目前節拍器設定
+   */
+  public getSettings(): MetronomeSettings {
+    return {
+      ...this.settings,
+      timeSignature: { ...this.settings.timeSignature },
+      accents: [...this.settings.accents],
+    };
+  }
+
+  /**
+   * 設定速度
+   *
+   * @param bpm 每分鐘拍數 (30-300)
+   */
+  public setBpm(bpm: number): void {
+    this.setSettings({ bpm });
+  }
+
+  /**
+   * 點擊測速
+   * 記錄一次點擊並以最近連續點擊的平均間隔更新速度
+   *
+   * @param timestamp 點擊時間 (毫秒)，預設為現在
+   * @returns 新的速度，點擊次數不足時為 null
+   */
+  public tapTempo(timestamp: number = Date.now()): number | null {
+    const last = this.tapTimes[this.tapTimes.length - 1];
+    if (last !== undefined && timestamp - last > METRONOME_CONSTANTS.TAP_RESET_MS) {
+      this.tapTimes = [];
+    }
+    this.tapTimes = [...this.tapTimes, timestamp].slice(-METRONOME_CONSTANTS.TAP_SAMPLE_COUNT);
+
+    const bpm = calculateTapTempo(this.tapTimes);
+    if (bpm !== null) {
+      this.setBpm(bpm);
+    }
+    return bpm;
+  }
+
+  /**
+   * 每拍的長度 (秒)
+   */
+  public getBeatDuration(): number {
+    return 60 / this.settings.bpm;
+  }
+
+  // ========== 排程器實作 ==========
+
+  /**
+   * 排程前瞻時間窗內的所有拍點
+   */
+  private scheduleAhead(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const now = AudioService.getCurrentTime();
+    const horizon = now + METRONOME_SCHEDULER_CONSTANTS.LOOKAHEAD_SECONDS;
+
+    // 應用程式被暫停過久時跳過已錯過的拍點，避免一次補發大量點擊音
+    if (this.nextTickTime < now - METRONOME_SCHEDULER_CONSTANTS.LOOKAHEAD_SECONDS) {
+      const tickDuration = this.getBeatDuration() / this.settings.subdivision;
+      const missed = Math.ceil((now - this.nextTickTime) / tickDuration);
+      for (let i = 0; i < missed; i++) {
+        this.advance();
+      }
+    }
+
+    while (this.nextTickTime <= horizon) {
+      // 預備拍結束後不繼續打拍時，不排程結束時間點以後的拍點
+      if (this.countIn && !this.countIn.keepRunning && this.nextTickTime >= this.countIn.endTime - 0.001) {
+        break;
+      }
+      this.scheduleTick(this.nextTickTime, now);
+      this.advance();
+    }
+  }
+
+  /**
+   * 排程單一拍點的點擊音與畫面事件
+   *
+   * @param when AudioContext 時間 (秒)
+   * @param now 目前 AudioContext 時間 (秒)
+   */
+  private scheduleTick(when: number, now: number): void {
+    const beat = this.nextBeat;
+    const subdivision = this.nextSubdivision;
+    const accent = this.settings.accents[beat] ?? 'weak';
+
+    if (accent !== 'mute') {
+      const voice = subdivision === 0 ? CLICK_VOICES[accent] : CLICK_VOICES.subdivision;
+      AudioService.scheduleClick(voice.frequency, voice.level * this.settings.volume, when);
+    }
+
+    const tick: MetronomeTick = { beat, subdivision, accent, time: when };
+    const timer = setTimeout(() => {
+      this.visualTimers.delete(timer);
+      this.emit('tick', tick);
+
+      // 預備拍的第一拍在 startCountIn 記錄結束時間前就已排程，因此於發聲時才計算剩餘拍數
+      if (this.countIn && subdivision === 0) {
+        const beatsRemaining = Math.round((this.countIn.endTime - when) / this.getBeatDuration());
+        if (beatsRemaining > 0) {
+          this.emit('countIn', { beatsRemaining });
+        }
+      }
+    }, Math.max(0, (when - now) * 1000));
+    this.visualTimers.add(timer);
+  }
+
+  /**
+   * 前進到下一個拍點
+   */
+  private advance(): void {
+    this.nextTickTime += this.getBeatDuration() / this.settings.subdivision;
+    this.nextSubdivision++;
+    if (this.nextSubdivision >= this.settings.subdivision) {
+      this.nextSubdivision = 0;
+      this.nextBeat = (this.nextBeat + 1) % this.settings.timeSignature.numerator;
+    }
+  }
+
+  /**
+   * 結束預備拍並通知等待中的呼叫者
+   */
+  private finishCountIn(completed: boolean): void {
+    if (!this.countIn) {
+      return;
+    }
+    clearTimeout(this.countIn.timer);
+    const { resolve } = this.countIn;
+    this.countIn = null;
+    resolve(completed);
+  }
+
+  /**
+   * 停止排程器並取消待執行的畫面更新
+   */
+  private haltScheduling(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+    this.visualTimers.forEach(timer => clearTimeout(timer));
+    this.visualTimers.clear();
+    this.finishCountIn(false);
+  }
+
+  /**
+   * 更新執行狀態並發送事件
+   */
+  private setRunning(running: boolean): void {
+    if (this.running === running) {
+      return;
+    }
+    this.running = running;
+    this.emit('stateChange', { isRunning: running });
+  }
+
+  // ========== 事件管理方法 ==========
+
+  /**
+   * 添加事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public addEventListener<T extends keyof MetronomeServiceEvents>(
+    eventType: T,
+    listener: MetronomeServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.add(listener);
+    }
+  }
+
+  /**
+   * 移除事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public removeEventListener<T extends keyof MetronomeServiceEvents>(
+    eventType: T,
+    listener: MetronomeServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(listener);
+    }
+  }
+
+  /**
+   * 發送事件
+   *
+   * @param eventType 事件類型
+   * @param eventData 事件數據
+   */
+  private emit<T extends keyof MetronomeServiceEvents>(
+    eventType: T,
+    eventData: MetronomeServiceEvents[T]
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach(listener => {
+        try {
+          (listener as MetronomeServiceEventListener<T>)(eventData);
+        } catch (error) {
+          console.error(`事件監聽器執行失敗: ${eventType}`, error);
+        }
+      });
+    }
+  }
+}
+
+// ========== 導出服務實例 ==========
+
+/**
+ * 導出節拍器服務單例實例
+ */
+export default MetronomeService.getInstance();
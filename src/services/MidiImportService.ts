@@ -0,0 +1,175 @@
+/**
+ * 簡譜鋼琴應用程式 - MIDI 匯入服務
+ *
+ * 本文件負責將外部的標準 MIDI 檔案（例如老師提供的練習曲）
+ * 解析並轉換為錄音資料，存入錄音庫後即可在鍵盤上播放。
+ * 匯入結果附帶報告，說明哪些音符因超出 C3–C6 音域而被調整。
+ * 檔案可直接以二進位內容匯入、由檔案位置 (網址、本機路徑) 讀取，
+ * 或由使用者從裝置的檔案選擇器 (例如訊息或雲端硬碟中收到的檔案) 選取。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+
+import type { RecordingData, MidiImportReport } from '../types';
+import { ErrorType } from '../types';
+
+import { parseMidiFile, convertMidiToRecording, MidiImportOptions } from '../utils/midiFile';
+import { createAppError, isAppError } from '../utils/appError';
+import RecordingRepository from './RecordingRepository';
+import { generateRecordingId } from './RecordingService';
+
+// ========== 常數定義 ==========
+
+/**
+ * 檔案選擇器可選取的 MIDI 檔案類型
+ */
+const MIDI_MIME_TYPES = ['audio/midi', 'audio/x-midi'];
+
+// ========== 類型定義 ==========
+
+/**
+ * MIDI 匯入結果
+ */
+export interface MidiImportResult {
+  /** 已存入錄音庫的錄音 */
+  recording: RecordingData;
+  /** 匯入報告 */
+  report: MidiImportReport;
+}
+
+// ========== 匯入函數 ==========
+
+/**
+ * 匯入 MIDI 檔案並存入錄音庫
+ *
+ * @param data .mid 檔案的二進位內容
+ * @param options 匯入選項
+ * @returns Promise<MidiImportResult> 匯入的錄音與報告
+ * @throws AppError 解析失敗時為 IMPORT_FAILED，儲存失敗時為 STORAGE_FAILED
+ *
+ * @example
+ * ```typescript
+ * const { recording, report } = await importMidiFile(bytes, { name: '小星星' });
+ * if (report.transposedCount > 0) {
+ *   console.log(`${report.transposedCount} 個音符已移入鍵盤音域`);
+ * }
+ * ```
+ */
+export async function importMidiFile(
+  data: Uint8Array | ArrayBuffer,
+  options: MidiImportOptions = {}
+): Promise<MidiImportResult> {
+  let result: MidiImportResult;
+
+  try {
+    const midiFile = parseMidiFile(data);
+    result = convertMidiToRecording(
+      midiFile,
+      { id: generateRecordingId(), createdAt: new Date() },
+      options
+    );
+  } catch (error) {
+    console.error('解析 MIDI 檔案失敗:', error);
+    throw createAppError(
+      ErrorType.IMPORT_FAILED,
+      `無法匯入 MIDI 檔案: ${error instanceof Error ? error.message : error}`,
+      error
+    );
+  }
+
+  if (result.report.noteCount === 0) {
+    throw createAppError(ErrorType.IMPORT_FAILED, 'MIDI 檔案中沒有可匯入的音符');
+  }
+
+  try {
+    await RecordingRepository.saveRecording(result.recording);
+  } catch (error) {
+    throw isAppError(error)
+      ? error
+      : createAppError(ErrorType.STORAGE_FAILED, `儲存匯入的錄音失敗: ${error}`, error);
+  }
+
+  console.log(
+    `MIDI 匯入完成: ${result.recording.name}，${result.report.noteCount} 個音符，` +
+    `移調 ${result.report.transposedCount}，限制 ${result.report.clampedCount}`
+  );
+
+  return result;
+}
+
+/**
+ * 從檔案位置匯入 MIDI 檔案並存入錄音庫
+ * 支援 fetch 可讀取的位置，例如 http(s) 網址或本機的 file:// 路徑
+ *
+ * @param uri .mid 檔案的位置
+ * @param options 匯入選項
+ * @returns Promise<MidiImportResult> 匯入的錄音與報告
+ * @throws AppError 無法讀取或解析失敗時為 IMPORT_FAILED，儲存失敗時為 STORAGE_FAILED
+ */
+export async function importMidiFromUri(
+  uri: string,
+  options: MidiImportOptions = {}
+): Promise<MidiImportResult> {
+  let data: ArrayBuffer;
+
+  try {
+    const response = await fetch(uri);
+    // 本機檔案在部分平台回傳狀態 0
+    if (!response.ok && response.status !== 0) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    data = await response.arrayBuffer();
+  } catch (error) {
+    console.error('讀取 MIDI 檔案失敗:', error);
+    throw createAppError(
+      ErrorType.IMPORT_FAILED,
+      `無法讀取 MIDI 檔案: ${error instanceof Error ? error.message : error}`,
+      error
+    );
+  }
+
+  return importMidiFile(data, options);
+}
+
+/**
+ * 開啟檔案選擇器，匯入選取的 MIDI 檔案並存入錄音庫
+ * 未另外指定名稱時，以檔案名稱 (不含副檔名) 作為錄音名稱
+ *
+ * @param options 匯入選項
+ * @returns Promise<MidiImportResult | null> 匯入的錄音與報告，使用者取消選取時為 null
+ * @throws AppError 無法開啟選擇器、讀取或解析失敗時為 IMPORT_FAILED，儲存失敗時為 STORAGE_FAILED
+ */
+export async function importMidiFromDocumentPicker(
+  options: MidiImportOptions = {}
+): Promise<MidiImportResult | null> {
+  let picked: DocumentPicker.DocumentPickerResult;
+
+  try {
+    picked = await DocumentPicker.getDocumentAsync({
+      type: MIDI_MIME_TYPES,
+      copyToCacheDirectory: true,
+    });
+  } catch (error) {
+    console.error('開啟檔案選擇器失敗:', error);
+    throw createAppError(
+      ErrorType.IMPORT_FAILED,
+      `無法開啟檔案選擇器: ${error instanceof Error ? error.message : error}`,
+      error
+    );
+  }
+
+  const asset = picked.canceled ? undefined : picked.assets[0];
+  if (!asset) {
+    return null;
+  }
+
+  const fileName = asset.name.replace(/\.midi?$/i, '').trim();
+  return importMidiFromUri(asset.uri, {
+    ...(fileName ? { name: fileName } : {}),
+    ...options,
+  });
+}
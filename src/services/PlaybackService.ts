@@ -0,0 +1,708 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音播放服務
+ *
+ * 本文件實作了錄音的播放排程器，以 AudioContext 時鐘為基準，
+ * 透過「前瞻排程」(look-ahead scheduling) 將 MIDI 事件精確地交給
+ * AudioService 播放，並支援播放速度、循環播放、進度跳轉與暫停/繼續。
+ * 多音軌錄音的每個音軌以自己的音色與音量播放，並依靜音/獨奏決定是否發聲；
+ * 延音踏板則與實體鋼琴一樣由所有音軌共用。
+ * 同時在音符實際發聲的時間點發出事件，供鍵盤顯示按鍵高亮。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  NoteId,
+  MidiEvent,
+  RecordingData,
+  RecordingTrack,
+  PlaybackControl,
+} from '../types';
+import { ErrorType } from '../types';
+
+import { compareMidiEvents, isSustainEvent, isSustainDown } from '../utils/midiFile';
+import { getTracksEndTime, isTrackAudible } from '../utils/recordingTracks';
+import AudioService from './AudioService';
+
+// ========== 常數定義 ==========
+
+/**
+ * 播放排程設定
+ */
+export const PLAYBACK_CONSTANTS = {
+  /** 最小播放速度倍數 */
+  MIN_SPEED: 0.25,
+  /** 最大播放速度倍數 */
+  MAX_SPEED: 2,
+  /** 排程器執行間隔 (毫秒) */
+  SCHEDULER_INTERVAL_MS: 25,
+  /** 前瞻排程時間窗 (秒) */
+  LOOKAHEAD_SECONDS: 0.1,
+  /** 進度事件的最小發送間隔 (毫秒) */
+  PROGRESS_INTERVAL_MS: 100,
+} as const;
+
+// ========== 類型定義 ==========
+
+/**
+ * 播放服務事件類型
+ */
+export interface PlaybackServiceEvents {
+  stateChange: PlaybackControl;
+  progress: { progress: number; position: number; duration: number };
+  noteOn: { noteId: NoteId; velocity: number };
+  noteOff: { noteId: NoteId };
+  ended: { recordingId: string };
+  error: { type: ErrorType; message: string };
+}
+
+/**
+ * 播放服務事件監聽器類型
+ */
+export type PlaybackServiceEventListener<T extends keyof PlaybackServiceEvents> =
+  (event: PlaybackServiceEvents[T]) => void;
+
+/**
+ * 排程用的事件，標記所屬的音軌
+ */
+type PlaybackEvent = MidiEvent & { trackId: string };
+
+// ========== 工具函數 ==========
+
+/**
+ * 限制播放速度在支援範圍內
+ *
+ * @param speed 播放速度倍數
+ * @returns 限制後的播放速度
+ */
+export function clampPlaybackSpeed(speed: number): number {
+  return Math.max(PLAYBACK_CONSTANTS.MIN_SPEED, Math.min(PLAYBACK_CONSTANTS.MAX_SPEED, speed));
+}
+
+/**
+ * 合併所有音軌的事件並依時間排序，相同時間點時 noteOff 優先、踏板其次
+ * 確保同一音符的「放開後立即重按」與換踏板能正確播放
+ */
+function createPlaybackEvents(tracks: RecordingTrack[]): PlaybackEvent[] {
+  return tracks
+    .flatMap(track => track.events.map(event => ({ ...event, trackId: track.id })))
+    .sort(compareMidiEvents);
+}
+
+// ========== 播放服務類別 ==========
+
+/**
+ * 播放服務單例類別
+ * 負責將錄音資料排程並交由音頻服務播放
+ */
+export class PlaybackService {
+  private static instance: PlaybackService | null = null;
+
+  // 目前載入的錄音
+  private recording: RecordingData | null = null;
+  private events: PlaybackEvent[] = [];
+  private duration: number = 0;
+
+  // 目前發聲的音軌 (依靜音/獨奏設定)
+  private audibleTrackIds: Set<string> = new Set();
+
+  // 播放控制狀態
+  private control: PlaybackControl = {
+    state: 'idle',
+    progress: 0,
+    speed: 1,
+    loop: false,
+  };
+
+  // 排程錨點：recording 時間 anchorPosition (毫秒) 對應 AudioContext 時間 anchorContextTime (秒)
+  private anchorPosition: number = 0;
+  private anchorContextTime: number = 0;
+  private nextEventIndex: number = 0;
+
+  // 排程器與畫面同步計時器
+  private schedulerTimer: ReturnType<typeof setInterval> | null = null;
+  private visualTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private lastProgressEmit: number = 0;
+
+  // 由播放服務發聲中的音符，以「音軌ID:音符ID」為鍵
+  private soundingNotes: Map<string, { noteId: NoteId; trackId: string }> = new Map();
+
+  // 由播放服務踩下的延音踏板
+  private isSustainDown: boolean = false;
+
+  // 事件監聽器
+  private eventListeners: Map<keyof PlaybackServiceEvents, Set<Function>> = new Map();
+
+  // ========== 單例模式實作 ==========
+
+  /**
+   * 獲取播放服務實例
+   */
+  public static getInstance(): PlaybackService {
+    if (!PlaybackService.instance) {
+      PlaybackService.instance = new PlaybackService();
+    }
+    return PlaybackService.instance;
+  }
+
+  /**
+   * 私有建構函數，防止直接實例化
+   */
+  private constructor() {
+    this.initializeEventListeners();
+  }
+
+  /**
+   * 初始化事件監聽器映射
+   */
+  private initializeEventListeners(): void {
+    const eventTypes: (keyof PlaybackServiceEvents)[] = [
+      'stateChange', 'progress', 'noteOn', 'noteOff', 'ended', 'error'
+    ];
+
+    eventTypes.forEach(eventType => {
+      this.eventListeners.set(eventType, new Set());
+    });
+  }
+
+  // ========== 播放控制方法 ==========
+
+  /**
+   * 載入錄音，停止目前的播放
+   *
+   * @param recording 要播放的錄音資料
+   */
+  public load(recording: RecordingData): void {
+    this.stop();
+
+    this.recording = recording;
+    this.events = createPlaybackEvents(recording.tracks);
+    this.duration = Math.max(recording.duration, getTracksEndTime(recording.tracks));
+    this.updateAudibleTracks(recording.tracks);
+    this.prepareTrackSounds(recording.tracks);
+
+    this.updateControl({ state: 'stopped', progress: 0 });
+  }
+
+  /**
+   * 更新目前錄音的音軌設定 (音色、音量、靜音、獨奏)，不中斷播放
+   * 新設定從之後排程的音符開始生效，變為不發聲的音軌立即停止發聲
+   *
+   * @param tracks 同一錄音的音軌，事件內容需與載入時相同
+   */
+  public updateTracks(tracks: RecordingTrack[]): void {
+    if (!this.recording) {
+      return;
+    }
+
+    this.recording = { ...this.recording, tracks };
+    this.updateAudibleTracks(tracks);
+    this.prepareTrackSounds(tracks);
+
+    this.soundingNotes.forEach(({ noteId, trackId }, key) => {
+      if (!this.audibleTrackIds.has(trackId)) {
+        this.soundingNotes.delete(key);
+        AudioService.stopNote(noteId, undefined, trackId);
+        this.emit('noteOff', { noteId });
+      }
+    });
+  }
+
+  /**
+   * 開始或繼續播放
+   *
+   * @returns 是否成功開始播放
+   */
+  public play(): boolean {
+    try {
+      if (!this.recording) {
+        throw new Error('尚未載入錄音');
+      }
+
+      if (!AudioService.isReady()) {
+        throw new Error('AudioService 未初始化');
+      }
+
+      if (this.control.state === 'playing') {
+        return true;
+      }
+
+      if (this.duration <= 0) {
+        throw new Error('錄音沒有可播放的內容');
+      }
+
+      // 播放結束後重新播放時從頭開始
+      const startPosition = this.control.progress >= 1 ? 0 : this.control.progress * this.duration;
+      this.anchorAt(startPosition);
+
+      this.updateControl({ state: 'playing' });
+      this.startScheduler();
+
+      return true;
+
+    } catch (error) {
+      console.error('開始播放失敗:', error);
+      this.emit('error', {
+        type: ErrorType.AUDIO_PLAYBACK_FAILED,
+        message: `開始播放失敗: ${error}`
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 暫停播放，保留目前進度
+   */
+  public pause(): void {
+    if (this.control.state !== 'playing') {
+      return;
+    }
+
+    const position = this.getPosition();
+    this.haltScheduling();
+
+    this.updateControl({ state: 'paused', progress: this.toProgress(position) });
+  }
+
+  /**
+   * 從暫停處繼續播放
+   *
+   * @returns 是否成功繼續播放
+   */
+  public resume(): boolean {
+    if (this.control.state !== 'paused') {
+      return false;
+    }
+    return this.play();
+  }
+
+  /**
+   * 停止播放並回到起點
+   */
+  public stop(): void {
+    if (this.control.state === 'idle') {
+      return;
+    }
+
+    this.haltScheduling();
+    this.updateControl({ state: 'stopped', progress: 0 });
+  }
+
+  /**
+   * 跳轉到指定進度
+   *
+   * @param progress 播放進度 (0-1)
+   */
+  public seek(progress: number): void {
+    const clampedProgress = Math.max(0, Math.min(1, progress));
+
+    if (this.control.state === 'playing') {
+      this.releaseSoundingNotes();
+      this.anchorAt(clampedProgress * this.duration);
+    }
+
+    this.updateControl({ progress: clampedProgress });
+  }
+
+  /**
+   * 設定播放速度
+   *
+   * @param speed 播放速度倍數 (0.25-2)
+   */
+  public setSpeed(speed: number): void {
+    const clampedSpeed = clampPlaybackSpeed(speed);
+
+    if (this.control.state === 'playing') {
+      // 以目前位置為新錨點，後續事件依新速度排程
+      const position = this.getPosition();
+      this.control.speed = clampedSpeed;
+      this.releaseSoundingNotes();
+      this.anchorAt(position);
+    }
+
+    this.updateControl({ speed: clampedSpeed });
+  }
+
+  /**
+   * 設定是否循環播放
+   *
+   * @param loop 是否循環
+   */
+  public setLoop(loop: boolean): void {
+    this.updateControl({ loop });
+  }
+
+  // ========== 狀態查詢方法 ==========
+
+  /**
+   * 獲取播放控制狀態快照
+   *
+   * @returns 播放控制狀態
+   */
+  public getControl(): PlaybackControl {
+    const progress = this.control.state === 'playing'
+      ? this.toProgress(this.getPosition())
+      : this.control.progress;
+
+    return { ...this.control, progress };
+  }
+
+  /**
+   * 獲取目前載入的錄音
+   *
+   * @returns 錄音資料或 null
+   */
+  public getRecording(): RecordingData | null {
+    return this.recording;
+  }
+
+  /**
+   * 獲取目前的播放位置
+   *
+   * @returns 播放位置 (毫秒)
+   */
+  public getPosition(): number {
+    if (this.control.state !== 'playing') {
+      return this.control.progress * this.duration;
+    }
+
+    const elapsedSeconds = AudioService.getCurrentTime() - this.anchorContextTime;
+    const position = this.anchorPosition + elapsedSeconds * 1000 * this.control.speed;
+    return Math.max(0, Math.min(this.duration, position));
+  }
+
+  /**
+   * 獲取目前的排程錨點
+   * 播放從錨點的 AudioContext 時間才開始發聲 (比呼叫 play 晚一小段時間)，
+   * 需要將其他時間軸 (例如同時錄音) 對齊實際聽到的播放時，以錨點換算且不要截斷
+   *
+   * @returns 錨點的錄音位置 (毫秒) 與對應的 AudioContext 時間 (秒)
+   */
+  public getAnchor(): { position: number; contextTime: number } {
+    return { position: this.anchorPosition, contextTime: this.anchorContextTime };
+  }
+
+  /**
+   * 獲取錄音總時長
+   *
+   * @returns 錄音時長 (毫秒)
+   */
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  // ========== 排程器實作 ==========
+
+  /**
+   * 以指定的錄音位置作為排程錨點
+   *
+   * @param position 錄音位置 (毫秒)
+   */
+  private anchorAt(position: number): void {
+    this.anchorPosition = position;
+    // 預留一小段時間，避免第一個事件落在已經過去的時間點
+    this.anchorContextTime = AudioService.getCurrentTime() + 0.02;
+    this.nextEventIndex = this.events.findIndex(event => event.timestamp >= position);
+    if (this.nextEventIndex < 0) {
+      this.nextEventIndex = this.events.length;
+    }
+
+    // 從中途開始播放時，恢復該位置的踏板狀態
+    const playedEvents: MidiEvent[] = this.events
+      .slice(0, this.nextEventIndex)
+      .filter(event => this.audibleTrackIds.has(event.trackId));
+    const previousSustain = playedEvents.filter(isSustainEvent).pop();
+    if (previousSustain && isSustainDown(previousSustain)) {
+      this.isSustainDown = true;
+      AudioService.setSustain(true, this.anchorContextTime, 'playback');
+    }
+  }
+
+  /**
+   * 預先準備各音軌的音色，避免播放第一個音符時才載入
+   * 準備完成前就開始播放時，AudioService 會等待音色並放棄開始前已收到停止的音符；
+   * 個別音色準備失敗已由 AudioService 回報，這裡只處理非預期的錯誤
+   */
+  private prepareTrackSounds(tracks: RecordingTrack[]): void {
+    const soundTypes = Array.from(new Set(tracks.map(track => track.soundType)));
+    Promise.all(soundTypes.map(soundType => AudioService.prepareSoundType(soundType))).catch(error => {
+      console.error('準備音軌音色失敗:', error);
+      this.emit('error', {
+        type: ErrorType.AUDIO_PLAYBACK_FAILED,
+        message: `準備音軌音色失敗: ${error}`
+      });
+    });
+  }
+
+  /**
+   * 依靜音/獨奏設定更新發聲的音軌
+   */
+  private updateAudibleTracks(tracks: RecordingTrack[]): void {
+    this.audibleTrackIds = new Set(
+      tracks.filter(track => isTrackAudible(track, tracks)).map(track => track.id)
+    );
+  }
+
+  /**
+   * 將錄音位置轉換為 AudioContext 時間
+   */
+  private toContextTime(position: number): number {
+    return this.anchorContextTime + (position - this.anchorPosition) / (1000 * this.control.speed);
+  }
+
+  /**
+   * 將錄音位置轉換為播放進度
+   */
+  private toProgress(position: number): number {
+    return this.duration > 0 ? Math.min(1, position / this.duration) : 0;
+  }
+
+  /**
+   * 啟動排程器
+   */
+  private startScheduler(): void {
+    this.stopScheduler();
+    this.scheduleAhead();
+    this.schedulerTimer = setInterval(() => {
+      this.scheduleAhead();
+    }, PLAYBACK_CONSTANTS.SCHEDULER_INTERVAL_MS);
+  }
+
+  /**
+   * 停止排程器
+   */
+  private stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  /**
+   * 排程前瞻時間窗內的所有事件，並處理循環與播放結束
+   */
+  private scheduleAhead(): void {
+    if (this.control.state !== 'playing' || !this.recording) {
+      return;
+    }
+
+    const now = AudioService.getCurrentTime();
+    const horizon = now + PLAYBACK_CONSTANTS.LOOKAHEAD_SECONDS;
+
+    while (this.nextEventIndex < this.events.length) {
+      const event = this.events[this.nextEventIndex];
+      const when = this.toContextTime(event.timestamp);
+
+      if (when > horizon) {
+        break;
+      }
+
+      this.scheduleEvent(event, when, now);
+      this.nextEventIndex++;
+    }
+
+    const endContextTime = this.toContextTime(this.duration);
+
+    if (this.nextEventIndex >= this.events.length && endContextTime <= horizon) {
+      if (this.control.loop) {
+        // 循環播放：下一輪的起點緊接在本輪結束時間
+        this.anchorPosition = 0;
+        this.anchorContextTime = endContextTime;
+        this.nextEventIndex = 0;
+      } else if (now >= endContextTime) {
+        this.finishPlayback();
+        return;
+      }
+    }
+
+    this.emitProgress();
+  }
+
+  /**
+   * 排程單一 MIDI 事件
+   *
+   * @param event 標記音軌的 MIDI 事件
+   * @param when AudioContext 時間 (秒)
+   * @param now 目前 AudioContext 時間 (秒)
+   */
+  private scheduleEvent(event: PlaybackEvent, when: number, now: number): void {
+    const { trackId } = event;
+    const track = this.recording?.tracks.find(item => item.id === trackId);
+    if (!track || !this.audibleTrackIds.has(trackId)) {
+      return;
+    }
+
+    if (event.type === 'controlChange') {
+      if (isSustainEvent(event)) {
+        this.isSustainDown = isSustainDown(event);
+        AudioService.setSustain(this.isSustainDown, when, 'playback');
+      }
+      return;
+    }
+
+    const { noteId } = event;
+    const key = `${trackId}:${noteId}`;
+
+    if (event.type === 'noteOn' && event.velocity > 0) {
+      this.soundingNotes.set(key, { noteId, trackId });
+      AudioService.startNote(noteId, event.velocity, when, {
+        source: 'playback',
+        channel: trackId,
+        soundType: track.soundType,
+        volume: track.volume,
+      }).catch(error => {
+        console.error(`播放排程音符失敗: ${noteId}`, error);
+      });
+      this.scheduleVisual(when - now, () => this.emit('noteOn', { noteId, velocity: event.velocity }));
+    } else if (this.soundingNotes.delete(key)) {
+      AudioService.stopNote(noteId, when, trackId).catch(error => {
+        console.error(`停止排程音符失敗: ${noteId}`, error);
+      });
+      this.scheduleVisual(when - now, () => this.emit('noteOff', { noteId }));
+    }
+  }
+
+  /**
+   * 在音符實際發聲的時間點執行畫面更新
+   *
+   * @param delaySeconds 距離現在的秒數
+   * @param callback 回調函數
+   */
+  private scheduleVisual(delaySeconds: number, callback: () => void): void {
+    const timer = setTimeout(() => {
+      this.visualTimers.delete(timer);
+      callback();
+    }, Math.max(0, delaySeconds * 1000));
+    this.visualTimers.add(timer);
+  }
+
+  /**
+   * 播放自然結束
+   */
+  private finishPlayback(): void {
+    const recordingId = this.recording?.id ?? '';
+
+    this.haltScheduling();
+    this.updateControl({ state: 'stopped', progress: 1 });
+    this.emit('progress', { progress: 1, position: this.duration, duration: this.duration });
+    this.emit('ended', { recordingId });
+  }
+
+  /**
+   * 停止排程並釋放所有播放中的音符
+   */
+  private haltScheduling(): void {
+    this.stopScheduler();
+    this.releaseSoundingNotes();
+  }
+
+  /**
+   * 釋放由播放服務觸發的所有音符與待執行的畫面更新
+   */
+  private releaseSoundingNotes(): void {
+    this.visualTimers.forEach(timer => clearTimeout(timer));
+    this.visualTimers.clear();
+
+    this.soundingNotes.forEach(({ noteId, trackId }) => {
+      AudioService.stopNote(noteId, undefined, trackId);
+      this.emit('noteOff', { noteId });
+    });
+    this.soundingNotes.clear();
+
+    if (this.isSustainDown) {
+      this.isSustainDown = false;
+      AudioService.setSustain(false, undefined, 'playback');
+    }
+  }
+
+  /**
+   * 依節流間隔發送進度事件
+   */
+  private emitProgress(): void {
+    const now = Date.now();
+    if (now - this.lastProgressEmit < PLAYBACK_CONSTANTS.PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    this.lastProgressEmit = now;
+
+    const position = this.getPosition();
+    this.emit('progress', {
+      progress: this.toProgress(position),
+      position,
+      duration: this.duration,
+    });
+  }
+
+  /**
+   * 更新播放控制狀態並發送事件
+   */
+  private updateControl(changes: Partial<PlaybackControl>): void {
+    this.control = { ...this.control, ...changes };
+    this.emit('stateChange', { ...this.control });
+  }
+
+  // ========== 事件管理方法 ==========
+
+  /**
+   * 註冊事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public addEventListener<T extends keyof PlaybackServiceEvents>(
+    eventType: T,
+    listener: PlaybackServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.add(listener);
+    }
+  }
+
+  /**
+   * 移除事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public removeEventListener<T extends keyof PlaybackServiceEvents>(
+    eventType: T,
+    listener: PlaybackServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(listener);
+    }
+  }
+
+  /**
+   * 發送事件
+   *
+   * @param eventType 事件類型
+   * @param eventData 事件資料
+   */
+  private emit<T extends keyof PlaybackServiceEvents>(
+    eventType: T,
+    eventData: PlaybackServiceEvents[T]
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach(listener => {
+        try {
+          (listener as PlaybackServiceEventListener<T>)(eventData);
+        } catch (error) {
+          console.error(`事件監聽器執行失敗: ${eventType}`, error);
+        }
+      });
+    }
+  }
+}
+
+// ========== 導出服務實例 ==========
+
+/**
+ * 導出播放服務單例實例
+ */
+export default PlaybackService.getInstance();
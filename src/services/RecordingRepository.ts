@@ -0,0 +1,675 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音資料儲存庫
+ *
+ * 本文件實作了以 AsyncStorage 為後端的錄音資料庫，負責錄音的
+ * 序列化、列表、重新命名、複製與刪除，並透過資料結構版本號
+ * 在讀取舊資料時自動執行遷移。所有儲存錯誤皆以 AppError
+ * (ErrorType.STORAGE_FAILED) 的形式拋出。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type {
+  MidiEvent,
+  RecordingData,
+  RecordingSummary,
+  RecordingTrack,
+  TimeSignature,
+  TransposeSettings,
+} from '../types';
+import { ErrorType } from '../types';
+
+import { createAppError, toAppError } from '../utils/appError';
+import { normalizeTranspose } from '../utils/transpose';
+import { clampBpm, normalizeTimeSignature } from '../utils/metronome';
+import {
+  TRACK_CONSTANTS,
+  clampTrackVolume,
+  createDefaultTrackName,
+  createTrack,
+  generateTrackId,
+  getRecordingEventCount,
+} from '../utils/recordingTracks';
+import { SOUND_TYPES } from './instruments';
+import { generateRecordingId } from './RecordingService';
+
+// ========== 常數定義 ==========
+
+/**
+ * 目前的錄音資料結構版本
+ * 每次變更儲存格式時遞增，並在 RECORDING_MIGRATIONS 中加入對應的遷移函數
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * AsyncStorage 鍵值設定
+ */
+const STORAGE_KEYS = {
+  /** 錄音庫的資料結構版本 */
+  schemaVersion: '@simple_piano/schema_version',
+  /** 錄音摘要索引 */
+  index: '@simple_piano/recordings_index',
+  /** 單筆錄音資料的鍵值前綴 */
+  recordingPrefix: '@simple_piano/recording/',
+} as const;
+
+// ========== 儲存格式定義 ==========
+
+/**
+ * 儲存於 AsyncStorage 的錄音格式 (目前版本 v2)
+ * 日期欄位以 ISO 字串保存
+ */
+interface StoredRecording {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  duration: number;
+  tracks: RecordingTrack[];
+  transpose?: TransposeSettings;
+  tempo?: number;
+  timeSignature?: TimeSignature;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * v1 錄音格式：單一事件序列，尚未分成音軌
+ */
+interface StoredRecordingV1 extends Omit<StoredRecording, 'schemaVersion' | 'tracks'> {
+  schemaVersion?: number;
+  events: MidiEvent[];
+}
+
+/**
+ * v0 錄音格式：未標記版本的早期資料，除了識別碼之外的欄位都可能缺少或格式不一
+ */
+interface StoredRecordingV0 {
+  id: string | number;
+  name?: unknown;
+  duration?: unknown;
+  events?: unknown;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+/**
+ * 儲存於索引中的錄音摘要格式
+ */
+interface StoredRecordingSummary {
+  id: string;
+  name: string;
+  duration: number;
+  eventCount: number;
+  trackCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 資料結構遷移函數
+ * 接收從儲存空間讀出的前一版本資料，檢查格式後返回目標版本的資料
+ */
+type RecordingMigration<T> = (record: unknown) => T;
+
+// ========== 儲存格式檢查 ==========
+
+/**
+ * 檢查是否為一般物件
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 檢查是否為 v0 錄音格式
+ */
+function isStoredRecordingV0(value: unknown): value is StoredRecordingV0 {
+  return isRecord(value) && (typeof value.id === 'string' || typeof value.id === 'number');
+}
+
+/**
+ * 檢查是否為 v1 錄音格式
+ */
+function isStoredRecordingV1(value: unknown): value is StoredRecordingV1 {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.duration === 'number'
+    && Array.isArray(value.events)
+    && typeof value.createdAt === 'string'
+    && typeof value.updatedAt === 'string';
+}
+
+/**
+ * 檢查是否為目前版本的錄音格式
+ * 音軌內的欄位在讀取時由 normalizeStoredTrack 補齊
+ */
+function isStoredRecording(value: unknown): value is StoredRecording {
+  return isRecord(value)
+    && value.schemaVersion === CURRENT_SCHEMA_VERSION
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.duration === 'number'
+    && Array.isArray(value.tracks)
+    && value.tracks.every(isRecord)
+    && typeof value.createdAt === 'string'
+    && typeof value.updatedAt === 'string';
+}
+
+/**
+ * 檢查是否為索引中的錄音摘要格式
+ */
+function isStoredRecordingSummary(value: unknown): value is StoredRecordingSummary {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.duration === 'number'
+    && typeof value.eventCount === 'number'
+    && typeof value.trackCount === 'number'
+    && typeof value.createdAt === 'string'
+    && typeof value.updatedAt === 'string';
+}
+
+// ========== 資料結構遷移 ==========
+
+/**
+ * 將任意日期表示法轉換為 ISO 字串
+ *
+ * @param value 日期值 (Date、時間戳或日期字串)
+ * @param fallback 無法解析時使用的日期
+ * @returns ISO 日期字串
+ */
+function normalizeDateValue(value: unknown, fallback: Date): string {
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'string') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return fallback.toISOString();
+}
+
+/**
+ * v0 → v1：未標記版本的早期資料
+ * 補齊缺少的欄位，並將日期統一為 ISO 字串
+ */
+const migrateV0ToV1: RecordingMigration<StoredRecordingV1> = (record) => {
+  if (!isStoredRecordingV0(record)) {
+    throw new Error('錄音資料格式錯誤 (v0)：缺少錄音識別碼');
+  }
+
+  const now = new Date();
+  const events: MidiEvent[] = Array.isArray(record.events) ? record.events : [];
+  const lastTimestamp = events.reduce((max, event) => Math.max(max, event.timestamp ?? 0), 0);
+
+  return {
+    schemaVersion: 1,
+    id: String(record.id),
+    name: typeof record.name === 'string' && record.name.trim() ? record.name : '未命名錄音',
+    duration: typeof record.duration === 'number' ? record.duration : lastTimestamp,
+    events,
+    createdAt: normalizeDateValue(record.createdAt, now),
+    updatedAt: normalizeDateValue(record.updatedAt ?? record.createdAt, now),
+  };
+};
+
+/**
+ * v1 → v2：多音軌錄音
+ * 原本的事件序列成為唯一的音軌，以鋼琴音色、預設音量播放
+ */
+const migrateV1ToV2: RecordingMigration<StoredRecording> = (record) => {
+  if (!isStoredRecordingV1(record)) {
+    throw new Error('錄音資料格式錯誤 (v1)');
+  }
+
+  const { events, ...rest } = record;
+  return {
+    ...rest,
+    schemaVersion: 2,
+    tracks: [createTrack(createDefaultTrackName(0), events)],
+  };
+};
+
+/**
+ * 錄音資料遷移表
+ * 鍵值為遷移後的目標版本
+ */
+const RECORDING_MIGRATIONS: Record<number, RecordingMigration<StoredRecordingV1 | StoredRecording>> = {
+  1: migrateV0ToV1,
+  2: migrateV1ToV2,
+};
+
+/**
+ * 取得儲存資料標記的結構版本，未標記時為 v0
+ */
+function getStoredSchemaVersion(raw: unknown): number {
+  return isRecord(raw) && typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+}
+
+/**
+ * 將儲存的錄音資料遷移至目前版本
+ *
+ * @param raw 從儲存空間讀出的原始資料
+ * @returns 目前版本的錄音資料
+ */
+function migrateStoredRecording(raw: unknown): StoredRecording {
+  let version = getStoredSchemaVersion(raw);
+  let record: unknown = raw;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`錄音資料版本 (${version}) 高於應用程式支援的版本 (${CURRENT_SCHEMA_VERSION})`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = RECORDING_MIGRATIONS[version + 1];
+    if (!migration) {
+      throw new Error(`缺少資料結構遷移: v${version} → v${version + 1}`);
+    }
+    record = migration(record);
+    version += 1;
+  }
+
+  if (!isStoredRecording(record)) {
+    throw new Error(`錄音資料格式錯誤 (v${CURRENT_SCHEMA_VERSION})`);
+  }
+  return record;
+}
+
+// ========== 序列化工具 ==========
+
+/**
+ * 檢查儲存的音軌設定，缺少或無效的欄位使用預設值
+ *
+ * @param track 儲存的音軌
+ * @param index 音軌索引，用於產生預設名稱
+ * @returns RecordingTrack 有效的音軌
+ */
+function normalizeStoredTrack(track: Partial<RecordingTrack>, index: number): RecordingTrack {
+  return {
+    id: typeof track.id === 'string' && track.id ? track.id : generateTrackId(),
+    name: typeof track.name === 'string' && track.name.trim() ? track.name : createDefaultTrackName(index),
+    soundType: track.soundType && SOUND_TYPES.includes(track.soundType)
+      ? track.soundType
+      : TRACK_CONSTANTS.DEFAULT_SOUND_TYPE,
+    volume: clampTrackVolume(track.volume ?? TRACK_CONSTANTS.DEFAULT_VOLUME),
+    muted: track.muted === true,
+    solo: track.solo === true,
+    events: Array.isArray(track.events) ? track.events : [],
+  };
+}
+
+/**
+ * 將錄音資料轉換為儲存格式
+ */
+function serializeRecording(recording: RecordingData): StoredRecording {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: recording.id,
+    name: recording.name,
+    duration: recording.duration,
+    tracks: recording.tracks,
+    ...(recording.transpose ? { transpose: recording.transpose } : {}),
+    ...(recording.tempo ? { tempo: recording.tempo } : {}),
+    ...(recording.timeSignature ? { timeSignature: recording.timeSignature } : {}),
+    createdAt: recording.createdAt.toISOString(),
+    updatedAt: recording.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * 將儲存格式轉換為錄音資料
+ */
+function deserializeRecording(stored: StoredRecording): RecordingData {
+  return {
+    id: stored.id,
+    name: stored.name,
+    duration: stored.duration,
+    tracks: stored.tracks.length > 0
+      ? stored.tracks.map(normalizeStoredTrack)
+      : [createTrack(createDefaultTrackName(0))],
+    ...(stored.transpose ? { transpose: normalizeTranspose(stored.transpose) } : {}),
+    ...(stored.tempo ? { tempo: clampBpm(stored.tempo) } : {}),
+    ...(stored.timeSignature ? { timeSignature: normalizeTimeSignature(stored.timeSignature) } : {}),
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+/**
+ * 由儲存格式建立索引摘要
+ */
+function toStoredSummary(stored: StoredRecording): StoredRecordingSummary {
+  return {
+    id: stored.id,
+    name: stored.name,
+    duration: stored.duration,
+    eventCount: getRecordingEventCount(stored),
+    trackCount: stored.tracks.length,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+  };
+}
+
+/**
+ * 將索引摘要轉換為錄音摘要
+ */
+function deserializeSummary(stored: StoredRecordingSummary): RecordingSummary {
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+/**
+ * 取得單筆錄音的儲存鍵值
+ */
+function getRecordingKey(id: string): string {
+  return `${STORAGE_KEYS.recordingPrefix}${id}`;
+}
+
+// ========== 錄音儲存庫類別 ==========
+
+/**
+ * 錄音儲存庫單例類別
+ * 負責錄音資料的持久化與資料結構遷移
+ */
+export class RecordingRepository {
+  private static instance: RecordingRepository | null = null;
+
+  // 資料結構遷移只需執行一次
+  private migrationPromise: Promise<void> | null = null;
+
+  // 寫入佇列，確保索引的讀取-修改-寫入不會互相覆蓋
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  // ========== 單例模式實作 ==========
+
+  /**
+   * 獲取錄音儲存庫實例
+   */
+  public static getInstance(): RecordingRepository {
+    if (!RecordingRepository.instance) {
+      RecordingRepository.instance = new RecordingRepository();
+    }
+    return RecordingRepository.instance;
+  }
+
+  /**
+   * 私有建構函數，防止直接實例化
+   */
+  private constructor() {}
+
+  // ========== 公開 API ==========
+
+  /**
+   * 列出所有錄音摘要，依最後修改時間由新到舊排序
+   *
+   * @returns Promise<RecordingSummary[]> 錄音摘要列表
+   */
+  public async listRecordings(): Promise<RecordingSummary[]> {
+    return this.withStorageErrors('讀取錄音列表失敗', async () => {
+      await this.ensureMigrated();
+      const index = await this.readIndex();
+
+      return index
+        .map(deserializeSummary)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    });
+  }
+
+  /**
+   * 讀取完整的錄音資料
+   *
+   * @param id 錄音ID
+   * @returns Promise<RecordingData | null> 錄音資料，不存在時為 null
+   */
+  public async getRecording(id: string): Promise<RecordingData | null> {
+    return this.withStorageErrors(`讀取錄音失敗: ${id}`, async () => {
+      await this.ensureMigrated();
+      const stored = await this.readStoredRecording(id);
+      return stored ? deserializeRecording(stored) : null;
+    });
+  }
+
+  /**
+   * 儲存錄音資料（新增或覆寫）
+   *
+   * @param recording 錄音資料
+   * @returns Promise<void>
+   */
+  public async saveRecording(recording: RecordingData): Promise<void> {
+    return this.withStorageErrors(`儲存錄音失敗: ${recording.id}`, async () => {
+      await this.ensureMigrated();
+      await this.enqueueWrite(() => this.writeRecording(serializeRecording(recording)));
+    });
+  }
+
+  /**
+   * 重新命名錄音
+   *
+   * @param id 錄音ID
+   * @param name 新名稱
+   * @returns Promise<RecordingData> 更新後的錄音資料
+   */
+  public async renameRecording(id: string, name: string): Promise<RecordingData> {
+    return this.withStorageErrors(`重新命名錄音失敗: ${id}`, async () => {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw createAppError(ErrorType.STORAGE_FAILED, '錄音名稱不可為空白');
+      }
+
+      await this.ensureMigrated();
+
+      return this.enqueueWrite(async () => {
+        const stored = await this.requireStoredRecording(id);
+        const renamed: StoredRecording = {
+          ...stored,
+          name: trimmedName,
+          updatedAt: new Date().toISOString(),
+        };
+
+        await this.writeRecording(renamed);
+        return deserializeRecording(renamed);
+      });
+    });
+  }
+
+  /**
+   * 複製錄音
+   *
+   * @param id 來源錄音ID
+   * @param name 副本名稱，未提供時使用「原名稱 (副本)」
+   * @returns Promise<RecordingData> 新建立的錄音資料
+   */
+  public async duplicateRecording(id: string, name?: string): Promise<RecordingData> {
+    return this.withStorageErrors(`複製錄音失敗: ${id}`, async () => {
+      await this.ensureMigrated();
+
+      return this.enqueueWrite(async () => {
+        const stored = await this.requireStoredRecording(id);
+        const now = new Date().toISOString();
+        const duplicate: StoredRecording = {
+          ...stored,
+          id: generateRecordingId(),
+          name: name?.trim() || `${stored.name} (副本)`,
+          tracks: stored.tracks.map(track => ({
+            ...track,
+            events: track.events.map(event => ({ ...event })),
+          })),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await this.writeRecording(duplicate);
+        return deserializeRecording(duplicate);
+      });
+    });
+  }
+
+  /**
+   * 刪除錄音
+   *
+   * @param id 錄音ID
+   * @returns Promise<boolean> 是否確實刪除了錄音
+   */
+  public async deleteRecording(id: string): Promise<boolean> {
+    return this.withStorageErrors(`刪除錄音失敗: ${id}`, async () => {
+      await this.ensureMigrated();
+
+      return this.enqueueWrite(async () => {
+        const index = await this.readIndex();
+        const nextIndex = index.filter(summary => summary.id !== id);
+
+        await AsyncStorage.removeItem(getRecordingKey(id));
+        await AsyncStorage.setItem(STORAGE_KEYS.index, JSON.stringify(nextIndex));
+
+        return nextIndex.length !== index.length;
+      });
+    });
+  }
+
+  // ========== 資料結構遷移 ==========
+
+  /**
+   * 確保錄音庫已遷移至目前的資料結構版本
+   */
+  private ensureMigrated(): Promise<void> {
+    if (!this.migrationPromise) {
+      this.migrationPromise = this.enqueueWrite(() => this.migrateLibrary()).catch(error => {
+        // 遷移失敗時允許下次重試
+        this.migrationPromise = null;
+        throw error;
+      });
+    }
+    return this.migrationPromise;
+  }
+
+  /**
+   * 將所有已儲存的錄音遷移至目前版本並重建索引
+   */
+  private async migrateLibrary(): Promise<void> {
+    const storedVersion = await AsyncStorage.getItem(STORAGE_KEYS.schemaVersion);
+    const libraryVersion = storedVersion ? parseInt(storedVersion, 10) : 0;
+
+    if (libraryVersion === CURRENT_SCHEMA_VERSION) {
+      return;
+    }
+
+    console.log(`遷移錄音庫資料結構: v${libraryVersion} → v${CURRENT_SCHEMA_VERSION}`);
+
+    const allKeys = await AsyncStorage.getAllKeys();
+    const recordingKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.recordingPrefix));
+    const entries = await AsyncStorage.multiGet(recordingKeys);
+
+    const migratedRecords: StoredRecording[] = [];
+    entries.forEach(([key, value]) => {
+      if (!value) return;
+      try {
+        migratedRecords.push(migrateStoredRecording(JSON.parse(value)));
+      } catch (error) {
+        // 單筆損毀的資料不應阻擋整個錄音庫的遷移
+        console.warn(`略過無法遷移的錄音: ${key}`, error);
+      }
+    });
+
+    await AsyncStorage.multiSet([
+      ...migratedRecords.map(record => [
+        getRecordingKey(record.id),
+        JSON.stringify(record),
+      ] as [string, string]),
+      [STORAGE_KEYS.index, JSON.stringify(migratedRecords.map(toStoredSummary))],
+      [STORAGE_KEYS.schemaVersion, String(CURRENT_SCHEMA_VERSION)],
+    ]);
+
+    console.log(`錄音庫遷移完成，共 ${migratedRecords.length} 筆錄音`);
+  }
+
+  // ========== 內部讀寫方法 ==========
+
+  /**
+   * 讀取錄音索引
+   */
+  private async readIndex(): Promise<StoredRecordingSummary[]> {
+    const value = await AsyncStorage.getItem(STORAGE_KEYS.index);
+    if (!value) {
+      return [];
+    }
+
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(isStoredRecordingSummary) : [];
+  }
+
+  /**
+   * 讀取單筆錄音的儲存格式，必要時即時遷移
+   */
+  private async readStoredRecording(id: string): Promise<StoredRecording | null> {
+    const value = await AsyncStorage.getItem(getRecordingKey(id));
+    return value ? migrateStoredRecording(JSON.parse(value)) : null;
+  }
+
+  /**
+   * 讀取單筆錄音，不存在時拋出錯誤
+   */
+  private async requireStoredRecording(id: string): Promise<StoredRecording> {
+    const stored = await this.readStoredRecording(id);
+    if (!stored) {
+      throw createAppError(ErrorType.STORAGE_FAILED, `找不到錄音: ${id}`);
+    }
+    return stored;
+  }
+
+  /**
+   * 寫入單筆錄音並同步更新索引
+   * 必須在寫入佇列中呼叫
+   */
+  private async writeRecording(stored: StoredRecording): Promise<void> {
+    const index = await this.readIndex();
+    const summary = toStoredSummary(stored);
+    const existingIndex = index.findIndex(item => item.id === stored.id);
+
+    if (existingIndex >= 0) {
+      index[existingIndex] = summary;
+    } else {
+      index.push(summary);
+    }
+
+    await AsyncStorage.multiSet([
+      [getRecordingKey(stored.id), JSON.stringify(stored)],
+      [STORAGE_KEYS.index, JSON.stringify(index)],
+    ]);
+  }
+
+  /**
+   * 將寫入操作排入佇列依序執行
+   */
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    // 佇列本身不因單一操作失敗而中斷
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 執行儲存操作，並將任何錯誤轉換為 STORAGE_FAILED 類型的 AppError
+   */
+  private async withStorageErrors<T>(message: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error(message, error);
+      throw toAppError(error, ErrorType.STORAGE_FAILED, `${message}: ${error}`);
+    }
+  }
+}
+
+// ========== 導出儲存庫實例 ==========
+
+/**
+ * 導出錄音儲存庫單例實例
+ */
+export default RecordingRepository.getInstance();
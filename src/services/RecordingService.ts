@@ -0,0 +1,539 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音服務層
+ *
+ * 本文件實作了鍵盤演奏的錄音服務，透過監聽 AudioService 的
+ * noteStart / noteEnd / sustainChange 事件，將每次按鍵與踏板轉換為
+ * 帶有相對時間戳的 MIDI 事件序列，並在錄音結束時產生只有一個音軌的 RecordingData。
+ * 只記錄鍵盤演奏，錄音播放的音符與踏板不會被錄進去，因此可以邊聽既有音軌邊疊錄。
+ * 錄音可暫停與繼續，暫停的時間不計入事件時間戳與錄音長度。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  NoteId,
+  MidiEvent,
+  MidiEventType,
+  RecordingData,
+  RecordingServiceState,
+  TransposeSettings,
+  TimeSignature,
+} from '../types';
+import { ErrorType } from '../types';
+
+import { createSustainEvent } from '../utils/midiFile';
+import { createTrack, createDefaultTrackName, getRecordingEventCount } from '../utils/recordingTracks';
+import AudioService, { AudioServiceEventListener } from './AudioService';
+
+// ========== 類型定義 ==========
+
+/**
+ * 錄音服務事件類型
+ */
+export interface RecordingServiceEvents {
+  stateChange: RecordingServiceState;
+  eventRecorded: MidiEvent;
+  error: { type: ErrorType; message: string };
+}
+
+/**
+ * 錄音服務事件監聽器類型
+ */
+export type RecordingServiceEventListener<T extends keyof RecordingServiceEvents> =
+  (event: RecordingServiceEvents[T]) => void;
+
+// ========== 工具函數 ==========
+
+/**
+ * 產生錄音唯一標識
+ *
+ * @returns 錄音ID，例如 "recording_1700000000000_k3j9x2"
+ */
+export function generateRecordingId(): string {
+  const randomSuffix = Math.random().toString(36).slice(2, 8);
+  return `recording_${Date.now()}_${randomSuffix}`;
+}
+
+/**
+ * 產生預設錄音名稱
+ *
+ * @param date 錄音建立時間
+ * @returns 錄音名稱，例如 "錄音 2025/08/31 14:05"
+ */
+export function createDefaultRecordingName(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const datePart = `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+  const timePart = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return `錄音 ${datePart} ${timePart}`;
+}
+
+// ========== 錄音服務類別 ==========
+
+/**
+ * 錄音服務單例類別
+ * 負責擷取鍵盤演奏並建立錄音資料
+ */
+export class RecordingService {
+  private static instance: RecordingService | null = null;
+
+  // 錄音狀態
+  private state: RecordingServiceState = {
+    state: 'idle',
+    currentRecording: null,
+    startTime: 0,
+    elapsedTime: 0,
+  };
+
+  // 錄音中仍被按住的音符，用於停止錄音時補上 noteOff
+  private heldNotes: Set<NoteId> = new Set();
+
+  // 錄音中延音踏板是否踩下，用於停止錄音時補上放開踏板
+  private isSustainDown: boolean = false;
+
+  // 暫停開始的時間 (毫秒)，未暫停時為 null
+  private pausedAt: number | null = null;
+
+  // 已結束的暫停累計時長 (毫秒)
+  private pausedTotal: number = 0;
+
+  // 事件監聽器
+  private eventListeners: Map<keyof RecordingServiceEvents, Set<Function>> = new Map();
+
+  // AudioService 事件處理器（保留參照以便移除監聽）
+  // 只處理鍵盤演奏 (live) 的事件，忽略錄音播放
+  private readonly handleAudioNoteStart: AudioServiceEventListener<'noteStart'> = (event) => {
+    if (event.source === 'live') {
+      this.recordEvent('noteOn', event.noteId, event.velocity, event.timestamp);
+    }
+  };
+
+  private readonly handleAudioNoteEnd: AudioServiceEventListener<'noteEnd'> = (event) => {
+    if (event.source === 'live') {
+      this.recordEvent('noteOff', event.noteId, 0, event.timestamp);
+    }
+  };
+
+  private readonly handleAudioSustainChange: AudioServiceEventListener<'sustainChange'> = (event) => {
+    if (event.source === 'live') {
+      this.recordSustain(event.active, event.timestamp);
+    }
+  };
+
+  // ========== 單例模式實作 ==========
+
+  /**
+   * 獲取錄音服務實例
+   */
+  public static getInstance(): RecordingService {
+    if (!RecordingService.instance) {
+      RecordingService.instance = new RecordingService();
+    }
+    return RecordingService.instance;
+  }
+
+  /**
+   * 私有建構函數，防止直接實例化
+   */
+  private constructor() {
+    this.initializeEventListeners();
+  }
+
+  /**
+   * 初始化事件監聽器映射
+   */
+  private initializeEventListeners(): void {
+    const eventTypes: (keyof RecordingServiceEvents)[] = [
+      'stateChange', 'eventRecorded', 'error'
+    ];
+
+    eventTypes.forEach(eventType => {
+      this.eventListeners.set(eventType, new Set());
+    });
+  }
+
+  // ========== 錄音控制方法 ==========
+
+  /**
+   * 開始錄音
+   *
+   * @param name 可選的錄音名稱，未提供時使用建立時間產生
+   * @param transpose 鍵盤目前的移調設定，記錄於錄音中 (音符事件本身為實際發聲的音高)
+   * @param beatGrid 節拍器的速度與拍號，錄音起點應與節拍器的小節第一拍對齊
+   * @param trackName 錄音音軌的名稱，未提供時為「音軌 1」
+   * @returns 是否成功開始錄音
+   */
+  public startRecording(
+    name?: string,
+    transpose?: TransposeSettings,
+    beatGrid?: { tempo: number; timeSignature: TimeSignature },
+    trackName?: string
+  ): boolean {
+    try {
+      if (this.state.state === 'recording' || this.state.state === 'paused') {
+        console.warn('RecordingService 已在錄音中');
+        return false;
+      }
+
+      const now = new Date();
+
+      this.state = {
+        state: 'recording',
+        currentRecording: {
+          id: generateRecordingId(),
+          name: name ?? createDefaultRecordingName(now),
+          duration: 0,
+          // 音軌以目前鍵盤的音色播放
+          tracks: [createTrack(trackName ?? createDefaultTrackName(0), [], AudioService.getSoundType())],
+          ...(transpose ? { transpose: { ...transpose } } : {}),
+          ...(beatGrid ? { tempo: beatGrid.tempo, timeSignature: { ...beatGrid.timeSignature } } : {}),
+          createdAt: now,
+          updatedAt: now,
+        },
+        startTime: now.getTime(),
+        elapsedTime: 0,
+      };
+      this.heldNotes.clear();
+      this.isSustainDown = false;
+      this.pausedAt = null;
+      this.pausedTotal = 0;
+
+      // 錄音開始時踏板已踩下，於起點記錄踩下
+      if (AudioService.isSustainOn('live')) {
+        this.recordSustain(true, now.getTime());
+      }
+
+      // 訂閱音頻服務的音符與踏板事件
+      AudioService.addEventListener('noteStart', this.handleAudioNoteStart);
+      AudioService.addEventListener('noteEnd', this.handleAudioNoteEnd);
+      AudioService.addEventListener('sustainChange', this.handleAudioSustainChange);
+
+      console.log(`開始錄音: ${this.state.currentRecording!.id}`);
+      this.emit('stateChange', this.getState());
+
+      return true;
+
+    } catch (error) {
+      console.error('開始錄音失敗:', error);
+      this.emit('error', {
+        type: ErrorType.RECORDING_FAILED,
+        message: `開始錄音失敗: ${error}`
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 停止錄音並產生錄音資料
+   *
+   * @returns 完成的錄音資料，若未在錄音中則為 null
+   */
+  public stopRecording(): RecordingData | null {
+    try {
+      const recording = this.state.currentRecording;
+
+      if ((this.state.state !== 'recording' && this.state.state !== 'paused') || !recording) {
+        return null;
+      }
+
+      // 取消訂閱音頻服務事件
+      AudioService.removeEventListener('noteStart', this.handleAudioNoteStart);
+      AudioService.removeEventListener('noteEnd', this.handleAudioNoteEnd);
+      AudioService.removeEventListener('sustainChange', this.handleAudioSustainChange);
+
+      const stopTime = Date.now();
+      const duration = this.getElapsedTime();
+
+      this.releaseHeld(duration);
+      this.pausedAt = null;
+      this.pausedTotal = 0;
+
+      const completedRecording: RecordingData = {
+        ...recording,
+        duration,
+        tracks: recording.tracks.map(track => ({ ...track, events: [...track.events] })),
+        updatedAt: new Date(stopTime),
+      };
+
+      this.state = {
+        state: 'idle',
+        currentRecording: null,
+        startTime: 0,
+        elapsedTime: 0,
+      };
+
+      console.log(`錄音結束: ${completedRecording.id}，共 ${getRecordingEventCount(completedRecording)} 個事件，時長 ${duration}ms`);
+      this.emit('stateChange', this.getState());
+
+      return completedRecording;
+
+    } catch (error) {
+      console.error('停止錄音失敗:', error);
+      this.emit('error', {
+        type: ErrorType.RECORDING_FAILED,
+        message: `停止錄音失敗: ${error}`
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 暫停錄音
+   * 仍被按住的音符與踏板在暫停點結束，暫停期間的演奏不會被記錄
+   *
+   * @returns 是否成功暫停
+   */
+  public pauseRecording(): boolean {
+    if (this.state.state !== 'recording' || !this.state.currentRecording) {
+      return false;
+    }
+
+    const elapsedTime = this.getElapsedTime();
+    this.releaseHeld(elapsedTime);
+    this.pausedAt = Date.now();
+    this.state = { ...this.state, state: 'paused', elapsedTime };
+
+    this.emit('stateChange', this.getState());
+    return true;
+  }
+
+  /**
+   * 從暫停處繼續錄音
+   * 繼續時踏板仍踩下則於繼續點記錄踩下
+   *
+   * @returns 是否成功繼續
+   */
+  public resumeRecording(): boolean {
+    if (this.state.state !== 'paused' || this.pausedAt === null) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.pausedTotal += now - this.pausedAt;
+    this.pausedAt = null;
+    this.state = { ...this.state, state: 'recording' };
+
+    if (AudioService.isSustainOn('live')) {
+      this.recordSustain(true, now);
+    }
+
+    this.emit('stateChange', this.getState());
+    return true;
+  }
+
+  /**
+   * 記錄一個 MIDI 事件
+   *
+   * @param type 事件類型
+   * @param noteId 音符ID
+   * @param velocity 力度 (0-127)
+   * @param timestamp 事件發生的絕對時間 (毫秒)，預設為當前時間
+   */
+  public recordEvent(
+    type: MidiEventType,
+    noteId: NoteId,
+    velocity: number,
+    timestamp: number = Date.now()
+  ): void {
+    const events = this.getTakeEvents();
+
+    if (this.state.state !== 'recording' || !events) {
+      return;
+    }
+
+    // 忽略沒有對應 noteOn 的 noteOff（例如錄音開始前按下的琴鍵）
+    if (type === 'noteOff' && !this.heldNotes.has(noteId)) {
+      return;
+    }
+
+    if (type === 'noteOn') {
+      this.heldNotes.add(noteId);
+    } else {
+      this.heldNotes.delete(noteId);
+    }
+
+    const midiEvent: MidiEvent = {
+      type,
+      noteId,
+      timestamp: this.toRecordingTime(timestamp),
+      velocity: Math.round(Math.max(0, Math.min(127, velocity))),
+    };
+
+    events.push(midiEvent);
+    this.emit('eventRecorded', midiEvent);
+  }
+
+  /**
+   * 記錄延音踏板事件 (控制器 64)
+   *
+   * @param isDown 是否踩下
+   * @param timestamp 事件發生的絕對時間 (毫秒)，預設為當前時間
+   */
+  public recordSustain(isDown: boolean, timestamp: number = Date.now()): void {
+    const events = this.getTakeEvents();
+
+    if (this.state.state !== 'recording' || !events || isDown === this.isSustainDown) {
+      return;
+    }
+
+    this.isSustainDown = isDown;
+
+    const midiEvent = createSustainEvent(isDown, this.toRecordingTime(timestamp));
+    events.push(midiEvent);
+    this.emit('eventRecorded', midiEvent);
+  }
+
+  /**
+   * 取得錄音中音軌的事件序列
+   *
+   * @returns MidiEvent[] | null 未在錄音時為 null
+   */
+  private getTakeEvents(): MidiEvent[] | null {
+    return this.state.currentRecording?.tracks[0]?.events ?? null;
+  }
+
+  /**
+   * 將絕對時間換算為錄音時間軸上的時間 (扣除已結束的暫停)
+   *
+   * @param timestamp 絕對時間 (毫秒)
+   * @returns number 相對於錄音起點的時間 (毫秒)
+   */
+  private toRecordingTime(timestamp: number): number {
+    return Math.max(0, timestamp - this.state.startTime - this.pausedTotal);
+  }
+
+  /**
+   * 為仍被按住的音符與踩下的踏板補上結束事件，確保每個 noteOn 都有對應結束
+   *
+   * @param time 錄音時間軸上的結束時間 (毫秒)
+   */
+  private releaseHeld(time: number): void {
+    const events = this.getTakeEvents();
+    if (!events) {
+      return;
+    }
+
+    this.heldNotes.forEach(noteId => {
+      events.push({
+        type: 'noteOff',
+        noteId,
+        timestamp: time,
+        velocity: 0,
+      });
+    });
+    this.heldNotes.clear();
+
+    if (this.isSustainDown) {
+      events.push(createSustainEvent(false, time));
+      this.isSustainDown = false;
+    }
+  }
+
+  // ========== 狀態查詢方法 ==========
+
+  /**
+   * 獲取錄音服務狀態快照
+   *
+   * @returns 錄音服務狀態
+   */
+  public getState(): RecordingServiceState {
+    return {
+      ...this.state,
+      elapsedTime: this.getElapsedTime(),
+    };
+  }
+
+  /**
+   * 獲取已錄製時長
+   *
+   * @returns 已錄製時長 (毫秒)
+   */
+  public getElapsedTime(): number {
+    if (this.state.state !== 'recording') {
+      return this.state.elapsedTime;
+    }
+    return this.toRecordingTime(Date.now());
+  }
+
+  /**
+   * 檢查是否正在錄音
+   *
+   * @returns 是否正在錄音
+   */
+  public isRecording(): boolean {
+    return this.state.state === 'recording';
+  }
+
+  /**
+   * 檢查錄音是否暫停中
+   *
+   * @returns 是否暫停中
+   */
+  public isPaused(): boolean {
+    return this.state.state === 'paused';
+  }
+
+  // ========== 事件管理方法 ==========
+
+  /**
+   * 註冊事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public addEventListener<T extends keyof RecordingServiceEvents>(
+    eventType: T,
+    listener: RecordingServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.add(listener);
+    }
+  }
+
+  /**
+   * 移除事件監聽器
+   *
+   * @param eventType 事件類型
+   * @param listener 監聽器函數
+   */
+  public removeEventListener<T extends keyof RecordingServiceEvents>(
+    eventType: T,
+    listener: RecordingServiceEventListener<T>
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.delete(listener);
+    }
+  }
+
+  /**
+   * 發送事件
+   *
+   * @param eventType 事件類型
+   * @param eventData 事件資料
+   */
+  private emit<T extends keyof RecordingServiceEvents>(
+    eventType: T,
+    eventData: RecordingServiceEvents[T]
+  ): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      listeners.forEach(listener => {
+        try {
+          (listener as RecordingServiceEventListener<T>)(eventData);
+        } catch (error) {
+          console.error(`事件監聽器執行失敗: ${eventType}`, error);
+        }
+      });
+    }
+  }
+}
+
+// ========== 導出服務實例 ==========
+
+/**
+ * 導出錄音服務單例實例
+ */
+export default RecordingService.getInstance();
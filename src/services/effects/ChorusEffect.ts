@@ -0,0 +1,170 @@
+/**
+ * 簡譜鋼琴應用程式 - 合唱效果器
+ *
+ * 每個音符建立兩個濕聲複本，分別擺放在左右聲道並略晚於乾聲開始。
+ * 共用的低頻振盪器 (LFO) 以相反極性調變兩個複本的 detune，
+ * 與乾聲之間產生緩慢變化的音高差，形成合唱的厚度。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  BaseAudioContext,
+  AudioNode,
+  AudioParam,
+  GainNode,
+  OscillatorNode,
+} from 'react-native-audio-api';
+
+import type { ChorusSettings } from '../../types';
+import type { InstrumentVoice } from '../instruments';
+import { AudioEffect, EffectVoice, VoiceFactory, EFFECT_CONSTANTS } from './Effect';
+
+// ========== 常數定義 ==========
+
+/**
+ * 合唱效果器常數
+ */
+export const CHORUS_CONSTANTS = {
+  /** 兩個複本的聲道位置 */
+  PANS: [-0.7, 0.7],
+  /** 兩個複本相對於乾聲的延遲 (秒) */
+  OFFSETS: [0.007, 0.013],
+  /** 調變速率範圍 (Hz) */
+  MIN_RATE: 0.1,
+  MAX_RATE: 5,
+  /** 調變深度上限 (cents) */
+  MAX_DEPTH: 50,
+} as const;
+
+// ========== 合唱濕聲 ==========
+
+/**
+ * 單一合唱複本
+ */
+interface ChorusCopy {
+  voice: InstrumentVoice;
+  offset: number;
+  /** 連接到此複本 detune 參數的調變來源 */
+  modulation: GainNode;
+  params: AudioParam[];
+}
+
+/**
+ * 單一音符的合唱複本組
+ */
+class ChorusVoice implements EffectVoice {
+  private readonly copies: ChorusCopy[];
+  private readonly panners: AudioNode[];
+  private startTime: number = 0;
+
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    createVoice: VoiceFactory,
+    modulations: GainNode[]
+  ) {
+    this.panners = [];
+    this.copies = CHORUS_CONSTANTS.PANS.map((pan, index) => {
+      const panner = context.createStereoPanner();
+      panner.pan.value = pan;
+      panner.connect(destination);
+      this.panners.push(panner);
+
+      const voice = createVoice(panner);
+      const params = voice.getDetuneParams();
+      const modulation = modulations[index];
+      params.forEach(param => modulation.connect(param));
+      return { voice, offset: CHORUS_CONSTANTS.OFFSETS[index], modulation, params };
+    });
+  }
+
+  public start(when: number): void {
+    this.startTime = when;
+    this.copies.forEach(({ voice, offset }) => voice.start(when + offset));
+  }
+
+  public release(when: number): number {
+    return Math.max(...this.copies.map(({ voice, offset }) => voice.release(when + offset)));
+  }
+
+  public stop(when: number, fadeTime?: number): number {
+    return Math.max(...this.copies.map(({ voice, offset }) => voice.stop(when + offset, fadeTime)));
+  }
+
+  public cut(when: number): void {
+    this.copies.forEach(({ voice, offset }) => {
+      voice.stop(Math.max(when, this.startTime + offset), EFFECT_CONSTANTS.CUT_FADE);
+    });
+  }
+
+  public dispose(): void {
+    this.copies.forEach(({ modulation, params }) => {
+      params.forEach(param => {
+        try {
+          modulation.disconnect(param);
+        } catch {
+          // 連接已不存在時忽略
+        }
+      });
+    });
+    this.panners.forEach(panner => panner.disconnect());
+  }
+}
+
+// ========== 合唱效果器 ==========
+
+/**
+ * 合唱效果器
+ */
+export class ChorusEffect extends AudioEffect<ChorusSettings> {
+  private readonly lfo: OscillatorNode;
+  /** 正、負極性的調變深度 */
+  private readonly modulations: GainNode[];
+
+  constructor(context: BaseAudioContext, destination: AudioNode, settings: ChorusSettings) {
+    super(context, destination, settings);
+
+    this.lfo = context.createOscillator();
+    this.lfo.type = 'sine';
+    this.modulations = [-1, 1].map(() => {
+      const modulation = context.createGain();
+      this.lfo.connect(modulation);
+      return modulation;
+    });
+    this.applyModulation(context.currentTime);
+    this.lfo.start(context.currentTime);
+  }
+
+  public dispose(): void {
+    super.dispose();
+    try {
+      this.lfo.stop(this.context.currentTime);
+    } catch {
+      // 振盪器已停止時忽略
+    }
+    this.lfo.disconnect();
+  }
+
+  protected createEffectVoice(createVoice: VoiceFactory): EffectVoice {
+    return new ChorusVoice(this.context, this.output, createVoice, this.modulations);
+  }
+
+  protected onSettingsChange(): void {
+    this.applyModulation(this.context.currentTime + EFFECT_CONSTANTS.PARAM_RAMP);
+  }
+
+  /**
+   * 套用調變速率與深度
+   */
+  private applyModulation(when: number): void {
+    const rate = Math.max(CHORUS_CONSTANTS.MIN_RATE, Math.min(CHORUS_CONSTANTS.MAX_RATE, this.settings.rate));
+    const depth = Math.max(0, Math.min(CHORUS_CONSTANTS.MAX_DEPTH, this.settings.depth));
+    this.lfo.frequency.linearRampToValueAtTime(rate, when);
+    this.modulations.forEach((modulation, index) => {
+      modulation.gain.linearRampToValueAtTime(index === 0 ? -depth : depth, when);
+    });
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * 簡譜鋼琴應用程式 - 延遲效果器
+ *
+ * 每個音符建立數個回音複本，第 k 個回音比乾聲晚 k 個延遲時間開始與釋音，
+ * 音量為回授量的 k-1 次方。回音數量在低於 -40dB 時截止。
+ * 延遲時間可依速度 (BPM) 與節拍長度同步。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, BiquadFilterNode, GainNode } from 'react-native-audio-api';
+
+import type { DelaySettings, DelayDivision } from '../../types';
+import type { InstrumentVoice } from '../instruments';
+import { AudioEffect, EffectVoice, VoiceFactory, EFFECT_CONSTANTS } from './Effect';
+
+// ========== 常數定義 ==========
+
+/**
+ * 延遲效果器常數
+ */
+export const DELAY_CONSTANTS = {
+  /** 各節拍長度相當的四分音符拍數 */
+  DIVISION_BEATS: {
+    '1/4': 1,
+    '1/8.': 0.75,
+    '1/8': 0.5,
+    '1/8t': 1 / 3,
+    '1/16': 0.25,
+  } as Record<DelayDivision, number>,
+  /** 延遲時間範圍 (秒) */
+  MIN_TIME: 0.05,
+  MAX_TIME: 2,
+  /** 回授量上限 */
+  MAX_FEEDBACK: 0.9,
+  /** 最多回音數 */
+  MAX_ECHOES: 6,
+  /** 回音截止音量 (-40dB) */
+  ECHO_FLOOR: 0.01,
+  /** 回音的高頻衰減 (Hz) */
+  TONE: 5000,
+  /** 預設速度 (BPM) */
+  DEFAULT_TEMPO: 120,
+} as const;
+
+// ========== 工具函數 ==========
+
+/**
+ * 計算延遲時間
+ *
+ * @param settings 延遲設定
+ * @param tempo 速度 (BPM)
+ * @returns number 延遲時間 (秒)
+ */
+export function getDelayTime(settings: DelaySettings, tempo: number): number {
+  const time = settings.syncToTempo
+    ? (60 / tempo) * DELAY_CONSTANTS.DIVISION_BEATS[settings.division]
+    : settings.time;
+  return Math.max(DELAY_CONSTANTS.MIN_TIME, Math.min(DELAY_CONSTANTS.MAX_TIME, time));
+}
+
+/**
+ * 計算回音數量
+ *
+ * @param feedback 回授量
+ * @returns number 音量降到 -40dB 前的回音數
+ */
+export function getEchoCount(feedback: number): number {
+  const clamped = Math.max(0, Math.min(DELAY_CONSTANTS.MAX_FEEDBACK, feedback));
+  if (clamped <= 0) return 1;
+  const count = 1 + Math.floor(Math.log(DELAY_CONSTANTS.ECHO_FLOOR) / Math.log(clamped));
+  return Math.max(1, Math.min(DELAY_CONSTANTS.MAX_ECHOES, count));
+}
+
+// ========== 延遲濕聲 ==========
+
+/**
+ * 單一回音
+ */
+interface Echo {
+  voice: InstrumentVoice;
+  level: GainNode;
+  offset: number;
+}
+
+/**
+ * 單一音符的回音組
+ */
+class DelayVoice implements EffectVoice {
+  private readonly echoes: Echo[];
+  private startTime: number = 0;
+
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    createVoice: VoiceFactory,
+    delayTime: number,
+    feedback: number
+  ) {
+    this.echoes = Array.from({ length: getEchoCount(feedback) }, (_, index) => {
+      const level = context.createGain();
+      level.gain.value = Math.pow(feedback, index);
+      level.connect(destination);
+      return { voice: createVoice(level), level, offset: (index + 1) * delayTime };
+    });
+  }
+
+  public start(when: number): void {
+    this.startTime = when;
+    this.echoes.forEach(({ voice, offset }) => voice.start(when + offset));
+  }
+
+  public release(when: number): number {
+    return Math.max(...this.echoes.map(({ voice, offset }) => voice.release(when + offset)));
+  }
+
+  public stop(when: number, fadeTime?: number): number {
+    return Math.max(...this.echoes.map(({ voice, offset }) => voice.stop(when + offset, fadeTime)));
+  }
+
+  public cut(when: number): void {
+    // 尚未開始的回音在開始時立即停止，避免音源停止時間早於開始時間
+    this.echoes.forEach(({ voice, offset }) => {
+      voice.stop(Math.max(when, this.startTime + offset), EFFECT_CONSTANTS.CUT_FADE);
+    });
+  }
+
+  public dispose(): void {
+    this.echoes.forEach(({ level }) => level.disconnect());
+  }
+}
+
+// ========== 延遲效果器 ==========
+
+/**
+ * 延遲效果器
+ */
+export class DelayEffect extends AudioEffect<DelaySettings> {
+  private readonly tone: BiquadFilterNode;
+  private tempo: number = DELAY_CONSTANTS.DEFAULT_TEMPO;
+
+  constructor(context: BaseAudioContext, destination: AudioNode, settings: DelaySettings) {
+    super(context, destination, settings);
+    this.tone = context.createBiquadFilter();
+    this.tone.type = 'lowpass';
+    this.tone.frequency.value = DELAY_CONSTANTS.TONE;
+    this.tone.connect(this.output);
+  }
+
+  /**
+   * 設定同步用的速度
+   * 只影響之後的音符
+   *
+   * @param bpm 每分鐘拍數
+   */
+  public setTempo(bpm: number): void {
+    if (Number.isFinite(bpm) && bpm > 0) {
+      this.tempo = bpm;
+    }
+  }
+
+  /**
+   * 獲取目前的延遲時間 (秒)
+   */
+  public getDelayTime(): number {
+    return getDelayTime(this.settings, this.tempo);
+  }
+
+  public dispose(): void {
+    super.dispose();
+    this.tone.disconnect();
+  }
+
+  protected createEffectVoice(createVoice: VoiceFactory): EffectVoice {
+    const feedback = Math.max(0, Math.min(DELAY_CONSTANTS.MAX_FEEDBACK, this.settings.feedback));
+    return new DelayVoice(this.context, this.tone, createVoice, this.getDelayTime(), feedback);
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * 簡譜鋼琴應用程式 - 主輸出壓縮/限幅器
+ *
+ * react-native-audio-api 0.7 沒有 DynamicsCompressorNode，因此壓縮器由
+ * 「AnalyserNode 偵測 + GainNode 控制」組成：控制迴圈以固定週期讀取輸入峰值，
+ * 依臨界值、壓縮比與軟膝計算目標增益衰減，再以起音/釋放時間平滑後
+ * 套用到增益節點。偵測只能在音訊產生之後進行，為避免和弦起音瞬間削波，
+ * AudioService 在排程音符時另以各聲部的峰值總和預先壓低增益 (anticipate)。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, AnalyserNode, GainNode } from 'react-native-audio-api';
+
+import type { CompressorSettings, DynamicsMeterReading } from '../../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * 動態處理常數
+ */
+export const DYNAMICS_CONSTANTS = {
+  /** 控制迴圈週期 (毫秒) */
+  DETECTION_INTERVAL: 15,
+  /** 音量表更新週期 (毫秒) */
+  METER_INTERVAL: 50,
+  /** 偵測視窗的取樣數 (44.1kHz 約 12ms) */
+  ANALYSER_FFT_SIZE: 512,
+  /** 音量下限 (dBFS) */
+  MIN_LEVEL: -90,
+  /** 增益變化的平滑時間常數 (秒)，避免階梯狀的增益變化產生雜音 */
+  GAIN_SMOOTHING: 0.003,
+  /** 預先壓低增益時的斜坡時間 (秒) */
+  ANTICIPATE_RAMP: 0.002,
+  /** 各參數的範圍 */
+  THRESHOLD_RANGE: [-40, 0],
+  RATIO_RANGE: [1, 20],
+  KNEE_RANGE: [0, 12],
+  ATTACK_RANGE: [0.001, 0.2],
+  RELEASE_RANGE: [0.02, 2],
+  MAKEUP_RANGE: [0, 24],
+} as const;
+
+/**
+ * 預設設定
+ * 接近限幅器：超過 -3dBFS 的峰值以 12:1 壓下，防止和弦削波
+ */
+export const DEFAULT_COMPRESSOR_SETTINGS: CompressorSettings = {
+  bypassed: false,
+  threshold: -3,
+  ratio: 12,
+  knee: 3,
+  attack: 0.003,
+  release: 0.25,
+  makeupGain: 0,
+};
+
+// ========== 工具函數 ==========
+
+/**
+ * 分貝轉換為線性增益
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * 線性振幅轉換為分貝，並限制在音量下限以上
+ */
+export function gainToDb(gain: number): number {
+  return gain > 0 ? Math.max(DYNAMICS_CONSTANTS.MIN_LEVEL, 20 * Math.log10(gain)) : DYNAMICS_CONSTANTS.MIN_LEVEL;
+}
+
+/**
+ * 計算靜態壓縮曲線的增益衰減量
+ * 軟膝範圍內以二次曲線過渡
+ *
+ * @param inputLevel 輸入位準 (dBFS)
+ * @param settings 壓縮器設定
+ * @returns number 增益衰減量 (dB，≥ 0)
+ */
+export function computeGainReduction(inputLevel: number, settings: CompressorSettings): number {
+  const slope = 1 - 1 / settings.ratio;
+  const over = inputLevel - settings.threshold;
+  const halfKnee = settings.knee / 2;
+
+  if (over <= -halfKnee) {
+    return 0;
+  }
+  if (settings.knee > 0 && over < halfKnee) {
+    return (slope * (over + halfKnee) * (over + halfKnee)) / (2 * settings.knee);
+  }
+  return slope * over;
+}
+
+/**
+ * 將設定限制在合法範圍內
+ */
+function clampSettings(settings: CompressorSettings): CompressorSettings {
+  const clamp = (value: number, [min, max]: readonly [number, number], fallback: number) =>
+    Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+  const defaults = DEFAULT_COMPRESSOR_SETTINGS;
+
+  return {
+    bypassed: Boolean(settings.bypassed),
+    threshold: clamp(settings.threshold, DYNAMICS_CONSTANTS.THRESHOLD_RANGE, defaults.threshold),
+    ratio: clamp(settings.ratio, DYNAMICS_CONSTANTS.RATIO_RANGE, defaults.ratio),
+    knee: clamp(settings.knee, DYNAMICS_CONSTANTS.KNEE_RANGE, defaults.knee),
+    attack: clamp(settings.attack, DYNAMICS_CONSTANTS.ATTACK_RANGE, defaults.attack),
+    release: clamp(settings.release, DYNAMICS_CONSTANTS.RELEASE_RANGE, defaults.release),
+    makeupGain: clamp(settings.makeupGain, DYNAMICS_CONSTANTS.MAKEUP_RANGE, defaults.makeupGain),
+  };
+}
+
+// ========== 壓縮器類別 ==========
+
+/**
+ * 主輸出壓縮/限幅器
+ * 輸入 → 增益衰減 → 補償增益 → 輸出；輸入同時送往偵測用的 AnalyserNode
+ */
+export class DynamicsCompressor {
+  /** 壓縮器輸入 */
+  public readonly input: GainNode;
+
+  private readonly context: BaseAudioContext;
+  private readonly analyser: AnalyserNode;
+  private readonly reduction: GainNode;
+  private readonly makeup: GainNode;
+  private readonly detectionBuffer: Float32Array;
+  private settings: CompressorSettings;
+
+  private gainReduction: number = 0;
+  private inputLevel: number = DYNAMICS_CONSTANTS.MIN_LEVEL;
+  private lastDetectionTime: number = 0;
+  private lastMeterTime: number = 0;
+  private detectionTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param context 音頻上下文
+   * @param destination 輸出目標
+   * @param settings 初始設定
+   * @param onMeter 音量表讀數回調，約每 METER_INTERVAL 毫秒呼叫一次
+   */
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    settings: CompressorSettings = DEFAULT_COMPRESSOR_SETTINGS,
+    private readonly onMeter?: (reading: DynamicsMeterReading) => void
+  ) {
+    this.context = context;
+    this.settings = clampSettings(settings);
+
+    this.input = context.createGain();
+    this.reduction = context.createGain();
+    this.makeup = context.createGain();
+    this.makeup.gain.value = this.getMakeupGain();
+
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = DYNAMICS_CONSTANTS.ANALYSER_FFT_SIZE;
+    this.analyser.smoothingTimeConstant = 0;
+    this.detectionBuffer = new Float32Array(this.analyser.fftSize);
+
+    this.input.connect(this.analyser);
+    this.input.connect(this.reduction);
+    this.reduction.connect(this.makeup);
+    this.makeup.connect(destination);
+  }
+
+  // ========== 控制迴圈 ==========
+
+  /**
+   * 啟動偵測迴圈
+   */
+  public start(): void {
+    if (this.detectionTimer) return;
+    this.lastDetectionTime = this.context.currentTime;
+    this.detectionTimer = setInterval(() => this.detect(), DYNAMICS_CONSTANTS.DETECTION_INTERVAL);
+  }
+
+  /**
+   * 停止偵測迴圈並解除增益衰減
+   */
+  public stop(): void {
+    if (this.detectionTimer) {
+      clearInterval(this.detectionTimer);
+      this.detectionTimer = null;
+    }
+    this.gainReduction = 0;
+    this.applyGainReduction(this.context.currentTime);
+  }
+
+  /**
+   * 偵測輸入峰值並更新增益衰減
+   * 即時播放由 start() 啟動的計時器呼叫；離線渲染沒有即時時鐘，改在每個渲染區段結束時呼叫
+   */
+  public detect(): void {
+    const currentTime = this.context.currentTime;
+    const elapsed = Math.max(0, currentTime - this.lastDetectionTime) || DYNAMICS_CONSTANTS.DETECTION_INTERVAL / 1000;
+    this.lastDetectionTime = currentTime;
+
+    this.analyser.getFloatTimeDomainData(this.detectionBuffer);
+    let peak = 0;
+    for (let i = 0; i < this.detectionBuffer.length; i++) {
+      peak = Math.max(peak, Math.abs(this.detectionBuffer[i]));
+    }
+    this.inputLevel = gainToDb(peak);
+
+    if (!this.settings.bypassed) {
+      // 起音與釋放以一階平滑趨近目標衰減量
+      const target = computeGainReduction(this.inputLevel, this.settings);
+      const timeConstant = target > this.gainReduction ? this.settings.attack : this.settings.release;
+      this.gainReduction += (target - this.gainReduction) * (1 - Math.exp(-elapsed / timeConstant));
+      this.applyGainReduction(currentTime);
+    }
+
+    if (this.onMeter && (currentTime - this.lastMeterTime) * 1000 >= DYNAMICS_CONSTANTS.METER_INTERVAL) {
+      this.lastMeterTime = currentTime;
+      this.onMeter(this.getReading());
+    }
+  }
+
+  /**
+   * 預先壓低增益
+   * 在音符開始前依預估的峰值計算增益衰減，彌補偵測迴圈的延遲；
+   * 之後由偵測迴圈依實際位準逐漸釋放
+   *
+   * @param peak 預估的輸入峰值 (線性振幅)
+   * @param when 音符開始時間 (AudioContext 時鐘，秒)
+   */
+  public anticipate(peak: number, when: number): void {
+    if (this.settings.bypassed) return;
+
+    const target = computeGainReduction(gainToDb(peak), this.settings);
+    if (target <= this.gainReduction) return;
+
+    this.gainReduction = target;
+    const gain = this.reduction.gain;
+    gain.cancelAndHoldAtTime(when);
+    gain.linearRampToValueAtTime(dbToGain(-target), when + DYNAMICS_CONSTANTS.ANTICIPATE_RAMP);
+  }
+
+  // ========== 設定 ==========
+
+  /**
+   * 更新設定
+   */
+  public setSettings(settings: Partial<CompressorSettings>): void {
+    this.settings = clampSettings({ ...this.settings, ...settings });
+    const currentTime = this.context.currentTime;
+    this.makeup.gain.setTargetAtTime(this.getMakeupGain(), currentTime, DYNAMICS_CONSTANTS.GAIN_SMOOTHING);
+    if (this.settings.bypassed) {
+      this.gainReduction = 0;
+      this.applyGainReduction(currentTime);
+    }
+  }
+
+  /**
+   * 獲取目前設定
+   */
+  public getSettings(): CompressorSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * 獲取目前的音量表讀數
+   */
+  public getReading(): DynamicsMeterReading {
+    const makeup = this.settings.bypassed ? 0 : this.settings.makeupGain;
+    return {
+      inputLevel: this.inputLevel,
+      outputLevel: Math.max(DYNAMICS_CONSTANTS.MIN_LEVEL, this.inputLevel - this.gainReduction + makeup),
+      gainReduction: this.gainReduction,
+    };
+  }
+
+  /**
+   * 停止偵測並斷開節點
+   */
+  public dispose(): void {
+    if (this.detectionTimer) {
+      clearInterval(this.detectionTimer);
+      this.detectionTimer = null;
+    }
+    this.input.disconnect();
+    this.reduction.disconnect();
+    this.makeup.disconnect();
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 將目前的增益衰減套用到增益節點
+   */
+  private applyGainReduction(when: number): void {
+    const gain = this.reduction.gain;
+    gain.cancelAndHoldAtTime(when);
+    gain.setTargetAtTime(dbToGain(-this.gainReduction), when, DYNAMICS_CONSTANTS.GAIN_SMOOTHING);
+  }
+
+  /**
+   * 目前的補償增益 (線性)
+   */
+  private getMakeupGain(): number {
+    return this.settings.bypassed ? 1 : dbToGain(this.settings.makeupGain);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果器抽象層
+ *
+ * react-native-audio-api 0.7 沒有 ConvolverNode 與 DelayNode，無法在混音
+ * 匯流排上做即時的卷積或延遲線。因此效果器在「聲部」層級實作：每個音符
+ * 除了乾聲聲部外，各效果器會以相同參數建立濕聲複本，再調整複本的起始時間、
+ * 音量包絡與音高來得到殘響、回音或合唱。濕聲複本送入效果器的回送節點，
+ * 回送音量即為濕聲比例。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, GainNode } from 'react-native-audio-api';
+
+import type { EffectSettingsBase } from '../../types';
+import type { InstrumentVoice } from '../instruments';
+
+// ========== 類型定義 ==========
+
+/**
+ * 以相同參數建立聲部的工廠函數，輸出連接到 destination
+ */
+export type VoiceFactory = (destination: AudioNode) => InstrumentVoice;
+
+/**
+ * 效果器為單一音符建立的濕聲
+ * start/release/stop 對應乾聲聲部的同名操作，殘響與回音會在之後自然結束
+ */
+export interface EffectVoice {
+  /** 乾聲開始發聲 */
+  start(when: number): void;
+  /**
+   * 乾聲進入釋音
+   * @returns number 濕聲完全結束的時間 (AudioContext 時鐘，秒)
+   */
+  release(when: number): number;
+  /**
+   * 乾聲被立即停止
+   * @returns number 濕聲完全結束的時間 (AudioContext 時鐘，秒)
+   */
+  stop(when: number, fadeTime?: number): number;
+  /** 立即靜音，連同殘響與回音一起結束 */
+  cut(when: number): void;
+  /** 濕聲結束後釋放額外的連接 */
+  dispose?(): void;
+}
+
+/**
+ * 追蹤中的濕聲
+ */
+interface ActiveEffectVoice {
+  voice: EffectVoice;
+  /** 結束時間，尚未釋音時為 null */
+  endTime: number | null;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 效果器共用常數
+ */
+export const EFFECT_CONSTANTS = {
+  /** 每個效果器同時保留濕聲的音符數，超過時先結束最舊的 */
+  MAX_WET_NOTES: 8,
+  /** 濕聲超出上限被結束時的淡出時間 (秒) */
+  CUT_FADE: 0.03,
+  /** 調整濕聲比例或略過時的音量過渡時間 (秒) */
+  PARAM_RAMP: 0.05,
+} as const;
+
+// ========== 效果器基底類別 ==========
+
+/**
+ * 效果器基底類別
+ * 管理回送音量 (濕聲比例)、略過狀態與濕聲數量上限，
+ * 子類別只需建立訊號鏈並實作 createEffectVoice
+ */
+export abstract class AudioEffect<S extends EffectSettingsBase> {
+  protected readonly context: BaseAudioContext;
+  protected settings: S;
+  /** 回送節點，音量即濕聲比例 */
+  protected readonly output: GainNode;
+  private active: ActiveEffectVoice[] = [];
+
+  /**
+   * @param context 音頻上下文
+   * @param destination 回送目標
+   * @param settings 初始設定
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode, settings: S) {
+    this.context = context;
+    this.settings = { ...settings };
+    this.output = context.createGain();
+    this.output.gain.value = this.getWetLevel();
+    this.output.connect(destination);
+  }
+
+  /**
+   * 為音符建立濕聲
+   * 略過或濕聲比例為 0 時不建立，以節省聲部
+   *
+   * @param createVoice 聲部工廠
+   * @param currentTime 目前時間 (AudioContext 時鐘，秒)
+   * @returns EffectVoice | null 濕聲，不需要時為 null
+   */
+  public attach(createVoice: VoiceFactory, currentTime: number): EffectVoice | null {
+    if (this.getWetLevel() <= 0) {
+      return null;
+    }
+
+    this.purge(currentTime);
+    while (this.active.length >= EFFECT_CONSTANTS.MAX_WET_NOTES) {
+      const oldest = this.active.shift()!;
+      oldest.voice.cut(currentTime);
+      oldest.voice.dispose?.();
+    }
+
+    const voice = this.createEffectVoice(createVoice);
+    const entry: ActiveEffectVoice = { voice, endTime: null };
+    this.active.push(entry);
+
+    return {
+      start: when => voice.start(when),
+      release: when => (entry.endTime = voice.release(when)),
+      stop: (when, fadeTime) => (entry.endTime = voice.stop(when, fadeTime)),
+      cut: when => {
+        voice.cut(when);
+        entry.endTime = when + EFFECT_CONSTANTS.CUT_FADE;
+      },
+    };
+  }
+
+  /**
+   * 更新設定
+   * 濕聲比例以短暫過渡變更，已在發聲的濕聲也會跟著改變
+   */
+  public update(settings: S): void {
+    this.settings = { ...settings, mix: Math.max(0, Math.min(1, settings.mix)) };
+    const currentTime = this.context.currentTime;
+    const gain = this.output.gain;
+    gain.cancelAndHoldAtTime(currentTime);
+    gain.linearRampToValueAtTime(this.getWetLevel(), currentTime + EFFECT_CONSTANTS.PARAM_RAMP);
+    this.onSettingsChange();
+  }
+
+  /**
+   * 獲取目前設定
+   */
+  public getSettings(): S {
+    return { ...this.settings };
+  }
+
+  /**
+   * 濕聲音量 (等功率交叉)
+   */
+  public getWetLevel(): number {
+    return this.settings.bypassed ? 0 : Math.sin((this.settings.mix * Math.PI) / 2);
+  }
+
+  /**
+   * 乾聲音量 (等功率交叉)
+   */
+  public getDryLevel(): number {
+    return this.settings.bypassed ? 1 : Math.cos((this.settings.mix * Math.PI) / 2);
+  }
+
+  /**
+   * 立即結束所有濕聲並斷開回送
+   */
+  public dispose(): void {
+    const currentTime = this.context.currentTime;
+    this.active.forEach(({ voice }) => {
+      voice.cut(currentTime);
+      voice.dispose?.();
+    });
+    this.active = [];
+    this.output.disconnect();
+  }
+
+  /**
+   * 建立濕聲
+   *
+   * @param createVoice 聲部工廠，可呼叫多次建立多個複本
+   */
+  protected abstract createEffectVoice(createVoice: VoiceFactory): EffectVoice;
+
+  /**
+   * 設定變更後的額外處理
+   */
+  protected onSettingsChange(): void {
+    // 預設不需額外處理
+  }
+
+  /**
+   * 移除已結束的濕聲
+   */
+  private purge(currentTime: number): void {
+    this.active = this.active.filter(({ voice, endTime }) => {
+      if (endTime !== null && endTime <= currentTime) {
+        voice.dispose?.();
+        return false;
+      }
+      return true;
+    });
+  }
+}
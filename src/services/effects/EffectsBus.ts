@@ -0,0 +1,167 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果匯流排
+ *
+ * 本文件實作了插入在樂器聲部與主音量之間的效果匯流排。
+ * 殘響、延遲與合唱並聯處理：每個音符的乾聲送入乾聲節點，
+ * 各效果器另外建立自己的濕聲，乾聲音量依各效果的濕聲比例降低。
+ * 匯流排建立的複合聲部對 AudioService 與聲部分配器而言就是一般的聲部，
+ * 釋音、延音踏板與聲部搶用都不需要額外處理。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, AudioParam, GainNode } from 'react-native-audio-api';
+
+import type { EffectsSettings } from '../../types';
+import type { InstrumentVoice } from '../instruments';
+import { AudioEffect, EffectVoice, VoiceFactory, EFFECT_CONSTANTS } from './Effect';
+import { ReverbEffect } from './ReverbEffect';
+import { DelayEffect } from './DelayEffect';
+import { ChorusEffect } from './ChorusEffect';
+import { normalizeEffectsSettings } from './presets';
+
+// ========== 複合聲部 ==========
+
+/**
+ * 乾聲聲部加上各效果的濕聲
+ * 回傳的結束時間以乾聲為準，濕聲尾音由各效果器自行追蹤
+ */
+class EffectsVoice implements InstrumentVoice {
+  public readonly output: GainNode;
+
+  constructor(
+    private readonly dry: InstrumentVoice,
+    private readonly wet: EffectVoice[]
+  ) {
+    this.output = dry.output;
+  }
+
+  public start(when: number): void {
+    this.dry.start(when);
+    this.wet.forEach(voice => voice.start(when));
+  }
+
+  public release(when: number): number {
+    this.wet.forEach(voice => voice.release(when));
+    return this.dry.release(when);
+  }
+
+  public stop(when: number, fadeTime?: number): number {
+    this.wet.forEach(voice => voice.stop(when, fadeTime));
+    return this.dry.stop(when, fadeTime);
+  }
+
+  public getDetuneParams(): AudioParam[] {
+    return this.dry.getDetuneParams();
+  }
+}
+
+// ========== 效果匯流排 ==========
+
+/**
+ * 效果匯流排
+ */
+export class EffectsBus {
+  /** 乾聲輸入 */
+  public readonly input: GainNode;
+
+  private readonly context: BaseAudioContext;
+  private readonly reverb: ReverbEffect;
+  private readonly delay: DelayEffect;
+  private readonly chorus: ChorusEffect;
+  private settings: EffectsSettings;
+
+  /**
+   * @param context 音頻上下文
+   * @param destination 乾聲與濕聲的輸出目標
+   * @param settings 初始設定
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode, settings?: EffectsSettings) {
+    this.context = context;
+    this.settings = normalizeEffectsSettings(settings);
+
+    this.input = context.createGain();
+    this.input.connect(destination);
+
+    this.reverb = new ReverbEffect(context, destination, this.settings.reverb);
+    this.delay = new DelayEffect(context, destination, this.settings.delay);
+    this.chorus = new ChorusEffect(context, destination, this.settings.chorus);
+    this.input.gain.value = this.getDryLevel();
+  }
+
+  /**
+   * 為音符建立聲部
+   *
+   * @param createVoice 以相同參數建立聲部的工廠，會為乾聲與各濕聲各呼叫一次以上
+   * @returns InstrumentVoice 複合聲部
+   */
+  public createVoice(createVoice: VoiceFactory): InstrumentVoice {
+    const currentTime = this.context.currentTime;
+    const dry = createVoice(this.input);
+    const wet = this.getEffects()
+      .map(effect => effect.attach(createVoice, currentTime))
+      .filter((voice): voice is EffectVoice => voice !== null);
+
+    return wet.length > 0 ? new EffectsVoice(dry, wet) : dry;
+  }
+
+  /**
+   * 更新效果設定
+   *
+   * @param settings 效果鏈設定
+   */
+  public setSettings(settings: EffectsSettings): void {
+    this.settings = normalizeEffectsSettings(settings);
+    this.reverb.update(this.settings.reverb);
+    this.delay.update(this.settings.delay);
+    this.chorus.update(this.settings.chorus);
+
+    const currentTime = this.context.currentTime;
+    this.input.gain.cancelAndHoldAtTime(currentTime);
+    this.input.gain.linearRampToValueAtTime(this.getDryLevel(), currentTime + EFFECT_CONSTANTS.PARAM_RAMP);
+  }
+
+  /**
+   * 獲取目前效果設定
+   */
+  public getSettings(): EffectsSettings {
+    return normalizeEffectsSettings(this.settings);
+  }
+
+  /**
+   * 設定延遲同步用的速度
+   *
+   * @param bpm 每分鐘拍數
+   */
+  public setTempo(bpm: number): void {
+    this.delay.setTempo(bpm);
+  }
+
+  /**
+   * 獲取目前的延遲時間 (秒)
+   */
+  public getDelayTime(): number {
+    return this.delay.getDelayTime();
+  }
+
+  /**
+   * 結束所有濕聲並斷開節點
+   */
+  public dispose(): void {
+    this.getEffects().forEach(effect => effect.dispose());
+    this.input.disconnect();
+  }
+
+  /**
+   * 乾聲音量 = 各效果乾聲比例的乘積
+   */
+  private getDryLevel(): number {
+    return this.getEffects().reduce((level, effect) => level * effect.getDryLevel(), 1);
+  }
+
+  private getEffects(): AudioEffect<any>[] {
+    return [this.chorus, this.delay, this.reverb];
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * 簡譜鋼琴應用程式 - 殘響效果器
+ *
+ * 每個音符建立一個濕聲複本，其音量依空間脈衝響應的能量包絡變化：
+ * 按下時隨 IR 累積能量逐漸建立，放開後不釋音而是沿 Schroeder 衰減曲線
+ * 淡出，使殘響在琴鍵放開後延續 RT60 的時間。濕聲經過高頻阻尼濾波器。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, BiquadFilterNode, GainNode } from 'react-native-audio-api';
+
+import type { ReverbSettings } from '../../types';
+import type { InstrumentVoice } from '../instruments';
+import { AudioEffect, EffectVoice, VoiceFactory, EFFECT_CONSTANTS } from './Effect';
+import { ReverbEnvelope, REVERB_PROFILES, getReverbEnvelope } from './impulseResponse';
+
+// ========== 殘響濕聲 ==========
+
+/**
+ * 單一音符的殘響
+ * 濕聲複本 → 殘響包絡 → 阻尼濾波器
+ */
+class ReverbVoice implements EffectVoice {
+  private readonly voice: InstrumentVoice;
+  private readonly envelopeGain: GainNode;
+  private readonly envelope: ReverbEnvelope;
+  private startTime: number = 0;
+  private endTime: number | null = null;
+
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    createVoice: VoiceFactory,
+    envelope: ReverbEnvelope
+  ) {
+    this.envelope = envelope;
+    this.envelopeGain = context.createGain();
+    this.envelopeGain.gain.value = 0;
+    this.envelopeGain.connect(destination);
+    this.voice = createVoice(this.envelopeGain);
+  }
+
+  public start(when: number): void {
+    this.startTime = when;
+    const { buildUp, buildUpDuration } = this.envelope;
+    const gain = this.envelopeGain.gain;
+    // 以線性段落排程，放開時才能在任意位置 cancelAndHold
+    gain.setValueAtTime(buildUp[0], when);
+    for (let index = 1; index < buildUp.length; index++) {
+      gain.linearRampToValueAtTime(buildUp[index], when + (index / (buildUp.length - 1)) * buildUpDuration);
+    }
+    this.voice.start(when);
+  }
+
+  public release(when: number): number {
+    return this.fadeTail(when);
+  }
+
+  public stop(when: number): number {
+    return this.fadeTail(when);
+  }
+
+  public cut(when: number): void {
+    const end = when + EFFECT_CONSTANTS.CUT_FADE;
+    if (this.endTime !== null && this.endTime <= end) return;
+    this.endTime = end;
+    this.voice.stop(when, EFFECT_CONSTANTS.CUT_FADE);
+  }
+
+  public dispose(): void {
+    this.envelopeGain.disconnect();
+  }
+
+  /**
+   * 乾聲結束後讓殘響沿衰減曲線淡出
+   * 衰減從當下已建立的殘響量開始
+   */
+  private fadeTail(when: number): number {
+    if (this.endTime !== null) return this.endTime;
+
+    const { buildUp, buildUpDuration, decay, decayDuration } = this.envelope;
+    const level = this.getBuildUpLevel(buildUp, buildUpDuration, when - this.startTime);
+    const end = when + decayDuration;
+    this.endTime = end;
+
+    const gain = this.envelopeGain.gain;
+    gain.cancelAndHoldAtTime(when);
+    gain.setValueCurveAtTime(decay.map(value => value * level), when, decayDuration);
+    this.voice.stop(end);
+    return end;
+  }
+
+  /**
+   * 取得建立曲線在指定時間的音量 (線性內插)
+   */
+  private getBuildUpLevel(buildUp: Float32Array, duration: number, elapsed: number): number {
+    if (elapsed >= duration) return buildUp[buildUp.length - 1];
+    const position = (Math.max(0, elapsed) / duration) * (buildUp.length - 1);
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return buildUp[index] + (buildUp[index + 1] - buildUp[index]) * fraction;
+  }
+}
+
+// ========== 殘響效果器 ==========
+
+/**
+ * 殘響效果器
+ */
+export class ReverbEffect extends AudioEffect<ReverbSettings> {
+  private readonly damping: BiquadFilterNode;
+
+  constructor(context: BaseAudioContext, destination: AudioNode, settings: ReverbSettings) {
+    super(context, destination, settings);
+    this.damping = context.createBiquadFilter();
+    this.damping.type = 'lowpass';
+    this.damping.Q.value = 0.5;
+    this.damping.frequency.value = REVERB_PROFILES[settings.type].damping;
+    this.damping.connect(this.output);
+  }
+
+  public dispose(): void {
+    super.dispose();
+    this.damping.disconnect();
+  }
+
+  protected createEffectVoice(createVoice: VoiceFactory): EffectVoice {
+    return new ReverbVoice(this.context, this.damping, createVoice, getReverbEnvelope(this.settings.type));
+  }
+
+  protected onSettingsChange(): void {
+    const currentTime = this.context.currentTime;
+    this.damping.frequency.linearRampToValueAtTime(
+      REVERB_PROFILES[this.settings.type].damping,
+      currentTime + EFFECT_CONSTANTS.PARAM_RAMP
+    );
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * 簡譜鋼琴應用程式 - 殘響脈衝響應
+ *
+ * 本文件為房間、音樂廳與教堂三種空間產生脈衝響應 (IR)：預延遲、
+ * 離散的早期反射，以及隨時間變暗的指數衰減擴散尾音。
+ * 由於音頻引擎沒有卷積節點，殘響效果器改用 IR 的能量分佈驅動濕聲音量：
+ * 持續音的殘響建立過程取 IR 能量的累積，放開後的殘響衰減則取 IR 的
+ * Schroeder 反向積分，兩者即為卷積後的能量包絡。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { ReverbType } from '../../types';
+
+// ========== 類型定義 ==========
+
+/**
+ * 空間聲學參數
+ */
+export interface ReverbProfile {
+  /** 預延遲 (秒)，直達聲到第一次反射的時間 */
+  predelay: number;
+  /** 殘響時間 RT60 (秒)，衰減 60dB 所需時間 */
+  rt60: number;
+  /** 早期反射數量 */
+  earlyReflections: number;
+  /** 早期反射分佈的時間範圍 (秒) */
+  earlyTime: number;
+  /** 起始的高頻阻尼截止頻率 (Hz)，尾音會逐漸變暗 */
+  damping: number;
+}
+
+/**
+ * 由 IR 推導的濕聲音量包絡
+ * 數值為振幅比例 (0-1)，以等間隔取樣
+ */
+export interface ReverbEnvelope {
+  /** 持續音的殘響建立曲線 */
+  buildUp: Float32Array;
+  /** 建立曲線的長度 (秒) */
+  buildUpDuration: number;
+  /** 放開後的殘響衰減曲線 */
+  decay: Float32Array;
+  /** 衰減曲線的長度 (秒) */
+  decayDuration: number;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 各空間的聲學參數
+ */
+export const REVERB_PROFILES: Record<ReverbType, ReverbProfile> = {
+  room: { predelay: 0.008, rt60: 0.8, earlyReflections: 6, earlyTime: 0.03, damping: 7000 },
+  hall: { predelay: 0.025, rt60: 2.2, earlyReflections: 8, earlyTime: 0.08, damping: 5000 },
+  church: { predelay: 0.04, rt60: 4.2, earlyReflections: 10, earlyTime: 0.15, damping: 3500 },
+};
+
+/**
+ * 脈衝響應相關常數
+ */
+export const IMPULSE_RESPONSE_CONSTANTS = {
+  /** 分析用的取樣率，只需足以描述能量包絡 */
+  ANALYSIS_SAMPLE_RATE: 22050,
+  /** 包絡曲線的取樣點數 */
+  CURVE_POINTS: 48,
+  /** 殘響建立視為完成的能量比例 */
+  BUILD_UP_THRESHOLD: 0.99,
+  /** 尾音結束時的阻尼截止頻率相對於起始值的比例 */
+  DAMPING_END_RATIO: 0.15,
+} as const;
+
+// ========== 脈衝響應產生 ==========
+
+/**
+ * 建立可重現的亂數產生器 (線性同餘)
+ * 同一空間每次產生相同的 IR
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * 產生指定空間的脈衝響應
+ *
+ * @param type 空間類型
+ * @param sampleRate 取樣率
+ * @returns Float32Array 單聲道脈衝響應，長度為預延遲加上 RT60
+ */
+export function generateImpulseResponse(type: ReverbType, sampleRate: number): Float32Array {
+  const profile = REVERB_PROFILES[type];
+  const random = createRandom(type.length * 7919 + Math.round(profile.rt60 * 1000));
+  const length = Math.ceil((profile.predelay + profile.rt60) * sampleRate);
+  const ir = new Float32Array(length);
+  const predelaySamples = Math.floor(profile.predelay * sampleRate);
+
+  // 早期反射：間隔逐漸縮短、音量逐漸減小的離散脈衝
+  for (let i = 0; i < profile.earlyReflections; i++) {
+    const position = Math.sqrt((i + random()) / profile.earlyReflections);
+    const index = predelaySamples + Math.floor(position * profile.earlyTime * sampleRate);
+    if (index < length) {
+      ir[index] += (random() < 0.5 ? -1 : 1) * 0.8 * Math.pow(0.85, i);
+    }
+  }
+
+  // 擴散尾音：在早期反射期間逐漸浮現，之後以 RT60 指數衰減，並逐漸變暗
+  const decayRate = Math.log(1000) / profile.rt60;
+  const diffusionSamples = Math.max(1, profile.earlyTime * sampleRate);
+  let lowpassed = 0;
+  for (let i = predelaySamples; i < length; i++) {
+    const t = (i - predelaySamples) / sampleRate;
+    const progress = t / profile.rt60;
+    const cutoff = profile.damping * Math.pow(IMPULSE_RESPONSE_CONSTANTS.DAMPING_END_RATIO, progress);
+    const coefficient = Math.exp((-2 * Math.PI * Math.min(cutoff, sampleRate * 0.45)) / sampleRate);
+    lowpassed = (1 - coefficient) * (random() * 2 - 1) + coefficient * lowpassed;
+
+    const fadeIn = Math.min(1, (i - predelaySamples) / diffusionSamples);
+    ir[i] += lowpassed * fadeIn * 0.5 * Math.exp(-decayRate * t);
+  }
+
+  return ir;
+}
+
+// ========== 能量包絡分析 ==========
+
+/**
+ * 將累積能量取樣成振幅曲線
+ *
+ * @param cumulative 各取樣點的累積能量
+ * @param total 總能量
+ * @param endIndex 曲線結束的取樣點
+ * @param toLevel 由累積能量比例換算振幅
+ */
+function sampleCurve(
+  cumulative: Float64Array,
+  total: number,
+  endIndex: number,
+  toLevel: (fraction: number) => number
+): Float32Array {
+  const points = IMPULSE_RESPONSE_CONSTANTS.CURVE_POINTS;
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) {
+    const index = Math.min(cumulative.length - 1, Math.round((i / (points - 1)) * endIndex));
+    curve[i] = toLevel(total > 0 ? cumulative[index] / total : 1);
+  }
+  return curve;
+}
+
+/**
+ * 由脈衝響應推導濕聲音量包絡
+ *
+ * @param ir 脈衝響應
+ * @param sampleRate 取樣率
+ * @returns ReverbEnvelope 建立與衰減曲線
+ */
+export function analyzeImpulseResponse(ir: Float32Array, sampleRate: number): ReverbEnvelope {
+  const cumulative = new Float64Array(ir.length);
+  let total = 0;
+  for (let i = 0; i < ir.length; i++) {
+    total += ir[i] * ir[i];
+    cumulative[i] = total;
+  }
+
+  let buildUpEnd = ir.length - 1;
+  for (let i = 0; i < ir.length; i++) {
+    if (cumulative[i] >= total * IMPULSE_RESPONSE_CONSTANTS.BUILD_UP_THRESHOLD) {
+      buildUpEnd = i;
+      break;
+    }
+  }
+
+  return {
+    // 持續音的殘響能量 = 已進入的 IR 能量
+    buildUp: sampleCurve(cumulative, total, buildUpEnd, fraction => Math.sqrt(fraction)),
+    buildUpDuration: Math.max(buildUpEnd, 1) / sampleRate,
+    // 放開後剩餘的殘響能量 = 尚未出現的 IR 能量 (Schroeder 反向積分)
+    decay: sampleCurve(cumulative, total, ir.length - 1, fraction => Math.sqrt(Math.max(0, 1 - fraction))),
+    decayDuration: ir.length / sampleRate,
+  };
+}
+
+const envelopeCache: Partial<Record<ReverbType, ReverbEnvelope>> = {};
+
+/**
+ * 取得指定空間的濕聲音量包絡 (首次使用時產生並快取)
+ *
+ * @param type 空間類型
+ * @returns ReverbEnvelope 建立與衰減曲線
+ */
+export function getReverbEnvelope(type: ReverbType): ReverbEnvelope {
+  let envelope = envelopeCache[type];
+  if (!envelope) {
+    const sampleRate = IMPULSE_RESPONSE_CONSTANTS.ANALYSIS_SAMPLE_RATE;
+    envelope = analyzeImpulseResponse(generateImpulseResponse(type, sampleRate), sampleRate);
+    envelopeCache[type] = envelope;
+  }
+  return envelope;
+}
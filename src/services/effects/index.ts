@@ -0,0 +1,51 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果器模組
+ *
+ * 匯出效果匯流排、各效果器、脈衝響應產生器、預設組合與主輸出壓縮器，
+ * 並提供設定介面使用的顯示名稱。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { ReverbType, DelayDivision } from '../../types';
+
+export * from './Effect';
+export { EffectsBus } from './EffectsBus';
+export { ReverbEffect } from './ReverbEffect';
+export { DelayEffect, DELAY_CONSTANTS, getDelayTime, getEchoCount } from './DelayEffect';
+export { ChorusEffect, CHORUS_CONSTANTS } from './ChorusEffect';
+export {
+  REVERB_PROFILES,
+  IMPULSE_RESPONSE_CONSTANTS,
+  generateImpulseResponse,
+  analyzeImpulseResponse,
+  getReverbEnvelope,
+} from './impulseResponse';
+export type { ReverbProfile, ReverbEnvelope } from './impulseResponse';
+export { DEFAULT_EFFECTS_SETTINGS, BUILT_IN_EFFECTS_PRESETS, normalizeEffectsSettings } from './presets';
+export {
+  DynamicsCompressor,
+  DYNAMICS_CONSTANTS,
+  DEFAULT_COMPRESSOR_SETTINGS,
+  computeGainReduction,
+  dbToGain,
+  gainToDb,
+} from './DynamicsCompressor';
+
+// ========== 常數定義 ==========
+
+/**
+ * 殘響空間顯示名稱
+ */
+export const REVERB_TYPE_LABELS: Record<ReverbType, string> = {
+  room: '房間',
+  hall: '音樂廳',
+  church: '教堂',
+};
+
+/**
+ * 延遲節拍長度 (依顯示順序)
+ */
+export const DELAY_DIVISIONS: DelayDivision[] = ['1/4', '1/8.', '1/8', '1/8t', '1/16'];
@@ -0,0 +1,135 @@
+/**
+ * 簡譜鋼琴應用程式 - 效果預設組合
+ *
+ * 本文件定義效果鏈的預設值與內建的預設組合，
+ * 並提供將儲存的設定補齊、限制在合法範圍內的正規化函數。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { EffectsSettings, EffectsPreset, ReverbType, DelayDivision } from '../../types';
+import { DELAY_CONSTANTS } from './DelayEffect';
+import { CHORUS_CONSTANTS } from './ChorusEffect';
+import { REVERB_PROFILES } from './impulseResponse';
+
+// ========== 預設值 ==========
+
+/**
+ * 預設效果設定
+ * 全部略過，維持原本的乾聲
+ */
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  reverb: { bypassed: true, mix: 0.25, type: 'hall' },
+  delay: { bypassed: true, mix: 0.25, syncToTempo: true, division: '1/8.', time: 0.3, feedback: 0.4 },
+  chorus: { bypassed: true, mix: 0.4, rate: 0.8, depth: 12 },
+};
+
+/**
+ * 內建預設組合
+ */
+export const BUILT_IN_EFFECTS_PRESETS: EffectsPreset[] = [
+  {
+    id: 'builtin-dry',
+    name: '乾聲',
+    builtIn: true,
+    settings: DEFAULT_EFFECTS_SETTINGS,
+  },
+  {
+    id: 'builtin-room',
+    name: '小房間',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_EFFECTS_SETTINGS,
+      reverb: { bypassed: false, mix: 0.25, type: 'room' },
+    },
+  },
+  {
+    id: 'builtin-hall',
+    name: '音樂廳',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_EFFECTS_SETTINGS,
+      reverb: { bypassed: false, mix: 0.35, type: 'hall' },
+    },
+  },
+  {
+    id: 'builtin-church',
+    name: '教堂',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_EFFECTS_SETTINGS,
+      reverb: { bypassed: false, mix: 0.45, type: 'church' },
+    },
+  },
+  {
+    id: 'builtin-echo',
+    name: '迴聲',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_EFFECTS_SETTINGS,
+      reverb: { bypassed: false, mix: 0.15, type: 'room' },
+      delay: { ...DEFAULT_EFFECTS_SETTINGS.delay, bypassed: false, mix: 0.3, feedback: 0.45 },
+    },
+  },
+  {
+    id: 'builtin-chorus',
+    name: '合唱',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_EFFECTS_SETTINGS,
+      reverb: { bypassed: false, mix: 0.2, type: 'room' },
+      chorus: { ...DEFAULT_EFFECTS_SETTINGS.chorus, bypassed: false, mix: 0.5 },
+    },
+  },
+];
+
+// ========== 正規化 ==========
+
+/**
+ * 限制數值範圍，非數值時使用預設值
+ */
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+/**
+ * 補齊並限制效果設定
+ * 用於讀取儲存的設定或預設組合，缺少或不合法的欄位以預設值取代
+ *
+ * @param settings 可能不完整的設定
+ * @returns EffectsSettings 完整且合法的設定
+ */
+export function normalizeEffectsSettings(settings?: Partial<Record<keyof EffectsSettings, any>>): EffectsSettings {
+  const defaults = DEFAULT_EFFECTS_SETTINGS;
+  const reverb = settings?.reverb ?? {};
+  const delay = settings?.delay ?? {};
+  const chorus = settings?.chorus ?? {};
+
+  return {
+    reverb: {
+      bypassed: typeof reverb.bypassed === 'boolean' ? reverb.bypassed : defaults.reverb.bypassed,
+      mix: clampNumber(reverb.mix, 0, 1, defaults.reverb.mix),
+      type: typeof reverb.type === 'string' && reverb.type in REVERB_PROFILES
+        ? (reverb.type as ReverbType)
+        : defaults.reverb.type,
+    },
+    delay: {
+      bypassed: typeof delay.bypassed === 'boolean' ? delay.bypassed : defaults.delay.bypassed,
+      mix: clampNumber(delay.mix, 0, 1, defaults.delay.mix),
+      syncToTempo: typeof delay.syncToTempo === 'boolean' ? delay.syncToTempo : defaults.delay.syncToTempo,
+      division: typeof delay.division === 'string' && delay.division in DELAY_CONSTANTS.DIVISION_BEATS
+        ? (delay.division as DelayDivision)
+        : defaults.delay.division,
+      time: clampNumber(delay.time, DELAY_CONSTANTS.MIN_TIME, DELAY_CONSTANTS.MAX_TIME, defaults.delay.time),
+      feedback: clampNumber(delay.feedback, 0, DELAY_CONSTANTS.MAX_FEEDBACK, defaults.delay.feedback),
+    },
+    chorus: {
+      bypassed: typeof chorus.bypassed === 'boolean' ? chorus.bypassed : defaults.chorus.bypassed,
+      mix: clampNumber(chorus.mix, 0, 1, defaults.chorus.mix),
+      rate: clampNumber(chorus.rate, CHORUS_CONSTANTS.MIN_RATE, CHORUS_CONSTANTS.MAX_RATE, defaults.chorus.rate),
+      depth: clampNumber(chorus.depth, 0, CHORUS_CONSTANTS.MAX_DEPTH, defaults.chorus.depth),
+    },
+  };
+}
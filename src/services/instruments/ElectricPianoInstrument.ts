@@ -0,0 +1,120 @@
+/**
+ * 簡譜鋼琴應用程式 - FM 電鋼琴音色
+ *
+ * 本文件實作了以頻率調變 (FM) 合成的電鋼琴：正弦波調變器以 1:1 比例
+ * 調變載波頻率產生溫暖的「音叉」音色，另一個 14:1 的調變器只在起音時
+ * 短暫出現，模擬敲擊時的金屬聲。調變指數隨時間衰減並隨力度增加。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, OscillatorNode, GainNode } from 'react-native-audio-api';
+
+import { Instrument, InstrumentVoice, VoiceOptions, BaseVoice, VOICE_CONSTANTS } from './Instrument';
+
+// ========== 常數定義 ==========
+
+/**
+ * 電鋼琴音色常數
+ */
+export const ELECTRIC_PIANO_CONSTANTS = {
+  /** 主調變器的頻率比與最大調變指數 */
+  MODULATOR_RATIO: 1,
+  MAX_MODULATION_INDEX: 3,
+  /** 敲擊聲調變器的頻率比、調變指數與衰減時間常數 (秒) */
+  BELL_RATIO: 14,
+  BELL_INDEX: 1.2,
+  BELL_DECAY: 0.03,
+  /** 調變指數衰減的時間常數 (秒) */
+  MODULATION_DECAY: 0.6,
+  /** 起音時間 (秒) */
+  ATTACK: 0.002,
+  /** 音量衰減的時間常數 (秒)，高音衰減較快 */
+  AMPLITUDE_DECAY: 2.5,
+  /** 釋音時間 (秒) */
+  RELEASE: 0.3,
+} as const;
+
+// ========== 電鋼琴聲部 ==========
+
+/**
+ * 電鋼琴聲部
+ * 調變器 → 調變深度 → 載波頻率；載波 → 輸出
+ */
+class ElectricPianoVoice extends BaseVoice {
+  private readonly carrier: OscillatorNode;
+  private readonly modulator: OscillatorNode;
+  private readonly modulationDepth: GainNode;
+  private readonly bell: OscillatorNode;
+  private readonly bellDepth: GainNode;
+  private readonly options: VoiceOptions;
+
+  constructor(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(context, destination, ELECTRIC_PIANO_CONSTANTS.RELEASE);
+    this.options = options;
+
+    this.carrier = context.createOscillator();
+    this.carrier.type = 'sine';
+    this.carrier.frequency.value = options.frequency;
+    this.carrier.connect(this.output);
+
+    this.modulator = context.createOscillator();
+    this.modulator.type = 'sine';
+    this.modulator.frequency.value = options.frequency * ELECTRIC_PIANO_CONSTANTS.MODULATOR_RATIO;
+    this.modulationDepth = context.createGain();
+    this.modulator.connect(this.modulationDepth);
+    this.modulationDepth.connect(this.carrier.frequency);
+
+    this.bell = context.createOscillator();
+    this.bell.type = 'sine';
+    this.bell.frequency.value = options.frequency * ELECTRIC_PIANO_CONSTANTS.BELL_RATIO;
+    this.bellDepth = context.createGain();
+    this.bell.connect(this.bellDepth);
+    this.bellDepth.connect(this.carrier.frequency);
+
+    this.detuneParams.push(this.carrier.detune, this.modulator.detune, this.bell.detune);
+  }
+
+  public start(when: number): void {
+    const { frequency, velocity, gain } = this.options;
+
+    // 調變深度 = 調變指數 × 調變器頻率
+    const index = ELECTRIC_PIANO_CONSTANTS.MAX_MODULATION_INDEX * (0.3 + 0.7 * velocity);
+    const depth = this.modulationDepth.gain;
+    depth.setValueAtTime(index * frequency * ELECTRIC_PIANO_CONSTANTS.MODULATOR_RATIO, when);
+    depth.setTargetAtTime(index * frequency * 0.2, when, ELECTRIC_PIANO_CONSTANTS.MODULATION_DECAY);
+
+    const bellDepth = this.bellDepth.gain;
+    bellDepth.setValueAtTime(ELECTRIC_PIANO_CONSTANTS.BELL_INDEX * velocity * frequency, when);
+    bellDepth.setTargetAtTime(0, when, ELECTRIC_PIANO_CONSTANTS.BELL_DECAY);
+
+    const output = this.output.gain;
+    const decay = ELECTRIC_PIANO_CONSTANTS.AMPLITUDE_DECAY * Math.min(1, 440 / frequency + 0.3);
+    output.setValueAtTime(VOICE_CONSTANTS.MIN_GAIN, when);
+    output.exponentialRampToValueAtTime(Math.max(gain, VOICE_CONSTANTS.MIN_GAIN), when + ELECTRIC_PIANO_CONSTANTS.ATTACK);
+    output.setTargetAtTime(0, when + ELECTRIC_PIANO_CONSTANTS.ATTACK, decay);
+
+    this.startSource(this.carrier, when);
+    this.startSource(this.modulator, when);
+    this.startSource(this.bell, when);
+  }
+}
+
+// ========== 電鋼琴樂器 ==========
+
+/**
+ * FM 電鋼琴
+ */
+export class ElectricPianoInstrument implements Instrument {
+  public readonly soundType = 'electricPiano' as const;
+
+  public async prepare(): Promise<void> {
+    // 純合成音色，不需要預先準備資源
+  }
+
+  public createVoice(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions): InstrumentVoice {
+    return new ElectricPianoVoice(context, destination, options);
+  }
+}
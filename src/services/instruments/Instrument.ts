@@ -0,0 +1,221 @@
+/**
+ * 簡譜鋼琴應用程式 - 樂器抽象層
+ *
+ * 本文件定義了音色 (SoundType) 的共同介面：每種樂器負責準備所需資源，
+ * 並為每個音符建立一個「聲部」(voice)。AudioService 只與聲部互動，
+ * 因此切換音色時不需要重新建立 AudioContext。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  BaseAudioContext,
+  AudioNode,
+  AudioParam,
+  AudioScheduledSourceNode,
+  GainNode,
+} from 'react-native-audio-api';
+
+import type { SoundType, AudioServiceConfig } from '../../types';
+
+// ========== 類型定義 ==========
+
+/**
+ * 建立聲部時的參數
+ */
+export interface VoiceOptions {
+  /** 音高頻率 (Hz) */
+  frequency: number;
+  /** 正規化力度 (0-1)，影響音色亮度 */
+  velocity: number;
+  /** 峰值音量 (已考慮力度與同時發聲數) */
+  gain: number;
+  /** 使用者設定的音量包絡，合成器音色會採用 */
+  envelope: AudioServiceConfig['envelope'];
+}
+
+/**
+ * 單一音符的發聲單元
+ */
+export interface InstrumentVoice {
+  /** 聲部的輸出音量節點 */
+  readonly output: GainNode;
+  /** 在指定時間開始發聲 */
+  start(when: number): void;
+  /**
+   * 進入釋音階段
+   * @returns number 聲音完全結束的時間 (AudioContext 時鐘，秒)
+   */
+  release(when: number): number;
+  /**
+   * 以極短的淡出立即停止
+   * @returns number 聲音完全結束的時間 (AudioContext 時鐘，秒)
+   */
+  stop(when: number, fadeTime?: number): number;
+  /** 可調整音高的 detune 參數 (cents)，供效果器調變 */
+  getDetuneParams(): AudioParam[];
+}
+
+/**
+ * 樂器介面
+ */
+export interface Instrument {
+  /** 對應的音色類型 */
+  readonly soundType: SoundType;
+  /**
+   * 準備樂器所需資源（例如取樣音檔）
+   * 每個 AudioContext 只需準備一次，重複呼叫應立即返回
+   */
+  prepare(context: BaseAudioContext): Promise<void>;
+  /** 為一個音符建立聲部，輸出連接到 destination */
+  createVoice(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions): InstrumentVoice;
+  /** 釋放為指定 AudioContext 準備的資源 */
+  dispose?(context: BaseAudioContext): void;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 聲部相關常數
+ */
+export const VOICE_CONSTANTS = {
+  /** 指數包絡可使用的最小音量 */
+  MIN_GAIN: 0.0001,
+  /** 預設的停止淡出時間 (秒) */
+  DEFAULT_STOP_FADE: 0.005,
+} as const;
+
+// ========== 工具函數 ==========
+
+/**
+ * 依力度與目前發聲數計算聲部的正規化力度與峰值音量
+ * 即時演奏與離線渲染共用，確保兩者的音量一致
+ *
+ * @param velocity 力度 (0-127)
+ * @param playingCount 目前按住中的音符數
+ * @returns 正規化力度 (0.1-1) 與峰值音量
+ */
+export function getVoiceLevels(velocity: number, playingCount: number): { velocity: number; gain: number } {
+  const normalizedVelocity = Math.max(0.1, Math.min(1.0, velocity / 127));
+
+  // 減少音量動態調整的影響
+  const volumeReduction = Math.max(0.6, 1.0 - (playingCount * 0.05)); // 更温和的調整
+
+  return {
+    velocity: normalizedVelocity,
+    gain: normalizedVelocity * 0.15 * volumeReduction, // 適度提高基礎音量
+  };
+}
+
+// ========== 聲部基底類別 ==========
+
+/**
+ * 聲部基底類別
+ * 管理輸出音量節點與音源的停止，子類別只需建立音源並排程起音包絡
+ */
+export abstract class BaseVoice implements InstrumentVoice {
+  public readonly output: GainNode;
+  protected readonly context: BaseAudioContext;
+  protected readonly sources: AudioScheduledSourceNode[] = [];
+  protected readonly detuneParams: AudioParam[] = [];
+  private endTime: number | null = null;
+
+  /**
+   * @param context 音頻上下文
+   * @param destination 輸出目標
+   * @param releaseTime 釋音時間 (秒)
+   */
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    protected readonly releaseTime: number
+  ) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.gain.value = 0;
+    this.output.connect(destination);
+  }
+
+  /**
+   * 在指定時間開始發聲
+   */
+  public abstract start(when: number): void;
+
+  /**
+   * 進入釋音階段
+   */
+  public release(when: number): number {
+    return this.fadeOut(when, this.releaseTime);
+  }
+
+  /**
+   * 以極短的淡出立即停止
+   */
+  public stop(when: number, fadeTime: number = VOICE_CONSTANTS.DEFAULT_STOP_FADE): number {
+    return this.fadeOut(when, fadeTime);
+  }
+
+  /**
+   * 取得可調整音高的 detune 參數
+   */
+  public getDetuneParams(): AudioParam[] {
+    return this.detuneParams;
+  }
+
+  /**
+   * 從目前音量淡出並在結束時停止所有音源
+   * 若已在更早的時間結束，則保留原本的排程
+   */
+  private fadeOut(when: number, duration: number): number {
+    const end = when + duration;
+    if (this.endTime !== null && this.endTime <= end) {
+      return this.endTime;
+    }
+    this.endTime = end;
+
+    const gain = this.output.gain;
+    gain.cancelAndHoldAtTime(when);
+    // 時間常數取總長的 1/5，結束時已衰減至 1% 以下
+    gain.setTargetAtTime(0, when, Math.max(duration / 5, 0.001));
+    gain.setValueAtTime(0, end);
+
+    this.sources.forEach(source => {
+      try {
+        source.stop(end);
+      } catch {
+        // 音源已停止時忽略
+      }
+    });
+
+    return end;
+  }
+
+  /**
+   * 排程標準的 ADSR 起音段（起音、衰減至維持音量）
+   */
+  protected scheduleAttack(
+    when: number,
+    peak: number,
+    attack: number,
+    decay: number,
+    sustainLevel: number
+  ): void {
+    const gain = this.output.gain;
+    gain.setValueAtTime(VOICE_CONSTANTS.MIN_GAIN, when);
+    gain.exponentialRampToValueAtTime(Math.max(peak, VOICE_CONSTANTS.MIN_GAIN), when + attack);
+    gain.exponentialRampToValueAtTime(
+      Math.max(peak * sustainLevel, VOICE_CONSTANTS.MIN_GAIN),
+      when + attack + decay
+    );
+  }
+
+  /**
+   * 登記需要在釋音後停止的音源，並在指定時間啟動
+   */
+  protected startSource(source: AudioScheduledSourceNode, when: number): void {
+    this.sources.push(source);
+    source.start(when);
+  }
+}
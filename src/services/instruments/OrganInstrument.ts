@@ -0,0 +1,145 @@
+/**
+ * 簡譜鋼琴應用程式 - 拉桿式風琴音色
+ *
+ * 本文件實作了加法合成的拉桿式 (drawbar) 風琴：九支拉桿分別控制
+ * 16'、5⅓'、8'、4'、2⅔'、2'、1⅗'、1⅓'、1' 的諧波音量。
+ * 所有諧波皆為 16' 基音的整數倍，因此合併成單一 PeriodicWave，
+ * 每個音符只需一個振盪器。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode } from 'react-native-audio-api';
+
+import { Instrument, InstrumentVoice, VoiceOptions, BaseVoice } from './Instrument';
+
+/** 週期波形 (套件未從入口匯出此類別) */
+type PeriodicWave = ReturnType<BaseAudioContext['createPeriodicWave']>;
+
+// ========== 常數定義 ==========
+
+/**
+ * 風琴音色常數
+ */
+export const ORGAN_CONSTANTS = {
+  /** 各拉桿相對於 16' 基音的諧波次數 */
+  DRAWBAR_HARMONICS: [1, 3, 2, 4, 6, 8, 10, 12, 16],
+  /** 拉桿的最大刻度 */
+  MAX_DRAWBAR_LEVEL: 8,
+  /** 預設拉桿設定 (經典的 88 8000 000) */
+  DEFAULT_DRAWBARS: [8, 8, 8, 0, 0, 0, 0, 0, 0],
+  /** 起音與釋音時間 (秒)，風琴為近乎開關式的包絡 */
+  ATTACK: 0.008,
+  RELEASE: 0.04,
+} as const;
+
+// ========== 風琴聲部 ==========
+
+/**
+ * 風琴聲部
+ * 以 16' 基音 (音高的一半) 播放合成的週期波形
+ */
+class OrganVoice extends BaseVoice {
+  private readonly oscillator;
+  private readonly peak: number;
+
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    wave: PeriodicWave,
+    options: VoiceOptions
+  ) {
+    super(context, destination, ORGAN_CONSTANTS.RELEASE);
+    this.peak = options.gain;
+
+    this.oscillator = context.createOscillator();
+    this.oscillator.setPeriodicWave(wave);
+    this.oscillator.frequency.value = options.frequency / 2;
+    this.oscillator.connect(this.output);
+    this.detuneParams.push(this.oscillator.detune);
+  }
+
+  public start(when: number): void {
+    this.scheduleAttack(when, this.peak, ORGAN_CONSTANTS.ATTACK, 0.001, 1);
+    this.startSource(this.oscillator, when);
+  }
+}
+
+// ========== 風琴樂器 ==========
+
+/**
+ * 拉桿式風琴
+ */
+export class OrganInstrument implements Instrument {
+  public readonly soundType = 'organ' as const;
+
+  private drawbars: number[] = [...ORGAN_CONSTANTS.DEFAULT_DRAWBARS];
+  private waves: Map<BaseAudioContext, PeriodicWave> = new Map();
+
+  public async prepare(context: BaseAudioContext): Promise<void> {
+    if (!this.waves.has(context)) {
+      this.waves.set(context, this.createWave(context));
+    }
+  }
+
+  public dispose(context: BaseAudioContext): void {
+    this.waves.delete(context);
+  }
+
+  /**
+   * 設定拉桿刻度
+   * 已在發聲的音符不受影響，新的音符使用新的設定
+   *
+   * @param levels 九支拉桿的刻度 (0-8)
+   */
+  public setDrawbars(levels: number[]): void {
+    this.drawbars = ORGAN_CONSTANTS.DRAWBAR_HARMONICS.map((_, index) =>
+      Math.max(0, Math.min(ORGAN_CONSTANTS.MAX_DRAWBAR_LEVEL, Math.round(levels[index] ?? 0)))
+    );
+    this.waves.clear();
+  }
+
+  /**
+   * 取得目前的拉桿刻度
+   */
+  public getDrawbars(): number[] {
+    return [...this.drawbars];
+  }
+
+  public createVoice(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions): InstrumentVoice {
+    let wave = this.waves.get(context);
+    if (!wave) {
+      wave = this.createWave(context);
+      this.waves.set(context, wave);
+    }
+    return new OrganVoice(context, destination, wave, options);
+  }
+
+  /**
+   * 依拉桿設定建立週期波形
+   * 每格刻度約為 3dB，並依總音量正規化避免削波
+   */
+  private createWave(context: BaseAudioContext): PeriodicWave {
+    const size = Math.max(...ORGAN_CONSTANTS.DRAWBAR_HARMONICS) + 1;
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+
+    let total = 0;
+    ORGAN_CONSTANTS.DRAWBAR_HARMONICS.forEach((harmonic, index) => {
+      const level = this.drawbars[index];
+      const amplitude = level > 0 ? Math.pow(10, (-3 * (ORGAN_CONSTANTS.MAX_DRAWBAR_LEVEL - level)) / 20) : 0;
+      imag[harmonic] += amplitude;
+      total += amplitude;
+    });
+
+    if (total > 0) {
+      for (let i = 0; i < size; i++) {
+        imag[i] /= total;
+      }
+    }
+
+    return context.createPeriodicWave(real, imag, { disableNormalization: true });
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * 簡譜鋼琴應用程式 - 多重取樣鋼琴音色
+ *
+ * 本文件實作了以取樣音檔發聲的鋼琴：每隔數個半音放置一個取樣點，
+ * 取樣點之間的音符以最接近的取樣變速 (playbackRate) 播放。
+ * 內建取樣是隨應用程式打包的鋼琴錄音 (assets/sounds/piano，授權見該目錄的 README)，
+ * 在準備階段解碼；音檔無法取得或解碼時，改以物理模型 (帶非諧和性的分音與槌擊雜音)
+ * 即時渲染備用取樣。也可透過 loadSampleFiles 改用其他錄製的音檔。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Asset } from 'expo-asset';
+import type { BaseAudioContext, AudioBuffer, AudioNode } from 'react-native-audio-api';
+
+import type { NoteId } from '../../types';
+import { noteIdToMidiNumber, midiNumberToFrequency } from '../../utils/noteFrequencies';
+import { Instrument, InstrumentVoice, VoiceOptions, BaseVoice, VOICE_CONSTANTS } from './Instrument';
+
+// ========== 類型定義 ==========
+
+/**
+ * 鋼琴取樣
+ */
+export interface PianoSample {
+  /** 取樣的原始音高 */
+  noteId: NoteId;
+  /** 取樣音訊 */
+  buffer: AudioBuffer;
+}
+
+/**
+ * 鋼琴取樣音檔
+ */
+export interface PianoSampleFile {
+  /** 取樣的原始音高 */
+  noteId: NoteId;
+  /** 音檔在裝置上的路徑 */
+  path: string;
+}
+
+/**
+ * 取樣庫中的取樣點
+ */
+interface SamplePoint {
+  midiNumber: number;
+  frequency: number;
+  buffer: AudioBuffer;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 鋼琴音色常數
+ */
+export const PIANO_CONSTANTS = {
+  /** 備用取樣的最低與最高 MIDI 編號（與內建音檔相同涵蓋 C1–C8，移調與八度位移後仍有相近的取樣） */
+  SAMPLE_LOWEST_MIDI: 24,
+  SAMPLE_HIGHEST_MIDI: 108,
+  /** 備用取樣點間距 (半音) */
+  SAMPLE_INTERVAL: 4,
+  /** 備用取樣長度 (秒) */
+  SAMPLE_DURATION: 2.5,
+  /** 渲染的最大分音數 */
+  MAX_PARTIALS: 12,
+  /** 起音時間 (秒) */
+  ATTACK: 0.003,
+  /** 制音器釋音時間 (秒) */
+  RELEASE: 0.25,
+  /** 取樣正規化後的峰值 */
+  SAMPLE_PEAK: 0.9,
+} as const;
+
+/**
+ * 內建取樣音檔
+ * 每小三度一個取樣，涵蓋 C1–C8；音檔為單聲道、4 秒並已各自正規化音量
+ */
+const BUNDLED_SAMPLES: { noteId: NoteId; asset: number }[] = [
+  { noteId: 'C1', asset: require('../../../assets/sounds/piano/C1.mp3') },
+  { noteId: 'D#1', asset: require('../../../assets/sounds/piano/Ds1.mp3') },
+  { noteId: 'F#1', asset: require('../../../assets/sounds/piano/Fs1.mp3') },
+  { noteId: 'A1', asset: require('../../../assets/sounds/piano/A1.mp3') },
+  { noteId: 'C2', asset: require('../../../assets/sounds/piano/C2.mp3') },
+  { noteId: 'D#2', asset: require('../../../assets/sounds/piano/Ds2.mp3') },
+  { noteId: 'F#2', asset: require('../../../assets/sounds/piano/Fs2.mp3') },
+  { noteId: 'A2', asset: require('../../../assets/sounds/piano/A2.mp3') },
+  { noteId: 'C3', asset: require('../../../assets/sounds/piano/C3.mp3') },
+  { noteId: 'D#3', asset: require('../../../assets/sounds/piano/Ds3.mp3') },
+  { noteId: 'F#3', asset: require('../../../assets/sounds/piano/Fs3.mp3') },
+  { noteId: 'A3', asset: require('../../../assets/sounds/piano/A3.mp3') },
+  { noteId: 'C4', asset: require('../../../assets/sounds/piano/C4.mp3') },
+  { noteId: 'D#4', asset: require('../../../assets/sounds/piano/Ds4.mp3') },
+  { noteId: 'F#4', asset: require('../../../assets/sounds/piano/Fs4.mp3') },
+  { noteId: 'A4', asset: require('../../../assets/sounds/piano/A4.mp3') },
+  { noteId: 'C5', asset: require('../../../assets/sounds/piano/C5.mp3') },
+  { noteId: 'D#5', asset: require('../../../assets/sounds/piano/Ds5.mp3') },
+  { noteId: 'F#5', asset: require('../../../assets/sounds/piano/Fs5.mp3') },
+  { noteId: 'A5', asset: require('../../../assets/sounds/piano/A5.mp3') },
+  { noteId: 'C6', asset: require('../../../assets/sounds/piano/C6.mp3') },
+  { noteId: 'D#6', asset: require('../../../assets/sounds/piano/Ds6.mp3') },
+  { noteId: 'F#6', asset: require('../../../assets/sounds/piano/Fs6.mp3') },
+  { noteId: 'A6', asset: require('../../../assets/sounds/piano/A6.mp3') },
+  { noteId: 'C7', asset: require('../../../assets/sounds/piano/C7.mp3') },
+  { noteId: 'D#7', asset: require('../../../assets/sounds/piano/Ds7.mp3') },
+  { noteId: 'F#7', asset: require('../../../assets/sounds/piano/Fs7.mp3') },
+  { noteId: 'A7', asset: require('../../../assets/sounds/piano/A7.mp3') },
+  { noteId: 'C8', asset: require('../../../assets/sounds/piano/C8.mp3') },
+];
+
+// ========== 取樣工具 ==========
+
+/**
+ * 將取樣轉換為依音高排序的取樣點
+ */
+function toSamplePoints(samples: PianoSample[]): SamplePoint[] {
+  return samples
+    .map(({ noteId, buffer }) => {
+      const midiNumber = noteIdToMidiNumber(noteId);
+      return { midiNumber, frequency: midiNumberToFrequency(midiNumber), buffer };
+    })
+    .sort((a, b) => a.midiNumber - b.midiNumber);
+}
+
+/**
+ * 渲染備用鋼琴取樣
+ * 以遞迴旋轉產生正弦波以減少三角函數運算，每個分音具有兩段式衰減
+ *
+ * @param data 輸出的聲道資料
+ * @param sampleRate 取樣率
+ * @param frequency 基頻 (Hz)
+ */
+function renderPianoTone(data: Float32Array, sampleRate: number, frequency: number): void {
+  const nyquist = sampleRate / 2;
+  const pitchFactor = Math.pow(frequency / 261.63, 0.3);
+  const inharmonicity = 0.0004 * frequency / 261.63;
+
+  for (let n = 1; n <= PIANO_CONSTANTS.MAX_PARTIALS; n++) {
+    const partialFrequency = n * frequency * Math.sqrt(1 + inharmonicity * n * n);
+    if (partialFrequency >= nyquist * 0.9) break;
+
+    const amplitude = 1 / Math.pow(n, 1.1);
+    const omega = (2 * Math.PI * partialFrequency) / sampleRate;
+    const cos = Math.cos(omega);
+    const sin = Math.sin(omega);
+
+    // 快速衰減的「即時音」與緩慢衰減的「餘音」
+    const fastDecay = Math.exp(-(1.2 + 0.6 * n) * pitchFactor / sampleRate);
+    const slowDecay = Math.exp(-(0.3 + 0.15 * n) * pitchFactor / sampleRate);
+    let fastEnvelope = amplitude * 0.7;
+    let slowEnvelope = amplitude * 0.3;
+
+    const phase = Math.random() * 2 * Math.PI;
+    let re = Math.cos(phase);
+    let im = Math.sin(phase);
+
+    for (let i = 0; i < data.length; i++) {
+      data[i] += im * (fastEnvelope + slowEnvelope);
+      const nextRe = re * cos - im * sin;
+      im = re * sin + im * cos;
+      re = nextRe;
+      fastEnvelope *= fastDecay;
+      slowEnvelope *= slowDecay;
+    }
+  }
+
+  // 槌擊雜音
+  const hammerLength = Math.min(data.length, Math.floor(sampleRate * 0.02));
+  for (let i = 0; i < hammerLength; i++) {
+    data[i] += (Math.random() * 2 - 1) * 0.08 * Math.exp(-i / (sampleRate * 0.004));
+  }
+
+  // 正規化並加上極短的起音斜坡以避免爆音
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) {
+    peak = Math.max(peak, Math.abs(data[i]));
+  }
+  const scale = peak > 0 ? PIANO_CONSTANTS.SAMPLE_PEAK / peak : 0;
+  const rampLength = Math.floor(sampleRate * 0.002);
+  for (let i = 0; i < data.length; i++) {
+    data[i] *= scale * (i < rampLength ? i / rampLength : 1);
+  }
+}
+
+// ========== 鋼琴聲部 ==========
+
+/**
+ * 鋼琴聲部
+ * 取樣 → 依力度調整亮度的低通濾波器 → 輸出
+ */
+class PianoVoice extends BaseVoice {
+  private readonly peak: number;
+
+  constructor(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    sample: SamplePoint,
+    options: VoiceOptions
+  ) {
+    super(context, destination, PIANO_CONSTANTS.RELEASE);
+    this.peak = options.gain;
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = Math.min(18000, options.frequency * (2 + 10 * options.velocity));
+    filter.Q.value = 0.5;
+    filter.connect(this.output);
+
+    const source = context.createBufferSource();
+    source.buffer = sample.buffer;
+    source.playbackRate.value = options.frequency / sample.frequency;
+    source.connect(filter);
+    this.sources.push(source);
+    this.detuneParams.push(source.detune);
+  }
+
+  public start(when: number): void {
+    const gain = this.output.gain;
+    gain.setValueAtTime(VOICE_CONSTANTS.MIN_GAIN, when);
+    gain.exponentialRampToValueAtTime(Math.max(this.peak, VOICE_CONSTANTS.MIN_GAIN), when + PIANO_CONSTANTS.ATTACK);
+    this.sources.forEach(source => source.start(when));
+  }
+}
+
+// ========== 鋼琴樂器 ==========
+
+/**
+ * 多重取樣鋼琴
+ */
+export class PianoInstrument implements Instrument {
+  public readonly soundType = 'piano' as const;
+
+  /** 自訂取樣庫，設定後取代內建取樣 */
+  private customSamples: SamplePoint[] | null = null;
+  /** 各 AudioContext 的內建取樣庫 (AudioBuffer 與建立它的上下文綁定) */
+  private builtInBanks: Map<BaseAudioContext, SamplePoint[]> = new Map();
+  private preparing: Map<BaseAudioContext, Promise<void>> = new Map();
+  /** 內建取樣音檔的本機路徑，只需從應用程式套件取出一次 */
+  private bundledFiles: Promise<PianoSampleFile[]> | null = null;
+
+  /**
+   * 準備取樣庫
+   * 未載入自訂取樣時，為指定的 AudioContext 解碼內建取樣
+   */
+  public async prepare(context: BaseAudioContext): Promise<void> {
+    if (this.customSamples || this.builtInBanks.has(context)) {
+      return;
+    }
+    let pending = this.preparing.get(context);
+    if (!pending) {
+      pending = this.loadBuiltInSamples(context).finally(() => {
+        this.preparing.delete(context);
+      });
+      this.preparing.set(context, pending);
+    }
+    await pending;
+  }
+
+  /**
+   * 釋放指定 AudioContext 的內建取樣庫
+   */
+  public dispose(context: BaseAudioContext): void {
+    this.builtInBanks.delete(context);
+  }
+
+  /**
+   * 以解碼後的音檔取代取樣庫
+   *
+   * @param samples 取樣列表，至少需要一個
+   */
+  public setSamples(samples: PianoSample[]): void {
+    if (samples.length === 0) {
+      throw new Error('鋼琴取樣庫至少需要一個取樣');
+    }
+    this.customSamples = toSamplePoints(samples);
+  }
+
+  /**
+   * 載入取樣音檔並取代取樣庫
+   *
+   * @param context 音頻上下文
+   * @param files 各取樣的音高與檔案路徑
+   */
+  public async loadSampleFiles(context: BaseAudioContext, files: PianoSampleFile[]): Promise<void> {
+    this.setSamples(await this.decodeSampleFiles(context, files));
+  }
+
+  public createVoice(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions): InstrumentVoice {
+    const samplePoints = this.customSamples ?? this.builtInBanks.get(context);
+    if (!samplePoints || samplePoints.length === 0) {
+      throw new Error('鋼琴取樣尚未準備完成');
+    }
+    return new PianoVoice(context, destination, this.findNearestSample(samplePoints, options.frequency), options);
+  }
+
+  /**
+   * 找出音高最接近的取樣點
+   */
+  private findNearestSample(samplePoints: SamplePoint[], frequency: number): SamplePoint {
+    const target = 69 + 12 * Math.log2(frequency / 440);
+    return samplePoints.reduce((nearest, point) =>
+      Math.abs(point.midiNumber - target) < Math.abs(nearest.midiNumber - target) ? point : nearest
+    );
+  }
+
+  /**
+   * 解碼取樣音檔
+   */
+  private decodeSampleFiles(context: BaseAudioContext, files: PianoSampleFile[]): Promise<PianoSample[]> {
+    return Promise.all(
+      files.map(async ({ noteId, path }) => ({
+        noteId,
+        buffer: await context.decodeAudioDataSource(path),
+      }))
+    );
+  }
+
+  /**
+   * 取得內建取樣音檔的本機路徑，取得失敗時下次重新嘗試
+   */
+  private resolveBundledFiles(): Promise<PianoSampleFile[]> {
+    if (!this.bundledFiles) {
+      this.bundledFiles = Asset.loadAsync(BUNDLED_SAMPLES.map(sample => sample.asset))
+        .then(assets => assets.map((asset, index) => {
+          if (!asset.localUri) {
+            throw new Error(`無法取得鋼琴取樣音檔: ${asset.name}`);
+          }
+          return { noteId: BUNDLED_SAMPLES[index].noteId, path: asset.localUri };
+        }))
+        .catch(error => {
+          this.bundledFiles = null;
+          throw error;
+        });
+    }
+    return this.bundledFiles;
+  }
+
+  /**
+   * 為指定的 AudioContext 載入內建取樣庫
+   * 內建音檔無法取得或解碼時，以物理模型渲染備用取樣，讓鋼琴仍可發聲
+   */
+  private async loadBuiltInSamples(context: BaseAudioContext): Promise<void> {
+    let points: SamplePoint[];
+    try {
+      points = toSamplePoints(await this.decodeSampleFiles(context, await this.resolveBundledFiles()));
+      console.log(`鋼琴取樣庫已載入 (${points.length} 個取樣點)`);
+    } catch (error) {
+      console.warn('載入鋼琴取樣音檔失敗，改用備用取樣:', error);
+      points = await this.renderFallbackSamples(context);
+    }
+    this.builtInBanks.set(context, points);
+  }
+
+  /**
+   * 渲染備用取樣，每個取樣之間讓出執行緒以免阻塞介面
+   */
+  private async renderFallbackSamples(context: BaseAudioContext): Promise<SamplePoint[]> {
+    const points: SamplePoint[] = [];
+    const length = Math.floor(context.sampleRate * PIANO_CONSTANTS.SAMPLE_DURATION);
+
+    for (
+      let midiNumber = PIANO_CONSTANTS.SAMPLE_LOWEST_MIDI;
+      midiNumber <= PIANO_CONSTANTS.SAMPLE_HIGHEST_MIDI;
+      midiNumber += PIANO_CONSTANTS.SAMPLE_INTERVAL
+    ) {
+      const frequency = midiNumberToFrequency(midiNumber);
+      const data = new Float32Array(length);
+      renderPianoTone(data, context.sampleRate, frequency);
+
+      const buffer = context.createBuffer(1, length, context.sampleRate);
+      buffer.copyToChannel(data, 0);
+      points.push({ midiNumber, frequency, buffer });
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    console.log(`鋼琴備用取樣已渲染完成 (${points.length} 個取樣點)`);
+    return points;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * 簡譜鋼琴應用程式 - 減法合成器音色
+ *
+ * 本文件實作了經典的減法合成器：兩個略微走音的鋸齒波振盪器
+ * 經過具共振的低通濾波器，濾波器截止頻率有獨立的包絡，
+ * 音量包絡則採用使用者設定的 ADSR。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { BaseAudioContext, AudioNode, BiquadFilterNode } from 'react-native-audio-api';
+
+import { Instrument, InstrumentVoice, VoiceOptions, BaseVoice } from './Instrument';
+
+// ========== 常數定義 ==========
+
+/**
+ * 合成器音色常數
+ */
+export const SYNTHESIZER_CONSTANTS = {
+  /** 兩個振盪器的相對走音量 (cents) */
+  DETUNE_CENTS: 7,
+  /** 濾波器共振 */
+  FILTER_Q: 4,
+  /** 濾波器截止頻率的起點與峰值 (相對於音高的倍數) */
+  FILTER_BASE_RATIO: 1.5,
+  FILTER_PEAK_RATIO: 12,
+  /** 濾波器包絡的衰減時間常數 (秒) */
+  FILTER_DECAY: 0.25,
+  /** 截止頻率上限 (Hz) */
+  MAX_CUTOFF: 16000,
+  /** 兩個振盪器合併後的音量補償 */
+  OSCILLATOR_MIX: 0.5,
+} as const;
+
+// ========== 合成器聲部 ==========
+
+/**
+ * 合成器聲部
+ * 鋸齒波 ×2 → 低通濾波器 → 輸出
+ */
+class SynthesizerVoice extends BaseVoice {
+  private readonly filter: BiquadFilterNode;
+  private readonly oscillators;
+  private readonly options: VoiceOptions;
+
+  constructor(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(context, destination, Math.max(options.envelope.release, 0.01));
+    this.options = options;
+
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.Q.value = SYNTHESIZER_CONSTANTS.FILTER_Q;
+    this.filter.connect(this.output);
+
+    this.oscillators = [-1, 1].map(direction => {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'sawtooth';
+      oscillator.frequency.value = options.frequency;
+      oscillator.detune.value = direction * SYNTHESIZER_CONSTANTS.DETUNE_CENTS;
+      oscillator.connect(this.filter);
+      this.detuneParams.push(oscillator.detune);
+      return oscillator;
+    });
+  }
+
+  public start(when: number): void {
+    const { frequency, velocity, gain, envelope } = this.options;
+
+    const base = Math.min(SYNTHESIZER_CONSTANTS.MAX_CUTOFF, frequency * SYNTHESIZER_CONSTANTS.FILTER_BASE_RATIO);
+    const peak = Math.min(
+      SYNTHESIZER_CONSTANTS.MAX_CUTOFF,
+      frequency * SYNTHESIZER_CONSTANTS.FILTER_PEAK_RATIO * (0.4 + 0.6 * velocity)
+    );
+    const cutoff = this.filter.frequency;
+    cutoff.setValueAtTime(peak, when);
+    cutoff.setTargetAtTime(base, when + envelope.attack, SYNTHESIZER_CONSTANTS.FILTER_DECAY);
+
+    this.scheduleAttack(
+      when,
+      gain * SYNTHESIZER_CONSTANTS.OSCILLATOR_MIX,
+      Math.max(envelope.attack, 0.001),
+      Math.max(envelope.decay, 0.001),
+      envelope.sustain
+    );
+
+    this.oscillators.forEach(oscillator => this.startSource(oscillator, when));
+  }
+}
+
+// ========== 合成器樂器 ==========
+
+/**
+ * 減法合成器
+ */
+export class SynthesizerInstrument implements Instrument {
+  public readonly soundType = 'synthesizer' as const;
+
+  public async prepare(): Promise<void> {
+    // 純合成音色，不需要預先準備資源
+  }
+
+  public createVoice(context: BaseAudioContext, destination: AudioNode, options: VoiceOptions): InstrumentVoice {
+    return new SynthesizerVoice(context, destination, options);
+  }
+}
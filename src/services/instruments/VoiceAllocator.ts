@@ -0,0 +1,250 @@
+/**
+ * 簡譜鋼琴應用程式 - 聲部分配器
+ *
+ * 本文件實作了有限復音數的聲部管理：按住中的聲部與釋音中的聲部分開追蹤，
+ * 超過復音數時優先搶用釋音中的聲部，其次依策略搶用最舊或最小聲的按住聲部，
+ * 被搶用的聲部以極短的淡出停止以避免爆音。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { NoteId, VoiceStealingMode } from '../../types';
+import type { InstrumentVoice } from './Instrument';
+
+// ========== 類型定義 ==========
+
+/**
+ * 分配器追蹤的聲部
+ */
+export interface AllocatedVoice {
+  /** 發聲的音符 */
+  noteId: NoteId;
+  /** 聲部實例 */
+  voice: InstrumentVoice;
+  /** 峰值音量，用於估計目前音量 */
+  gain: number;
+  /** 開始時間 (AudioContext 時鐘，秒) */
+  startTime: number;
+  /** 開始釋音的時間，按住中為 null */
+  releaseTime: number | null;
+  /** 釋音結束時間，按住中為 null */
+  endTime: number | null;
+}
+
+/**
+ * 搶用結果
+ */
+export interface VoiceStealResult {
+  /** 被搶用的聲部 */
+  stolen: AllocatedVoice;
+  /** 被搶用時是否已在釋音 */
+  wasReleasing: boolean;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 聲部分配常數
+ */
+export const VOICE_ALLOCATOR_CONSTANTS = {
+  /** 預設復音數 */
+  DEFAULT_POLYPHONY: 12,
+  /** 復音數範圍 */
+  MIN_POLYPHONY: 1,
+  MAX_POLYPHONY: 32,
+  /** 被搶用聲部的淡出時間 (秒) */
+  STEAL_FADE: 0.015,
+} as const;
+
+// ========== 聲部分配器 ==========
+
+/**
+ * 聲部分配器
+ */
+export class VoiceAllocator {
+  private held: Set<AllocatedVoice> = new Set();
+  private releasing: Set<AllocatedVoice> = new Set();
+  private stealCount: number = 0;
+
+  constructor(
+    private polyphony: number = VOICE_ALLOCATOR_CONSTANTS.DEFAULT_POLYPHONY,
+    private mode: VoiceStealingMode = 'oldest'
+  ) {
+    this.setPolyphony(polyphony);
+  }
+
+  // ========== 設定 ==========
+
+  /**
+   * 設定復音數，超出的聲部會在下次分配時被搶用
+   */
+  public setPolyphony(polyphony: number): void {
+    this.polyphony = Math.max(
+      VOICE_ALLOCATOR_CONSTANTS.MIN_POLYPHONY,
+      Math.min(VOICE_ALLOCATOR_CONSTANTS.MAX_POLYPHONY, Math.round(polyphony))
+    );
+  }
+
+  public getPolyphony(): number {
+    return this.polyphony;
+  }
+
+  public setMode(mode: VoiceStealingMode): void {
+    this.mode = mode;
+  }
+
+  public getMode(): VoiceStealingMode {
+    return this.mode;
+  }
+
+  // ========== 分配與釋放 ==========
+
+  /**
+   * 為新的聲部騰出空間
+   * 先移除已結束的釋音聲部，仍超出復音數時搶用聲部
+   *
+   * @param currentTime 目前時間 (AudioContext 時鐘，秒)
+   * @returns VoiceStealResult[] 本次被搶用的聲部
+   */
+  public makeRoom(currentTime: number): VoiceStealResult[] {
+    this.purge(currentTime);
+
+    const results: VoiceStealResult[] = [];
+    while (this.held.size + this.releasing.size >= this.polyphony) {
+      const wasReleasing = this.releasing.size > 0;
+      const candidates = wasReleasing ? this.releasing : this.held;
+      const stolen = this.selectVictim(candidates, currentTime);
+      if (!stolen) break;
+
+      try {
+        stolen.voice.stop(currentTime, VOICE_ALLOCATOR_CONSTANTS.STEAL_FADE);
+      } catch (error) {
+        console.warn(`停止被搶用的聲部失敗: ${stolen.noteId}`, error);
+      }
+      candidates.delete(stolen);
+      this.stealCount++;
+      results.push({ stolen, wasReleasing });
+    }
+    return results;
+  }
+
+  /**
+   * 登記新的按住聲部
+   */
+  public add(noteId: NoteId, voice: InstrumentVoice, gain: number, startTime: number): AllocatedVoice {
+    const entry: AllocatedVoice = { noteId, voice, gain, startTime, releaseTime: null, endTime: null };
+    this.held.add(entry);
+    return entry;
+  }
+
+  /**
+   * 讓聲部進入釋音並改為追蹤其釋音結束時間
+   * 已被搶用的聲部不再處理
+   */
+  public release(entry: AllocatedVoice, when: number): void {
+    if (!this.held.delete(entry)) return;
+    entry.releaseTime = when;
+    entry.endTime = entry.voice.release(when);
+    this.releasing.add(entry);
+  }
+
+  /**
+   * 立即停止聲部並停止追蹤
+   */
+  public stop(entry: AllocatedVoice, when: number): void {
+    if (!this.held.delete(entry) && !this.releasing.delete(entry)) return;
+    entry.voice.stop(when);
+  }
+
+  /**
+   * 聲部是否仍在發聲 (未被搶用)
+   */
+  public isHeld(entry: AllocatedVoice): boolean {
+    return this.held.has(entry);
+  }
+
+  /**
+   * 移除已結束的釋音聲部
+   */
+  public purge(currentTime: number): void {
+    this.releasing.forEach(entry => {
+      if (entry.endTime !== null && entry.endTime <= currentTime) {
+        this.releasing.delete(entry);
+      }
+    });
+  }
+
+  /**
+   * 停止追蹤所有聲部
+   */
+  public clear(): void {
+    this.held.clear();
+    this.releasing.clear();
+  }
+
+  // ========== 統計 ==========
+
+  public getHeldCount(): number {
+    return this.held.size;
+  }
+
+  public getReleasingCount(): number {
+    return this.releasing.size;
+  }
+
+  public getStealCount(): number {
+    return this.stealCount;
+  }
+
+  public resetStealCount(): void {
+    this.stealCount = 0;
+  }
+
+  /**
+   * 估計所有聲部疊加後的最大振幅 (各聲部目前音量的總和)
+   */
+  public getEstimatedLevel(currentTime: number): number {
+    let level = 0;
+    this.held.forEach(entry => (level += this.estimateLevel(entry, currentTime)));
+    this.releasing.forEach(entry => (level += this.estimateLevel(entry, currentTime)));
+    return level;
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 依策略選出要搶用的聲部
+   */
+  private selectVictim(candidates: Set<AllocatedVoice>, currentTime: number): AllocatedVoice | null {
+    let victim: AllocatedVoice | null = null;
+    let victimScore = Infinity;
+
+    candidates.forEach(entry => {
+      const score = this.mode === 'quietest'
+        ? this.estimateLevel(entry, currentTime)
+        : entry.startTime;
+      if (score < victimScore) {
+        victim = entry;
+        victimScore = score;
+      }
+    });
+
+    return victim;
+  }
+
+  /**
+   * 估計聲部目前的音量
+   * 按住中以峰值計，釋音中依剩餘時間比例遞減
+   */
+  private estimateLevel(entry: AllocatedVoice, currentTime: number): number {
+    if (entry.releaseTime === null || entry.endTime === null) {
+      return entry.gain;
+    }
+    const duration = entry.endTime - entry.releaseTime;
+    if (duration <= 0) return 0;
+    const remaining = Math.max(0, Math.min(1, (entry.endTime - currentTime) / duration));
+    return entry.gain * remaining;
+  }
+}
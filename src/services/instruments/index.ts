@@ -0,0 +1,76 @@
+/**
+ * 簡譜鋼琴應用程式 - 樂器模組
+ *
+ * 匯出各音色的樂器實作，並提供依 SoundType 取得樂器實例的工廠函數。
+ * 每種音色只建立一個實例，讓已準備的資源 (例如鋼琴取樣) 可重複使用。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { SoundType } from '../../types';
+import type { Instrument } from './Instrument';
+import { PianoInstrument } from './PianoInstrument';
+import { ElectricPianoInstrument } from './ElectricPianoInstrument';
+import { OrganInstrument } from './OrganInstrument';
+import { SynthesizerInstrument } from './SynthesizerInstrument';
+
+export * from './Instrument';
+export { PianoInstrument, PIANO_CONSTANTS } from './PianoInstrument';
+export type { PianoSample, PianoSampleFile } from './PianoInstrument';
+export { ElectricPianoInstrument, ELECTRIC_PIANO_CONSTANTS } from './ElectricPianoInstrument';
+export { OrganInstrument, ORGAN_CONSTANTS } from './OrganInstrument';
+export { SynthesizerInstrument, SYNTHESIZER_CONSTANTS } from './SynthesizerInstrument';
+export { VoiceAllocator, VOICE_ALLOCATOR_CONSTANTS } from './VoiceAllocator';
+export type { AllocatedVoice, VoiceStealResult } from './VoiceAllocator';
+
+// ========== 常數定義 ==========
+
+/**
+ * 音色顯示名稱
+ */
+export const SOUND_TYPE_LABELS: Record<SoundType, string> = {
+  piano: '鋼琴',
+  electricPiano: '電鋼琴',
+  organ: '風琴',
+  synthesizer: '合成器',
+};
+
+/**
+ * 可選擇的音色 (依顯示順序)
+ */
+export const SOUND_TYPES: SoundType[] = ['piano', 'electricPiano', 'organ', 'synthesizer'];
+
+// ========== 工廠函數 ==========
+
+const instruments: Partial<Record<SoundType, Instrument>> = {};
+
+/**
+ * 取得指定音色的樂器實例
+ *
+ * @param soundType 音色類型
+ * @returns Instrument 樂器實例 (同一音色共用)
+ */
+export function getInstrument(soundType: SoundType): Instrument {
+  let instrument = instruments[soundType];
+  if (!instrument) {
+    switch (soundType) {
+      case 'electricPiano':
+        instrument = new ElectricPianoInstrument();
+        break;
+      case 'organ':
+        instrument = new OrganInstrument();
+        break;
+      case 'synthesizer':
+        instrument = new SynthesizerInstrument();
+        break;
+      case 'piano':
+      default:
+        instrument = new PianoInstrument();
+        break;
+    }
+    instruments[soundType] = instrument;
+  }
+  return instrument;
+}
@@ -9,6 +9,8 @@
  * @since 2025-08-31
  */
 
+import type { AllocatedVoice } from '../services/instruments';
+
 // ========== 音符與音頻相關類型 ==========
 
 /**
@@ -38,12 +40,71 @@ export type NoteId = `${NoteName}${number}`;
  */
 export type KeyType = 'white' | 'black';
 
+/**
+ * 調式類型
+ */
+export type KeyMode = 'major' | 'minor';
+
+/**
+ * 調性介面
+ * 由主音與調式組成，例如 D 大調、A 小調
+ */
+export interface MusicalKey {
+  /** 主音 */
+  tonic: NoteName;
+  /** 調式 */
+  mode: KeyMode;
+}
+
 /**
  * 音域範圍類型
  * 用於區分低音、中音、高音區域
  */
 export type PitchRange = 'low' | 'middle' | 'high';
 
+/**
+ * 調律系統
+ * equal 為十二平均律，scala 使用匯入的 Scala 音階檔
+ */
+export type Temperament = 'equal' | 'just' | 'pythagorean' | 'meantone' | 'scala';
+
+/**
+ * 匯入的 Scala 調律檔 (原始文字，載入時再解析)
+ */
+export interface ScalaTuningSource {
+  /** 顯示名稱 (取自 .scl 的描述列) */
+  name: string;
+  /** .scl 音階檔內容 */
+  scl: string;
+  /** .kbm 鍵盤對應檔內容，未提供時以主音對應第 0 音級 */
+  kbm: string | null;
+}
+
+/**
+ * 調音設定
+ */
+export interface TuningSettings {
+  /** A4 基準頻率 (Hz) */
+  referenceFrequency: number;
+  /** 調律系統 */
+  temperament: Temperament;
+  /** 純律、五度相生律與中全音律的主音 */
+  tonic: NoteName;
+  /** Scala 調律檔，僅在 temperament 為 scala 時使用 */
+  scala: ScalaTuningSource | null;
+}
+
+/**
+ * 移調設定
+ * 琴鍵與實際發聲音高之間的位移，總位移為 semitones + octaves × 12 個半音
+ */
+export interface TransposeSettings {
+  /** 移調半音數 (-12 至 +12) */
+  semitones: number;
+  /** 八度位移 (-2 至 +2) */
+  octaves: number;
+}
+
 // ========== 鍵盤佈局相關類型 ==========
 
 /**
@@ -55,8 +116,14 @@ export interface PianoKeyConfig {
   noteId: NoteId;
   /** 音符名稱 */
   noteName: NoteName;
-  /** 簡譜標記 */
+  /** 套用移調後實際發聲的音符 */
+  soundingNoteId: NoteId;
+  /** 簡譜標記 (首調唱名，依實際發聲的音符計算) */
   solfege: SolfegeNote;
+  /** 相對於目前調性的臨時記號 */
+  accidental: JianpuAccidental;
+  /** 顯示用的簡譜標籤，例如 '5'、'♯4'、'♭7' */
+  solfegeLabel: string;
   /** 琴鍵類型 */
   keyType: KeyType;
   /** 音域範圍 */
@@ -67,6 +134,10 @@ export interface PianoKeyConfig {
   color: string;
   /** 在鍵盤中的位置索引 */
   index: number;
+  /** 左緣相對於鍵盤左緣的水平位置 */
+  x: number;
+  /** 琴鍵寬度 */
+  width: number;
 }
 
 /**
@@ -76,7 +147,7 @@ export interface PianoKeyConfig {
 export interface KeyboardLayout {
   /** 所有琴鍵配置 */
   keys: PianoKeyConfig[];
-  /** 鍵盤總寬度 */
+  /** 鍵盤總寬度 (第一個白鍵左緣到最後一個白鍵右緣) */
   totalWidth: number;
   /** 白鍵寬度 */
   whiteKeyWidth: number;
@@ -95,6 +166,18 @@ export interface KeyboardLayout {
  */
 export type AudioNodeState = 'idle' | 'playing' | 'stopping';
 
+/**
+ * 音符來源
+ * live 為鍵盤演奏，playback 為錄音播放；錄音只記錄鍵盤演奏
+ */
+export type NoteSource = 'live' | 'playback';
+
+/**
+ * 聲部搶用策略
+ * 超過復音數時，搶用最早開始或目前最小聲的聲部
+ */
+export type VoiceStealingMode = 'oldest' | 'quietest';
+
 /**
  * 播放中的音符介面
  * 追蹤正在播放的音符狀態
@@ -102,14 +185,16 @@ export type AudioNodeState = 'idle' | 'playing' | 'stopping';
 export interface PlayingNote {
   /** 音符標識 */
   noteId: NoteId;
-  /** 音頻源節點 */
-  source: any; // OscillatorNode from react-native-audio-api
-  /** 音量包絡節點 */
-  gainNode: any; // GainNode from react-native-audio-api
+  /** 發聲的聲部 */
+  voice: AllocatedVoice;
   /** 開始播放時間 */
   startTime: number;
   /** 節點狀態 */
   state: AudioNodeState;
+  /** 音符來源 */
+  source: NoteSource;
+  /** 聲部頻道，不同頻道的同一音符可同時發聲 (例如不同音軌) */
+  channel?: string;
 }
 
 /**
@@ -127,20 +212,136 @@ export interface AudioServiceConfig {
   };
   /** 低通濾波器頻率 */
   filterFrequency: number;
+  /** 最大同時發聲數 (含釋音中的聲部) */
+  polyphony: number;
+  /** 聲部搶用策略 */
+  voiceStealing: VoiceStealingMode;
+  /** 主輸出的壓縮/限幅器設定 */
+  compressor: CompressorSettings;
+}
+
+/**
+ * 主輸出動態處理 (壓縮/限幅) 設定
+ */
+export interface CompressorSettings {
+  /** 是否略過 */
+  bypassed: boolean;
+  /** 臨界值 (dBFS) */
+  threshold: number;
+  /** 壓縮比，20 以上即為限幅 */
+  ratio: number;
+  /** 軟膝寬度 (dB) */
+  knee: number;
+  /** 起音時間 (秒) */
+  attack: number;
+  /** 釋放時間 (秒) */
+  release: number;
+  /** 補償增益 (dB) */
+  makeupGain: number;
+}
+
+/**
+ * 動態處理的音量表讀數
+ */
+export interface DynamicsMeterReading {
+  /** 輸入峰值 (dBFS) */
+  inputLevel: number;
+  /** 輸出峰值 (dBFS)，已扣除增益衰減並加上補償增益 */
+  outputLevel: number;
+  /** 增益衰減量 (dB，0 表示未壓縮) */
+  gainReduction: number;
+}
+
+// ========== 音效相關類型 ==========
+
+/**
+ * 殘響空間類型
+ */
+export type ReverbType = 'room' | 'hall' | 'church';
+
+/**
+ * 延遲的節拍長度
+ * 附點 (.) 為 1.5 倍，三連音 (t) 為 2/3 倍
+ */
+export type DelayDivision = '1/4' | '1/8.' | '1/8' | '1/8t' | '1/16';
+
+/**
+ * 各效果共通的設定
+ */
+export interface EffectSettingsBase {
+  /** 是否略過 (bypass) */
+  bypassed: boolean;
+  /** 濕聲比例 (0-1)，0 為全乾聲 */
+  mix: number;
+}
+
+/**
+ * 殘響設定
+ */
+export interface ReverbSettings extends EffectSettingsBase {
+  /** 空間類型 */
+  type: ReverbType;
+}
+
+/**
+ * 延遲設定
+ */
+export interface DelaySettings extends EffectSettingsBase {
+  /** 是否依速度同步延遲時間 */
+  syncToTempo: boolean;
+  /** 同步時的節拍長度 */
+  division: DelayDivision;
+  /** 未同步時的延遲時間 (秒) */
+  time: number;
+  /** 回授量 (0-0.9)，決定回音次數 */
+  feedback: number;
+}
+
+/**
+ * 合唱設定
+ */
+export interface ChorusSettings extends EffectSettingsBase {
+  /** 調變速率 (Hz) */
+  rate: number;
+  /** 調變深度 (cents) */
+  depth: number;
+}
+
+/**
+ * 效果鏈設定
+ */
+export interface EffectsSettings {
+  reverb: ReverbSettings;
+  delay: DelaySettings;
+  chorus: ChorusSettings;
+}
+
+/**
+ * 效果預設組合
+ */
+export interface EffectsPreset {
+  /** 預設唯一標識 */
+  id: string;
+  /** 預設名稱 */
+  name: string;
+  /** 效果設定 */
+  settings: EffectsSettings;
+  /** 是否為內建預設 (不可刪除) */
+  builtIn: boolean;
 }
 
 // ========== 錄音系統相關類型 ==========
 
 /**
- * MIDI 事件類型
+ * MIDI 音符事件類型
  */
 export type MidiEventType = 'noteOn' | 'noteOff';
 
 /**
- * MIDI 事件介面
+ * MIDI 音符事件介面
  * 記錄鍵盤操作的時序資訊
  */
-export interface MidiEvent {
+export interface MidiNoteEvent {
   /** 事件類型 */
   type: MidiEventType;
   /** 音符標識 */
@@ -151,6 +352,48 @@ export interface MidiEvent {
   velocity: number;
 }
 
+/**
+ * MIDI 控制變更事件介面
+ * 目前用於延音踏板 (控制器 64)
+ */
+export interface MidiControlChangeEvent {
+  /** 事件類型 */
+  type: 'controlChange';
+  /** 控制器編號 (0-127) */
+  controller: number;
+  /** 控制值 (0-127)，延音踏板以 64 以上為踩下 */
+  value: number;
+  /** 事件時間戳 (相對於錄音開始) */
+  timestamp: number;
+}
+
+/**
+ * MIDI 事件
+ * 以 type 區分音符事件與控制變更事件
+ */
+export type MidiEvent = MidiNoteEvent | MidiControlChangeEvent;
+
+/**
+ * 錄音音軌介面
+ * 每個音軌以自己的音色與音量播放，可個別靜音或獨奏
+ */
+export interface RecordingTrack {
+  /** 音軌唯一標識 */
+  id: string;
+  /** 音軌名稱 */
+  name: string;
+  /** 播放音軌使用的音色 */
+  soundType: SoundType;
+  /** 音軌音量 (0-1) */
+  volume: number;
+  /** 是否靜音 */
+  muted: boolean;
+  /** 是否獨奏，任一音軌獨奏時只播放獨奏的音軌 */
+  solo: boolean;
+  /** MIDI 事件序列，音符為實際發聲的音高 */
+  events: MidiEvent[];
+}
+
 /**
  * 錄音資料介面
  */
@@ -161,18 +404,98 @@ export interface RecordingData {
   name: string;
   /** 錄音時長 (毫秒) */
   duration: number;
-  /** MIDI 事件序列 */
-  events: MidiEvent[];
+  /** 音軌列表，所有音軌共用同一時間軸，至少包含一個音軌 */
+  tracks: RecordingTrack[];
+  /** 錄音時的移調設定，用於播放時對應回當時按下的琴鍵 */
+  transpose?: TransposeSettings;
+  /** 錄音時節拍器的速度 (BPM)，錄音起點即為第一小節的第一拍 */
+  tempo?: number;
+  /** 錄音時節拍器的拍號 */
+  timeSignature?: TimeSignature;
+  /** 創建時間 */
+  createdAt: Date;
+  /** 最後修改時間 */
+  updatedAt: Date;
+}
+
+/**
+ * 錄音摘要介面
+ * 用於錄音列表顯示，不包含完整的事件序列
+ */
+export interface RecordingSummary {
+  /** 錄音唯一標識 */
+  id: string;
+  /** 錄音名稱 */
+  name: string;
+  /** 錄音時長 (毫秒) */
+  duration: number;
+  /** MIDI 事件數量 (所有音軌合計) */
+  eventCount: number;
+  /** 音軌數量 */
+  trackCount: number;
   /** 創建時間 */
   createdAt: Date;
   /** 最後修改時間 */
   updatedAt: Date;
 }
 
+/**
+ * 超出音域音符的處理方式
+ * - transpose: 以八度為單位移入支援音域，保留音級
+ * - clamp: 直接限制為音域邊界的音符
+ */
+export type OutOfRangeStrategy = 'transpose' | 'clamp';
+
+/**
+ * 匯入時被修改的音符記錄
+ */
+export interface NoteAlteration {
+  /** 原始音符 */
+  original: NoteId;
+  /** 修改後的音符 */
+  result: NoteId;
+  /** 出現次數 */
+  count: number;
+}
+
+/**
+ * MIDI 檔案匯入報告
+ */
+export interface MidiImportReport {
+  /** SMF 格式 (0 或 1) */
+  format: number;
+  /** 原始檔案的音軌數量 */
+  trackCount: number;
+  /** 匯入的音符數量 */
+  noteCount: number;
+  /** 以八度移調的音符數量 */
+  transposedCount: number;
+  /** 被限制到音域邊界的音符數量 */
+  clampedCount: number;
+  /** 被略過的打擊樂音符數量 (MIDI 第 10 頻道) */
+  skippedPercussionCount: number;
+  /** 因移調後與同音重疊而合併的音符數量 */
+  mergedCount: number;
+  /** 被修改的音符明細 */
+  alterations: NoteAlteration[];
+}
+
 /**
  * 錄音狀態類型
+ * countIn 為開始錄音前的節拍器預備拍
+ */
+export type RecordingState = 'idle' | 'countIn' | 'recording' | 'paused' | 'playing';
+
+/**
+ * 補錄 (punch-in/punch-out) 的時間範圍
+ * 範圍內的事件以新錄的內容取代，範圍外的事件維持不變
  */
-export type RecordingState = 'idle' | 'recording' | 'paused' | 'playing';
+export interface PunchRange {
+  /** 補錄起點 (毫秒，相對於錄音開始) */
+  start: number;
+  /** 補錄終點 (毫秒，相對於錄音開始) */
+  end: number;
+}
 
 /**
  * 錄音服務狀態介面
@@ -209,6 +532,214 @@ export interface PlaybackControl {
   loop: boolean;
 }
 
+// ========== 節拍器相關類型 ==========
+
+/**
+ * 拍子的重音等級
+ * - strong: 強拍 (通常為小節第一拍)
+ * - medium: 次強拍
+ * - weak: 弱拍
+ * - mute: 靜音，不發聲但仍顯示拍點
+ */
+export type BeatAccent = 'strong' | 'medium' | 'weak' | 'mute';
+
+/**
+ * 每拍細分數：1 為不細分，2 為八分音符，3 為三連音，4 為十六分音符
+ */
+export type MetronomeSubdivision = 1 | 2 | 3 | 4;
+
+/**
+ * 錄音前的預備小節數，0 為不預備
+ */
+export type CountInBars = 0 | 1 | 2;
+
+/**
+ * 節拍器設定
+ */
+export interface MetronomeSettings {
+  /** 是否啟用 */
+  enabled: boolean;
+  /** 速度 (每分鐘拍數，30-300) */
+  bpm: number;
+  /** 拍號 */
+  timeSignature: TimeSignature;
+  /** 每一拍的重音等級，長度與拍號分子相同 */
+  accents: BeatAccent[];
+  /** 每拍細分數 */
+  subdivision: MetronomeSubdivision;
+  /** 音量 (0-1) */
+  volume: number;
+  /** 錄音時是否將速度與拍號寫入錄音 */
+  recordTempo: boolean;
+  /** 開始錄音前的預備小節數 */
+  countInBars: CountInBars;
+}
+
+/**
+ * 節拍器拍點事件
+ */
+export interface MetronomeTick {
+  /** 小節內的拍子索引 (從 0 開始) */
+  beat: number;
+  /** 拍內的細分索引 (從 0 開始，0 為正拍) */
+  subdivision: number;
+  /** 重音等級 */
+  accent: BeatAccent;
+  /** 發聲的 AudioContext 時間 (秒) */
+  time: number;
+}
+
+// ========== 簡譜樂譜相關類型 ==========
+
+/**
+ * 簡譜臨時記號類型
+ */
+export type JianpuAccidental = 'sharp' | 'flat' | null;
+
+/**
+ * 簡譜調號介面
+ * 例如 1=C、1=Bb
+ */
+export interface JianpuKeySignature {
+  /** 主音 (以升記號表示的音符名稱) */
+  tonic: NoteName;
+  /** 原始寫法，例如 'Bb'、'F#' */
+  label: string;
+}
+
+/**
+ * 拍號介面
+ */
+export interface TimeSignature {
+  /** 每小節拍數 */
+  numerator: number;
+  /** 以幾分音符為一拍 */
+  denominator: number;
+}
+
+/**
+ * 簡譜音符與休止符的共同屬性
+ */
+interface JianpuElementBase {
+  /** 減時線數量：0 為一拍，1 為半拍，2 為四分之一拍 */
+  underlines: 0 | 1 | 2;
+  /** 是否有附點 */
+  dotted: boolean;
+  /** 時值 (拍) */
+  beats: number;
+  /** 原始文字所在行 (從 1 開始) */
+  line: number;
+  /** 原始文字所在欄 (從 1 開始) */
+  column: number;
+}
+
+/**
+ * 簡譜音符介面
+ */
+export interface JianpuNote extends JianpuElementBase {
+  kind: 'note';
+  /** 音級數字 */
+  degree: SolfegeNote;
+  /** 臨時記號 */
+  accidental: JianpuAccidental;
+  /** 八度偏移：正數為高音點，負數為低音點 */
+  octave: number;
+  /** 延音線數量（每條增加一拍） */
+  dashes: number;
+  /** 是否以連結線連到下一個音符 */
+  tie: boolean;
+  /** 歌詞 */
+  lyric?: string;
+}
+
+/**
+ * 簡譜休止符介面
+ */
+export interface JianpuRest extends JianpuElementBase {
+  kind: 'rest';
+}
+
+/**
+ * 簡譜元素類型
+ */
+export type JianpuElement = JianpuNote | JianpuRest;
+
+/**
+ * 小節線類型
+ * - single: 單小節線 |
+ * - double: 雙小節線 ||
+ * - final: 終止線 |]
+ * - none: 未以小節線結束（例如行末的不完整小節）
+ */
+export type JianpuBarline = 'single' | 'double' | 'final' | 'none';
+
+/**
+ * 簡譜小節介面
+ */
+export interface JianpuMeasure {
+  /** 小節中的音符與休止符 */
+  elements: JianpuElement[];
+  /** 結尾小節線 */
+  barline: JianpuBarline;
+  /** 小節總拍數 */
+  beats: number;
+  /** 所在的譜行索引 (從 0 開始) */
+  systemIndex: number;
+}
+
+/**
+ * 簡譜樂譜介面
+ */
+export interface JianpuScore {
+  /** 曲名 */
+  title?: string;
+  /** 調號 */
+  key: JianpuKeySignature;
+  /** 拍號 */
+  timeSignature: TimeSignature;
+  /** 速度 (每分鐘拍數) */
+  tempo?: number;
+  /** 所有小節 */
+  measures: JianpuMeasure[];
+}
+
+// ========== 練習模式相關類型 ==========
+
+/**
+ * 練習曲目中的音符
+ */
+export interface PracticeNote {
+  /** 要按下的琴鍵 */
+  noteId: NoteId;
+  /** 開始時間 (毫秒，相對於曲目開始) */
+  start: number;
+  /** 結束時間 (毫秒) */
+  end: number;
+}
+
+/**
+ * 練習曲目
+ * 由簡譜或錄音 (包含匯入的 MIDI) 轉換而來
+ */
+export interface PracticeSong {
+  /** 曲名 */
+  title: string;
+  /** 依開始時間排序的音符 */
+  notes: PracticeNote[];
+  /** 曲目長度 (毫秒) */
+  duration: number;
+}
+
+/**
+ * 練習模式設定
+ */
+export interface PracticeSettings {
+  /** 提前顯示的時間 (毫秒)：音符從畫面頂端落到琴鍵所需的時間 */
+  lookAheadMs: number;
+  /** 曲目進行的速度倍率 */
+  speed: number;
+}
+
 // ========== UI 組件相關類型 ==========
 
 /**
@@ -252,6 +783,26 @@ export type ThemeMode = 'light' | 'dark' | 'auto';
  */
 export type SoundType = 'piano' | 'electricPiano' | 'organ' | 'synthesizer';
 
+/**
+ * 力度曲線類型
+ * soft 輕觸即可得到較大力度，hard 需要更靠近琴鍵前緣或更用力，fixed 忽略觸控
+ */
+export type VelocityCurve = 'soft' | 'linear' | 'hard' | 'fixed';
+
+/**
+ * 觸控力度校正設定
+ */
+export interface VelocityCalibration {
+  /** 力度曲線 */
+  curve: VelocityCurve;
+  /** 最輕觸控對應的力度 (1-127) */
+  minVelocity: number;
+  /** 最重觸控對應的力度 (1-127) */
+  maxVelocity: number;
+  /** 固定力度曲線使用的力度 (1-127) */
+  fixedVelocity: number;
+}
+
 /**
  * 應用程式設置介面
  */
@@ -270,6 +821,20 @@ export interface AppSettings {
   showNoteNames: boolean;
   /** 是否啟用音域顏色編碼 */
   colorCoding: boolean;
+  /** 簡譜標記所依據的調性 */
+  musicalKey: MusicalKey;
+  /** 觸控力度校正 */
+  velocityCalibration: VelocityCalibration;
+  /** 效果鏈設定 */
+  effects: EffectsSettings;
+  /** 主輸出壓縮/限幅器設定 */
+  compressor: CompressorSettings;
+  /** 調音設定 */
+  tuning: TuningSettings;
+  /** 移調與八度位移 */
+  transpose: TransposeSettings;
+  /** 節拍器設定 */
+  metronome: MetronomeSettings;
 }
 
 // ========== 錯誤處理相關類型 ==========
@@ -282,6 +847,9 @@ export enum ErrorType {
   AUDIO_PLAYBACK_FAILED = 'AUDIO_PLAYBACK_FAILED',
   RECORDING_FAILED = 'RECORDING_FAILED',
   STORAGE_FAILED = 'STORAGE_FAILED',
+  IMPORT_FAILED = 'IMPORT_FAILED',
+  RENDER_FAILED = 'RENDER_FAILED',
+  RENDER_CANCELLED = 'RENDER_CANCELLED',
   PERMISSION_DENIED = 'PERMISSION_DENIED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
@@ -0,0 +1,78 @@
+/**
+ * 簡譜鋼琴應用程式 - 應用程式錯誤工具
+ *
+ * 本文件提供建立與辨識 AppError 物件的工具函數，
+ * 讓各服務層能以一致的結構回報錯誤類型、訊息與詳情。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { AppError } from '../types';
+import { ErrorType } from '../types';
+
+// ========== 錯誤建立函數 ==========
+
+/**
+ * 建立應用程式錯誤物件
+ *
+ * @param type 錯誤類型
+ * @param message 錯誤訊息
+ * @param details 錯誤詳情（通常是原始錯誤）
+ * @returns AppError 物件
+ *
+ * @example
+ * ```typescript
+ * throw createAppError(ErrorType.STORAGE_FAILED, '讀取錄音失敗', error);
+ * ```
+ */
+export function createAppError(type: ErrorType, message: string, details?: any): AppError {
+  return {
+    type,
+    message,
+    details,
+    timestamp: new Date(),
+  };
+}
+
+// ========== 錯誤辨識函數 ==========
+
+/**
+ * 檢查任意值是否為 AppError 物件
+ *
+ * @param value 要檢查的值
+ * @returns 是否為 AppError
+ */
+export function isAppError(value: unknown): value is AppError {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<AppError>;
+  return (
+    typeof candidate.message === 'string' &&
+    Object.values(ErrorType).includes(candidate.type as ErrorType) &&
+    candidate.timestamp instanceof Date
+  );
+}
+
+/**
+ * 將任意錯誤轉換為 AppError，已是 AppError 者原樣返回
+ *
+ * @param error 原始錯誤
+ * @param type 轉換時使用的錯誤類型
+ * @param message 轉換時使用的錯誤訊息
+ * @returns AppError 物件
+ */
+export function toAppError(
+  error: unknown,
+  type: ErrorType = ErrorType.UNKNOWN_ERROR,
+  message: string = `${error}`
+): AppError {
+  if (isAppError(error)) {
+    return error;
+  }
+
+  return createAppError(type, message, error);
+}
@@ -0,0 +1,102 @@
+/**
+ * 簡譜鋼琴應用程式 - 編輯歷史 (復原/重做)
+ *
+ * 本文件提供不可變 (immutable) 的編輯歷史：每次編輯把目前的狀態推入復原堆疊，
+ * 復原與重做只在堆疊之間移動狀態，不會修改任何狀態物件本身。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+// ========== 常數定義 ==========
+
+/**
+ * 編輯歷史設定
+ */
+export const EDIT_HISTORY_CONSTANTS = {
+  /** 最多保留的復原步數 */
+  MAX_UNDO_STEPS: 100,
+} as const;
+
+// ========== 類型定義 ==========
+
+/**
+ * 編輯歷史
+ */
+export interface EditHistory<T> {
+  /** 可復原的狀態，最後一個為上一步 */
+  past: T[];
+  /** 目前的狀態 */
+  present: T;
+  /** 可重做的狀態，第一個為下一步 */
+  future: T[];
+}
+
+// ========== 操作函數 ==========
+
+/**
+ * 建立編輯歷史
+ *
+ * @param initial 初始狀態
+ * @returns EditHistory<T> 沒有復原與重做步驟的歷史
+ */
+export function createEditHistory<T>(initial: T): EditHistory<T> {
+  return { past: [], present: initial, future: [] };
+}
+
+/**
+ * 記錄一次編輯
+ * 新的編輯會清除重做堆疊；與目前狀態相同 (同一物件) 時不記錄
+ *
+ * @param history 編輯歷史
+ * @param next 編輯後的狀態
+ * @returns EditHistory<T> 新的歷史
+ */
+export function pushEditHistory<T>(history: EditHistory<T>, next: T): EditHistory<T> {
+  if (next === history.present) {
+    return history;
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-EDIT_HISTORY_CONSTANTS.MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+  };
+}
+
+/**
+ * 復原上一步
+ *
+ * @param history 編輯歷史
+ * @returns EditHistory<T> 新的歷史，沒有可復原的步驟時返回原歷史
+ */
+export function undoEditHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.past.length === 0) {
+    return history;
+  }
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+/**
+ * 重做下一步
+ *
+ * @param history 編輯歷史
+ * @returns EditHistory<T> 新的歷史，沒有可重做的步驟時返回原歷史
+ */
+export function redoEditHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.future.length === 0) {
+    return history;
+  }
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * 簡譜鋼琴應用程式 - 下落音符練習
+ *
+ * 本文件提供練習模式的純函數：將簡譜或錄音 (包含匯入的 MIDI) 轉換為練習曲目，
+ * 並依目前的練習時間計算畫面上可見的音符與其位置。音符在「提前顯示時間」內
+ * 從畫面頂端落下，開始時間到達時剛好碰到琴鍵。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  JianpuScore,
+  NoteId,
+  PracticeNote,
+  PracticeSettings,
+  PracticeSong,
+  RecordingData,
+} from '../types';
+import { jianpuNoteToNoteId } from './jianpu';
+import { isSupportedNote } from './noteFrequencies';
+import { createPianoRollNotes } from './pianoRoll';
+import { getAudibleTracks } from './recordingTracks';
+import { TRANSCRIPTION_CONSTANTS } from './transcription';
+import { transposeNoteId } from './transpose';
+
+// ========== 常數定義 ==========
+
+/**
+ * 練習模式設定範圍
+ */
+export const PRACTICE_CONSTANTS = {
+  /** 提前顯示時間的範圍與間距 (毫秒) */
+  MIN_LOOK_AHEAD_MS: 1000,
+  MAX_LOOK_AHEAD_MS: 8000,
+  LOOK_AHEAD_STEP_MS: 500,
+  /** 速度倍率的範圍與間距 */
+  MIN_SPEED: 0.25,
+  MAX_SPEED: 2,
+  SPEED_STEP: 0.25,
+  /** 簡譜未標示速度時使用的速度 (BPM) */
+  DEFAULT_SCORE_TEMPO: TRANSCRIPTION_CONSTANTS.DEFAULT_TEMPO,
+} as const;
+
+/**
+ * 預設練習設定
+ */
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  lookAheadMs: 3000,
+  speed: 1,
+};
+
+// ========== 建立曲目 ==========
+
+/**
+ * 建立曲目：移除鍵盤音域外的音符，依開始時間與音高排序，並計算曲目長度
+ */
+function createSong(title: string, notes: PracticeNote[], duration: number = 0): PracticeSong {
+  const sorted = notes
+    .filter(note => isSupportedNote(note.noteId))
+    .sort((a, b) => a.start - b.start || a.noteId.localeCompare(b.noteId));
+  return {
+    title,
+    notes: sorted,
+    duration: sorted.reduce((end, note) => Math.max(end, note.end), duration),
+  };
+}
+
+/**
+ * 將簡譜轉換為練習曲目
+ * 以連結線相連的同音音符合併為一個音符，休止符只推進時間
+ *
+ * @param score 簡譜樂譜
+ * @param tempo 速度 (BPM)，未指定時使用樂譜標示的速度
+ * @returns PracticeSong 練習曲目
+ */
+export function createSongFromScore(score: JianpuScore, tempo?: number): PracticeSong {
+  const beatMs = 60000 / (tempo ?? score.tempo ?? PRACTICE_CONSTANTS.DEFAULT_SCORE_TEMPO);
+  const notes: PracticeNote[] = [];
+  let time = 0;
+  let tied: PracticeNote | null = null;
+
+  for (const measure of score.measures) {
+    for (const element of measure.elements) {
+      const length = element.beats * beatMs;
+      if (element.kind === 'note') {
+        const noteId = jianpuNoteToNoteId(element, score.key);
+        if (tied && tied.noteId === noteId) {
+          tied.end = time + length;
+        } else {
+          const note: PracticeNote = { noteId, start: time, end: time + length };
+          notes.push(note);
+          tied = note;
+        }
+        tied = element.tie ? tied : null;
+      } else {
+        tied = null;
+      }
+      time += length;
+    }
+  }
+
+  return createSong(score.title ?? '簡譜', notes, time);
+}
+
+/**
+ * 將錄音轉換為練習曲目，只包含發聲的音軌
+ *
+ * @param recording 錄音資料 (包含匯入的 MIDI)
+ * @returns PracticeSong 練習曲目，音符為錄音中實際發聲的音高
+ */
+export function createSongFromRecording(recording: RecordingData): PracticeSong {
+  const audibleTrackIds = new Set(getAudibleTracks(recording).map(track => track.id));
+  const notes = createPianoRollNotes(recording)
+    .filter(note => audibleTrackIds.has(note.trackId))
+    .map(({ noteId, start, end }) => ({ noteId, start, end }));
+
+  return createSong(recording.name, notes, recording.duration);
+}
+
+/**
+ * 移調曲目，移調後超出鍵盤音域的音符被移除
+ * 用於將實際發聲的音高對應到目前移調設定下要按的琴鍵
+ *
+ * @param song 練習曲目
+ * @param offset 半音數
+ * @returns PracticeSong 移調後的曲目，位移為 0 時返回原曲目
+ */
+export function transposeSong(song: PracticeSong, offset: number): PracticeSong {
+  if (offset === 0) {
+    return song;
+  }
+
+  const notes = song.notes
+    .map(note => ({ ...note, noteId: transposeNoteId(note.noteId, offset) }))
+    .filter(note => isSupportedNote(note.noteId));
+
+  return { ...song, notes };
+}
+
+// ========== 畫面計算 ==========
+
+/**
+ * 取得畫面上可見的音符：尚未結束且在提前顯示時間內開始
+ *
+ * @param song 練習曲目
+ * @param time 目前的練習時間 (毫秒)
+ * @param lookAheadMs 提前顯示時間 (毫秒)
+ * @returns PracticeNote[] 可見的音符
+ */
+export function getVisibleNotes(song: PracticeSong, time: number, lookAheadMs: number): PracticeNote[] {
+  return song.notes.filter(note => note.end > time && note.start < time + lookAheadMs);
+}
+
+/**
+ * 計算下落音符在畫面上的位置
+ * 畫面底端為琴鍵，音符開始時間到達時下緣碰到底端
+ *
+ * @param note 音符
+ * @param time 目前的練習時間 (毫秒)
+ * @param lookAheadMs 提前顯示時間 (毫秒)
+ * @param height 下落區域的高度 (像素)
+ * @returns 音符上緣位置與高度 (像素)，可能超出下落區域
+ */
+export function getFallingNoteRect(
+  note: PracticeNote,
+  time: number,
+  lookAheadMs: number,
+  height: number
+): { top: number; height: number } {
+  const pixelsPerMs = height / lookAheadMs;
+  return {
+    top: height - (note.end - time) * pixelsPerMs,
+    height: (note.end - note.start) * pixelsPerMs,
+  };
+}
+
+/**
+ * 取得目前應按住的琴鍵
+ *
+ * @param song 練習曲目
+ * @param time 目前的練習時間 (毫秒)
+ * @returns Set<NoteId> 開始時間已到且尚未結束的音符
+ */
+export function getNotesAtTime(song: PracticeSong, time: number): Set<NoteId> {
+  return new Set(
+    song.notes.filter(note => note.start <= time && note.end > time).map(note => note.noteId)
+  );
+}
@@ -0,0 +1,639 @@
+/**
+ * 簡譜鋼琴應用程式 - 簡譜文字格式
+ *
+ * 本文件定義了一種純文字的簡譜 (數字譜) 格式，並提供解析器與序列化器，
+ * 讓樂譜能在文字與 JianpuScore 模型之間互相轉換。
+ *
+ * 格式說明：
+ * - 標頭：`1=C`、`1=Bb` 表示調號，`4/4` 表示拍號，`title: 曲名`、`tempo: 96`
+ * - 音符：數字 1–7，0 為休止符；前綴 `#` / `b` 為升降記號
+ * - 八度：後綴 `'` 為高音點，`,` 為低音點，可重複（例如 `1''`、`5,`）
+ * - 時值：後綴 `_` 為一條減時線 (半拍)，`__` 為兩條 (四分之一拍)，`.` 為附點
+ * - 延音：獨立的 `-` 將前一個音符延長一拍
+ * - 連結線：音符或 `-` 後綴 `~` 表示與下一個音符相連
+ * - 小節線：`|` 單小節線、`||` 雙小節線、`|]` 終止線
+ * - 歌詞：以 `w:` 開頭的行，依序對應上一行的音符，`*` 表示跳過
+ * - 註解：以 `%` 開頭的行
+ *
+ * @example
+ * ```
+ * title: 小星星
+ * 1=C 4/4
+ * 1 1 5 5 | 6 6 5 - | 4 4 3 3 | 2 2 1 - |]
+ * w: 一 閃 一 閃 亮 晶 晶 滿 天 都 是 小 星 星
+ * ```
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  NoteName,
+  NoteId,
+  SolfegeNote,
+  JianpuAccidental,
+  JianpuKeySignature,
+  TimeSignature,
+  JianpuNote,
+  JianpuElement,
+  JianpuBarline,
+  JianpuMeasure,
+  JianpuScore,
+} from '../types';
+import { noteToMidiNumber, midiNumberToNoteId } from './noteFrequencies';
+
+// ========== 常數定義 ==========
+
+/**
+ * 簡譜格式相關常數
+ */
+export const JIANPU_CONSTANTS = {
+  /** 預設調號 */
+  DEFAULT_KEY: 'C',
+  /** 預設拍號 */
+  DEFAULT_TIME_SIGNATURE: { numerator: 4, denominator: 4 } as TimeSignature,
+  /** 主音 1 所在的八度 (1=C 時 1 為 C4) */
+  TONIC_OCTAVE: 4,
+  /** 最多可標記的八度點數 */
+  MAX_OCTAVE_DOTS: 2,
+  /** 序列化時每行的預設小節數 */
+  DEFAULT_MEASURES_PER_LINE: 4,
+  /** 歌詞行前綴 */
+  LYRICS_PREFIX: 'w:',
+  /** 註解行前綴 */
+  COMMENT_PREFIX: '%',
+  /** 歌詞中表示跳過音符的符號 */
+  LYRIC_SKIP: '*',
+} as const;
+
+/**
+ * 大調音階中各音級相對於主音的半音數
+ */
+const MAJOR_SCALE_OFFSETS: Record<SolfegeNote, number> = {
+  '1': 0,
+  '2': 2,
+  '3': 4,
+  '4': 5,
+  '5': 7,
+  '6': 9,
+  '7': 11,
+};
+
+/**
+ * 調號字母對應的音符名稱 (以升記號表示)
+ * 包含降記號與等音的寫法
+ */
+const KEY_LABEL_TO_NOTE: Record<string, NoteName> = {
+  'C': 'C', 'C#': 'C#', 'Db': 'C#',
+  'D': 'D', 'D#': 'D#', 'Eb': 'D#',
+  'E': 'E', 'Fb': 'E', 'E#': 'F',
+  'F': 'F', 'F#': 'F#', 'Gb': 'F#',
+  'G': 'G', 'G#': 'G#', 'Ab': 'G#',
+  'A': 'A', 'A#': 'A#', 'Bb': 'A#',
+  'B': 'B', 'Cb': 'B', 'B#': 'C',
+};
+
+/**
+ * 小節線文字對應的類型
+ */
+const BARLINE_TOKENS: Record<string, JianpuBarline> = {
+  '|': 'single',
+  '||': 'double',
+  '|]': 'final',
+};
+
+/**
+ * 各小節線類型的文字表示
+ */
+const BARLINE_TEXT: Record<Exclude<JianpuBarline, 'none'>, string> = {
+  single: '|',
+  double: '||',
+  final: '|]',
+};
+
+/**
+ * 音符與休止符的語法
+ * 依序為：臨時記號、數字、八度點、減時線、附點、連結線
+ */
+const NOTE_PATTERN = /^([#b]?)([0-7])('+|,+)?(_{0,2})(\.?)(~?)$/;
+
+/**
+ * 延音線的語法
+ */
+const DASH_PATTERN = /^-(~?)$/;
+
+/**
+ * 將一行樂譜切分為記號的語法，小節線即使緊貼音符也會被獨立切出
+ */
+const TOKEN_PATTERN = /\|\]|\|\||\||[^\s|]+/g;
+
+// ========== 錯誤類型 ==========
+
+/**
+ * 簡譜解析錯誤
+ * 帶有出錯位置的行號與欄號 (皆從 1 開始)
+ */
+export class JianpuParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`第 ${line} 行第 ${column} 欄: ${message}`);
+    this.name = 'JianpuParseError';
+    this.line = line;
+    this.column = column;
+    Object.setPrototypeOf(this, JianpuParseError.prototype);
+  }
+}
+
+// ========== 內部類型 ==========
+
+/**
+ * 帶位置資訊的記號
+ */
+interface Token {
+  text: string;
+  line: number;
+  column: number;
+}
+
+// ========== 工具函數 ==========
+
+/**
+ * 將一行文字切分為記號
+ *
+ * @param text 行內容
+ * @param line 行號
+ * @param offset 內容在原始行中的起始位置 (從 0 開始)
+ * @returns Token[] 記號陣列
+ */
+function tokenizeLine(text: string, line: number, offset: number = 0): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({ text: match[0], line, column: offset + (match.index ?? 0) + 1 });
+  }
+  return tokens;
+}
+
+/**
+ * 解析調號寫法
+ *
+ * @param label 調號文字，例如 'C'、'bB'、'F#'
+ * @returns JianpuKeySignature | null 無效時回傳 null
+ */
+export function parseKeySignature(label: string): JianpuKeySignature | null {
+  // 同時接受前綴寫法 (#F、bB) 與後綴寫法 (F#、Bb)
+  const prefixed = /^([#b])([A-Ga-g])$/.exec(label);
+  const normalized = prefixed
+    ? prefixed[2].toUpperCase() + prefixed[1]
+    : label.charAt(0).toUpperCase() + label.slice(1);
+
+  const tonic = KEY_LABEL_TO_NOTE[normalized];
+  return tonic ? { tonic, label: normalized } : null;
+}
+
+/**
+ * 計算一個小節應有的拍數
+ *
+ * @param timeSignature 拍號
+ * @returns number 拍數 (以拍號分母為一拍)
+ */
+export function getMeasureCapacity(timeSignature: TimeSignature): number {
+  return timeSignature.numerator;
+}
+
+/**
+ * 依減時線、附點與延音線計算時值
+ *
+ * @param underlines 減時線數量
+ * @param dotted 是否有附點
+ * @param dashes 延音線數量
+ * @returns number 時值 (拍)
+ */
+export function calculateJianpuBeats(underlines: 0 | 1 | 2, dotted: boolean, dashes: number = 0): number {
+  const base = 1 / Math.pow(2, underlines);
+  return base * (dotted ? 1.5 : 1) + dashes;
+}
+
+/**
+ * 將簡譜音符換算為鋼琴音符標識
+ *
+ * @param note 簡譜音符
+ * @param key 調號
+ * @returns NoteId 對應的音符標識
+ *
+ * @example
+ * ```typescript
+ * // 1=G 時的高音 1
+ * jianpuNoteToNoteId(note, { tonic: 'G', label: 'G' }); // 'G5'
+ * ```
+ */
+export function jianpuNoteToNoteId(note: JianpuNote, key: JianpuKeySignature): NoteId {
+  const tonicMidi = noteToMidiNumber(key.tonic, JIANPU_CONSTANTS.TONIC_OCTAVE);
+  const accidentalOffset = note.accidental === 'sharp' ? 1 : note.accidental === 'flat' ? -1 : 0;
+  return midiNumberToNoteId(
+    tonicMidi + MAJOR_SCALE_OFFSETS[note.degree] + accidentalOffset + note.octave * 12
+  );
+}
+
+/**
+ * 判斷音符是否為前一個音符以連結線延續而來（不另外對應歌詞）
+ */
+function isTieContinuation(previous: JianpuNote | null, note: JianpuNote): boolean {
+  return previous !== null &&
+    previous.tie &&
+    previous.degree === note.degree &&
+    previous.accidental === note.accidental &&
+    previous.octave === note.octave;
+}
+
+// ========== 解析器 ==========
+
+/**
+ * 解析器內部狀態
+ */
+interface ParserState {
+  score: JianpuScore;
+  /** 是否已出現樂譜內容 */
+  started: boolean;
+  /** 目前的譜行索引 */
+  systemIndex: number;
+  /** 上一個譜行的音符，供歌詞行對應 */
+  lastSystemNotes: JianpuNote[];
+  /** 各小節的起始位置，用於回報拍數錯誤 */
+  measureStarts: Token[];
+}
+
+/**
+ * 解析標頭行
+ *
+ * @returns boolean 該行是否為標頭
+ */
+function parseHeaderLine(text: string, lineNumber: number, state: ParserState): boolean {
+  const trimmed = text.trim();
+  const leading = text.length - text.trimStart().length;
+
+  const fieldMatch = /^(title|tempo)\s*:\s*(.*)$/i.exec(trimmed);
+  if (fieldMatch) {
+    const field = fieldMatch[1].toLowerCase();
+    const value = fieldMatch[2].trim();
+    const valueColumn = leading + trimmed.indexOf(fieldMatch[2]) + 1;
+
+    if (field === 'title') {
+      state.score.title = value || undefined;
+    } else {
+      const tempo = Number(value);
+      if (!Number.isFinite(tempo) || tempo <= 0) {
+        throw new JianpuParseError(`無效的速度: "${value}"`, lineNumber, valueColumn);
+      }
+      state.score.tempo = tempo;
+    }
+    return true;
+  }
+
+  const tokens = tokenizeLine(text, lineNumber);
+  const isHeader = tokens.length > 0 &&
+    tokens.every(token => /^1=/.test(token.text) || /^\d+\/\d+$/.test(token.text));
+  if (!isHeader) {
+    return false;
+  }
+
+  if (state.started) {
+    throw new JianpuParseError('調號與拍號必須寫在樂譜開頭', lineNumber, tokens[0].column);
+  }
+
+  for (const token of tokens) {
+    if (token.text.startsWith('1=')) {
+      const key = parseKeySignature(token.text.slice(2));
+      if (!key) {
+        throw new JianpuParseError(`無效的調號: "${token.text}"`, token.line, token.column);
+      }
+      state.score.key = key;
+    } else {
+      const [numerator, denominator] = token.text.split('/').map(Number);
+      const validDenominator = [1, 2, 4, 8, 16].includes(denominator);
+      if (numerator < 1 || numerator > 16 || !validDenominator) {
+        throw new JianpuParseError(`無效的拍號: "${token.text}"`, token.line, token.column);
+      }
+      state.score.timeSignature = { numerator, denominator };
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 解析一行樂譜內容
+ */
+function parseMusicLine(text: string, lineNumber: number, state: ParserState): void {
+  const tokens = tokenizeLine(text, lineNumber);
+  const systemNotes: JianpuNote[] = [];
+  let elements: JianpuElement[] = [];
+  let measureStart: Token | null = null;
+
+  const closeMeasure = (barline: JianpuBarline) => {
+    const beats = elements.reduce((sum, element) => sum + element.beats, 0);
+    state.score.measures.push({ elements, barline, beats, systemIndex: state.systemIndex });
+    state.measureStarts.push(measureStart!);
+    elements = [];
+    measureStart = null;
+  };
+
+  for (const token of tokens) {
+    const barline = BARLINE_TOKENS[token.text];
+    if (barline) {
+      if (elements.length === 0) {
+        throw new JianpuParseError('小節線前沒有任何音符', token.line, token.column);
+      }
+      closeMeasure(barline);
+      continue;
+    }
+
+    const dashMatch = DASH_PATTERN.exec(token.text);
+    if (dashMatch) {
+      const previous = elements[elements.length - 1];
+      if (!previous) {
+        throw new JianpuParseError('延音線必須接在同一小節的音符之後', token.line, token.column);
+      }
+      if (previous.kind === 'rest') {
+        throw new JianpuParseError('休止符不可使用延音線，請改寫為多個 0', token.line, token.column);
+      }
+      if (previous.underlines > 0) {
+        throw new JianpuParseError('帶減時線的音符不可使用延音線', token.line, token.column);
+      }
+      if (previous.tie) {
+        throw new JianpuParseError('連結線必須寫在最後一條延音線上', token.line, token.column);
+      }
+      previous.dashes += 1;
+      previous.beats = calculateJianpuBeats(previous.underlines, previous.dotted, previous.dashes);
+      previous.tie = dashMatch[1] === '~';
+      continue;
+    }
+
+    const noteMatch = NOTE_PATTERN.exec(token.text);
+    if (!noteMatch) {
+      throw new JianpuParseError(`無法辨識的記號: "${token.text}"`, token.line, token.column);
+    }
+
+    const [, accidentalText, digit, octaveText = '', underlineText, dotText, tieText] = noteMatch;
+    const underlines = underlineText.length as 0 | 1 | 2;
+    const dotted = dotText === '.';
+    measureStart = measureStart ?? token;
+
+    if (digit === '0') {
+      if (accidentalText || octaveText || tieText) {
+        throw new JianpuParseError('休止符不可帶有臨時記號、八度點或連結線', token.line, token.column);
+      }
+      elements.push({
+        kind: 'rest',
+        underlines,
+        dotted,
+        beats: calculateJianpuBeats(underlines, dotted),
+        line: token.line,
+        column: token.column,
+      });
+      continue;
+    }
+
+    if (octaveText.length > JIANPU_CONSTANTS.MAX_OCTAVE_DOTS) {
+      throw new JianpuParseError(
+        `八度點最多 ${JIANPU_CONSTANTS.MAX_OCTAVE_DOTS} 個`,
+        token.line,
+        token.column
+      );
+    }
+
+    const accidental: JianpuAccidental =
+      accidentalText === '#' ? 'sharp' : accidentalText === 'b' ? 'flat' : null;
+    const note: JianpuNote = {
+      kind: 'note',
+      degree: digit as SolfegeNote,
+      accidental,
+      octave: octaveText.startsWith("'") ? octaveText.length : -octaveText.length,
+      underlines,
+      dotted,
+      dashes: 0,
+      tie: tieText === '~',
+      beats: calculateJianpuBeats(underlines, dotted),
+      line: token.line,
+      column: token.column,
+    };
+    elements.push(note);
+    systemNotes.push(note);
+  }
+
+  if (elements.length > 0) {
+    closeMeasure('none');
+  }
+
+  state.started = true;
+  state.systemIndex += 1;
+  state.lastSystemNotes = systemNotes;
+}
+
+/**
+ * 解析歌詞行，依序填入上一個譜行的音符
+ */
+function parseLyricsLine(text: string, lineNumber: number, state: ParserState): void {
+  const prefixIndex = text.indexOf(JIANPU_CONSTANTS.LYRICS_PREFIX);
+  const offset = prefixIndex + JIANPU_CONSTANTS.LYRICS_PREFIX.length;
+
+  if (!state.started) {
+    throw new JianpuParseError('歌詞行之前沒有樂譜', lineNumber, prefixIndex + 1);
+  }
+
+  const syllables = tokenizeLine(text.slice(offset), lineNumber, offset);
+  const targets: JianpuNote[] = [];
+  let previous: JianpuNote | null = null;
+  for (const note of state.lastSystemNotes) {
+    if (!isTieContinuation(previous, note)) {
+      targets.push(note);
+    }
+    previous = note;
+  }
+
+  syllables.forEach((syllable, index) => {
+    const target = targets[index];
+    if (!target) {
+      throw new JianpuParseError('歌詞字數多於音符數', syllable.line, syllable.column);
+    }
+    if (syllable.text !== JIANPU_CONSTANTS.LYRIC_SKIP) {
+      target.lyric = syllable.text;
+    }
+  });
+}
+
+/**
+ * 檢查各小節拍數是否符合拍號
+ * 第一小節允許為弱起小節，最後一小節允許不完整
+ */
+function validateMeasures(state: ParserState): void {
+  const { measures, timeSignature } = state.score;
+  const capacity = getMeasureCapacity(timeSignature);
+
+  measures.forEach((measure, index) => {
+    const isEdge = index === 0 || index === measures.length - 1;
+    const valid = isEdge ? measure.beats <= capacity : measure.beats === capacity;
+    if (!valid) {
+      const start = state.measureStarts[index];
+      throw new JianpuParseError(
+        `第 ${index + 1} 小節共 ${measure.beats} 拍，與拍號 ` +
+        `${timeSignature.numerator}/${timeSignature.denominator} 不符`,
+        start.line,
+        start.column
+      );
+    }
+  });
+}
+
+/**
+ * 解析簡譜文字
+ *
+ * @param text 簡譜文字
+ * @returns JianpuScore 解析後的樂譜
+ * @throws JianpuParseError 格式錯誤時拋出，包含行號與欄號
+ *
+ * @example
+ * ```typescript
+ * const score = parseJianpu('1=D 3/4\n5, 1 2 | 3 - - |]');
+ * console.log(score.measures.length); // 2
+ * ```
+ */
+export function parseJianpu(text: string): JianpuScore {
+  const state: ParserState = {
+    score: {
+      key: parseKeySignature(JIANPU_CONSTANTS.DEFAULT_KEY)!,
+      timeSignature: { ...JIANPU_CONSTANTS.DEFAULT_TIME_SIGNATURE },
+      measures: [],
+    },
+    started: false,
+    systemIndex: 0,
+    lastSystemNotes: [],
+    measureStarts: [],
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const trimmed = rawLine.trim();
+
+    if (trimmed === '' || trimmed.startsWith(JIANPU_CONSTANTS.COMMENT_PREFIX)) {
+      return;
+    }
+    if (trimmed.startsWith(JIANPU_CONSTANTS.LYRICS_PREFIX)) {
+      parseLyricsLine(rawLine, lineNumber, state);
+      return;
+    }
+    if (parseHeaderLine(rawLine, lineNumber, state)) {
+      return;
+    }
+    parseMusicLine(rawLine, lineNumber, state);
+  });
+
+  validateMeasures(state);
+  return state.score;
+}
+
+// ========== 序列化器 ==========
+
+/**
+ * 將單一音符或休止符序列化為文字
+ *
+ * @param element 音符或休止符
+ * @returns string 對應的記號文字
+ */
+export function serializeJianpuElement(element: JianpuElement): string {
+  const duration = '_'.repeat(element.underlines) + (element.dotted ? '.' : '');
+
+  if (element.kind === 'rest') {
+    return `0${duration}`;
+  }
+
+  const accidental = element.accidental === 'sharp' ? '#' : element.accidental === 'flat' ? 'b' : '';
+  const octave = element.octave > 0 ? "'".repeat(element.octave) : ','.repeat(-element.octave);
+  const tie = element.tie ? '~' : '';
+
+  if (element.dashes === 0) {
+    return `${accidental}${element.degree}${octave}${duration}${tie}`;
+  }
+
+  const dashes = Array.from({ length: element.dashes }, () => '-');
+  dashes[dashes.length - 1] += tie;
+  return [`${accidental}${element.degree}${octave}${duration}`, ...dashes].join(' ');
+}
+
+/**
+ * 產生一個譜行的歌詞行，沒有歌詞時回傳 null
+ */
+function serializeLyrics(measures: JianpuMeasure[]): string | null {
+  const syllables: string[] = [];
+  let previous: JianpuNote | null = null;
+
+  for (const measure of measures) {
+    for (const element of measure.elements) {
+      if (element.kind !== 'note') continue;
+      if (!isTieContinuation(previous, element)) {
+        syllables.push(element.lyric ?? JIANPU_CONSTANTS.LYRIC_SKIP);
+      }
+      previous = element;
+    }
+  }
+
+  while (syllables.length > 0 && syllables[syllables.length - 1] === JIANPU_CONSTANTS.LYRIC_SKIP) {
+    syllables.pop();
+  }
+
+  return syllables.length > 0 ? `${JIANPU_CONSTANTS.LYRICS_PREFIX} ${syllables.join(' ')}` : null;
+}
+
+/**
+ * 將樂譜序列化為簡譜文字
+ * 譜行依小節的 systemIndex 分行；若全部在同一行，則每行放置固定數量的小節
+ *
+ * @param score 樂譜
+ * @param measuresPerLine 自動分行時每行的小節數
+ * @returns string 簡譜文字，可再由 parseJianpu 解析
+ */
+export function serializeJianpu(
+  score: JianpuScore,
+  measuresPerLine: number = JIANPU_CONSTANTS.DEFAULT_MEASURES_PER_LINE
+): string {
+  const lines: string[] = [];
+  const { key, timeSignature } = score;
+
+  if (score.title) {
+    lines.push(`title: ${score.title}`);
+  }
+  lines.push(`1=${key.label} ${timeSignature.numerator}/${timeSignature.denominator}`);
+  if (score.tempo) {
+    lines.push(`tempo: ${score.tempo}`);
+  }
+
+  // 依譜行分組
+  const useSystems = new Set(score.measures.map(measure => measure.systemIndex)).size > 1;
+  const systems: JianpuMeasure[][] = [];
+  score.measures.forEach((measure, index) => {
+    const systemKey = useSystems ? measure.systemIndex : Math.floor(index / Math.max(1, measuresPerLine));
+    const last = systems[systems.length - 1];
+    if (last && (useSystems ? last[0].systemIndex === systemKey : systems.length - 1 === systemKey)) {
+      last.push(measure);
+    } else {
+      systems.push([measure]);
+    }
+  });
+
+  for (const system of systems) {
+    const parts = system.map(measure => {
+      const body = measure.elements.map(serializeJianpuElement).join(' ');
+      return measure.barline === 'none' ? body : `${body} ${BARLINE_TEXT[measure.barline]}`;
+    });
+    lines.push(parts.join(' '));
+
+    const lyrics = serializeLyrics(system);
+    if (lyrics) {
+      lines.push(lyrics);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,182 @@
+/**
+ * 簡譜鋼琴應用程式 - 調性與首調唱名
+ *
+ * 本文件負責依照選擇的調性 (12 個主音 × 大調/小調) 計算首調唱名：
+ * 每個音符相對於該調「1」的簡譜數字，以及調外音的升降記號。
+ * 小調採用簡譜慣用的「以 6 為主音」寫法，即 A 小調記為 1=C。
+ * NOTE_TO_SOLFEGE 僅適用於 C 大調，其他調性皆應透過本文件換算。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  NoteName,
+  SolfegeNote,
+  MusicalKey,
+  KeyMode,
+  JianpuAccidental,
+  JianpuKeySignature,
+} from '../types';
+import { NOTE_TO_SEMITONE_OFFSET, NOTE_TO_SOLFEGE } from './noteFrequencies';
+
+// ========== 常數定義 ==========
+
+/**
+ * 預設調性 (C 大調)
+ */
+export const DEFAULT_MUSICAL_KEY: MusicalKey = { tonic: 'C', mode: 'major' };
+
+/**
+ * 依半音排列的所有主音
+ */
+export const KEY_TONICS = Object.keys(NOTE_TO_SEMITONE_OFFSET) as NoteName[];
+
+/**
+ * 調式的中文名稱
+ */
+export const KEY_MODE_LABELS: Record<KeyMode, string> = {
+  major: '大調',
+  minor: '小調',
+};
+
+/**
+ * 小調主音相對於「1」的半音數 (小調主音為 6)
+ */
+const MINOR_TONIC_OFFSET = 9;
+
+/**
+ * 以降記號書寫的「1」音 (其餘以升記號或本位書寫)
+ */
+const FLAT_DO_NOTES: ReadonlySet<NoteName> = new Set<NoteName>(['F', 'A#', 'D#', 'G#', 'C#']);
+
+/**
+ * 各音名的降記號寫法
+ */
+const FLAT_SPELLINGS: Record<NoteName, string> = {
+  'C': 'C', 'C#': 'Db', 'D': 'D', 'D#': 'Eb', 'E': 'E', 'F': 'F',
+  'F#': 'Gb', 'G': 'G', 'G#': 'Ab', 'A': 'A', 'A#': 'Bb', 'B': 'B',
+};
+
+/**
+ * 臨時記號的顯示符號
+ */
+const ACCIDENTAL_SYMBOLS: Record<Exclude<JianpuAccidental, null>, string> = {
+  sharp: '♯',
+  flat: '♭',
+};
+
+// ========== 調性計算 ==========
+
+/**
+ * 取得調性中簡譜「1」所在的音
+ * 大調為主音本身，小調為其關係大調的主音
+ *
+ * @param key 調性
+ * @returns NoteName 「1」的音名
+ *
+ * @example
+ * ```typescript
+ * getDoNote({ tonic: 'A', mode: 'minor' }); // 'C'
+ * getDoNote({ tonic: 'E', mode: 'minor' }); // 'G'
+ * ```
+ */
+export function getDoNote(key: MusicalKey): NoteName {
+  const offset = key.mode === 'minor' ? 12 - MINOR_TONIC_OFFSET : 0;
+  return KEY_TONICS[(NOTE_TO_SEMITONE_OFFSET[key.tonic] + offset) % 12];
+}
+
+/**
+ * 判斷調性是否慣用降記號書寫
+ *
+ * @param key 調性
+ * @returns boolean 是否使用降記號
+ */
+export function prefersFlats(key: MusicalKey): boolean {
+  return FLAT_DO_NOTES.has(getDoNote(key));
+}
+
+/**
+ * 依調性慣用的升降記號拼寫音名
+ *
+ * @param noteName 音名
+ * @param key 調性
+ * @returns string 例如 'Bb'、'F#'
+ */
+export function spellNoteName(noteName: NoteName, key: MusicalKey): string {
+  return prefersFlats(key) ? FLAT_SPELLINGS[noteName] : noteName;
+}
+
+/**
+ * 取得調性的顯示名稱
+ *
+ * @param key 調性
+ * @returns string 例如 'D 大調'、'F# 小調'
+ */
+export function getKeyDisplayName(key: MusicalKey): string {
+  return `${spellNoteName(key.tonic, key)} ${KEY_MODE_LABELS[key.mode]}`;
+}
+
+/**
+ * 將調性轉換為簡譜調號 (1=X)
+ *
+ * @param key 調性
+ * @returns JianpuKeySignature 簡譜調號
+ */
+export function toJianpuKeySignature(key: MusicalKey): JianpuKeySignature {
+  const doNote = getDoNote(key);
+  return { tonic: doNote, label: spellNoteName(doNote, key) };
+}
+
+/**
+ * 計算音符在指定調性下的首調唱名與臨時記號
+ *
+ * @param noteName 音名
+ * @param key 調性
+ * @returns 簡譜數字與臨時記號
+ *
+ * @example
+ * ```typescript
+ * getMovableDoSolfege('F#', { tonic: 'D', mode: 'major' }); // { solfege: '3', accidental: null }
+ * getMovableDoSolfege('A#', { tonic: 'F', mode: 'major' }); // { solfege: '4', accidental: null }
+ * getMovableDoSolfege('C#', { tonic: 'F', mode: 'major' }); // { solfege: '6', accidental: 'flat' }
+ * ```
+ */
+export function getMovableDoSolfege(
+  noteName: NoteName,
+  key: MusicalKey
+): { solfege: SolfegeNote; accidental: JianpuAccidental } {
+  const doOffset = NOTE_TO_SEMITONE_OFFSET[getDoNote(key)];
+  const relative = (NOTE_TO_SEMITONE_OFFSET[noteName] - doOffset + 12) % 12;
+  const relativeName = KEY_TONICS[relative];
+
+  // 調內音直接對應 C 大調的唱名
+  if (!relativeName.includes('#')) {
+    return { solfege: NOTE_TO_SOLFEGE[relativeName], accidental: null };
+  }
+
+  // 調外音依調性慣例記為升高下方音級或降低上方音級
+  if (prefersFlats(key)) {
+    return { solfege: NOTE_TO_SOLFEGE[KEY_TONICS[(relative + 1) % 12]], accidental: 'flat' };
+  }
+  return { solfege: NOTE_TO_SOLFEGE[relativeName], accidental: 'sharp' };
+}
+
+/**
+ * 組合簡譜數字與臨時記號的顯示文字
+ *
+ * @param solfege 簡譜數字
+ * @param accidental 臨時記號
+ * @returns string 例如 '♯4'
+ */
+export function formatSolfegeLabel(solfege: SolfegeNote, accidental: JianpuAccidental): string {
+  return accidental ? `${ACCIDENTAL_SYMBOLS[accidental]}${solfege}` : solfege;
+}
+
+/**
+ * 判斷兩個調性是否相同
+ */
+export function isSameKey(a: MusicalKey, b: MusicalKey): boolean {
+  return a.tonic === b.tonic && a.mode === b.mode;
+}
@@ -0,0 +1,242 @@
+/**
+ * 簡譜鋼琴應用程式 - 節拍器工具
+ *
+ * 本文件提供節拍器的純函數：速度範圍限制、拍號與預設重音型態、
+ * 設定正規化、點擊測速 (tap tempo) 的速度計算，以及與 MIDI 四分音符速度的換算。
+ * 速度以拍號分母的音符為一拍，例如 6/8 拍的 BPM 指每分鐘的八分音符數。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  BeatAccent,
+  CountInBars,
+  MetronomeSettings,
+  MetronomeSubdivision,
+  TimeSignature,
+} from '../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * 節拍器範圍設定
+ */
+export const METRONOME_CONSTANTS = {
+  /** 速度範圍 (BPM) */
+  MIN_BPM: 30,
+  MAX_BPM: 300,
+  DEFAULT_BPM: 120,
+  /** 拍號分子範圍 */
+  MIN_BEATS: 1,
+  MAX_BEATS: 12,
+  /** 支援的拍號分母 */
+  DENOMINATORS: [2, 4, 8, 16],
+  /** 點擊測速：超過此間隔 (毫秒) 視為重新開始 */
+  TAP_RESET_MS: 2000,
+  /** 點擊測速：計算平均時使用的最近點擊次數 */
+  TAP_SAMPLE_COUNT: 6,
+} as const;
+
+/**
+ * 常用拍號
+ */
+export const TIME_SIGNATURE_PRESETS: readonly TimeSignature[] = [
+  { numerator: 2, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 4, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 },
+];
+
+/**
+ * 重音等級的循環順序 (點擊拍點時依序切換)
+ */
+const ACCENT_CYCLE: readonly BeatAccent[] = ['strong', 'medium', 'weak', 'mute'];
+
+/**
+ * 細分選項的顯示名稱
+ */
+export const SUBDIVISION_LABELS: Record<MetronomeSubdivision, string> = {
+  1: '♩',
+  2: '♫',
+  3: '3連',
+  4: '16分',
+};
+
+/**
+ * 預設節拍器設定
+ */
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  enabled: false,
+  bpm: METRONOME_CONSTANTS.DEFAULT_BPM,
+  timeSignature: { numerator: 4, denominator: 4 },
+  accents: ['strong', 'weak', 'weak', 'weak'],
+  subdivision: 1,
+  volume: 0.6,
+  recordTempo: true,
+  countInBars: 0,
+};
+
+// ========== 工具函數 ==========
+
+/**
+ * 限制速度在支援範圍內
+ *
+ * @param bpm 每分鐘拍數
+ * @returns number 四捨五入並限制後的速度
+ */
+export function clampBpm(bpm: number): number {
+  if (!Number.isFinite(bpm)) {
+    return METRONOME_CONSTANTS.DEFAULT_BPM;
+  }
+  return Math.max(METRONOME_CONSTANTS.MIN_BPM, Math.min(METRONOME_CONSTANTS.MAX_BPM, Math.round(bpm)));
+}
+
+/**
+ * 拍號的顯示文字
+ */
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  return `${timeSignature.numerator}/${timeSignature.denominator}`;
+}
+
+/**
+ * 拍號的預設重音型態
+ * 第一拍為強拍；複拍子 (6/8、9/8、12/8) 每三拍一個次強拍，
+ * 5 拍以 3+2、7 拍以 2+2+3 分組，4/4 的第三拍為次強拍
+ *
+ * @param timeSignature 拍號
+ * @returns BeatAccent[] 每一拍的重音等級
+ *
+ * @example
+ * ```typescript
+ * getDefaultAccents({ numerator: 6, denominator: 8 });
+ * // ['strong', 'weak', 'weak', 'medium', 'weak', 'weak']
+ * ```
+ */
+export function getDefaultAccents(timeSignature: TimeSignature): BeatAccent[] {
+  const { numerator, denominator } = timeSignature;
+
+  let groupStarts: number[];
+  if (denominator === 8 && numerator % 3 === 0 && numerator > 3) {
+    groupStarts = Array.from({ length: numerator / 3 }, (_, index) => index * 3);
+  } else if (numerator === 4) {
+    groupStarts = [0, 2];
+  } else if (numerator === 5) {
+    groupStarts = [0, 3];
+  } else if (numerator === 7) {
+    groupStarts = [0, 2, 4];
+  } else {
+    groupStarts = [0];
+  }
+
+  return Array.from({ length: numerator }, (_, beat): BeatAccent => {
+    if (beat === 0) return 'strong';
+    return groupStarts.includes(beat) ? 'medium' : 'weak';
+  });
+}
+
+/**
+ * 取得下一個重音等級 (強 → 次強 → 弱 → 靜音 → 強)
+ */
+export function cycleAccent(accent: BeatAccent): BeatAccent {
+  return ACCENT_CYCLE[(ACCENT_CYCLE.indexOf(accent) + 1) % ACCENT_CYCLE.length];
+}
+
+/**
+ * 正規化拍號，無效時回到 4/4
+ */
+export function normalizeTimeSignature(timeSignature?: Partial<TimeSignature>): TimeSignature {
+  const numerator = Math.round(timeSignature?.numerator ?? NaN);
+  const denominator = timeSignature?.denominator ?? NaN;
+
+  if (
+    !Number.isFinite(numerator) ||
+    numerator < METRONOME_CONSTANTS.MIN_BEATS ||
+    numerator > METRONOME_CONSTANTS.MAX_BEATS ||
+    !(METRONOME_CONSTANTS.DENOMINATORS as readonly number[]).includes(denominator)
+  ) {
+    return { ...DEFAULT_METRONOME_SETTINGS.timeSignature };
+  }
+
+  return { numerator, denominator };
+}
+
+/**
+ * 正規化節拍器設定
+ * 重音型態長度與拍號不符時改用該拍號的預設型態
+ *
+ * @param settings 部分或完整的節拍器設定
+ * @returns MetronomeSettings 完整且合法的設定
+ */
+export function normalizeMetronomeSettings(settings: Partial<MetronomeSettings> = {}): MetronomeSettings {
+  const timeSignature = normalizeTimeSignature(settings.timeSignature);
+  const accents = settings.accents?.length === timeSignature.numerator &&
+    settings.accents.every(accent => ACCENT_CYCLE.includes(accent))
+    ? [...settings.accents]
+    : getDefaultAccents(timeSignature);
+  const subdivision = ([1, 2, 3, 4] as const).find(value => value === settings.subdivision) ?? 1;
+  const countInBars: CountInBars = ([0, 1, 2] as const).find(value => value === settings.countInBars) ?? 0;
+  const volume = Number.isFinite(settings.volume)
+    ? Math.max(0, Math.min(1, settings.volume!))
+    : DEFAULT_METRONOME_SETTINGS.volume;
+
+  return {
+    enabled: settings.enabled ?? DEFAULT_METRONOME_SETTINGS.enabled,
+    bpm: clampBpm(settings.bpm ?? METRONOME_CONSTANTS.DEFAULT_BPM),
+    timeSignature,
+    accents,
+    subdivision,
+    volume,
+    recordTempo: settings.recordTempo ?? DEFAULT_METRONOME_SETTINGS.recordTempo,
+    countInBars,
+  };
+}
+
+/**
+ * 由點擊時間計算速度
+ * 只取最後一段連續點擊 (間隔不超過 TAP_RESET_MS) 中最近的幾次，
+ * 以平均間隔換算 BPM
+ *
+ * @param tapTimes 點擊時間 (毫秒)，依時間先後排列
+ * @returns number | null 速度，點擊不足兩次時為 null
+ *
+ * @example
+ * ```typescript
+ * calculateTapTempo([0, 500, 1000, 1500]); // 120
+ * ```
+ */
+export function calculateTapTempo(tapTimes: readonly number[]): number | null {
+  let start = tapTimes.length - 1;
+  while (start > 0 && tapTimes[start] - tapTimes[start - 1] <= METRONOME_CONSTANTS.TAP_RESET_MS) {
+    start--;
+  }
+
+  const recent = tapTimes.slice(start).slice(-METRONOME_CONSTANTS.TAP_SAMPLE_COUNT);
+  if (recent.length < 2) {
+    return null;
+  }
+
+  const averageInterval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+  return averageInterval > 0 ? clampBpm(60000 / averageInterval) : null;
+}
+
+/**
+ * 換算為以四分音符為一拍的速度 (MIDI 速度事件使用)
+ *
+ * @param bpm 以拍號分母為一拍的速度
+ * @param timeSignature 拍號
+ * @returns number 每分鐘四分音符數
+ *
+ * @example
+ * ```typescript
+ * toQuarterNoteBpm(120, { numerator: 6, denominator: 8 }); // 60
+ * ```
+ */
+export function toQuarterNoteBpm(bpm: number, timeSignature: TimeSignature): number {
+  return (bpm * 4) / timeSignature.denominator;
+}
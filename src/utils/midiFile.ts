@@ -0,0 +1,951 @@
+/**
+ * 簡譜鋼琴應用程式 - 標準 MIDI 檔案 (SMF) 工具
+ *
+ * 本文件實作了錄音資料與標準 MIDI 檔案 (Standard MIDI File) 之間的轉換，
+ * 支援 SMF 格式 0 (單一音軌) 與格式 1 (多音軌)，包含速度 (tempo)
+ * 元事件、音軌名稱以及由時間戳換算的 delta-time。錄音的每個音軌使用各自的 MIDI 頻道與音量，
+ * 格式 1 時各自輸出為一個音符軌，
+ * 讓錄音能在 DAW 或打譜軟體中開啟 (音符為實際發聲的音高，移調設定另以文字元事件註記)；也能解析外部的 .mid 檔案，
+ * 合併所有音軌為單一錄音音軌，並將超出鍵盤音域的音符移入 C3–C6。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  MidiEvent,
+  MidiControlChangeEvent,
+  RecordingData,
+  OutOfRangeStrategy,
+  NoteAlteration,
+  MidiImportReport,
+} from '../types';
+import { noteIdToMidiNumber, midiNumberToNoteId } from './noteFrequencies';
+import { SUPPORTED_NOTE_RANGE } from './pianoLayout';
+import { getTransposeOffset, formatTranspose } from './transpose';
+import { toQuarterNoteBpm } from './metronome';
+import { createTrack, createDefaultTrackName } from './recordingTracks';
+
+// ========== 常數定義 ==========
+
+/**
+ * 標準 MIDI 檔案相關常數
+ */
+export const MIDI_FILE_CONSTANTS = {
+  /** 預設每四分音符的 tick 數 */
+  DEFAULT_TICKS_PER_QUARTER: 480,
+  /** 預設速度 (BPM) */
+  DEFAULT_BPM: 120,
+  /** 每分鐘的微秒數，用於換算 tempo 元事件 */
+  MICROSECONDS_PER_MINUTE: 60_000_000,
+  /** 預設輸出的 MIDI 頻道 (0-15) */
+  DEFAULT_CHANNEL: 0,
+  /** 打擊樂使用的 MIDI 頻道 (第 10 頻道) */
+  PERCUSSION_CHANNEL: 9,
+  /** 頻道音量的控制器編號 */
+  VOLUME_CONTROLLER: 7,
+  /** 延音踏板的控制器編號 */
+  SUSTAIN_CONTROLLER: 64,
+  /** 延音踏板踩下的最小控制值 */
+  SUSTAIN_ON_THRESHOLD: 64,
+} as const;
+
+/**
+ * MIDI 狀態位元組
+ */
+const STATUS = {
+  NOTE_OFF: 0x80,
+  NOTE_ON: 0x90,
+  CONTROL_CHANGE: 0xb0,
+  SYSEX: 0xf0,
+  SYSEX_ESCAPE: 0xf7,
+  META: 0xff,
+} as const;
+
+/**
+ * MIDI 元事件類型
+ */
+const META_TYPE = {
+  TEXT: 0x01,
+  TRACK_NAME: 0x03,
+  END_OF_TRACK: 0x2f,
+  TEMPO: 0x51,
+  TIME_SIGNATURE: 0x58,
+} as const;
+
+// ========== 類型定義 ==========
+
+/**
+ * MIDI 匯出選項
+ */
+export interface MidiExportOptions {
+  /** SMF 格式：0 為單一音軌，1 為速度軌 + 每個錄音音軌一個音符軌 */
+  format?: 0 | 1;
+  /** 每四分音符的 tick 數 */
+  ticksPerQuarter?: number;
+  /** 速度 (每分鐘四分音符數)，決定 tempo 元事件與 tick 換算，預設使用錄音時節拍器的速度 */
+  bpm?: number;
+  /** 拍號，預設使用錄音時節拍器的拍號，皆未提供時為 4/4 */
+  timeSignature?: { numerator: number; denominator: number };
+  /** 第一個音軌輸出的 MIDI 頻道 (0-15)，其餘音軌依序使用之後的頻道 */
+  channel?: number;
+}
+
+/**
+ * 以絕對 tick 表示的音軌事件，寫入前再轉為 delta-time
+ */
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+/**
+ * 解析後的音符事件
+ */
+export interface ParsedMidiNoteEvent {
+  /** 絕對 tick */
+  tick: number;
+  /** 是否為 noteOn（velocity 為 0 的 noteOn 視為 noteOff） */
+  isNoteOn: boolean;
+  /** MIDI 頻道 (0-15) */
+  channel: number;
+  /** MIDI 音符編號 */
+  noteNumber: number;
+  /** 力度 */
+  velocity: number;
+}
+
+/**
+ * 解析後的控制變更事件
+ */
+export interface ParsedMidiControlEvent {
+  /** 絕對 tick */
+  tick: number;
+  /** MIDI 頻道 (0-15) */
+  channel: number;
+  /** 控制器編號 */
+  controller: number;
+  /** 控制值 */
+  value: number;
+}
+
+/**
+ * 解析後的音軌
+ */
+export interface ParsedMidiTrack {
+  /** 音軌名稱 */
+  name: string | null;
+  /** 音符事件 */
+  notes: ParsedMidiNoteEvent[];
+  /** 控制變更事件 */
+  controlChanges: ParsedMidiControlEvent[];
+  /** 音軌結束的 tick */
+  endTick: number;
+}
+
+/**
+ * 解析後的標準 MIDI 檔案
+ */
+export interface ParsedMidiFile {
+  /** SMF 格式 */
+  format: number;
+  /** 時間解析度：每四分音符的 tick 數，或 SMPTE 每秒的 tick 數 */
+  division: { type: 'ppq'; ticksPerQuarter: number } | { type: 'smpte'; ticksPerSecond: number };
+  /** 速度變化表（微秒/四分音符），依 tick 排序 */
+  tempoMap: { tick: number; microsecondsPerQuarter: number }[];
+  /** 所有音軌 */
+  tracks: ParsedMidiTrack[];
+}
+
+/**
+ * MIDI 匯入選項
+ */
+export interface MidiImportOptions {
+  /** 錄音名稱，未提供時使用檔案中的第一個音軌名稱 */
+  name?: string;
+  /** 超出音域音符的處理方式 */
+  outOfRangeStrategy?: OutOfRangeStrategy;
+  /** 是否略過打擊樂頻道 */
+  skipPercussion?: boolean;
+}
+
+// ========== 位元組編碼工具 ==========
+
+/**
+ * 編碼可變長度數值 (Variable-Length Quantity)
+ *
+ * @param value 非負整數
+ * @returns 編碼後的位元組
+ */
+export function encodeVariableLength(value: number): number[] {
+  let remaining = Math.max(0, Math.floor(value));
+  const bytes = [remaining & 0x7f];
+  remaining >>= 7;
+
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+
+  return bytes;
+}
+
+/**
+ * 將字串編碼為 UTF-8 位元組
+ *
+ * @param text 文字
+ * @returns UTF-8 位元組
+ */
+function encodeUtf8(text: string): number[] {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * 編碼 32 位元大端序整數
+ */
+function encodeUint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * 編碼 16 位元大端序整數
+ */
+function encodeUint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * 編碼 ASCII 區塊標識，例如 "MThd"
+ */
+function encodeChunkId(id: string): number[] {
+  return Array.from(id, char => char.charCodeAt(0));
+}
+
+// ========== 事件建立工具 ==========
+
+/**
+ * 建立元事件資料
+ */
+function createMetaEvent(type: number, payload: number[]): number[] {
+  return [STATUS.META, type, ...encodeVariableLength(payload.length), ...payload];
+}
+
+/**
+ * 建立延音踏板的控制變更事件
+ *
+ * @param isDown 是否踩下
+ * @param timestamp 事件時間戳 (毫秒)
+ * @returns 控制器 64 的事件，踩下為 127、放開為 0
+ */
+export function createSustainEvent(isDown: boolean, timestamp: number): MidiControlChangeEvent {
+  return {
+    type: 'controlChange',
+    controller: MIDI_FILE_CONSTANTS.SUSTAIN_CONTROLLER,
+    value: isDown ? 127 : 0,
+    timestamp,
+  };
+}
+
+/**
+ * 判斷事件是否為延音踏板事件
+ */
+export function isSustainEvent(event: MidiEvent): event is MidiControlChangeEvent {
+  return event.type === 'controlChange' && event.controller === MIDI_FILE_CONSTANTS.SUSTAIN_CONTROLLER;
+}
+
+/**
+ * 判斷延音踏板事件是否為踩下
+ */
+export function isSustainDown(event: MidiControlChangeEvent): boolean {
+  return event.value >= MIDI_FILE_CONSTANTS.SUSTAIN_ON_THRESHOLD;
+}
+
+/**
+ * 同一時間點的事件處理順序：noteOff → 控制變更 → noteOn
+ * 讓「放開後立即重按」與「換踏板」都能正確處理
+ */
+function getEventOrder(event: MidiEvent): number {
+  if (event.type === 'controlChange') return 1;
+  return event.type === 'noteOn' && event.velocity > 0 ? 2 : 0;
+}
+
+/**
+ * 依時間排序 MIDI 事件的比較函數，相同時間點依 noteOff、控制變更、noteOn 的順序
+ */
+export function compareMidiEvents(a: MidiEvent, b: MidiEvent): number {
+  return a.timestamp - b.timestamp || getEventOrder(a) - getEventOrder(b);
+}
+
+/**
+ * 將毫秒換算為 tick
+ *
+ * @param milliseconds 時間 (毫秒)
+ * @param bpm 速度
+ * @param ticksPerQuarter 每四分音符的 tick 數
+ * @returns tick 數
+ */
+export function millisecondsToTicks(milliseconds: number, bpm: number, ticksPerQuarter: number): number {
+  return Math.round((milliseconds * bpm * ticksPerQuarter) / 60_000);
+}
+
+/**
+ * 建立速度軌的元事件（音軌名稱、速度、拍號）
+ */
+function createConductorEvents(
+  trackName: string,
+  bpm: number,
+  timeSignature: { numerator: number; denominator: number }
+): TrackEvent[] {
+  const microsecondsPerQuarter = Math.round(MIDI_FILE_CONSTANTS.MICROSECONDS_PER_MINUTE / bpm);
+  const denominatorPower = Math.round(Math.log2(timeSignature.denominator));
+
+  return [
+    { tick: 0, data: createMetaEvent(META_TYPE.TRACK_NAME, encodeUtf8(trackName)) },
+    {
+      tick: 0,
+      data: createMetaEvent(META_TYPE.TEMPO, [
+        (microsecondsPerQuarter >> 16) & 0xff,
+        (microsecondsPerQuarter >> 8) & 0xff,
+        microsecondsPerQuarter & 0xff,
+      ]),
+    },
+    {
+      tick: 0,
+      // 每拍 24 個 MIDI clock，每四分音符 8 個三十二分音符
+      data: createMetaEvent(META_TYPE.TIME_SIGNATURE, [timeSignature.numerator, denominatorPower, 24, 8]),
+    },
+  ];
+}
+
+/**
+ * 取得錄音音軌輸出的 MIDI 頻道
+ * 由起始頻道依序分配並略過打擊樂頻道，超過 16 個頻道時循環使用
+ *
+ * @param baseChannel 第一個音軌的頻道 (0-15)
+ * @param index 音軌索引
+ * @returns number MIDI 頻道 (0-15)
+ */
+function getTrackChannel(baseChannel: number, index: number): number {
+  let channel = baseChannel;
+  for (let i = 0; i < index; i++) {
+    channel = (channel + 1) % 16;
+    if (channel === MIDI_FILE_CONSTANTS.PERCUSSION_CHANNEL && baseChannel !== channel) {
+      channel = (channel + 1) % 16;
+    }
+  }
+  return channel;
+}
+
+/**
+ * 將錄音音軌的 MIDI 事件轉換為音軌事件
+ * 多個來源合併時依 tick 重新排序，供格式 0 的單一音軌使用
+ */
+function createNoteEvents(
+  sources: { events: MidiEvent[]; channel: number }[],
+  bpm: number,
+  ticksPerQuarter: number
+): TrackEvent[] {
+  const trackEvents = sources.flatMap(({ events, channel }) => events.map(event => {
+    const tick = millisecondsToTicks(event.timestamp, bpm, ticksPerQuarter);
+    const order = getEventOrder(event);
+
+    if (event.type === 'controlChange') {
+      const value = Math.round(Math.max(0, Math.min(127, event.value)));
+      return { tick, data: [STATUS.CONTROL_CHANGE | channel, event.controller & 0x7f, value], order };
+    }
+
+    const midiNumber = noteIdToMidiNumber(event.noteId);
+    const velocity = Math.round(Math.max(0, Math.min(127, event.velocity)));
+    const isNoteOn = event.type === 'noteOn' && velocity > 0;
+    const status = (isNoteOn ? STATUS.NOTE_ON : STATUS.NOTE_OFF) | channel;
+
+    return { tick, data: [status, midiNumber & 0x7f, isNoteOn ? velocity : 0x40], order };
+  }));
+
+  // 相同 tick 時 noteOff 優先，避免同音重按被立即截斷；換踏板時先放開舊音再踩下
+  trackEvents.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  return trackEvents.map(({ tick, data }) => ({ tick, data }));
+}
+
+/**
+ * 將音軌事件編碼為 MTrk 區塊
+ *
+ * @param events 以絕對 tick 表示的音軌事件
+ * @param endTick 音軌結束的 tick
+ * @returns MTrk 區塊位元組
+ */
+function encodeTrackChunk(events: TrackEvent[], endTick: number): number[] {
+  const body: number[] = [];
+  let previousTick = 0;
+
+  events.forEach(event => {
+    body.push(...encodeVariableLength(event.tick - previousTick), ...event.data);
+    previousTick = event.tick;
+  });
+
+  body.push(
+    ...encodeVariableLength(Math.max(0, endTick - previousTick)),
+    ...createMetaEvent(META_TYPE.END_OF_TRACK, [])
+  );
+
+  return [...encodeChunkId('MTrk'), ...encodeUint32(body.length), ...body];
+}
+
+// ========== 匯出主函數 ==========
+
+/**
+ * 將錄音資料編碼為標準 MIDI 檔案
+ *
+ * @param recording 錄音資料
+ * @param options 匯出選項
+ * @returns .mid 檔案的二進位內容
+ *
+ * @example
+ * ```typescript
+ * const bytes = encodeMidiFile(recording, { format: 1, bpm: 96 });
+ * ```
+ */
+export function encodeMidiFile(recording: RecordingData, options: MidiExportOptions = {}): Uint8Array {
+  const {
+    format = 1,
+    ticksPerQuarter = MIDI_FILE_CONSTANTS.DEFAULT_TICKS_PER_QUARTER,
+    timeSignature = recording.timeSignature ?? { numerator: 4, denominator: 4 },
+    channel = MIDI_FILE_CONSTANTS.DEFAULT_CHANNEL,
+  } = options;
+  // 錄音帶有節拍器速度時，小節線與錄音起點對齊
+  const bpm = options.bpm ?? (recording.tempo
+    ? toQuarterNoteBpm(recording.tempo, recording.timeSignature ?? timeSignature)
+    : MIDI_FILE_CONSTANTS.DEFAULT_BPM);
+
+  const clampedChannel = Math.max(0, Math.min(15, Math.floor(channel)));
+  const conductorEvents = createConductorEvents(recording.name, bpm, timeSignature);
+
+  // 每個音軌使用各自的頻道，並以頻道音量 (CC7) 記錄音軌音量
+  const sources = recording.tracks.map((track, index) => ({
+    track,
+    events: track.events,
+    channel: getTrackChannel(clampedChannel, index),
+  }));
+  const volumeEvents = sources.map(({ track, channel }) => ({
+    tick: 0,
+    data: [STATUS.CONTROL_CHANGE | channel, MIDI_FILE_CONSTANTS.VOLUME_CONTROLLER, Math.round(track.volume * 127)],
+  }));
+
+  // 錄音時有移調則註記於第一個音符軌開頭，音符本身已是實際發聲的音高
+  const transposeText: TrackEvent[] = recording.transpose && getTransposeOffset(recording.transpose) !== 0
+    ? [{
+        tick: 0,
+        data: createMetaEvent(META_TYPE.TEXT, encodeUtf8(`Transpose ${formatTranspose(recording.transpose)}`)),
+      }]
+    : [];
+
+  const allNoteEvents = createNoteEvents(sources, bpm, ticksPerQuarter);
+  const lastNoteTick = allNoteEvents.length > 0 ? allNoteEvents[allNoteEvents.length - 1].tick : 0;
+  const endTick = Math.max(lastNoteTick, millisecondsToTicks(recording.duration, bpm, ticksPerQuarter));
+
+  const tracks = format === 0
+    ? [encodeTrackChunk([...conductorEvents, ...transposeText, ...volumeEvents, ...allNoteEvents], endTick)]
+    : [
+        encodeTrackChunk(conductorEvents, endTick),
+        ...sources.map((source, index) => {
+          // 只有一個音軌時沿用錄音名稱作為音軌名稱
+          const trackName = sources.length === 1 ? recording.name : source.track.name;
+          return encodeTrackChunk([
+            { tick: 0, data: createMetaEvent(META_TYPE.TRACK_NAME, encodeUtf8(trackName)) },
+            ...(index === 0 ? transposeText : []),
+            volumeEvents[index],
+            ...createNoteEvents([source], bpm, ticksPerQuarter),
+          ], endTick);
+        }),
+      ];
+
+  const header = [
+    ...encodeChunkId('MThd'),
+    ...encodeUint32(6),
+    ...encodeUint16(format),
+    ...encodeUint16(tracks.length),
+    ...encodeUint16(ticksPerQuarter),
+  ];
+
+  return Uint8Array.from([...header, ...tracks.flat()]);
+}
+
+/**
+ * 產生錄音匯出時使用的檔案名稱
+ *
+ * @param recording 錄音資料
+ * @returns 檔案名稱，例如 "錄音 2025-08-31 14-05.mid"
+ */
+export function getMidiFileName(recording: RecordingData): string {
+  // 移除檔案系統不允許的字元
+  const safeName = recording.name.replace(/[\\/:*?"<>|]/g, '-').trim() || recording.id;
+  return `${safeName}.mid`;
+}
+
+// ========== 位元組解碼工具 ==========
+
+/**
+ * 循序讀取位元組的游標
+ */
+class ByteReader {
+  public position: number = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  public get remaining(): number {
+    return this.bytes.length - this.position;
+  }
+
+  public readUint8(): number {
+    if (this.position >= this.bytes.length) {
+      throw new Error(`MIDI 檔案意外結束 (位置 ${this.position})`);
+    }
+    return this.bytes[this.position++];
+  }
+
+  public peekUint8(): number {
+    return this.bytes[this.position];
+  }
+
+  public readUint16(): number {
+    return (this.readUint8() << 8) | this.readUint8();
+  }
+
+  public readUint32(): number {
+    return ((this.readUint8() << 24) >>> 0) + (this.readUint8() << 16) + (this.readUint8() << 8) + this.readUint8();
+  }
+
+  public readVariableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readUint8();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error(`無效的可變長度數值 (位置 ${this.position})`);
+  }
+
+  public readBytes(length: number): Uint8Array {
+    if (length > this.remaining) {
+      throw new Error(`MIDI 檔案意外結束 (位置 ${this.position})`);
+    }
+    const slice = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  public readChunkId(): string {
+    return String.fromCharCode(...Array.from(this.readBytes(4)));
+  }
+}
+
+/**
+ * 將 UTF-8 位元組解碼為字串，無效序列時退回 Latin-1
+ */
+function decodeText(bytes: Uint8Array): string {
+  let result = '';
+  let index = 0;
+
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    let codePoint = byte;
+    let extraBytes = 0;
+
+    if (byte >= 0xf0) {
+      codePoint = byte & 0x07;
+      extraBytes = 3;
+    } else if (byte >= 0xe0) {
+      codePoint = byte & 0x0f;
+      extraBytes = 2;
+    } else if (byte >= 0xc0) {
+      codePoint = byte & 0x1f;
+      extraBytes = 1;
+    } else if (byte >= 0x80) {
+      return Array.from(bytes, b => String.fromCharCode(b)).join('');
+    }
+
+    for (let i = 1; i <= extraBytes; i++) {
+      const continuation = bytes[index + i];
+      if (continuation === undefined || (continuation & 0xc0) !== 0x80) {
+        return Array.from(bytes, b => String.fromCharCode(b)).join('');
+      }
+      codePoint = (codePoint << 6) | (continuation & 0x3f);
+    }
+
+    result += String.fromCodePoint(codePoint);
+    index += extraBytes + 1;
+  }
+
+  return result;
+}
+
+/**
+ * 每個通道訊息狀態位元組後的資料位元組數
+ */
+function getChannelMessageLength(status: number): number {
+  const messageType = status & 0xf0;
+  return messageType === 0xc0 || messageType === 0xd0 ? 1 : 2;
+}
+
+/**
+ * 解析單一 MTrk 音軌
+ */
+function parseTrack(
+  reader: ByteReader,
+  length: number,
+  tempoMap: ParsedMidiFile['tempoMap']
+): ParsedMidiTrack {
+  const endPosition = reader.position + length;
+  const track: ParsedMidiTrack = { name: null, notes: [], controlChanges: [], endTick: 0 };
+  let tick = 0;
+  let runningStatus = 0;
+
+  while (reader.position < endPosition) {
+    tick += reader.readVariableLength();
+    let status = reader.peekUint8();
+
+    if (status < 0x80) {
+      // 沿用上一個狀態位元組 (running status)
+      if (!runningStatus) {
+        throw new Error(`缺少狀態位元組 (位置 ${reader.position})`);
+      }
+      status = runningStatus;
+    } else {
+      reader.readUint8();
+    }
+
+    if (status === STATUS.META) {
+      const metaType = reader.readUint8();
+      const data = reader.readBytes(reader.readVariableLength());
+
+      if (metaType === META_TYPE.TRACK_NAME && track.name === null) {
+        track.name = decodeText(data);
+      } else if (metaType === META_TYPE.TEMPO && data.length === 3) {
+        tempoMap.push({ tick, microsecondsPerQuarter: (data[0] << 16) | (data[1] << 8) | data[2] });
+      } else if (metaType === META_TYPE.END_OF_TRACK) {
+        break;
+      }
+      continue;
+    }
+
+    if (status === STATUS.SYSEX || status === STATUS.SYSEX_ESCAPE) {
+      reader.readBytes(reader.readVariableLength());
+      continue;
+    }
+
+    if (status >= 0xf0) {
+      throw new Error(`不支援的系統訊息: 0x${status.toString(16)} (位置 ${reader.position})`);
+    }
+
+    runningStatus = status;
+    const data1 = reader.readUint8();
+    const data2 = getChannelMessageLength(status) === 2 ? reader.readUint8() : 0;
+    const messageType = status & 0xf0;
+
+    if (messageType === STATUS.NOTE_ON || messageType === STATUS.NOTE_OFF) {
+      track.notes.push({
+        tick,
+        isNoteOn: messageType === STATUS.NOTE_ON && data2 > 0,
+        channel: status & 0x0f,
+        noteNumber: data1,
+        velocity: data2,
+      });
+    } else if (messageType === STATUS.CONTROL_CHANGE) {
+      track.controlChanges.push({ tick, channel: status & 0x0f, controller: data1, value: data2 });
+    }
+  }
+
+  track.endTick = tick;
+  reader.position = endPosition;
+  return track;
+}
+
+// ========== 匯入主函數 ==========
+
+/**
+ * 解析標準 MIDI 檔案 (SMF 格式 0/1)
+ *
+ * @param data .mid 檔案的二進位內容
+ * @returns 解析後的 MIDI 檔案
+ * @throws Error 檔案格式無效時
+ */
+export function parseMidiFile(data: Uint8Array | ArrayBuffer): ParsedMidiFile {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = new ByteReader(bytes);
+
+  if (bytes.length < 14 || reader.readChunkId() !== 'MThd') {
+    throw new Error('不是有效的 MIDI 檔案 (缺少 MThd 標頭)');
+  }
+
+  const headerLength = reader.readUint32();
+  const format = reader.readUint16();
+  const trackCount = reader.readUint16();
+  const rawDivision = reader.readUint16();
+  reader.position = 8 + headerLength;
+
+  if (format > 1) {
+    throw new Error(`不支援的 SMF 格式: ${format}（僅支援格式 0 與 1）`);
+  }
+
+  let division: ParsedMidiFile['division'];
+  if (rawDivision & 0x8000) {
+    // SMPTE 時間碼：高位元組為負的每秒影格數，低位元組為每影格 tick 數
+    const framesPerSecond = 256 - (rawDivision >> 8);
+    division = { type: 'smpte', ticksPerSecond: framesPerSecond * (rawDivision & 0xff) };
+  } else {
+    division = { type: 'ppq', ticksPerQuarter: rawDivision };
+  }
+
+  if ((division.type === 'ppq' ? division.ticksPerQuarter : division.ticksPerSecond) <= 0) {
+    throw new Error('MIDI 檔案的時間解析度無效');
+  }
+
+  const tempoMap: ParsedMidiFile['tempoMap'] = [];
+  const tracks: ParsedMidiTrack[] = [];
+
+  while (tracks.length < trackCount && reader.remaining >= 8) {
+    const chunkId = reader.readChunkId();
+    const chunkLength = reader.readUint32();
+
+    if (chunkId !== 'MTrk') {
+      // 略過未知的區塊
+      reader.readBytes(chunkLength);
+      continue;
+    }
+
+    tracks.push(parseTrack(reader, chunkLength, tempoMap));
+  }
+
+  if (tracks.length === 0) {
+    throw new Error('MIDI 檔案中沒有任何音軌');
+  }
+
+  tempoMap.sort((a, b) => a.tick - b.tick);
+
+  return { format, division, tempoMap, tracks };
+}
+
+/**
+ * 建立 tick 到毫秒的換算函數，依速度變化表分段計算
+ *
+ * @param midiFile 解析後的 MIDI 檔案
+ * @returns tick → 毫秒 的換算函數
+ */
+export function createTickToMilliseconds(midiFile: ParsedMidiFile): (tick: number) => number {
+  const { division, tempoMap } = midiFile;
+
+  if (division.type === 'smpte') {
+    return (tick) => (tick / division.ticksPerSecond) * 1000;
+  }
+
+  const defaultTempo = Math.round(MIDI_FILE_CONSTANTS.MICROSECONDS_PER_MINUTE / MIDI_FILE_CONSTANTS.DEFAULT_BPM);
+  const segments: { tick: number; milliseconds: number; microsecondsPerQuarter: number }[] = [
+    { tick: 0, milliseconds: 0, microsecondsPerQuarter: defaultTempo },
+  ];
+
+  tempoMap.forEach(change => {
+    const previous = segments[segments.length - 1];
+    const milliseconds = previous.milliseconds
+      + ((change.tick - previous.tick) * previous.microsecondsPerQuarter) / (division.ticksPerQuarter * 1000);
+
+    if (change.tick === previous.tick) {
+      previous.microsecondsPerQuarter = change.microsecondsPerQuarter;
+    } else {
+      segments.push({ tick: change.tick, milliseconds, microsecondsPerQuarter: change.microsecondsPerQuarter });
+    }
+  });
+
+  return (tick) => {
+    let segment = segments[0];
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (segments[i].tick <= tick) {
+        segment = segments[i];
+        break;
+      }
+    }
+    return segment.milliseconds
+      + ((tick - segment.tick) * segment.microsecondsPerQuarter) / (division.ticksPerQuarter * 1000);
+  };
+}
+
+/**
+ * 將 MIDI 音符編號移入支援的音域
+ *
+ * @param noteNumber MIDI 音符編號
+ * @param strategy 處理方式
+ * @returns 移入音域後的音符編號
+ */
+export function fitNoteToSupportedRange(noteNumber: number, strategy: OutOfRangeStrategy): number {
+  const lowest = noteIdToMidiNumber(SUPPORTED_NOTE_RANGE[0]);
+  const highest = noteIdToMidiNumber(SUPPORTED_NOTE_RANGE[SUPPORTED_NOTE_RANGE.length - 1]);
+
+  if (strategy === 'clamp') {
+    return Math.max(lowest, Math.min(highest, noteNumber));
+  }
+
+  let fitted = noteNumber;
+  while (fitted < lowest) fitted += 12;
+  while (fitted > highest) fitted -= 12;
+  return fitted;
+}
+
+/**
+ * 將解析後的 MIDI 檔案轉換為錄音資料
+ * 合併所有音軌，並將超出音域的音符依策略移入 C3–C6
+ *
+ * @param midiFile 解析後的 MIDI 檔案
+ * @param recordingBase 錄音的識別資訊（ID 與建立時間）
+ * @param options 匯入選項
+ * @returns 錄音資料與匯入報告
+ */
+export function convertMidiToRecording(
+  midiFile: ParsedMidiFile,
+  recordingBase: { id: string; createdAt: Date },
+  options: MidiImportOptions = {}
+): { recording: RecordingData; report: MidiImportReport } {
+  const { outOfRangeStrategy = 'transpose', skipPercussion = true } = options;
+  const tickToMilliseconds = createTickToMilliseconds(midiFile);
+
+  const report: MidiImportReport = {
+    format: midiFile.format,
+    trackCount: midiFile.tracks.length,
+    noteCount: 0,
+    transposedCount: 0,
+    clampedCount: 0,
+    skippedPercussionCount: 0,
+    mergedCount: 0,
+    alterations: [],
+  };
+  const alterations = new Map<string, NoteAlteration>();
+
+  // 合併所有音軌並依時間排序，相同 tick 時 noteOff 優先
+  const mergedNotes = midiFile.tracks
+    .flatMap(track => track.notes)
+    .sort((a, b) => a.tick - b.tick || Number(a.isNoteOn) - Number(b.isNoteOn));
+
+  // 每個目標音符目前被按住的來源數量，處理移調後的同音重疊
+  const heldCounts = new Map<number, number>();
+  const events: MidiEvent[] = [];
+
+  mergedNotes.forEach(note => {
+    if (skipPercussion && note.channel === MIDI_FILE_CONSTANTS.PERCUSSION_CHANNEL) {
+      if (note.isNoteOn) report.skippedPercussionCount++;
+      return;
+    }
+
+    const fittedNumber = fitNoteToSupportedRange(note.noteNumber, outOfRangeStrategy);
+    const noteId = midiNumberToNoteId(fittedNumber);
+    const timestamp = Math.round(tickToMilliseconds(note.tick));
+    const heldCount = heldCounts.get(fittedNumber) ?? 0;
+
+    if (note.isNoteOn) {
+      report.noteCount++;
+
+      if (fittedNumber !== note.noteNumber) {
+        if (outOfRangeStrategy === 'clamp') {
+          report.clampedCount++;
+        } else {
+          report.transposedCount++;
+        }
+
+        const original = midiNumberToNoteId(note.noteNumber);
+        const key = `${original}>${noteId}`;
+        const alteration = alterations.get(key) ?? { original, result: noteId, count: 0 };
+        alteration.count++;
+        alterations.set(key, alteration);
+      }
+
+      if (heldCount > 0) {
+        // 目標音已在發聲：先放開再重新按下
+        report.mergedCount++;
+        events.push({ type: 'noteOff', noteId, timestamp, velocity: 0 });
+      }
+
+      heldCounts.set(fittedNumber, heldCount + 1);
+      events.push({ type: 'noteOn', noteId, timestamp, velocity: note.velocity });
+    } else if (heldCount > 0) {
+      heldCounts.set(fittedNumber, heldCount - 1);
+      if (heldCount === 1) {
+        events.push({ type: 'noteOff', noteId, timestamp, velocity: 0 });
+      }
+    }
+  });
+
+  // 檔案結束時仍未放開的音符
+  const endTick = Math.max(...midiFile.tracks.map(track => track.endTick));
+  const endTimestamp = Math.round(tickToMilliseconds(endTick));
+  heldCounts.forEach((count, noteNumber) => {
+    if (count > 0) {
+      events.push({ type: 'noteOff', noteId: midiNumberToNoteId(noteNumber), timestamp: endTimestamp, velocity: 0 });
+    }
+  });
+
+  // 合併各頻道的延音踏板：任一頻道踩下即視為踩下
+  const sustainChannels = new Set<number>();
+  midiFile.tracks
+    .flatMap(track => track.controlChanges)
+    .filter(change => change.controller === MIDI_FILE_CONSTANTS.SUSTAIN_CONTROLLER)
+    .filter(change => !(skipPercussion && change.channel === MIDI_FILE_CONSTANTS.PERCUSSION_CHANNEL))
+    .sort((a, b) => a.tick - b.tick)
+    .forEach(change => {
+      const wasDown = sustainChannels.size > 0;
+      if (change.value >= MIDI_FILE_CONSTANTS.SUSTAIN_ON_THRESHOLD) {
+        sustainChannels.add(change.channel);
+      } else {
+        sustainChannels.delete(change.channel);
+      }
+      const isDown = sustainChannels.size > 0;
+      if (isDown !== wasDown) {
+        events.push(createSustainEvent(isDown, Math.round(tickToMilliseconds(change.tick))));
+      }
+    });
+  if (sustainChannels.size > 0) {
+    events.push(createSustainEvent(false, endTimestamp));
+  }
+  events.sort(compareMidiEvents);
+
+  report.alterations = Array.from(alterations.values()).sort((a, b) => b.count - a.count);
+
+  const lastTimestamp = events.length > 0 ? events[events.length - 1].timestamp : 0;
+  const trackName = midiFile.tracks.find(track => track.name?.trim())?.name?.trim();
+
+  const recording: RecordingData = {
+    id: recordingBase.id,
+    name: options.name?.trim() || trackName || '匯入的 MIDI',
+    duration: Math.max(lastTimestamp, endTimestamp),
+    tracks: [createTrack(createDefaultTrackName(0), events)],
+    createdAt: recordingBase.createdAt,
+    updatedAt: recordingBase.createdAt,
+  };
+
+  return { recording, report };
+}
@@ -1,15 +1,18 @@
 /**
  * 簡譜鋼琴應用程式 - 音符頻率對照表
  * 
- * 本文件包含標準音樂音符的頻率對照表和相關的音樂理論計算工具，
- * 基於等程律調音系統，以 A4 = 440Hz 為基準音高。
+ * 本文件包含標準音樂音符的頻率對照表和相關的音樂理論計算工具。
+ * MIDI 編號與頻率的基本換算基於等程律調音系統，以 A4 = 440Hz 為基準音高；
+ * 琴鍵實際發聲的頻率 (getNoteFrequency、PIANO_FREQUENCIES) 則依目前使用中的調律計算。
  * 
  * @author Claude Code
  * @version 1.0.0
  * @since 2025-08-31
  */
 
-import type { NoteName, NoteId, SolfegeNote } from '../types';
+import type { NoteName, NoteId, SolfegeNote, TuningSettings } from '../types';
+
+import { createTuning, normalizeTuningSettings, DEFAULT_TUNING_SETTINGS, TuningFunction } from './tuning';
 
 // ========== 基礎常數定義 ==========
 
@@ -107,7 +110,8 @@ export function noteToMidiNumber(noteName: NoteName, octave: number): number {
 }
 
 /**
- * 將MIDI音符編號轉換為頻率
+ * 將MIDI音符編號轉換為頻率 (A4 = 440Hz 的十二平均律)
+ * 用於取樣音色的原始音高等與調律無關的計算，琴鍵發聲請使用 getNoteFrequency
  * 
  * @param midiNumber MIDI音符編號 (0-127)
  * @returns 頻率 (Hz)
@@ -125,7 +129,7 @@ export function midiNumberToFrequency(midiNumber: number): number {
 }
 
 /**
- * 直接計算音符頻率
+ * 直接計算音符頻率 (依目前使用中的調律)
  * 
  * @param noteName 音符名稱
  * @param octave 八度數
@@ -139,7 +143,7 @@ export function midiNumberToFrequency(midiNumber: number): number {
  */
 export function calculateNoteFrequency(noteName: NoteName, octave: number): number {
   const midiNumber = noteToMidiNumber(noteName, octave);
-  return midiNumberToFrequency(midiNumber);
+  return getTunedFrequency(midiNumber);
 }
 
 /**
@@ -169,7 +173,44 @@ export function parseNoteId(noteId: NoteId): {noteName: NoteName, octave: number
 }
 
 /**
- * 從音符ID獲取頻率
+ * 將音符ID轉換為MIDI音符編號
+ * 
+ * @param noteId 音符ID (例如: "C4", "F#3")
+ * @returns MIDI音符編號
+ * 
+ * @example
+ * ```typescript
+ * const midiNumber = noteIdToMidiNumber('C4'); // 60
+ * const midiNumber = noteIdToMidiNumber('A#3'); // 58
+ * ```
+ */
+export function noteIdToMidiNumber(noteId: NoteId): number {
+  const { noteName, octave } = parseNoteId(noteId);
+  return noteToMidiNumber(noteName, octave);
+}
+
+/**
+ * 將MIDI音符編號轉換為音符ID
+ * 
+ * @param midiNumber MIDI音符編號 (0-127)
+ * @returns 音符ID (黑鍵以升記號表示)
+ * 
+ * @example
+ * ```typescript
+ * const noteId = midiNumberToNoteId(60); // 'C4'
+ * const noteId = midiNumberToNoteId(70); // 'A#4'
+ * ```
+ */
+export function midiNumberToNoteId(midiNumber: number): NoteId {
+  const noteNames = Object.keys(NOTE_TO_SEMITONE_OFFSET) as NoteName[];
+  const semitone = ((midiNumber % 12) + 12) % 12;
+  const octave = Math.floor(midiNumber / 12) - 1;
+  
+  return `${noteNames[semitone]}${octave}` as NoteId;
+}
+
+/**
+ * 從音符ID獲取頻率 (依目前使用中的調律)
  * 
  * @param noteId 音符ID (例如: "C4", "A4")
  * @returns 頻率 (Hz)
@@ -185,11 +226,65 @@ export function getNoteFrequency(noteId: NoteId): number {
   return calculateNoteFrequency(noteName, octave);
 }
 
+// ========== 調律狀態 ==========
+
+/**
+ * 目前使用中的調音設定
+ */
+let activeTuning: TuningSettings = DEFAULT_TUNING_SETTINGS;
+
+/**
+ * 目前使用中的調律函數
+ */
+let tuningFunction: TuningFunction = createTuning(DEFAULT_TUNING_SETTINGS, 0);
+
+/**
+ * 依目前使用中的調律將MIDI音符編號轉換為頻率
+ * 
+ * @param midiNumber MIDI音符編號 (0-127)
+ * @returns 頻率 (Hz)
+ */
+export function getTunedFrequency(midiNumber: number): number {
+  return tuningFunction(midiNumber);
+}
+
+/**
+ * 獲取目前使用中的調音設定
+ */
+export function getActiveTuning(): TuningSettings {
+  return activeTuning;
+}
+
+/**
+ * 切換調律
+ * 重新計算 PIANO_FREQUENCIES 的內容 (保留同一個物件，既有的引用會讀到新頻率)；
+ * 已經在發聲的音符不受影響
+ * 
+ * @param settings 調音設定
+ * @throws Error Scala 檔案格式無效時，此時維持原本的調律
+ * 
+ * @example
+ * ```typescript
+ * setActiveTuning({ referenceFrequency: 415, temperament: 'meantone', tonic: 'D', scala: null });
+ * getNoteFrequency('A4'); // 415
+ * ```
+ */
+export function setActiveTuning(settings: TuningSettings): void {
+  const normalized = normalizeTuningSettings(settings);
+  tuningFunction = createTuning(normalized, NOTE_TO_SEMITONE_OFFSET[normalized.tonic] ?? 0);
+  activeTuning = normalized;
+
+  for (const noteId of Object.keys(PIANO_FREQUENCIES) as NoteId[]) {
+    PIANO_FREQUENCIES[noteId] = getNoteFrequency(noteId);
+  }
+}
+
 // ========== 預定義頻率表 ==========
 
 /**
  * 鋼琴應用程式使用的音域範圍 (C3-C6)
- * 預先計算所有音符的頻率以提升性能
+ * 預先計算所有音符的頻率以提升性能，切換調律時由 setActiveTuning 更新
+ * (註解中的數值為 A4 = 440Hz 的十二平均律)
  */
 export const PIANO_FREQUENCIES: Record<NoteId, number> = {
   // 第3八度 (低音區)
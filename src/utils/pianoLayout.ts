@@ -17,13 +17,19 @@ import type {
   NoteName, 
   NoteId, 
   KeyType, 
-  PitchRange 
+  PitchRange,
+  MusicalKey
 } from '../types';
 import { 
-  PIANO_FREQUENCIES, 
-  getSolfege, 
+  getNoteFrequency, 
   parseNoteId 
 } from './noteFrequencies';
+import {
+  DEFAULT_MUSICAL_KEY,
+  getMovableDoSolfege,
+  formatSolfegeLabel
+} from './keySignature';
+import { transposeNoteId } from './transpose';
 
 // ========== 佈局常數定義 ==========
 
@@ -258,14 +264,19 @@ export function calculateBlackKeyOffset(
  * 
  * @param containerWidth 容器寬度
  * @param containerHeight 容器高度
+ * @param musicalKey 簡譜標記所依據的調性
+ * @param transposition 琴鍵到實際發聲音符的位移 (半音)，簡譜標記與頻率依實際發聲的音符計算
  * @returns 鍵盤佈局配置
  */
 export function generateKeyboardLayout(
   containerWidth?: number,
-  containerHeight?: number
+  containerHeight?: number,
+  musicalKey: MusicalKey = DEFAULT_MUSICAL_KEY,
+  transposition: number = 0
 ): KeyboardLayout {
   const dimensions = calculateKeyboardDimensions(containerWidth, containerHeight);
   const keys: PianoKeyConfig[] = [];
+  const whiteKeyStep = dimensions.whiteKeyWidth + LAYOUT_CONSTANTS.KEY_GAP;
   
   let whiteKeyIndex = 0;
   
@@ -274,8 +285,15 @@ export function generateKeyboardLayout(
     const { noteName } = parseNoteId(noteId);
     const keyType: KeyType = isBlackKey(noteName) ? 'black' : 'white';
     const pitchRange = getPitchRange(noteId);
-    const frequency = PIANO_FREQUENCIES[noteId];
-    const solfege = getSolfege(noteName.replace('#', '') as NoteName);
+    const soundingNoteId = transposeNoteId(noteId, transposition);
+    const frequency = getNoteFrequency(soundingNoteId);
+    const { solfege, accidental } = getMovableDoSolfege(parseNoteId(soundingNoteId).noteName, musicalKey);
+    
+    // 白鍵依序排列；黑鍵跨在前一個白鍵與下一個白鍵之間
+    const x = keyType === 'white'
+      ? whiteKeyIndex * whiteKeyStep
+      : (whiteKeyIndex - 1) * whiteKeyStep +
+        calculateBlackKeyOffset(noteName, dimensions.whiteKeyWidth, dimensions.blackKeyWidth);
     
     if (keyType === 'white') {
       whiteKeyIndex++;
@@ -284,12 +302,17 @@ export function generateKeyboardLayout(
     const keyConfig: PianoKeyConfig = {
       noteId,
       noteName,
+      soundingNoteId,
       solfege,
+      accidental,
+      solfegeLabel: formatSolfegeLabel(solfege, accidental),
       keyType,
       pitchRange,
       frequency,
       color: getKeyColor(noteId, keyType),
       index,
+      x,
+      width: keyType === 'white' ? dimensions.whiteKeyWidth : dimensions.blackKeyWidth,
     };
     
     keys.push(keyConfig);
@@ -297,7 +320,7 @@ export function generateKeyboardLayout(
   
   return {
     keys,
-    totalWidth: dimensions.keyboardWidth,
+    totalWidth: dimensions.whiteKeyCount * whiteKeyStep - LAYOUT_CONSTANTS.KEY_GAP,
     whiteKeyWidth: dimensions.whiteKeyWidth,
     whiteKeyHeight: dimensions.whiteKeyHeight,
     blackKeyWidth: dimensions.blackKeyWidth,
@@ -0,0 +1,287 @@
+/**
+ * 簡譜鋼琴應用程式 - 鋼琴捲簾編輯
+ *
+ * 本文件提供鋼琴捲簾編輯器的純函數：將音軌的 noteOn/noteOff 事件配對為
+ * 具有起訖時間的音符，對選取的音符做移動、調整長度、刪除與力度調整，
+ * 最後把編輯後的音符寫回錄音。延音踏板等控制事件不在捲簾上編輯，寫回時原樣保留。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { MidiEvent, MidiNoteEvent, NoteId, RecordingData, RecordingTrack } from '../types';
+import { compareMidiEvents } from './midiFile';
+import { getSupportedNotes, midiNumberToNoteId, noteIdToMidiNumber } from './noteFrequencies';
+import { getTracksEndTime } from './recordingTracks';
+
+// ========== 常數定義 ==========
+
+/**
+ * 鋼琴捲簾編輯設定
+ */
+export const PIANO_ROLL_CONSTANTS = {
+  /** 音符的最短長度 (毫秒) */
+  MIN_NOTE_MS: 30,
+  /** 力度範圍 */
+  MIN_VELOCITY: 1,
+  MAX_VELOCITY: 127,
+} as const;
+
+/**
+ * 支援音域的 MIDI 音高範圍 (C3–C6)
+ */
+const SUPPORTED_MIDI_NUMBERS = getSupportedNotes().map(noteIdToMidiNumber);
+const MIN_MIDI_NUMBER = Math.min(...SUPPORTED_MIDI_NUMBERS);
+const MAX_MIDI_NUMBER = Math.max(...SUPPORTED_MIDI_NUMBERS);
+
+// ========== 類型定義 ==========
+
+/**
+ * 鋼琴捲簾上的音符
+ */
+export interface PianoRollNote {
+  /** 音符唯一標識，編輯期間保持不變 */
+  id: string;
+  /** 所屬音軌ID */
+  trackId: string;
+  /** 音高 */
+  noteId: NoteId;
+  /** 按下時間 (毫秒) */
+  start: number;
+  /** 放開時間 (毫秒) */
+  end: number;
+  /** 按鍵力度 (1-127) */
+  velocity: number;
+}
+
+// ========== 事件與音符轉換 ==========
+
+/**
+ * 將音軌事件配對為音符
+ * 同一音高尚未放開又再次按下時，前一個音符在再次按下處結束；錄音結束時仍按住的音符延續到錄音結尾
+ *
+ * @param track 音軌
+ * @param duration 錄音長度 (毫秒)
+ * @returns PianoRollNote[] 依開始時間排序的音符
+ */
+function pairTrackNotes(track: RecordingTrack, duration: number): PianoRollNote[] {
+  const notes: Omit<PianoRollNote, 'id' | 'trackId'>[] = [];
+  const held = new Map<NoteId, { start: number; velocity: number }>();
+  const events = [...track.events].sort(compareMidiEvents);
+
+  for (const event of events) {
+    if (event.type === 'controlChange') {
+      continue;
+    }
+    const previous = held.get(event.noteId);
+    if (previous) {
+      notes.push({ noteId: event.noteId, ...previous, end: event.timestamp });
+      held.delete(event.noteId);
+    }
+    if (event.type === 'noteOn' && event.velocity > 0) {
+      held.set(event.noteId, { start: event.timestamp, velocity: event.velocity });
+    }
+  }
+
+  const end = Math.max(duration, getTracksEndTime([track]));
+  held.forEach((previous, noteId) => notes.push({ noteId, ...previous, end }));
+
+  return notes
+    .sort((a, b) => a.start - b.start || noteIdToMidiNumber(a.noteId) - noteIdToMidiNumber(b.noteId))
+    .map((note, index) => ({ ...note, id: `${track.id}:${index}`, trackId: track.id }));
+}
+
+/**
+ * 將錄音所有音軌的事件配對為鋼琴捲簾音符
+ *
+ * @param recording 錄音資料
+ * @returns PianoRollNote[] 所有音軌的音符，各音軌內依開始時間排序
+ */
+export function createPianoRollNotes(recording: RecordingData): PianoRollNote[] {
+  return recording.tracks.flatMap(track => pairTrackNotes(track, recording.duration));
+}
+
+/**
+ * 將音符轉換回成對的 MIDI 事件
+ * 同一音高的音符重疊時，前一個音符截斷至後一個音符開始；截斷後沒有長度的音符被捨棄
+ *
+ * @param notes 同一音軌的音符
+ * @returns MidiNoteEvent[] 未排序的音符事件
+ */
+function notesToEvents(notes: PianoRollNote[]): MidiNoteEvent[] {
+  const lastByPitch = new Map<NoteId, { start: number; end: number; velocity: number }>();
+  const resolved: { noteId: NoteId; start: number; end: number; velocity: number }[] = [];
+
+  [...notes]
+    .sort((a, b) => a.start - b.start)
+    .forEach(note => {
+      const previous = lastByPitch.get(note.noteId);
+      if (previous && previous.end > note.start) {
+        previous.end = note.start;
+      }
+      const current = { noteId: note.noteId, start: note.start, end: note.end, velocity: note.velocity };
+      lastByPitch.set(note.noteId, current);
+      resolved.push(current);
+    });
+
+  return resolved
+    .filter(note => note.end > note.start)
+    .flatMap(note => [
+      { type: 'noteOn' as const, noteId: note.noteId, timestamp: note.start, velocity: note.velocity },
+      { type: 'noteOff' as const, noteId: note.noteId, timestamp: note.end, velocity: 0 },
+    ]);
+}
+
+/**
+ * 將編輯後的音符寫回錄音
+ * 各音軌的控制事件 (延音踏板) 維持不變，錄音長度延伸到最後一個事件
+ *
+ * @param recording 原始錄音
+ * @param notes 所有音軌的音符
+ * @returns RecordingData 寫回後的錄音，並更新修改時間
+ */
+export function applyPianoRollNotes(recording: RecordingData, notes: PianoRollNote[]): RecordingData {
+  const tracks = recording.tracks.map(track => {
+    const controlEvents = track.events.filter(event => event.type === 'controlChange');
+    const noteEvents = notesToEvents(notes.filter(note => note.trackId === track.id));
+    const events: MidiEvent[] = [...noteEvents, ...controlEvents].sort(compareMidiEvents);
+    return { ...track, events };
+  });
+
+  return {
+    ...recording,
+    tracks,
+    duration: Math.max(recording.duration, getTracksEndTime(tracks)),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * 取得音符中最晚的結束時間
+ *
+ * @param notes 音符
+ * @returns number 結束時間 (毫秒)，沒有音符時為 0
+ */
+export function getPianoRollEndTime(notes: PianoRollNote[]): number {
+  return notes.reduce((end, note) => Math.max(end, note.end), 0);
+}
+
+// ========== 編輯操作 ==========
+
+/**
+ * 移動選取的音符
+ * 位移量會被限制，讓所有選取的音符維持在時間 0 之後與支援的音域內
+ *
+ * @param notes 所有音符
+ * @param selectedIds 選取的音符ID
+ * @param deltaMs 時間位移 (毫秒)
+ * @param deltaSemitones 音高位移 (半音)
+ * @returns PianoRollNote[] 移動後的音符，沒有實際位移時返回原陣列
+ */
+export function moveNotes(
+  notes: PianoRollNote[],
+  selectedIds: ReadonlySet<string>,
+  deltaMs: number,
+  deltaSemitones: number
+): PianoRollNote[] {
+  const selected = notes.filter(note => selectedIds.has(note.id));
+  if (selected.length === 0) {
+    return notes;
+  }
+
+  const earliest = Math.min(...selected.map(note => note.start));
+  const pitches = selected.map(note => noteIdToMidiNumber(note.noteId));
+  const timeShift = Math.max(-earliest, Math.round(deltaMs));
+  const pitchShift = Math.max(
+    MIN_MIDI_NUMBER - Math.min(...pitches),
+    Math.min(MAX_MIDI_NUMBER - Math.max(...pitches), Math.round(deltaSemitones))
+  );
+  if (timeShift === 0 && pitchShift === 0) {
+    return notes;
+  }
+
+  return notes.map(note => {
+    if (!selectedIds.has(note.id)) {
+      return note;
+    }
+    return {
+      ...note,
+      noteId: midiNumberToNoteId(noteIdToMidiNumber(note.noteId) + pitchShift),
+      start: note.start + timeShift,
+      end: note.end + timeShift,
+    };
+  });
+}
+
+/**
+ * 調整選取音符的長度 (移動結束時間)
+ * 每個音符至少保留最短長度
+ *
+ * @param notes 所有音符
+ * @param selectedIds 選取的音符ID
+ * @param deltaMs 結束時間的位移 (毫秒)
+ * @returns PianoRollNote[] 調整後的音符，沒有實際變化時返回原陣列
+ */
+export function resizeNotes(
+  notes: PianoRollNote[],
+  selectedIds: ReadonlySet<string>,
+  deltaMs: number
+): PianoRollNote[] {
+  const shift = Math.round(deltaMs);
+  if (shift === 0 || !notes.some(note => selectedIds.has(note.id))) {
+    return notes;
+  }
+
+  return notes.map(note => {
+    if (!selectedIds.has(note.id)) {
+      return note;
+    }
+    return { ...note, end: Math.max(note.start + PIANO_ROLL_CONSTANTS.MIN_NOTE_MS, note.end + shift) };
+  });
+}
+
+/**
+ * 刪除選取的音符
+ *
+ * @param notes 所有音符
+ * @param selectedIds 選取的音符ID
+ * @returns PianoRollNote[] 刪除後的音符，沒有刪除任何音符時返回原陣列
+ */
+export function deleteNotes(notes: PianoRollNote[], selectedIds: ReadonlySet<string>): PianoRollNote[] {
+  const remaining = notes.filter(note => !selectedIds.has(note.id));
+  return remaining.length === notes.length ? notes : remaining;
+}
+
+/**
+ * 調整選取音符的力度
+ * 以相對量調整，保留多個音符之間的強弱差異
+ *
+ * @param notes 所有音符
+ * @param selectedIds 選取的音符ID
+ * @param delta 力度變化量
+ * @returns PianoRollNote[] 調整後的音符，沒有實際變化時返回原陣列
+ */
+export function changeNotesVelocity(
+  notes: PianoRollNote[],
+  selectedIds: ReadonlySet<string>,
+  delta: number
+): PianoRollNote[] {
+  let changed = false;
+  const updated = notes.map(note => {
+    if (!selectedIds.has(note.id)) {
+      return note;
+    }
+    const velocity = Math.max(
+      PIANO_ROLL_CONSTANTS.MIN_VELOCITY,
+      Math.min(PIANO_ROLL_CONSTANTS.MAX_VELOCITY, Math.round(note.velocity + delta))
+    );
+    if (velocity === note.velocity) {
+      return note;
+    }
+    changed = true;
+    return { ...note, velocity };
+  });
+
+  return changed ? updated : notes;
+}
@@ -0,0 +1,224 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音音軌工具
+ *
+ * 本文件提供多音軌錄音的純函數：建立音軌、依靜音/獨奏判斷音軌是否發聲，
+ * 以及新增、更新與刪除音軌。所有修改都返回新的錄音資料並更新修改時間，
+ * 不會改動傳入的物件。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { MidiEvent, RecordingData, RecordingTrack, SoundType } from '../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * 音軌相關設定
+ */
+export const TRACK_CONSTANTS = {
+  /** 單一錄音最多的音軌數 */
+  MAX_TRACKS: 8,
+  /** 新音軌的預設音量 */
+  DEFAULT_VOLUME: 1,
+  /** 未指定音色時使用的音色 */
+  DEFAULT_SOUND_TYPE: 'piano' as SoundType,
+} as const;
+
+// ========== 建立音軌 ==========
+
+/**
+ * 產生音軌唯一標識
+ *
+ * @returns 音軌ID，例如 "track_1700000000000_k3j9x2"
+ */
+export function generateTrackId(): string {
+  const randomSuffix = Math.random().toString(36).slice(2, 8);
+  return `track_${Date.now()}_${randomSuffix}`;
+}
+
+/**
+ * 產生預設音軌名稱
+ *
+ * @param index 音軌索引 (從 0 開始)
+ * @returns 音軌名稱，例如 "音軌 2"
+ */
+export function createDefaultTrackName(index: number): string {
+  return `音軌 ${index + 1}`;
+}
+
+/**
+ * 將音軌音量限制在 0-1
+ *
+ * @param volume 音量
+ * @returns number 限制後的音量，無效數值時為預設音量
+ */
+export function clampTrackVolume(volume: number): number {
+  if (!Number.isFinite(volume)) {
+    return TRACK_CONSTANTS.DEFAULT_VOLUME;
+  }
+  return Math.max(0, Math.min(1, volume));
+}
+
+/**
+ * 建立音軌
+ *
+ * @param name 音軌名稱
+ * @param events MIDI 事件序列
+ * @param soundType 音色
+ * @returns RecordingTrack 未靜音、未獨奏且為預設音量的音軌
+ */
+export function createTrack(
+  name: string,
+  events: MidiEvent[] = [],
+  soundType: SoundType = TRACK_CONSTANTS.DEFAULT_SOUND_TYPE
+): RecordingTrack {
+  return {
+    id: generateTrackId(),
+    name,
+    soundType,
+    volume: TRACK_CONSTANTS.DEFAULT_VOLUME,
+    muted: false,
+    solo: false,
+    events,
+  };
+}
+
+// ========== 查詢 ==========
+
+/**
+ * 判斷音軌是否發聲
+ * 任一音軌獨奏時只有獨奏的音軌發聲，靜音的音軌即使獨奏也不發聲
+ *
+ * @param track 要判斷的音軌
+ * @param tracks 同一錄音的所有音軌
+ * @returns boolean 是否發聲
+ */
+export function isTrackAudible(track: RecordingTrack, tracks: RecordingTrack[]): boolean {
+  if (track.muted) {
+    return false;
+  }
+  const hasSolo = tracks.some(item => item.solo);
+  return !hasSolo || track.solo;
+}
+
+/**
+ * 取得錄音中所有發聲的音軌
+ *
+ * @param recording 錄音資料
+ * @returns RecordingTrack[] 發聲的音軌
+ */
+export function getAudibleTracks(recording: RecordingData): RecordingTrack[] {
+  return recording.tracks.filter(track => isTrackAudible(track, recording.tracks));
+}
+
+/**
+ * 合併多個音軌的事件 (未排序)
+ *
+ * @param tracks 音軌列表
+ * @returns MidiEvent[] 所有音軌的事件
+ */
+export function getTrackEvents(tracks: RecordingTrack[]): MidiEvent[] {
+  return tracks.flatMap(track => track.events);
+}
+
+/**
+ * 計算錄音的事件總數
+ *
+ * @param recording 錄音資料
+ * @returns number 所有音軌的事件數量合計
+ */
+export function getRecordingEventCount(recording: Pick<RecordingData, 'tracks'>): number {
+  return recording.tracks.reduce((count, track) => count + track.events.length, 0);
+}
+
+/**
+ * 取得音軌中最後一個事件的時間
+ *
+ * @param tracks 音軌列表
+ * @returns number 最後的事件時間戳 (毫秒)，沒有事件時為 0
+ */
+export function getTracksEndTime(tracks: RecordingTrack[]): number {
+  return tracks.reduce(
+    (end, track) => track.events.reduce((max, event) => Math.max(max, event.timestamp), end),
+    0
+  );
+}
+
+// ========== 修改音軌 ==========
+
+/**
+ * 新增音軌到錄音的最後
+ * 錄音長度延伸到新音軌的最後一個事件
+ *
+ * @param recording 錄音資料
+ * @param track 新音軌
+ * @returns RecordingData 新增後的錄音
+ * @throws Error 音軌數已達上限時
+ */
+export function addTrack(recording: RecordingData, track: RecordingTrack): RecordingData {
+  if (recording.tracks.length >= TRACK_CONSTANTS.MAX_TRACKS) {
+    throw new Error(`音軌數已達上限 (${TRACK_CONSTANTS.MAX_TRACKS})`);
+  }
+
+  return {
+    ...recording,
+    tracks: [...recording.tracks, track],
+    duration: Math.max(recording.duration, getTracksEndTime([track])),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * 更新指定音軌的設定或事件
+ *
+ * @param recording 錄音資料
+ * @param trackId 音軌ID
+ * @param changes 要更新的欄位
+ * @returns RecordingData 更新後的錄音，找不到音軌時返回原錄音
+ */
+export function updateTrack(
+  recording: RecordingData,
+  trackId: string,
+  changes: Partial<Omit<RecordingTrack, 'id'>>
+): RecordingData {
+  if (!recording.tracks.some(track => track.id === trackId)) {
+    return recording;
+  }
+
+  const tracks = recording.tracks.map(track => {
+    if (track.id !== trackId) {
+      return track;
+    }
+    const updated = { ...track, ...changes };
+    return changes.volume === undefined ? updated : { ...updated, volume: clampTrackVolume(changes.volume) };
+  });
+
+  return {
+    ...recording,
+    tracks,
+    duration: Math.max(recording.duration, getTracksEndTime(tracks)),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * 刪除指定音軌，錄音至少保留一個音軌
+ *
+ * @param recording 錄音資料
+ * @param trackId 音軌ID
+ * @returns RecordingData 刪除後的錄音，只剩一個音軌或找不到音軌時返回原錄音
+ */
+export function removeTrack(recording: RecordingData, trackId: string): RecordingData {
+  const tracks = recording.tracks.filter(track => track.id !== trackId);
+  if (tracks.length === 0 || tracks.length === recording.tracks.length) {
+    return recording;
+  }
+
+  return {
+    ...recording,
+    tracks,
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音變換
+ *
+ * 本文件提供對錄音整體套用的變換：量化 (含強度與搖擺)、人性化、變更速度、
+ * 移調、力度壓縮與移除過短的音符。所有變換都是純函數，返回新的錄音而不修改原錄音，
+ * 因此可以先套用在副本上預覽，確認後再記錄到編輯歷史中。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { RecordingData } from '../types';
+import { getSupportedNotes, midiNumberToNoteId, noteIdToMidiNumber } from './noteFrequencies';
+import {
+  PIANO_ROLL_CONSTANTS,
+  PianoRollNote,
+  applyPianoRollNotes,
+  createPianoRollNotes,
+} from './pianoRoll';
+import { GRID_STEPS_PER_BEAT, QuantizeGrid, estimateTempo } from './transcription';
+
+// ========== 類型定義 ==========
+
+/**
+ * 錄音變換
+ * - quantize: 將音符起點對齊網格，strength 為移動比例 (0-1)，swing 為反拍在一對格子中的位置 (0.5 為平均)
+ * - humanize: 以隨機量偏移起點與力度，相同的 seed 產生相同的結果
+ * - tempo: 將錄音伸縮到新的速度 (BPM)
+ * - transpose: 移調，超出音域的音符以八度折回
+ * - compressVelocity: 力度超過門檻的部分依比例壓縮
+ * - removeShortNotes: 移除短於指定長度的音符
+ */
+export type RecordingTransform =
+  | { type: 'quantize'; grid: QuantizeGrid; strength: number; swing: number }
+  | { type: 'humanize'; timingMs: number; velocity: number; seed: number }
+  | { type: 'tempo'; tempo: number }
+  | { type: 'transpose'; semitones: number }
+  | { type: 'compressVelocity'; threshold: number; ratio: number }
+  | { type: 'removeShortNotes'; minLengthMs: number };
+
+/**
+ * 錄音變換類型
+ */
+export type RecordingTransformType = RecordingTransform['type'];
+
+// ========== 常數定義 ==========
+
+/**
+ * 錄音變換設定
+ */
+export const TRANSFORM_CONSTANTS = {
+  /** 搖擺範圍：0.5 為平均，2/3 約為三連音搖擺 */
+  MIN_SWING: 0.5,
+  MAX_SWING: 0.75,
+  /** 變更速度的範圍 (BPM) */
+  MIN_TEMPO: 30,
+  MAX_TEMPO: 300,
+} as const;
+
+/**
+ * 各變換的預設參數
+ */
+export const DEFAULT_TRANSFORMS: { [K in RecordingTransformType]: Extract<RecordingTransform, { type: K }> } = {
+  quantize: { type: 'quantize', grid: 'sixteenth', strength: 1, swing: 0.5 },
+  humanize: { type: 'humanize', timingMs: 15, velocity: 10, seed: 1 },
+  tempo: { type: 'tempo', tempo: 120 },
+  transpose: { type: 'transpose', semitones: 0 },
+  compressVelocity: { type: 'compressVelocity', threshold: 80, ratio: 2 },
+  removeShortNotes: { type: 'removeShortNotes', minLengthMs: 50 },
+};
+
+/**
+ * 支援音域的 MIDI 音高範圍
+ */
+const SUPPORTED_MIDI_NUMBERS = getSupportedNotes().map(noteIdToMidiNumber);
+const MIN_MIDI_NUMBER = Math.min(...SUPPORTED_MIDI_NUMBERS);
+const MAX_MIDI_NUMBER = Math.max(...SUPPORTED_MIDI_NUMBERS);
+
+// ========== 工具函數 ==========
+
+/**
+ * 錄音的速度：錄音時的節拍器速度，沒有時自動估計
+ *
+ * @param recording 錄音資料
+ * @returns number 速度 (BPM)
+ */
+export function getRecordingTempo(recording: RecordingData): number {
+  return recording.tempo ?? estimateTempo(recording);
+}
+
+/**
+ * 產生可重現的亂數 (mulberry32)
+ *
+ * @param seed 種子
+ * @returns 每次呼叫返回 0 到 1 之間的數
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 將力度限制在合法範圍
+ */
+function clampVelocity(velocity: number): number {
+  return Math.max(
+    PIANO_ROLL_CONSTANTS.MIN_VELOCITY,
+    Math.min(PIANO_ROLL_CONSTANTS.MAX_VELOCITY, Math.round(velocity))
+  );
+}
+
+/**
+ * 平移音符，保持長度不變且不早於時間 0
+ */
+function shiftNote(note: PianoRollNote, start: number): PianoRollNote {
+  const clamped = Math.max(0, Math.round(start));
+  return { ...note, start: clamped, end: clamped + (note.end - note.start) };
+}
+
+/**
+ * 對指定音軌的音符套用變換，其他音軌維持不變
+ *
+ * @param recording 錄音資料
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @param transform 音符變換
+ * @returns RecordingData 變換後的錄音
+ */
+function transformNotes(
+  recording: RecordingData,
+  trackId: string | null,
+  transform: (notes: PianoRollNote[]) => PianoRollNote[]
+): RecordingData {
+  const notes = createPianoRollNotes(recording);
+  const inScope = (note: PianoRollNote) => trackId === null || note.trackId === trackId;
+  return applyPianoRollNotes(recording, [
+    ...notes.filter(note => !inScope(note)),
+    ...transform(notes.filter(inScope)),
+  ]);
+}
+
+// ========== 變換函數 ==========
+
+/**
+ * 量化：將音符起點往最近的網格點移動，音符長度不變
+ * 搖擺把每對格子中的第二格延後，例如 swing 為 2/3 時八分音符成為三連音節奏
+ *
+ * @param recording 錄音資料
+ * @param options 量化網格、強度 (0-1) 與搖擺 (0.5-0.75)
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 量化後的錄音
+ */
+export function quantizeRecording(
+  recording: RecordingData,
+  options: { grid: QuantizeGrid; strength: number; swing: number },
+  trackId: string | null = null
+): RecordingData {
+  const stepMs = 60000 / getRecordingTempo(recording) / GRID_STEPS_PER_BEAT[options.grid];
+  const strength = Math.max(0, Math.min(1, options.strength));
+  const swing = Math.max(TRANSFORM_CONSTANTS.MIN_SWING, Math.min(TRANSFORM_CONSTANTS.MAX_SWING, options.swing));
+  const pairMs = stepMs * 2;
+
+  const nearestGridPoint = (time: number) => {
+    const pairStart = Math.floor(time / pairMs) * pairMs;
+    const candidates = [pairStart, pairStart + pairMs * swing, pairStart + pairMs];
+    return candidates.reduce((best, point) => (Math.abs(point - time) < Math.abs(best - time) ? point : best));
+  };
+
+  return transformNotes(recording, trackId, notes => notes.map(note => {
+    const target = nearestGridPoint(note.start);
+    return shiftNote(note, note.start + (target - note.start) * strength);
+  }));
+}
+
+/**
+ * 人性化：以均勻分布的隨機量偏移起點與力度
+ *
+ * @param recording 錄音資料
+ * @param options 最大時間偏移 (毫秒)、最大力度偏移與亂數種子
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 人性化後的錄音
+ */
+export function humanizeRecording(
+  recording: RecordingData,
+  options: { timingMs: number; velocity: number; seed: number },
+  trackId: string | null = null
+): RecordingData {
+  const random = createRandom(options.seed);
+  const offset = (amount: number) => (random() * 2 - 1) * amount;
+
+  return transformNotes(recording, trackId, notes => notes.map(note => ({
+    ...shiftNote(note, note.start + offset(options.timingMs)),
+    velocity: clampVelocity(note.velocity + offset(options.velocity)),
+  })));
+}
+
+/**
+ * 變更速度：依新舊速度的比例伸縮所有音軌的事件 (包含踏板)，並更新錄音的速度
+ *
+ * @param recording 錄音資料
+ * @param tempo 新的速度 (BPM)
+ * @returns RecordingData 伸縮後的錄音，速度相同時返回原錄音
+ */
+export function changeRecordingTempo(recording: RecordingData, tempo: number): RecordingData {
+  const target = Math.max(TRANSFORM_CONSTANTS.MIN_TEMPO, Math.min(TRANSFORM_CONSTANTS.MAX_TEMPO, tempo));
+  const current = getRecordingTempo(recording);
+  if (target === current) {
+    return recording;
+  }
+
+  const ratio = current / target;
+  return {
+    ...recording,
+    tracks: recording.tracks.map(track => ({
+      ...track,
+      events: track.events.map(event => ({ ...event, timestamp: Math.round(event.timestamp * ratio) })),
+    })),
+    duration: Math.round(recording.duration * ratio),
+    tempo: target,
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * 移調：超出支援音域的音符以八度折回音域內
+ *
+ * @param recording 錄音資料
+ * @param semitones 半音數
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 移調後的錄音
+ */
+export function transposeRecording(
+  recording: RecordingData,
+  semitones: number,
+  trackId: string | null = null
+): RecordingData {
+  const fold = (midiNumber: number) => {
+    let folded = midiNumber;
+    while (folded > MAX_MIDI_NUMBER) folded -= 12;
+    while (folded < MIN_MIDI_NUMBER) folded += 12;
+    return folded;
+  };
+
+  return transformNotes(recording, trackId, notes => notes.map(note => ({
+    ...note,
+    noteId: midiNumberToNoteId(fold(noteIdToMidiNumber(note.noteId) + Math.round(semitones))),
+  })));
+}
+
+/**
+ * 力度壓縮：超過門檻的力度依比例縮小，縮小強弱差距
+ *
+ * @param recording 錄音資料
+ * @param options 門檻 (1-127) 與壓縮比例 (≥ 1)
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 壓縮後的錄音
+ */
+export function compressRecordingVelocity(
+  recording: RecordingData,
+  options: { threshold: number; ratio: number },
+  trackId: string | null = null
+): RecordingData {
+  const ratio = Math.max(1, options.ratio);
+
+  return transformNotes(recording, trackId, notes => notes.map(note => (
+    note.velocity > options.threshold
+      ? { ...note, velocity: clampVelocity(options.threshold + (note.velocity - options.threshold) / ratio) }
+      : note
+  )));
+}
+
+/**
+ * 移除短於指定長度的音符 (例如誤觸的琴鍵)
+ *
+ * @param recording 錄音資料
+ * @param minLengthMs 最短長度 (毫秒)
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 移除後的錄音
+ */
+export function removeShortNotes(
+  recording: RecordingData,
+  minLengthMs: number,
+  trackId: string | null = null
+): RecordingData {
+  return transformNotes(recording, trackId, notes => notes.filter(note => note.end - note.start >= minLengthMs));
+}
+
+/**
+ * 套用錄音變換
+ * 變更速度作用於整個錄音，其他變換只作用於指定的音軌
+ *
+ * @param recording 錄音資料
+ * @param transform 變換與參數
+ * @param trackId 音軌ID，null 表示所有音軌
+ * @returns RecordingData 變換後的錄音
+ *
+ * @example
+ * ```typescript
+ * const preview = applyRecordingTransform(recording, { type: 'quantize', grid: 'eighth', strength: 0.5, swing: 0.5 });
+ * ```
+ */
+export function applyRecordingTransform(
+  recording: RecordingData,
+  transform: RecordingTransform,
+  trackId: string | null = null
+): RecordingData {
+  switch (transform.type) {
+    case 'quantize':
+      return quantizeRecording(recording, transform, trackId);
+    case 'humanize':
+      return humanizeRecording(recording, transform, trackId);
+    case 'tempo':
+      return changeRecordingTempo(recording, transform.tempo);
+    case 'transpose':
+      return transposeRecording(recording, transform.semitones, trackId);
+    case 'compressVelocity':
+      return compressRecordingVelocity(recording, transform, trackId);
+    case 'removeShortNotes':
+      return removeShortNotes(recording, transform.minLengthMs, trackId);
+  }
+}
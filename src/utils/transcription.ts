@@ -0,0 +1,461 @@
+/**
+ * 簡譜鋼琴應用程式 - 錄音轉簡譜
+ *
+ * 本文件將錄音資料自動轉換為簡譜：先由音符起始間隔估計速度 (錄音帶有節拍器速度時直接採用)，
+ * 再把 MidiEvent 時間戳量化到指定的節奏網格，依音高分佈推斷調性，
+ * 最後以首調唱名將音符換算為相對於該調「1」的簡譜數字與升降記號。
+ * 簡譜為單聲部記譜，和弦只保留最高音 (旋律)；多音軌錄音合併所有發聲的音軌。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type {
+  NoteName,
+  MusicalKey,
+  RecordingData,
+  JianpuKeySignature,
+  TimeSignature,
+  JianpuElement,
+  JianpuMeasure,
+  JianpuScore,
+} from '../types';
+import {
+  NOTE_TO_SEMITONE_OFFSET,
+  noteIdToMidiNumber,
+  noteToMidiNumber,
+} from './noteFrequencies';
+import { getMovableDoSolfege, toJianpuKeySignature } from './keySignature';
+import {
+  JIANPU_CONSTANTS,
+  calculateJianpuBeats,
+  getMeasureCapacity,
+  serializeJianpu,
+} from './jianpu';
+import { getAudibleTracks } from './recordingTracks';
+
+// ========== 類型定義 ==========
+
+/**
+ * 量化網格
+ * - quarter: 以一拍為單位
+ * - eighth: 以半拍為單位
+ * - sixteenth: 以四分之一拍為單位
+ */
+export type QuantizeGrid = 'quarter' | 'eighth' | 'sixteenth';
+
+/**
+ * 轉譜選項
+ */
+export interface TranscriptionOptions {
+  /** 量化網格，預設為 eighth */
+  grid?: QuantizeGrid;
+  /** 拍號，未指定時使用錄音的節拍器拍號，皆無時為 4/4 */
+  timeSignature?: TimeSignature;
+  /** 指定速度 (BPM)，未指定時使用錄音的節拍器速度，皆無時自動估計 */
+  tempo?: number;
+  /** 指定調性，未指定時自動推斷 */
+  key?: MusicalKey;
+  /** 每行的小節數 */
+  measuresPerLine?: number;
+}
+
+/**
+ * 轉譜結果
+ */
+export interface TranscriptionResult {
+  /** 簡譜樂譜 */
+  score: JianpuScore;
+  /** 簡譜文字格式 */
+  text: string;
+  /** 使用的速度 (BPM) */
+  tempo: number;
+  /** 使用的調性 */
+  musicalKey: MusicalKey;
+  /** 對應的簡譜調號 */
+  key: JianpuKeySignature;
+}
+
+/**
+ * 配對後的音符
+ */
+interface PairedNote {
+  midiNumber: number;
+  start: number;
+  end: number;
+}
+
+// ========== 常數定義 ==========
+
+/**
+ * 轉譜相關常數
+ */
+export const TRANSCRIPTION_CONSTANTS = {
+  /** 速度估計的範圍 (BPM) */
+  MIN_TEMPO: 40,
+  MAX_TEMPO: 200,
+  /** 速度估計時偏好的中心速度 */
+  PREFERRED_TEMPO: 100,
+  /** 視為同時按下 (和弦) 的時間差 (毫秒) */
+  CHORD_THRESHOLD_MS: 50,
+  /** 納入速度估計的起始間隔範圍 (毫秒) */
+  MIN_INTERVAL_MS: 100,
+  MAX_INTERVAL_MS: 2000,
+  /** 無法估計時使用的預設速度 */
+  DEFAULT_TEMPO: 90,
+} as const;
+
+/**
+ * 各量化網格每拍的格數
+ */
+export const GRID_STEPS_PER_BEAT: Record<QuantizeGrid, number> = {
+  quarter: 1,
+  eighth: 2,
+  sixteenth: 4,
+};
+
+/**
+ * Krumhansl-Kessler 音級輪廓，用於調性推斷
+ */
+const KEY_PROFILES: Record<MusicalKey['mode'], number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+};
+
+/**
+ * 依半音排列的音符名稱
+ */
+const NOTE_NAMES = Object.keys(NOTE_TO_SEMITONE_OFFSET) as NoteName[];
+
+// ========== 分析函數 ==========
+
+/**
+ * 將錄音事件配對為具有起訖時間的音符
+ * 多音軌錄音只取發聲的音軌，各音軌分別配對，不同音軌的同一音符不會互相截斷
+ */
+function pairRecordingNotes(recording: RecordingData): PairedNote[] {
+  const notes: PairedNote[] = [];
+
+  getAudibleTracks(recording).forEach(track => {
+    const held = new Map<string, { midiNumber: number; start: number }>();
+    const events = [...track.events].sort((a, b) => a.timestamp - b.timestamp);
+    for (const event of events) {
+      // 踏板只影響延音，樂譜上的時值仍以放鍵時間為準
+      if (event.type === 'controlChange') {
+        continue;
+      }
+      if (event.type === 'noteOn') {
+        const previous = held.get(event.noteId);
+        if (previous) {
+          notes.push({ ...previous, end: event.timestamp });
+        }
+        held.set(event.noteId, { midiNumber: noteIdToMidiNumber(event.noteId), start: event.timestamp });
+      } else {
+        const previous = held.get(event.noteId);
+        if (previous) {
+          notes.push({ ...previous, end: event.timestamp });
+          held.delete(event.noteId);
+        }
+      }
+    }
+
+    held.forEach(previous => notes.push({ ...previous, end: recording.duration }));
+  });
+
+  return notes.sort((a, b) => a.start - b.start || b.midiNumber - a.midiNumber);
+}
+
+/**
+ * 擷取旋律：同時按下的和弦只保留最高音，重疊的音符截斷至下一個音符開始
+ */
+function extractMelody(notes: PairedNote[]): PairedNote[] {
+  const melody: PairedNote[] = [];
+
+  for (const note of notes) {
+    const last = melody[melody.length - 1];
+    if (last && note.start - last.start < TRANSCRIPTION_CONSTANTS.CHORD_THRESHOLD_MS) {
+      if (note.midiNumber > last.midiNumber) {
+        melody[melody.length - 1] = { ...note, start: last.start };
+      }
+      continue;
+    }
+    if (last && last.end > note.start) {
+      last.end = note.start;
+    }
+    melody.push({ ...note });
+  }
+
+  return melody;
+}
+
+/**
+ * 由音符起始間隔估計速度
+ * 對候選速度計算起始間隔與半拍網格的平均誤差，並略微偏好常見的中等速度
+ *
+ * @param recording 錄音資料
+ * @returns number 估計的速度 (BPM)
+ */
+export function estimateTempo(recording: RecordingData): number {
+  const onsets = extractMelody(pairRecordingNotes(recording)).map(note => note.start);
+  const intervals = onsets
+    .slice(1)
+    .map((onset, index) => onset - onsets[index])
+    .filter(interval =>
+      interval >= TRANSCRIPTION_CONSTANTS.MIN_INTERVAL_MS &&
+      interval <= TRANSCRIPTION_CONSTANTS.MAX_INTERVAL_MS
+    );
+
+  if (intervals.length === 0) {
+    return TRANSCRIPTION_CONSTANTS.DEFAULT_TEMPO;
+  }
+
+  let bestTempo: number = TRANSCRIPTION_CONSTANTS.DEFAULT_TEMPO;
+  let bestScore = Infinity;
+
+  for (let bpm = TRANSCRIPTION_CONSTANTS.MIN_TEMPO; bpm <= TRANSCRIPTION_CONSTANTS.MAX_TEMPO; bpm++) {
+    const halfBeatMs = 60000 / bpm / 2;
+    const error = intervals.reduce((sum, interval) => {
+      const steps = interval / halfBeatMs;
+      return sum + Math.abs(steps - Math.round(steps)) / Math.max(1, Math.round(steps));
+    }, 0) / intervals.length;
+    const score = error + 0.05 * Math.abs(Math.log2(bpm / TRANSCRIPTION_CONSTANTS.PREFERRED_TEMPO));
+
+    if (score < bestScore) {
+      bestScore = score;
+      bestTempo = bpm;
+    }
+  }
+
+  return bestTempo;
+}
+
+/**
+ * 由音高分佈推斷調性
+ * 以音符時值加權統計音級，再與 24 個大小調的音級輪廓計算相關係數
+ *
+ * @param recording 錄音資料
+ * @returns MusicalKey 推斷的調性
+ */
+export function inferMusicalKey(recording: RecordingData): MusicalKey {
+  const histogram = new Array(12).fill(0);
+  for (const note of pairRecordingNotes(recording)) {
+    histogram[note.midiNumber % 12] += Math.max(note.end - note.start, 1);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const histogramMean = mean(histogram);
+
+  let bestKey: MusicalKey = { tonic: 'C', mode: 'major' };
+  let bestCorrelation = -Infinity;
+
+  for (const mode of ['major', 'minor'] as const) {
+    const profile = KEY_PROFILES[mode];
+    const profileMean = mean(profile);
+
+    for (let tonic = 0; tonic < 12; tonic++) {
+      let numerator = 0;
+      let histogramVariance = 0;
+      let profileVariance = 0;
+
+      for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+        const h = histogram[(tonic + pitchClass) % 12] - histogramMean;
+        const p = profile[pitchClass] - profileMean;
+        numerator += h * p;
+        histogramVariance += h * h;
+        profileVariance += p * p;
+      }
+
+      const correlation = numerator / (Math.sqrt(histogramVariance * profileVariance) || 1);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestKey = { tonic: NOTE_NAMES[tonic], mode };
+      }
+    }
+  }
+
+  return bestKey;
+}
+
+// ========== 樂譜建構 ==========
+
+/**
+ * 將時值 (拍) 拆成可記譜的簡譜元素
+ * 整拍以延音線表示 (休止符則重複 0)，不足一拍的部分以減時線與附點表示
+ */
+function createDurationElements(
+  beats: number,
+  build: (underlines: 0 | 1 | 2, dotted: boolean, dashes: number) => JianpuElement,
+  isRest: boolean
+): JianpuElement[] {
+  if (beats >= 1) {
+    const whole = Math.floor(beats + 1e-6);
+    return isRest
+      ? Array.from({ length: whole }, () => build(0, false, 0))
+      : [build(0, false, whole - 1)];
+  }
+  if (Math.abs(beats - 0.75) < 1e-6) return [build(1, true, 0)];
+  if (Math.abs(beats - 0.5) < 1e-6) return [build(1, false, 0)];
+  return [build(2, false, 0)];
+}
+
+/**
+ * 將一段以格數表示的時值依拍點與小節拆段
+ *
+ * @returns 每段的 [起始格, 格數]
+ */
+function splitSpan(start: number, length: number, stepsPerBeat: number, stepsPerMeasure: number): [number, number][] {
+  const segments: [number, number][] = [];
+  let position = start;
+  let remaining = length;
+
+  while (remaining > 0) {
+    const measureLeft = stepsPerMeasure - (position % stepsPerMeasure);
+    const offBeat = position % stepsPerBeat;
+    let chunk: number;
+
+    if (offBeat !== 0) {
+      chunk = Math.min(remaining, stepsPerBeat - offBeat);
+    } else if (remaining >= stepsPerBeat) {
+      chunk = Math.min(remaining - (remaining % stepsPerBeat), measureLeft);
+    } else {
+      chunk = remaining;
+    }
+
+    segments.push([position, chunk]);
+    position += chunk;
+    remaining -= chunk;
+  }
+
+  return segments;
+}
+
+/**
+ * 將錄音轉換為簡譜
+ *
+ * @param recording 錄音資料
+ * @param options 轉譜選項
+ * @returns TranscriptionResult 樂譜、文字格式與使用的速度與調號
+ *
+ * @example
+ * ```typescript
+ * const { score, text } = transcribeRecording(recording, { grid: 'sixteenth' });
+ * console.log(text);
+ * ```
+ */
+export function transcribeRecording(
+  recording: RecordingData,
+  options: TranscriptionOptions = {}
+): TranscriptionResult {
+  const grid = options.grid ?? 'eighth';
+  const timeSignature = options.timeSignature ?? recording.timeSignature ?? { ...JIANPU_CONSTANTS.DEFAULT_TIME_SIGNATURE };
+  const tempo = options.tempo ?? recording.tempo ?? estimateTempo(recording);
+  const musicalKey = options.key ?? inferMusicalKey(recording);
+  const key = toJianpuKeySignature(musicalKey);
+
+  const stepsPerBeat = GRID_STEPS_PER_BEAT[grid];
+  const stepsPerMeasure = getMeasureCapacity(timeSignature) * stepsPerBeat;
+  const stepMs = 60000 / tempo / stepsPerBeat;
+  const doMidi = noteToMidiNumber(key.tonic, JIANPU_CONSTANTS.TONIC_OCTAVE);
+
+  // 量化旋律音符，以第一個音符為第一拍；
+  // 依節拍器速度錄製時，錄音起點即為第一拍，改以第一個音符所在的小節線為起點
+  const melody = extractMelody(pairRecordingNotes(recording));
+  const firstStart = melody[0]?.start ?? 0;
+  const origin = recording.tempo !== undefined && tempo === recording.tempo
+    ? Math.floor(Math.round(firstStart / stepMs) / stepsPerMeasure) * stepsPerMeasure * stepMs
+    : firstStart;
+  const quantized: { midiNumber: number; start: number; end: number }[] = [];
+
+  for (const note of melody) {
+    const start = Math.round((note.start - origin) / stepMs);
+    const end = Math.max(start + 1, Math.round((note.end - origin) / stepMs));
+    const last = quantized[quantized.length - 1];
+
+    // 量化後起點相同時保留較高的音
+    if (last && start <= last.start) {
+      if (note.midiNumber > last.midiNumber) last.midiNumber = note.midiNumber;
+      continue;
+    }
+    if (last && last.end > start) {
+      last.end = start;
+    }
+    quantized.push({ midiNumber: note.midiNumber, start, end });
+  }
+
+  // 逐段產生元素並依小節分組
+  const measures: JianpuMeasure[] = [];
+  const appendSpan = (start: number, length: number, midiNumber: number | null) => {
+    const segments = splitSpan(start, length, stepsPerBeat, stepsPerMeasure);
+
+    segments.forEach(([segmentStart, segmentLength], segmentIndex) => {
+      const measureIndex = Math.floor(segmentStart / stepsPerMeasure);
+      while (measures.length <= measureIndex) {
+        measures.push({
+          elements: [],
+          barline: 'single',
+          beats: 0,
+          systemIndex: Math.floor(measures.length / (options.measuresPerLine ?? JIANPU_CONSTANTS.DEFAULT_MEASURES_PER_LINE)),
+        });
+      }
+
+      const isLastSegment = segmentIndex === segments.length - 1;
+      const build = (underlines: 0 | 1 | 2, dotted: boolean, dashes: number): JianpuElement => {
+        const beats = calculateJianpuBeats(underlines, dotted, dashes);
+        if (midiNumber === null) {
+          return { kind: 'rest', underlines, dotted, beats, line: 0, column: 0 };
+        }
+
+        const relative = midiNumber - doMidi;
+        const { solfege, accidental } = getMovableDoSolfege(NOTE_NAMES[((midiNumber % 12) + 12) % 12], musicalKey);
+        return {
+          kind: 'note',
+          degree: solfege,
+          accidental,
+          octave: Math.max(-JIANPU_CONSTANTS.MAX_OCTAVE_DOTS, Math.min(JIANPU_CONSTANTS.MAX_OCTAVE_DOTS, Math.floor(relative / 12))),
+          underlines,
+          dotted,
+          dashes,
+          tie: !isLastSegment,
+          beats,
+          line: 0,
+          column: 0,
+        };
+      };
+
+      const elements = createDurationElements(segmentLength / stepsPerBeat, build, midiNumber === null);
+      const measure = measures[measureIndex];
+      measure.elements.push(...elements);
+      measure.beats += elements.reduce((sum, element) => sum + element.beats, 0);
+    });
+  };
+
+  let cursor = 0;
+  for (const note of quantized) {
+    if (note.start > cursor) {
+      appendSpan(cursor, note.start - cursor, null);
+    }
+    appendSpan(note.start, note.end - note.start, note.midiNumber);
+    cursor = note.end;
+  }
+
+  if (measures.length > 0) {
+    measures[measures.length - 1].barline = 'final';
+  }
+
+  const score: JianpuScore = {
+    title: recording.name,
+    key,
+    timeSignature,
+    tempo,
+    measures,
+  };
+
+  return {
+    score,
+    text: serializeJianpu(score),
+    tempo,
+    musicalKey,
+    key,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * 簡譜鋼琴應用程式 - 移調與八度位移
+ *
+ * 鍵盤固定為 C3–C6，移調 (±12 半音) 與八度位移 (±2 八度) 位於琴鍵與
+ * AudioService 之間：琴鍵本身不變，送往音頻服務的是位移後實際發聲的音符。
+ * 錄音與 MIDI 匯出因此記錄實際音高，簡譜標記也依實際發聲的音符計算。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { NoteId, TransposeSettings } from '../types';
+import { noteIdToMidiNumber, midiNumberToNoteId } from './noteFrequencies';
+
+// ========== 常數定義 ==========
+
+/**
+ * 移調範圍
+ */
+export const TRANSPOSE_CONSTANTS = {
+  /** 移調半音數範圍 */
+  MIN_SEMITONES: -12,
+  MAX_SEMITONES: 12,
+  /** 八度位移範圍 */
+  MIN_OCTAVES: -2,
+  MAX_OCTAVES: 2,
+} as const;
+
+/**
+ * 預設不移調
+ */
+export const DEFAULT_TRANSPOSE: TransposeSettings = {
+  semitones: 0,
+  octaves: 0,
+};
+
+// ========== 工具函數 ==========
+
+/**
+ * 限制移調設定在合法範圍內
+ */
+export function normalizeTranspose(settings: Partial<TransposeSettings> = {}): TransposeSettings {
+  const clamp = (value: number | undefined, min: number, max: number) =>
+    Number.isFinite(value) ? Math.max(min, Math.min(max, Math.round(value!))) : 0;
+
+  return {
+    semitones: clamp(settings.semitones, TRANSPOSE_CONSTANTS.MIN_SEMITONES, TRANSPOSE_CONSTANTS.MAX_SEMITONES),
+    octaves: clamp(settings.octaves, TRANSPOSE_CONSTANTS.MIN_OCTAVES, TRANSPOSE_CONSTANTS.MAX_OCTAVES),
+  };
+}
+
+/**
+ * 計算總位移 (半音)
+ *
+ * @param settings 移調設定，未提供時視為不移調
+ * @returns number 半音數
+ */
+export function getTransposeOffset(settings: TransposeSettings = DEFAULT_TRANSPOSE): number {
+  return settings.semitones + settings.octaves * 12;
+}
+
+/**
+ * 將音符位移指定的半音數
+ *
+ * @param noteId 音符ID
+ * @param offset 半音數
+ * @returns NoteId 位移後的音符
+ *
+ * @example
+ * ```typescript
+ * transposeNoteId('C4', 2);   // 'D4'
+ * transposeNoteId('C4', -14); // 'A#2'
+ * ```
+ */
+export function transposeNoteId(noteId: NoteId, offset: number): NoteId {
+  return offset === 0 ? noteId : midiNumberToNoteId(noteIdToMidiNumber(noteId) + offset);
+}
+
+/**
+ * 帶正負號的數字
+ *
+ * @example
+ * ```typescript
+ * formatSigned(2);  // '+2'
+ * formatSigned(-1); // '-1'
+ * ```
+ */
+export function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+/**
+ * 移調設定的簡短顯示文字
+ *
+ * @param settings 移調設定
+ * @returns string 例如 '+2'、'-3 / 8va'、'0 / 15mb'
+ */
+export function formatTranspose(settings: TransposeSettings): string {
+  if (settings.octaves === 0) {
+    return formatSigned(settings.semitones);
+  }
+  const octaveLabel = `${Math.abs(settings.octaves) === 2 ? '15m' : '8v'}${settings.octaves > 0 ? 'a' : 'b'}`;
+  return `${formatSigned(settings.semitones)} / ${octaveLabel}`;
+}
+
+/**
+ * 判斷兩個移調設定是否相同
+ */
+export function isSameTranspose(a: TransposeSettings, b: TransposeSettings): boolean {
+  return a.semitones === b.semitones && a.octaves === b.octaves;
+}
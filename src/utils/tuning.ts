@@ -0,0 +1,396 @@
+/**
+ * 簡譜鋼琴應用程式 - 調律系統
+ *
+ * 本文件提供十二平均律以外的調律：可調整 A4 基準頻率 (415–466Hz)，
+ * 並支援純律、五度相生律 (三分損益)、四分之一音差中全音律，
+ * 以及使用者提供的 Scala 音階檔 (.scl) 與鍵盤對應檔 (.kbm)。
+ * 各調律以「相對於主音的音分」描述，再以 A4 (或 .kbm 的參考音) 定出絕對頻率。
+ *
+ * 本模組只包含純函數，目前使用中的調律由 noteFrequencies 持有。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { Temperament, TuningSettings } from '../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * 調律常數
+ */
+export const TUNING_CONSTANTS = {
+  /** A4 基準頻率範圍 (Hz)：巴洛克音高 415 至高音高 466 */
+  MIN_REFERENCE: 415,
+  MAX_REFERENCE: 466,
+  /** 國際標準音高 (Hz) */
+  DEFAULT_REFERENCE: 440,
+  /** A4 的 MIDI 編號 */
+  A4_MIDI_NUMBER: 69,
+  /** C4 的 MIDI 編號，未提供 .kbm 時主音位於此八度 */
+  C4_MIDI_NUMBER: 60,
+  /** MIDI 音符範圍 */
+  MIN_MIDI_NUMBER: 0,
+  MAX_MIDI_NUMBER: 127,
+  /** 一個八度的音分數 */
+  CENTS_PER_OCTAVE: 1200,
+  /** Scala 音階的音級數上限，防止異常檔案 */
+  MAX_SCALE_SIZE: 1024,
+} as const;
+
+/**
+ * 調律系統的顯示名稱
+ */
+export const TEMPERAMENT_LABELS: Record<Temperament, string> = {
+  equal: '平均律',
+  just: '純律',
+  pythagorean: '五度相生律',
+  meantone: '中全音律',
+  scala: 'Scala',
+};
+
+/**
+ * 預設調音：A4 = 440Hz 的十二平均律
+ */
+export const DEFAULT_TUNING_SETTINGS: TuningSettings = {
+  referenceFrequency: TUNING_CONSTANTS.DEFAULT_REFERENCE,
+  temperament: 'equal',
+  tonic: 'C',
+  scala: null,
+};
+
+/**
+ * 比例轉換為音分
+ */
+const ratioToCents = (ratio: number): number => TUNING_CONSTANTS.CENTS_PER_OCTAVE * Math.log2(ratio);
+
+/**
+ * 以五度數產生音分表
+ * 第 i 個元素為主音上方 i 個半音的音級，由主音往上 (正) 或往下 (負) 疊幾個五度得到
+ */
+const centsFromFifths = (fifth: number, fifthsPerDegree: number[]): number[] =>
+  fifthsPerDegree.map(count => {
+    const cents = (count * fifth) % TUNING_CONSTANTS.CENTS_PER_OCTAVE;
+    return cents < 0 ? cents + TUNING_CONSTANTS.CENTS_PER_OCTAVE : cents;
+  });
+
+/**
+ * 十二音調律相對於主音的音分 (索引為主音上方的半音數)
+ */
+export const TEMPERAMENT_CENTS: Record<Exclude<Temperament, 'scala'>, number[]> = {
+  equal: Array.from({ length: 12 }, (_, i) => i * 100),
+  // 五限純律
+  just: [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8].map(ratioToCents),
+  // 純五度 3:2 由降 D 疊至升 F
+  pythagorean: centsFromFifths(ratioToCents(3 / 2), [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5]),
+  // 四分之一音差中全音律：五度縮小使大三度為純律 5:4，由降 E 疊至升 G
+  meantone: centsFromFifths(ratioToCents(5) / 4, [0, 7, 2, -3, 4, -1, 6, 1, 8, 3, -2, 5]),
+};
+
+// ========== 類型定義 ==========
+
+/**
+ * 解析後的 Scala 音階
+ */
+export interface ScalaScale {
+  /** 描述 */
+  description: string;
+  /** 第 1 至第 n 音級相對於第 0 音級的音分，最後一個音級為週期 (通常為八度) */
+  pitches: number[];
+}
+
+/**
+ * 解析後的 Scala 鍵盤對應
+ */
+export interface KeyboardMapping {
+  /** 對應樣式的長度，0 表示線性對應 */
+  size: number;
+  /** 調律生效的 MIDI 音符範圍 */
+  firstNote: number;
+  lastNote: number;
+  /** 對應到第 0 音級的 MIDI 音符 */
+  middleNote: number;
+  /** 參考音與其頻率 */
+  referenceNote: number;
+  referenceFrequency: number;
+  /** 每重複一次對應樣式所跨越的音級數 */
+  octaveDegree: number;
+  /** 對應樣式，null 表示不使用的琴鍵 */
+  mapping: (number | null)[];
+}
+
+/**
+ * 調律函數：MIDI 音符編號轉換為頻率 (Hz)
+ */
+export type TuningFunction = (midiNumber: number) => number;
+
+// ========== Scala 檔案解析 ==========
+
+/**
+ * 取出 Scala 檔案中的有效列 (去除 ! 開頭的註解列)
+ */
+function getScalaLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('!'));
+}
+
+/**
+ * 解析整數欄位
+ */
+function parseInteger(line: string | undefined, field: string): number {
+  const value = Number((line ?? '').trim().split(/\s+/)[0]);
+  if (!Number.isInteger(value)) {
+    throw new Error(`無效的${field}: ${line ?? '(缺少)'}`);
+  }
+  return value;
+}
+
+/**
+ * 解析 MIDI 音符欄位
+ */
+function parseMidiNote(line: string | undefined, field: string): number {
+  const value = parseInteger(line, field);
+  if (value < TUNING_CONSTANTS.MIN_MIDI_NUMBER || value > TUNING_CONSTANTS.MAX_MIDI_NUMBER) {
+    throw new Error(`${field}超出 MIDI 範圍: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * 解析 .scl 的音高列
+ * 含小數點者為音分，否則為比例 (例如 3/2) 或整數
+ */
+function parseScalaPitch(line: string): number {
+  const token = line.trim().split(/\s+/)[0] ?? '';
+
+  if (token.includes('.')) {
+    const cents = Number(token);
+    if (!Number.isFinite(cents)) {
+      throw new Error(`無效的音分值: ${token}`);
+    }
+    return cents;
+  }
+
+  const match = token.match(/^(\d+)(?:\/(\d+))?$/);
+  const numerator = match ? Number(match[1]) : NaN;
+  const denominator = match?.[2] ? Number(match[2]) : 1;
+  if (!(numerator > 0 && denominator > 0)) {
+    throw new Error(`無效的音程比例: ${token || '(空白)'}`);
+  }
+  return ratioToCents(numerator / denominator);
+}
+
+/**
+ * 解析 Scala 音階檔 (.scl)
+ *
+ * @param text .scl 檔案內容
+ * @returns 解析後的音階
+ * @throws Error 檔案格式無效時
+ *
+ * @example
+ * ```typescript
+ * const scale = parseScalaScale('! 五聲\n五聲音階\n5\n9/8\n5/4\n3/2\n5/3\n2/1\n');
+ * // scale.pitches ≈ [203.9, 386.3, 702.0, 884.4, 1200]
+ * ```
+ */
+export function parseScalaScale(text: string): ScalaScale {
+  const lines = getScalaLines(text);
+  if (lines.length < 2) {
+    throw new Error('不是有效的 Scala 音階檔 (缺少描述或音級數)');
+  }
+
+  const description = lines[0].trim();
+  const count = parseInteger(lines[1], '音級數');
+  if (count < 1 || count > TUNING_CONSTANTS.MAX_SCALE_SIZE) {
+    throw new Error(`音級數必須介於 1 到 ${TUNING_CONSTANTS.MAX_SCALE_SIZE}: ${count}`);
+  }
+
+  const pitchLines = lines.slice(2).filter(line => line.trim() !== '');
+  if (pitchLines.length < count) {
+    throw new Error(`音階檔宣告 ${count} 個音級，但只有 ${pitchLines.length} 個`);
+  }
+
+  const pitches = pitchLines.slice(0, count).map(parseScalaPitch);
+  if (pitches[pitches.length - 1] <= 0) {
+    throw new Error('音階的週期 (最後一個音級) 必須高於第 0 音級');
+  }
+
+  return { description, pitches };
+}
+
+/**
+ * 解析 Scala 鍵盤對應檔 (.kbm)
+ *
+ * @param text .kbm 檔案內容
+ * @returns 解析後的鍵盤對應
+ * @throws Error 檔案格式無效時
+ */
+export function parseKeyboardMapping(text: string): KeyboardMapping {
+  const lines = getScalaLines(text).filter(line => line.trim() !== '');
+  if (lines.length < 7) {
+    throw new Error('不是有效的 Scala 鍵盤對應檔 (標頭欄位不足)');
+  }
+
+  const size = parseInteger(lines[0], '對應樣式長度');
+  if (size < 0 || size > TUNING_CONSTANTS.MAX_SCALE_SIZE) {
+    throw new Error(`無效的對應樣式長度: ${size}`);
+  }
+
+  const referenceFrequency = Number(lines[5].trim().split(/\s+/)[0]);
+  if (!(referenceFrequency > 0)) {
+    throw new Error(`無效的參考頻率: ${lines[5]}`);
+  }
+
+  const octaveDegree = parseInteger(lines[6], '週期音級');
+  if (octaveDegree < 0) {
+    throw new Error(`無效的週期音級: ${octaveDegree}`);
+  }
+
+  // 對應列少於樣式長度時，其餘視為不使用的琴鍵
+  const mapping = Array.from({ length: size }, (_, i) => {
+    const line = lines[7 + i]?.trim();
+    if (!line || line.startsWith('x')) return null;
+    const degree = parseInteger(line, '對應音級');
+    if (degree < 0) {
+      throw new Error(`無效的對應音級: ${degree}`);
+    }
+    return degree;
+  });
+
+  return {
+    size,
+    firstNote: parseMidiNote(lines[1], '起始音符'),
+    lastNote: parseMidiNote(lines[2], '結束音符'),
+    middleNote: parseMidiNote(lines[3], '中央音符'),
+    referenceNote: parseMidiNote(lines[4], '參考音符'),
+    referenceFrequency,
+    octaveDegree,
+    mapping,
+  };
+}
+
+// ========== 調律函數 ==========
+
+/**
+ * 限制調音設定在合法範圍內並補齊預設值
+ * Scala 調律缺少音階檔時退回平均律
+ */
+export function normalizeTuningSettings(settings: Partial<TuningSettings> = {}): TuningSettings {
+  const defaults = DEFAULT_TUNING_SETTINGS;
+  const referenceFrequency = Number.isFinite(settings.referenceFrequency)
+    ? Math.max(TUNING_CONSTANTS.MIN_REFERENCE, Math.min(TUNING_CONSTANTS.MAX_REFERENCE, settings.referenceFrequency!))
+    : defaults.referenceFrequency;
+  const scala = settings.scala ?? null;
+  const temperament = settings.temperament && settings.temperament in TEMPERAMENT_LABELS
+    ? settings.temperament
+    : defaults.temperament;
+
+  return {
+    referenceFrequency,
+    temperament: temperament === 'scala' && !scala ? 'equal' : temperament,
+    tonic: settings.tonic ?? defaults.tonic,
+    scala,
+  };
+}
+
+/**
+ * 計算 Scala 音階中某個音級相對於第 0 音級的音分
+ * 超出一個週期的音級以週期向上或向下延伸
+ */
+function getScaleDegreeCents(scale: ScalaScale, degree: number): number {
+  const size = scale.pitches.length;
+  const period = scale.pitches[size - 1];
+  const cycles = Math.floor(degree / size);
+  const index = degree - cycles * size;
+  return cycles * period + (index === 0 ? 0 : scale.pitches[index - 1]);
+}
+
+/**
+ * 建立 Scala 調律的音分函數
+ * 未提供 .kbm 時，主音 (C4 所在八度) 對應第 0 音級並逐鍵線性對應，A4 為參考音
+ */
+function createScalaCents(
+  scale: ScalaScale,
+  keyboard: KeyboardMapping
+): (midiNumber: number) => number | null {
+  const octaveDegree = keyboard.octaveDegree || scale.pitches.length;
+
+  return (midiNumber: number) => {
+    if (midiNumber < keyboard.firstNote || midiNumber > keyboard.lastNote) return null;
+
+    const offset = midiNumber - keyboard.middleNote;
+    if (keyboard.size === 0) {
+      return getScaleDegreeCents(scale, offset);
+    }
+
+    const repeats = Math.floor(offset / keyboard.size);
+    const degree = keyboard.mapping[offset - repeats * keyboard.size];
+    return degree === null ? null : getScaleDegreeCents(scale, repeats * octaveDegree + degree);
+  };
+}
+
+/**
+ * 建立調律函數
+ *
+ * 十二音調律以主音為起點查表得到各鍵的音分，再使 A4 等於基準頻率；
+ * Scala 調律依 .kbm 決定參考音與頻率。.kbm 未對應的琴鍵以平均律發聲，
+ * 避免鍵盤上出現無聲的琴鍵。
+ *
+ * @param settings 調音設定
+ * @param tonicSemitone 主音相對於 C 的半音數 (0-11)
+ * @returns 調律函數
+ * @throws Error Scala 檔案格式無效時
+ *
+ * @example
+ * ```typescript
+ * const tune = createTuning({ ...DEFAULT_TUNING_SETTINGS, temperament: 'just' }, 0);
+ * tune(64); // E4 ≈ 327.03 (C 大調的純律大三度)
+ * ```
+ */
+export function createTuning(settings: TuningSettings, tonicSemitone: number): TuningFunction {
+  let getCents: (midiNumber: number) => number | null;
+  let referenceNote: number = TUNING_CONSTANTS.A4_MIDI_NUMBER;
+  let referenceFrequency = settings.referenceFrequency;
+
+  if (settings.temperament === 'scala' && settings.scala) {
+    const scale = parseScalaScale(settings.scala.scl);
+    const tonicNote = TUNING_CONSTANTS.C4_MIDI_NUMBER + tonicSemitone;
+    const keyboard: KeyboardMapping = settings.scala.kbm
+      ? parseKeyboardMapping(settings.scala.kbm)
+      : {
+        size: 0,
+        firstNote: TUNING_CONSTANTS.MIN_MIDI_NUMBER,
+        lastNote: TUNING_CONSTANTS.MAX_MIDI_NUMBER,
+        middleNote: tonicNote,
+        referenceNote: TUNING_CONSTANTS.A4_MIDI_NUMBER,
+        referenceFrequency: settings.referenceFrequency,
+        octaveDegree: 0,
+        mapping: [],
+      };
+
+    getCents = createScalaCents(scale, keyboard);
+    referenceNote = keyboard.referenceNote;
+    referenceFrequency = keyboard.referenceFrequency;
+  } else {
+    const table = TEMPERAMENT_CENTS[settings.temperament === 'scala' ? 'equal' : settings.temperament];
+    getCents = (midiNumber: number) => {
+      const fromTonic = midiNumber - tonicSemitone;
+      const octave = Math.floor(fromTonic / 12);
+      return octave * TUNING_CONSTANTS.CENTS_PER_OCTAVE + table[fromTonic - octave * 12];
+    };
+  }
+
+  const referenceCents = getCents(referenceNote);
+  if (referenceCents === null) {
+    throw new Error(`參考音符 ${referenceNote} 沒有對應到任何音級`);
+  }
+
+  return (midiNumber: number) => {
+    const cents = getCents(midiNumber);
+    return cents === null
+      ? referenceFrequency * Math.pow(2, (midiNumber - referenceNote) / 12)
+      : referenceFrequency * Math.pow(2, (cents - referenceCents) / TUNING_CONSTANTS.CENTS_PER_OCTAVE);
+  };
+}
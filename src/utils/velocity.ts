@@ -0,0 +1,149 @@
+/**
+ * 簡譜鋼琴應用程式 - 觸控力度感應
+ *
+ * 本文件負責把觸控資訊換算為 MIDI 力度：手指落在琴鍵上的位置
+ * (越靠近琴鍵前緣越大聲，如同真實鋼琴的槓桿) 為主要依據，
+ * 平台有回報觸控壓力時再與壓力混合，最後經過使用者設定的校正曲線。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { VelocityCurve, VelocityCalibration } from '../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * 力度感應常數
+ */
+export const VELOCITY_CONSTANTS = {
+  /** MIDI 力度範圍 */
+  MIN_VELOCITY: 1,
+  MAX_VELOCITY: 127,
+  /** 有觸控壓力時，壓力所佔的比重 */
+  FORCE_WEIGHT: 0.5,
+  /** 各曲線的指數 (強度 ^ 指數) */
+  CURVE_EXPONENTS: {
+    soft: 0.5,
+    linear: 1,
+    hard: 2,
+    fixed: 1,
+  } as Record<VelocityCurve, number>,
+} as const;
+
+/**
+ * 力度曲線的顯示名稱
+ */
+export const VELOCITY_CURVE_LABELS: Record<VelocityCurve, string> = {
+  soft: '輕柔',
+  linear: '標準',
+  hard: '厚重',
+  fixed: '固定',
+};
+
+/**
+ * 預設力度校正
+ */
+export const DEFAULT_VELOCITY_CALIBRATION: VelocityCalibration = {
+  curve: 'linear',
+  minVelocity: 30,
+  maxVelocity: 127,
+  fixedVelocity: 100,
+};
+
+// ========== 類型定義 ==========
+
+/**
+ * 觸控資訊
+ */
+export interface TouchSample {
+  /** 觸控點相對於琴鍵頂端的垂直位置 */
+  locationY: number;
+  /** 琴鍵高度 */
+  keyHeight: number;
+  /** 觸控壓力 (0-1)，平台未回報時為 undefined */
+  force?: number;
+}
+
+// ========== 工具函數 ==========
+
+/**
+ * 限制力度在 MIDI 範圍內
+ */
+export function clampVelocity(velocity: number): number {
+  return Math.round(Math.max(VELOCITY_CONSTANTS.MIN_VELOCITY, Math.min(VELOCITY_CONSTANTS.MAX_VELOCITY, velocity)));
+}
+
+/**
+ * 取得平台回報的觸控壓力
+ * iOS 在支援壓力感應的裝置上回報 0-1 的 force；不支援時固定為 0，
+ * Android 則可能固定回報 1，這些情況都視為沒有壓力資訊
+ *
+ * @param nativeEvent 觸控事件的 nativeEvent
+ * @returns 觸控壓力 (0-1)，無法取得時為 undefined
+ */
+export function getTouchForce(nativeEvent: { force?: number }): number | undefined {
+  const { force } = nativeEvent;
+  if (typeof force !== 'number' || !Number.isFinite(force) || force <= 0 || force >= 1) {
+    return undefined;
+  }
+  return force;
+}
+
+/**
+ * 計算觸控強度 (0-1)
+ *
+ * @param sample 觸控資訊
+ * @returns 觸控強度，琴鍵前緣為 1
+ */
+export function calculateTouchIntensity(sample: TouchSample): number {
+  const position = sample.keyHeight > 0
+    ? Math.max(0, Math.min(1, sample.locationY / sample.keyHeight))
+    : 1;
+
+  if (sample.force === undefined) {
+    return position;
+  }
+
+  const weight = VELOCITY_CONSTANTS.FORCE_WEIGHT;
+  return position * (1 - weight) + Math.max(0, Math.min(1, sample.force)) * weight;
+}
+
+/**
+ * 依校正曲線將觸控強度轉換為力度
+ *
+ * @param intensity 觸控強度 (0-1)
+ * @param calibration 力度校正設定
+ * @returns MIDI 力度 (1-127)
+ */
+export function applyVelocityCurve(intensity: number, calibration: VelocityCalibration): number {
+  if (calibration.curve === 'fixed') {
+    return clampVelocity(calibration.fixedVelocity);
+  }
+
+  const exponent = VELOCITY_CONSTANTS.CURVE_EXPONENTS[calibration.curve];
+  const shaped = Math.pow(Math.max(0, Math.min(1, intensity)), exponent);
+  const low = clampVelocity(Math.min(calibration.minVelocity, calibration.maxVelocity));
+  const high = clampVelocity(Math.max(calibration.minVelocity, calibration.maxVelocity));
+  return clampVelocity(low + (high - low) * shaped);
+}
+
+/**
+ * 由觸控資訊計算力度
+ *
+ * @param sample 觸控資訊
+ * @param calibration 力度校正設定
+ * @returns MIDI 力度 (1-127)
+ *
+ * @example
+ * ```typescript
+ * calculateTouchVelocity({ locationY: 180, keyHeight: 200 }, DEFAULT_VELOCITY_CALIBRATION); // 117
+ * ```
+ */
+export function calculateTouchVelocity(
+  sample: TouchSample,
+  calibration: VelocityCalibration = DEFAULT_VELOCITY_CALIBRATION
+): number {
+  return applyVelocityCurve(calculateTouchIntensity(sample), calibration);
+}
@@ -0,0 +1,118 @@
+/**
+ * 簡譜鋼琴應用程式 - WAV 檔案工具
+ *
+ * 本文件將渲染完成的音訊樣本編碼為 RIFF/WAVE 檔案 (16-bit 線性 PCM)，
+ * 多聲道樣本依聲道交錯排列，讓離線渲染的錄音能以一般播放器開啟與分享。
+ *
+ * @author Claude Code
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { RecordingData } from '../types';
+
+// ========== 常數定義 ==========
+
+/**
+ * WAV 檔案相關常數
+ */
+export const WAV_FILE_CONSTANTS = {
+  /** 預設取樣率 (Hz) */
+  SAMPLE_RATE: 44100,
+  /** 每個樣本的位元數 */
+  BITS_PER_SAMPLE: 16,
+  /** RIFF 標頭 + fmt 區塊 + data 區塊標頭的長度 (位元組) */
+  HEADER_SIZE: 44,
+  /** fmt 區塊中線性 PCM 的格式代碼 */
+  PCM_FORMAT: 1,
+} as const;
+
+// ========== 編碼函數 ==========
+
+/**
+ * 寫入 4 個字元的區塊識別碼
+ */
+function writeChunkId(view: DataView, offset: number, id: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, id.charCodeAt(i));
+  }
+}
+
+/**
+ * 將浮點樣本 (-1 ~ 1) 轉換為 16-bit 整數，超出範圍的樣本被截斷
+ */
+function toInt16(sample: number): number {
+  const clamped = Math.max(-1, Math.min(1, Number.isFinite(sample) ? sample : 0));
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7fff);
+}
+
+/**
+ * 將音訊樣本編碼為 16-bit PCM WAV 檔案
+ *
+ * @param channels 各聲道的浮點樣本 (-1 ~ 1)，長度以最短的聲道為準
+ * @param sampleRate 取樣率 (Hz)
+ * @returns Uint8Array .wav 檔案的二進位內容
+ *
+ * @example
+ * ```typescript
+ * const bytes = encodeWavFile([left, right], 44100);
+ * ```
+ */
+export function encodeWavFile(
+  channels: Float32Array[],
+  sampleRate: number = WAV_FILE_CONSTANTS.SAMPLE_RATE
+): Uint8Array {
+  if (channels.length === 0) {
+    throw new Error('WAV 檔案至少需要一個聲道');
+  }
+
+  const channelCount = channels.length;
+  const frameCount = Math.min(...channels.map(channel => channel.length));
+  const bytesPerSample = WAV_FILE_CONSTANTS.BITS_PER_SAMPLE / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+
+  const buffer = new ArrayBuffer(WAV_FILE_CONSTANTS.HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF 標頭
+  writeChunkId(view, 0, 'RIFF');
+  view.setUint32(4, WAV_FILE_CONSTANTS.HEADER_SIZE - 8 + dataSize, true);
+  writeChunkId(view, 8, 'WAVE');
+
+  // fmt 區塊
+  writeChunkId(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAV_FILE_CONSTANTS.PCM_FORMAT, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, WAV_FILE_CONSTANTS.BITS_PER_SAMPLE, true);
+
+  // data 區塊：各聲道樣本交錯排列
+  writeChunkId(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = WAV_FILE_CONSTANTS.HEADER_SIZE;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      view.setInt16(offset, toInt16(channels[channel][frame]), true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * 產生錄音匯出為音檔時使用的檔案名稱
+ *
+ * @param recording 錄音資料
+ * @returns 檔案名稱，例如 "錄音 2025-08-31 14-05.wav"
+ */
+export function getWavFileName(recording: RecordingData): string {
+  // 移除檔案系統不允許的字元
+  const safeName = recording.name.replace(/[\\/:*?"<>|]/g, '-').trim() || recording.id;
+  return `${safeName}.wav`;
+}